@@ -0,0 +1,152 @@
+// Paths are JSONPaths relative to the item that changed, e.g. "$.body.rules[0].then.score"
+export interface DiffEntry {
+  path: string;
+  op: "added" | "removed" | "changed";
+  from?: any;
+  to?: any;
+}
+
+export interface KeyedDiff<C> {
+  added: string[];
+  removed: string[];
+  changed: C[];
+}
+
+export interface FieldChange {
+  name: string;
+  changes: DiffEntry[];
+}
+
+export interface EntityChange {
+  id: string;
+  // Entity properties other than fields
+  changes: DiffEntry[];
+  fields: KeyedDiff<FieldChange>;
+}
+
+export interface RuleChange {
+  // "<ruleId>@<version>"
+  key: string;
+  changes: DiffEntry[];
+}
+
+export interface WorkflowChange {
+  // "<workflowId>@<version>"
+  key: string;
+  changes: DiffEntry[];
+  steps: KeyedDiff<{ id: string; changes: DiffEntry[] }>;
+}
+
+export interface SpecDiff {
+  entities: KeyedDiff<EntityChange>;
+  rules: KeyedDiff<RuleChange>;
+  workflows: KeyedDiff<WorkflowChange>;
+  // app, nonFunctional, relations, integrations, ui, deployment
+  other: DiffEntry[];
+  // Entities, rules and workflows; `other` counts the entries in `other`
+  summary: { added: number; removed: number; changed: number; other: number };
+}
+
+function isPlainObject(v: any): v is Record<string, any> {
+  return v !== null && typeof v === "object" && !Array.isArray(v);
+}
+
+export function diffJson(a: any, b: any, path = "$"): DiffEntry[] {
+  if (Array.isArray(a) && Array.isArray(b)) {
+    const changes: DiffEntry[] = [];
+    for (let i = 0; i < Math.max(a.length, b.length); i++) {
+      const p = `${path}[${i}]`;
+      if (i >= a.length) changes.push({ path: p, op: "added", to: b[i] });
+      else if (i >= b.length) changes.push({ path: p, op: "removed", from: a[i] });
+      else changes.push(...diffJson(a[i], b[i], p));
+    }
+    return changes;
+  }
+
+  if (isPlainObject(a) && isPlainObject(b)) {
+    const changes: DiffEntry[] = [];
+    for (const key of new Set([...Object.keys(a), ...Object.keys(b)])) {
+      const p = `${path}.${key}`;
+      if (!(key in a) || a[key] === undefined) {
+        if (b[key] !== undefined) changes.push({ path: p, op: "added", to: b[key] });
+      } else if (!(key in b) || b[key] === undefined) changes.push({ path: p, op: "removed", from: a[key] });
+      else changes.push(...diffJson(a[key], b[key], p));
+    }
+    return changes;
+  }
+
+  return JSON.stringify(a) === JSON.stringify(b) ? [] : [{ path, op: "changed", from: a, to: b }];
+}
+
+function without(obj: any, key: string) {
+  const { [key]: _omit, ...rest } = isPlainObject(obj) ? obj : {};
+  return rest;
+}
+
+// Matches items by key, so reordering a list is not reported as a change
+function diffKeyed<T, C>(before: T[], after: T[], keyOf: (item: T) => string, compare: (key: string, a: T, b: T) => C | null): KeyedDiff<C> {
+  const a = new Map(before.map(x => [keyOf(x), x]));
+  const b = new Map(after.map(x => [keyOf(x), x]));
+  const changed: C[] = [];
+  for (const [key, item] of b) {
+    const prev = a.get(key);
+    if (prev === undefined) continue;
+    const change = compare(key, prev, item);
+    if (change) changed.push(change);
+  }
+  return {
+    added: [...b.keys()].filter(k => !a.has(k)),
+    removed: [...a.keys()].filter(k => !b.has(k)),
+    changed
+  };
+}
+
+const list = (v: any): any[] => Array.isArray(v) ? v : [];
+
+// Structural diff of two canonical specs (or the partial specs stored on projects); upgrade both first
+export function diffSpecs(before: Record<string, any>, after: Record<string, any>): SpecDiff {
+  const entities = diffKeyed<any, EntityChange>(list(before.dataModel?.entities), list(after.dataModel?.entities), e => e.id, (id, a, b) => {
+    const changes = diffJson(without(a, "fields"), without(b, "fields"));
+    const fields = diffKeyed<any, FieldChange>(list(a.fields), list(b.fields), f => f.name, (name, x, y) => {
+      const fieldChanges = diffJson(x, y);
+      return fieldChanges.length ? { name, changes: fieldChanges } : null;
+    });
+    const touched = changes.length || fields.added.length || fields.removed.length || fields.changed.length;
+    return touched ? { id, changes, fields } : null;
+  });
+
+  const rules = diffKeyed<any, RuleChange>(list(before.rules), list(after.rules), r => `${r.ruleId}@${r.version ?? 1}`, (key, a, b) => {
+    const changes = diffJson(a, b);
+    return changes.length ? { key, changes } : null;
+  });
+
+  const workflows = diffKeyed<any, WorkflowChange>(list(before.workflows), list(after.workflows), w => `${w.workflowId}@${w.version ?? 1}`, (key, a, b) => {
+    const changes = diffJson(without(a, "steps"), without(b, "steps"));
+    const steps = diffKeyed<any, { id: string; changes: DiffEntry[] }>(list(a.steps), list(b.steps), s => s.id, (id, x, y) => {
+      const stepChanges = diffJson(x, y);
+      return stepChanges.length ? { id, changes: stepChanges } : null;
+    });
+    const touched = changes.length || steps.added.length || steps.removed.length || steps.changed.length;
+    return touched ? { key, changes, steps } : null;
+  });
+
+  const rest = (spec: Record<string, any>) => {
+    const { dataModel, rules: _r, workflows: _w, specVersion: _v, ...others } = spec;
+    return { ...others, relations: dataModel?.relations };
+  };
+  const other = diffJson(rest(before), rest(after));
+
+  const sections = [entities, rules, workflows];
+  return {
+    entities,
+    rules,
+    workflows,
+    other,
+    summary: {
+      added: sections.reduce((n, s) => n + s.added.length, 0),
+      removed: sections.reduce((n, s) => n + s.removed.length, 0),
+      changed: sections.reduce((n, s) => n + s.changed.length, 0),
+      other: other.length
+    }
+  };
+}
@@ -0,0 +1,8 @@
+import fs from "fs";
+import path from "path";
+import { canonicalSpecJsonSchema } from "./jsonSchema.js";
+
+// Writes the published JSON Schema; run with `npm run spec:schema` after changing schema.ts
+const out = path.resolve(process.argv[2] || "canonical-spec.schema.json");
+fs.writeFileSync(out, JSON.stringify(canonicalSpecJsonSchema(), null, 2) + "\n");
+console.log(`Wrote ${out}`);
@@ -0,0 +1,12 @@
+import { zodToJsonSchema } from "zod-to-json-schema";
+import { CanonicalSpecSchema } from "./schema.js";
+
+// JSON Schema (draft-07) of the canonical spec as accepted on input: fields with defaults are optional
+export function canonicalSpecJsonSchema() {
+  return zodToJsonSchema(CanonicalSpecSchema, {
+    name: "CanonicalSpec",
+    target: "jsonSchema7",
+    effectStrategy: "input",
+    pipeStrategy: "input"
+  });
+}
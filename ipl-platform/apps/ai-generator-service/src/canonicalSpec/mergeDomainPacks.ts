@@ -1,20 +1,78 @@
-import { loadDomainPack } from "../steps/domainPackLoader.js";
-export function mergeDomainPacksIntoSpec(spec: any) {
+import type { SpecIssue } from "./semanticRules.js";
+import { DomainPackError, loadDomainPack } from "../steps/domainPackLoader.js";
+import type { DomainPack } from "../steps/domainPackLoader.js";
+
+export function mergeDomainPacks(spec: any, packs: DomainPack[]) {
   const entities = [...(spec.dataModel?.entities || [])];
   const workflows = [...(spec.workflows || [])];
   const rules = [...(spec.rules || [])];
   const integrations = [...(spec.integrations || [])];
 
-  for (const d of spec.app.domain) {
-    const pack = loadDomainPack(d);
-    for (const pe of (pack.entities || [])) if (!entities.find(e=>e.id===pe.id)) entities.push(pe);
-    for (const pw of (pack.workflows || [])) if (!workflows.find(w=>w.workflowId===pw.workflowId)) workflows.push(pw);
-    for (const pr of (pack.rules || [])) if (!rules.find(r=>r.ruleId===pr.ruleId && r.version===pr.version)) rules.push(pr);
-    const conns = pack.connectors || {};
+  for (const pack of packs) {
+    for (const pe of pack.entities) if (!entities.find(e=>e.id===pe.id)) entities.push(pe);
+    for (const pw of pack.workflows) if (!workflows.find(w=>w.workflowId===pw.workflowId)) workflows.push(pw);
+    for (const pr of pack.rules) if (!rules.find(r=>r.ruleId===pr.ruleId && r.version===pr.version)) rules.push(pr);
+    const conns = pack.connectors;
     for (const key of Object.keys(conns)) {
-      if (!integrations.find((i:any)=>i.id===key)) integrations.push({ id:key, type:key, actions:(conns[key].actions||[]).map((n:string)=>({name:n})) });
+      // Actions may be plain names or full definitions (method, path, input/output JSON schemas) for connector-service
+      if (!integrations.find((i:any)=>i.id===key)) integrations.push({ ...conns[key], id:key, type:conns[key].type||key, actions:conns[key].actions.map(a=>typeof a==="string"?{name:a}:a) });
     }
   }
 
   return { ...spec, dataModel: { ...spec.dataModel, entities }, workflows, rules, integrations };
 }
+
+// How each merged section is keyed, in the packs and in the spec
+const SECTIONS = [
+  { what: "Entity", specSection: "dataModel.entities", items: (p: DomainPack) => p.entities.map(e => [e.id, e] as const), specKeys: (spec: any) => (spec.dataModel?.entities || []).map((e: any) => e.id) },
+  { what: "Workflow", specSection: "workflows", items: (p: DomainPack) => p.workflows.map(w => [w.workflowId, w] as const), specKeys: (spec: any) => (spec.workflows || []).map((w: any) => w.workflowId) },
+  { what: "Rule", specSection: "rules", items: (p: DomainPack) => p.rules.map(r => [`${r.ruleId}@${r.version}`, r] as const), specKeys: (spec: any) => (spec.rules || []).map((r: any) => `${r.ruleId}@${r.version ?? 1}`) },
+  { what: "Connector", specSection: "integrations", items: (p: DomainPack) => Object.entries(p.connectors), specKeys: (spec: any) => (spec.integrations || []).map((i: any) => i.id) },
+];
+
+// Two packs defining the same item differently; defining it in the spec settles which one applies
+export function domainPackConflicts(spec: any, packs: DomainPack[]): SpecIssue[] {
+  const issues: SpecIssue[] = [];
+  const domains: string[] = spec.app?.domain || [];
+  for (const section of SECTIONS) {
+    const inSpec = new Set(section.specKeys(spec));
+    const first = new Map<string, { domain: string; json: string }>();
+    for (const pack of packs) {
+      for (const [key, item] of section.items(pack)) {
+        if (inSpec.has(key)) continue;
+        const json = JSON.stringify(item);
+        const seen = first.get(key);
+        if (!seen) first.set(key, { domain: pack.domain, json });
+        else if (seen.json !== json) {
+          issues.push({
+            code: "DOMAIN_PACK_CONFLICT",
+            severity: "error",
+            path: `$.app.domain[${domains.indexOf(pack.domain)}]`,
+            message: `${section.what} ${key} is defined differently by ${seen.domain} and ${pack.domain}; define it in ${section.specSection} to choose`
+          });
+        }
+      }
+    }
+  }
+  return issues;
+}
+
+// A pack and the packs it extends, nearest first
+function lineage(domain: string): string[] {
+  const chain = [domain];
+  for (let pack = loadDomainPack(domain); pack.extends; pack = loadDomainPack(pack.extends)) chain.push(pack.extends);
+  return chain;
+}
+
+// Packs extended by another listed pack are already part of it. Throws DomainPackError when a domain has no pack,
+// a pack is invalid, or two packs conflict.
+export function mergeDomainPacksIntoSpec(spec: any) {
+  const domains: string[] = spec.app.domain;
+  const extended = new Set(domains.flatMap(d => lineage(d).slice(1)));
+  const packs = domains.filter(d => !extended.has(d)).map(d => loadDomainPack(d));
+  const conflicts = domainPackConflicts(spec, packs);
+  if (conflicts.length) {
+    throw new DomainPackError(domains.join(","), `Domain packs conflict: ${conflicts.map(i => `${i.path} ${i.message}`).join("; ")}`, conflicts);
+  }
+  return mergeDomainPacks(spec, packs);
+}
@@ -0,0 +1,120 @@
+import { CURRENT_SPEC_VERSION } from "./schema.js";
+import type { SpecIssue } from "./semanticRules.js";
+
+// Specs without a specVersion predate versioning
+export const INITIAL_SPEC_VERSION = "1.0";
+
+export interface SpecMigration {
+  from: string;
+  to: string;
+  description: string;
+  // Receives a deep copy; sections may be missing (project specs hold only the edited ones)
+  migrate(spec: Record<string, any>): Record<string, any>;
+}
+
+function isObject(v: any): v is Record<string, any> {
+  return v !== null && typeof v === "object" && !Array.isArray(v);
+}
+
+// 1.0 sections were untyped; map the shapes LLMs and older consoles produced onto the typed 1.1 schema
+const typedSections: SpecMigration = {
+  from: "1.0",
+  to: "1.1",
+  description: "Typed sections: app.domains -> app.domain, entity columns -> fields, primaryKey/primary -> pk, nullable -> required, app.channels -> ui.channels, deployment.type -> deployment.target",
+  migrate(spec) {
+    const app = isObject(spec.app) ? spec.app : undefined;
+    if (app && app.domain === undefined && app.domains !== undefined) {
+      app.domain = Array.isArray(app.domains) ? app.domains : [app.domains];
+      delete app.domains;
+    }
+    if (app && app.channels !== undefined) {
+      spec.ui = { channels: app.channels, ...(isObject(spec.ui) ? spec.ui : {}) };
+      delete app.channels;
+    }
+
+    for (const e of Array.isArray(spec.dataModel?.entities) ? spec.dataModel.entities : []) {
+      if (!isObject(e)) continue;
+      if (e.fields === undefined && Array.isArray(e.columns)) {
+        e.fields = e.columns;
+        delete e.columns;
+      }
+      if (e.name === undefined && typeof e.id === "string") e.name = e.id;
+      for (const f of Array.isArray(e.fields) ? e.fields : []) {
+        if (!isObject(f)) continue;
+        for (const legacy of ["primaryKey", "primary"]) {
+          if (f[legacy] === undefined) continue;
+          if (f.pk === undefined) f.pk = !!f[legacy];
+          delete f[legacy];
+        }
+        if (f.nullable !== undefined) {
+          if (f.required === undefined) f.required = !f.nullable;
+          delete f.nullable;
+        }
+      }
+    }
+
+    if (isObject(spec.deployment)) {
+      const d = spec.deployment;
+      if (d.type !== undefined) {
+        if (d.target === undefined) d.target = d.type;
+        delete d.type;
+      }
+      if (typeof d.database === "string") d.database = d.database.toLowerCase();
+    }
+    return spec;
+  }
+};
+
+// Applied in order; each one's `to` is the next one's `from`
+const migrations: SpecMigration[] = [typedSections];
+
+function parseVersion(v: string): number[] | null {
+  const m = /^(\d+)\.(\d+)$/.exec(v);
+  return m ? [Number(m[1]), Number(m[2])] : null;
+}
+
+export function compareSpecVersions(a: string, b: string): number {
+  const [x, y] = [parseVersion(a), parseVersion(b)];
+  if (!x || !y) throw new Error(`Invalid specVersion ${JSON.stringify(!x ? a : b)}`);
+  return x[0] - y[0] || x[1] - y[1];
+}
+
+export function listSpecMigrations(): Array<Omit<SpecMigration, "migrate">> {
+  return migrations.map(({ from, to, description }) => ({ from, to, description }));
+}
+
+export interface SpecUpgrade {
+  ok: boolean;
+  // Set when ok
+  spec?: any;
+  from?: string;
+  // "<from> -> <to>" for every migration applied, oldest first
+  applied: string[];
+  // SPEC_VERSION_UNSUPPORTED, set when not ok
+  issue?: SpecIssue;
+}
+
+// Brings a spec of any supported version up to CURRENT_SPEC_VERSION without validating it
+export function upgradeSpec(raw: unknown): SpecUpgrade {
+  if (!isObject(raw)) return { ok: true, spec: raw, applied: [] };
+  const from = raw.specVersion === undefined ? INITIAL_SPEC_VERSION : String(raw.specVersion);
+  const invalid = (message: string): SpecUpgrade =>
+    ({ ok: false, applied: [], issue: { code: "SPEC_VERSION_UNSUPPORTED", severity: "error", path: "$.specVersion", message } });
+
+  if (!parseVersion(from)) return invalid(`specVersion ${JSON.stringify(from)} is not "<major>.<minor>"`);
+  if (compareSpecVersions(from, CURRENT_SPEC_VERSION) > 0) {
+    return invalid(`specVersion ${from} is newer than ${CURRENT_SPEC_VERSION}, the latest this service understands`);
+  }
+
+  let spec: Record<string, any> = structuredClone(raw);
+  let version = from;
+  const applied: string[] = [];
+  while (version !== CURRENT_SPEC_VERSION) {
+    const step = migrations.find(m => m.from === version);
+    if (!step) return invalid(`No migration from specVersion ${version}`);
+    spec = step.migrate(spec);
+    spec.specVersion = version = step.to;
+    applied.push(`${step.from} -> ${step.to}`);
+  }
+  return { ok: true, spec, from, applied };
+}
@@ -1,33 +1,342 @@
 import { z } from "zod";
+// Bump together with a migration in migrations.ts
+export const CURRENT_SPEC_VERSION = "1.1";
 export const FieldType = z.enum(["uuid","text","number","date","datetime","boolean","json","reference"]);
+
+// Entity ids, table and field names end up as SQL identifiers in generated code
+export const Identifier = z.string().regex(/^[a-z][a-z0-9_]*$/, "must be snake_case (a-z, 0-9, _)");
+
+// Milliseconds, an ISO-8601 duration ("PT30S", "P1D") or shorthand ("30s", "5m", "2h", "1d"), as the workflow engine accepts
+const Duration = z.union([
+  z.number().nonnegative(),
+  z.string().regex(/^(?:\d+(?:\.\d+)?(?:ms|s|m|h|d)|P(?=\d|T\d)(?:\d+(?:\.\d+)?D)?(?:T(?=\d)(?:\d+(?:\.\d+)?H)?(?:\d+(?:\.\d+)?M)?(?:\d+(?:\.\d+)?S)?)?)$/, "must be milliseconds, ISO-8601 (PT30S) or shorthand (30s)")
+]);
+
+// Strings starting with "$." read a variable path, "$" is the whole variable bag, anything else is a literal
+const InputMapping = z.record(z.any());
+
+export const FieldSchema = z.object({
+  name: Identifier,
+  type: FieldType,
+  description: z.string().optional(),
+  required: z.boolean().default(false),
+  pk: z.boolean().optional(),
+  index: z.boolean().optional(),
+  unique: z.boolean().optional(),
+  pii: z.boolean().optional(),
+  // Target entity id, for "reference" fields
+  references: Identifier.optional()
+}).strict().refine(f => f.type !== "reference" || !!f.references, { message: "reference fields need references", path: ["references"] });
+
+export const EntitySchema = z.object({
+  id: Identifier,
+  name: z.string().min(1),
+  description: z.string().optional(),
+  table: Identifier.optional(),
+  // Entity holds personal data as a whole; individual fields can be flagged too
+  pii: z.boolean().default(false),
+  fields: z.array(FieldSchema).min(1),
+  indexes: z.array(z.object({
+    fields: z.array(Identifier).min(1),
+    unique: z.boolean().optional()
+  }).strict()).optional()
+}).strict();
+
+export const RelationSchema = z.object({
+  id: z.string().optional(),
+  from: Identifier,
+  to: Identifier,
+  cardinality: z.enum(["one-to-one","one-to-many","many-to-one","many-to-many"]),
+  // Foreign key field on `from` (or on `through` for many-to-many)
+  field: Identifier.optional(),
+  through: Identifier.optional(),
+  onDelete: z.enum(["cascade","restrict","set-null"]).optional()
+}).strict();
+
+const RuleTestVector = z.object({
+  name: z.string().min(1),
+  input: z.record(z.any()),
+  expected: z.record(z.any()),
+  assert: z.enum(["equals","contains"]).optional()
+}).strict();
+
+const RuleInputColumn = z.object({
+  name: z.string().min(1),
+  type: FieldType,
+  required: z.boolean().optional()
+}).strict();
+
+const RuleOutputColumn = z.object({
+  name: z.string().min(1),
+  type: FieldType,
+  // Output values ordered from highest to lowest priority (priority hit policy)
+  priority: z.array(z.any()).optional()
+}).strict();
+
+// A cell is a literal (equality), "-" / null (any value), or an operator object
+const DecisionCondition = z.union([
+  z.string(), z.number(), z.boolean(), z.null(),
+  z.object({ in: z.array(z.any()) }).strict(),
+  z.object({ notIn: z.array(z.any()) }).strict(),
+  z.object({ range: z.string().regex(/^[\[\(\]]\s*.*?\s*\.\.\s*.*?\s*[\]\)\[]$/, "must look like [18..40)") }).strict(),
+  z.object({ gt: z.any(), gte: z.any(), lt: z.any(), lte: z.any() }).partial().strict()
+]);
+
+export const DecisionTableBodySchema = z.object({
+  hitPolicy: z.enum(["first","unique","collect","priority"]).default("first"),
+  inputs: z.array(RuleInputColumn).min(1),
+  outputs: z.array(RuleOutputColumn).min(1),
+  rules: z.array(z.object({
+    description: z.string().optional(),
+    when: z.record(DecisionCondition),
+    then: z.record(z.any())
+  }).strict()),
+  default: z.record(z.any()).optional()
+}).strict();
+
+export const ExpressionBodySchema = z.object({
+  // Entity in dataModel.entities whose fields become typed inputs
+  entity: Identifier.optional(),
+  inputs: z.array(RuleInputColumn).optional(),
+  let: z.array(z.object({ name: z.string().min(1), expr: z.string().min(1) }).strict()).optional(),
+  outputs: z.array(RuleOutputColumn.extend({ expr: z.string().min(1) }).strict()).min(1)
+}).strict();
+
+export const TariffBodySchema = z.object({
+  type: z.literal("slab"),
+  slabs: z.array(z.object({
+    from: z.number(),
+    to: z.number().optional(),
+    rate: z.number()
+  }).strict()).min(1)
+}).strict();
+
+const RuleBase = z.object({
+  ruleId: Identifier,
+  alias: z.string().optional(),
+  version: z.number().int().positive().default(1),
+  description: z.string().optional(),
+  tests: z.array(RuleTestVector).optional()
+});
+
+export const RuleSchema = z.discriminatedUnion("dsl", [
+  RuleBase.extend({ dsl: z.literal("decision-table"), body: DecisionTableBodySchema }).strict(),
+  RuleBase.extend({ dsl: z.literal("expression"), body: ExpressionBodySchema }).strict(),
+  RuleBase.extend({ dsl: z.literal("tariff"), body: TariffBodySchema }).strict()
+]);
+
+const RetryPolicy = z.object({
+  // Total attempts including the first one
+  maxAttempts: z.number().int().min(1),
+  backoff: z.object({
+    initial: Duration,
+    multiplier: z.number().min(1).optional(),
+    max: Duration.optional()
+  }).strict().optional()
+}).strict();
+
+// Who may claim a human task: any holder of one of the roles, or one named user (literal or "$." path)
+const TaskAssignee = z.object({
+  roles: z.array(z.string().min(1)).optional(),
+  user: z.string().min(1).optional()
+}).strict().refine(a => !!a.roles?.length || !!a.user, "assignee needs roles or user");
+
+const FormField = z.object({
+  name: z.string().min(1),
+  type: z.enum(["text","number","boolean","date","select"]),
+  label: z.string().optional(),
+  required: z.boolean().optional(),
+  options: z.array(z.string()).optional()
+}).strict().refine(f => f.type !== "select" || !!f.options?.length, { message: "select fields need options", path: ["options"] });
+
+const StepBase = z.object({
+  id: z.string().min(1),
+  name: z.string().optional(),
+  // Steps without a next (other than decision and parallel) complete their token
+  next: z.string().optional()
+});
+
+export const WorkflowStepSchema = z.discriminatedUnion("type", [
+  StepBase.extend({
+    type: z.literal("task"),
+    action: z.string().min(1),
+    input: InputMapping.optional(),
+    resultVar: z.string().optional(),
+    retry: RetryPolicy.optional(),
+    // Saga compensation: runs in reverse completion order when the instance later fails
+    compensate: z.object({ action: z.string().min(1), input: InputMapping.optional() }).strict().optional()
+  }).strict(),
+  StepBase.extend({
+    type: z.literal("decision"),
+    // Optional: without a rule the branches test existing variables
+    ruleId: z.string().optional(),
+    version: z.number().int().positive().optional(),
+    input: InputMapping.optional(),
+    resultVar: z.string().optional(),
+    branches: z.array(z.object({
+      // Every operator present must hold for the branch to be taken
+      when: z.object({
+        path: z.string().min(1),
+        equals: z.any().optional(),
+        notEquals: z.any().optional(),
+        in: z.array(z.any()).optional(),
+        exists: z.boolean().optional(),
+        gt: z.number().optional(),
+        gte: z.number().optional(),
+        lt: z.number().optional(),
+        lte: z.number().optional()
+      }).strict(),
+      next: z.string().min(1)
+    }).strict()).optional(),
+    default: z.string().optional(),
+    retry: RetryPolicy.optional()
+  }).strict(),
+  StepBase.extend({
+    type: z.literal("wait"),
+    event: z.string().min(1),
+    // Variable path whose value an incoming event's correlationKey must match
+    correlation: z.string().optional(),
+    resultVar: z.string().optional(),
+    timeout: z.object({ after: Duration, next: z.string().min(1) }).strict().optional()
+  }).strict(),
+  StepBase.extend({
+    type: z.literal("timer"),
+    duration: Duration.optional(),
+    // Variable path holding the datetime to sleep until
+    until: z.string().optional()
+  }).strict(),
+  StepBase.extend({
+    type: z.literal("human"),
+    title: z.string().optional(),
+    assignee: TaskAssignee,
+    form: z.array(FormField).optional(),
+    sla: z.object({ after: Duration, escalateTo: TaskAssignee }).strict().optional(),
+    resultVar: z.string().optional()
+  }).strict(),
+  StepBase.extend({
+    type: z.literal("parallel"),
+    branches: z.array(z.string().min(1)).min(1),
+    join: z.string().min(1)
+  }).strict(),
+  StepBase.extend({ type: z.literal("join") }).strict(),
+  StepBase.extend({
+    type: z.literal("fail"),
+    error: z.string().optional(),
+    message: z.string().optional()
+  }).strict(),
+  StepBase.extend({ type: z.literal("end") }).strict()
+]);
+
+export const WorkflowSchema = z.object({
+  workflowId: Identifier,
+  version: z.number().int().positive().default(1),
+  name: z.string().optional(),
+  start: z.string().min(1),
+  steps: z.array(WorkflowStepSchema).min(1)
+}).strict();
+
+const ConnectorRetry = z.object({
+  maxAttempts: z.number().int().min(1),
+  initialDelayMs: z.number().nonnegative().optional(),
+  multiplier: z.number().min(1).optional(),
+  maxDelayMs: z.number().nonnegative().optional()
+}).strict();
+
+const ConnectorAction = z.object({
+  name: Identifier,
+  description: z.string().optional(),
+  // HTTP adapter: defaults to POST /<action name>; "{field}" placeholders in the path are filled from the input
+  method: z.enum(["GET","POST","PUT","PATCH","DELETE","HEAD"]).optional(),
+  path: z.string().optional(),
+  timeoutMs: z.number().int().positive().optional(),
+  idempotent: z.boolean().optional(),
+  requireIdempotencyKey: z.boolean().optional(),
+  retry: ConnectorRetry.optional(),
+  // JSON Schemas for the action's input and output
+  input: z.record(z.any()).optional(),
+  output: z.record(z.any()).optional()
+}).strict();
+
+// Connectors run by connector-service; domain packs may list actions by name only
+export const IntegrationSchema = z.object({
+  id: Identifier,
+  type: z.string().min(1),
+  description: z.string().optional(),
+  baseUrl: z.string().url().optional(),
+  headers: z.record(z.string()).optional(),
+  timeoutMs: z.number().int().positive().optional(),
+  retry: ConnectorRetry.optional(),
+  circuitBreaker: z.object({
+    failureThreshold: z.number().int().positive().optional(),
+    resetAfterMs: z.number().int().positive().optional()
+  }).strict().optional(),
+  actions: z.array(z.union([Identifier, ConnectorAction])).default([])
+}).strict();
+
+export const ScreenType = z.enum(["list","detail","form","wizard","dashboard","search","map","chart","calendar","document","config"]);
+
+export const UiSchema = z.object({
+  channels: z.array(z.enum(["web","mobile","desktop"])).default(["web"]),
+  theme: z.object({
+    primaryColor: z.string().regex(/^#[0-9a-fA-F]{6}$/, "must be a #rrggbb color").optional(),
+    mode: z.enum(["light","dark","system"]).optional()
+  }).strict().optional(),
+  locales: z.array(z.string().min(2)).optional(),
+  screens: z.array(z.object({
+    id: Identifier,
+    title: z.string().min(1),
+    type: ScreenType,
+    // Entity the screen lists or edits
+    entity: Identifier.optional(),
+    fields: z.array(Identifier).optional(),
+    roles: z.array(z.string().min(1)).optional()
+  }).strict()).default([])
+}).strict();
+
+export const DeploymentSchema = z.object({
+  target: z.enum(["cloud","on-premises","hybrid"]).default("cloud"),
+  cloudProvider: z.enum(["aws","azure","gcp"]).optional(),
+  region: z.string().optional(),
+  backend: z.string().optional(),
+  frontend: z.string().optional(),
+  database: z.enum(["postgresql","mysql","mongodb","sqlserver","oracle"]).default("postgresql"),
+  environments: z.array(z.enum(["dev","staging","production"])).optional()
+}).strict();
+
 export const CanonicalSpecSchema = z.object({
-  specVersion: z.string().default("1.0"),
+  specVersion: z.literal(CURRENT_SPEC_VERSION).default(CURRENT_SPEC_VERSION),
   app: z.object({
     name: z.string().min(2),
     description: z.string().optional().default(""),
-    domain: z.array(z.enum(["ami","cis","healthcare","insurance","manufacturing","generic"])).min(1),
+    // Domain pack ids (domain-packs/<id>/pack.json)
+    domain: z.array(Identifier).min(1),
     platformMode: z.enum(["normal","enterprise"]).default("normal"),
     tenancyModel: z.enum(["shared-db","schema-per-tenant","db-per-tenant"]).default("shared-db"),
+    // How generated APIs tell tenants apart: X-Tenant-Id header, subdomain or a JWT claim (default header)
+    tenantResolution: z.enum(["header","subdomain","jwt"]).optional(),
     dataResidency: z.string().nullable().optional().default(null)
-  }),
+  }).strict(),
   nonFunctional: z.object({
     scale: z.object({
       users: z.enum(["low","medium","high"]).default("low"),
       tps: z.enum(["low","medium","high"]).default("low"),
       dataVolume: z.enum(["low","medium","high"]).default("low"),
       latency: z.enum(["normal","low-latency"]).default("normal")
-    }).default({}),
+    }).strict().default({}),
     availability: z.enum(["standard","ha","multi-region"]).default("standard"),
     compliance: z.array(z.enum(["none","soc2","hipaa","pci","gdpr","dpdp-india"])).default(["none"])
-  }).default({}),
+  }).strict().default({}),
   dataModel: z.object({
-    entities: z.array(z.any()).default([]),
-    relations: z.array(z.any()).default([])
-  }).default({}),
-  rules: z.array(z.any()).default([]),
-  workflows: z.array(z.any()).default([]),
-  integrations: z.array(z.any()).default([]),
-  ui: z.any().default({}),
-  deployment: z.any().default({})
-});
+    entities: z.array(EntitySchema).default([]),
+    relations: z.array(RelationSchema).default([])
+  }).strict().default({}),
+  rules: z.array(RuleSchema).default([]),
+  workflows: z.array(WorkflowSchema).default([]),
+  integrations: z.array(IntegrationSchema).default([]),
+  ui: UiSchema.default({}),
+  deployment: DeploymentSchema.default({})
+}).strict();
 export type CanonicalSpec = z.infer<typeof CanonicalSpecSchema>;
+export type Entity = z.infer<typeof EntitySchema>;
+export type Rule = z.infer<typeof RuleSchema>;
+export type Workflow = z.infer<typeof WorkflowSchema>;
@@ -0,0 +1,185 @@
+import { listDomainPacks } from "../domainPacks/files.js";
+import type { CanonicalSpec } from "./schema.js";
+
+export type IssueSeverity = "error" | "warning";
+
+// `path` is a JSONPath into the spec, e.g. "$.dataModel.entities[0].fields[2].references"
+export interface SpecIssue {
+  code: string;
+  severity: IssueSeverity;
+  path: string;
+  message: string;
+}
+
+// Checks a spec that already passed CanonicalSpecSchema; only errors make validation fail
+export interface SemanticRule {
+  id: string;
+  description: string;
+  check(spec: CanonicalSpec): SpecIssue[];
+}
+
+// Compliance regimes under which personal data must be flagged field by field (or on the whole entity)
+const PII_COMPLIANCE = ["hipaa", "gdpr"];
+const PII_FIELD_NAME = /^(?:(?:first|last|middle|full|given|family)_)?name$|(?:^|_)(?:email|phone|mobile|address|dob|birth_date|date_of_birth|ssn|national_id|passport(?:_no|_number)?|aadhaar|mrn|medical_record(?:_no|_number)?|diagnosis|ip_address)(?:_|$)/;
+
+export function jsonPath(path: Array<string | number>): string {
+  return "$" + path.map(p => typeof p === "number" ? `[${p}]` : /^[A-Za-z_][A-Za-z0-9_]*$/.test(p) ? `.${p}` : `[${JSON.stringify(p)}]`).join("");
+}
+
+function issue(code: string, path: Array<string | number>, message: string, severity: IssueSeverity = "error"): SpecIssue {
+  return { code, severity, path: jsonPath(path), message };
+}
+
+const entityPath = (i: number) => ["dataModel", "entities", i];
+
+const uniqueIds: SemanticRule = {
+  id: "unique-ids",
+  description: "Entity ids, field names per entity, rule versions and workflow versions are unique",
+  check(spec) {
+    const issues: SpecIssue[] = [];
+    const seen = (keys: string[], path: (i: number) => Array<string | number>, code: string, what: string) => {
+      const first = new Map<string, number>();
+      keys.forEach((key, i) => {
+        if (first.has(key)) issues.push(issue(code, path(i), `${what} ${key} is already defined at ${jsonPath(path(first.get(key)!))}`));
+        else first.set(key, i);
+      });
+    };
+    seen(spec.dataModel.entities.map(e => e.id), entityPath, "DUPLICATE_ENTITY", "Entity");
+    spec.dataModel.entities.forEach((e, ei) =>
+      seen(e.fields.map(f => f.name), i => [...entityPath(ei), "fields", i], "DUPLICATE_FIELD", `Entity ${e.id} field`));
+    seen(spec.rules.map(r => `${r.ruleId}@${r.version}`), i => ["rules", i], "DUPLICATE_RULE", "Rule");
+    seen(spec.workflows.map(w => `${w.workflowId}@${w.version}`), i => ["workflows", i], "DUPLICATE_WORKFLOW", "Workflow");
+    return issues;
+  }
+};
+
+const primaryKeys: SemanticRule = {
+  id: "primary-keys",
+  description: "Every entity has exactly one pk field",
+  check(spec) {
+    const issues: SpecIssue[] = [];
+    spec.dataModel.entities.forEach((e, ei) => {
+      const pks = e.fields.flatMap((f, fi) => f.pk ? [fi] : []);
+      if (!pks.length) issues.push(issue("PK_MISSING", [...entityPath(ei), "fields"], `Entity ${e.id} has no pk field`));
+      for (const fi of pks.slice(1)) {
+        issues.push(issue("PK_MULTIPLE", [...entityPath(ei), "fields", fi, "pk"], `Entity ${e.id} already has pk ${e.fields[pks[0]].name}; composite keys are not supported`));
+      }
+    });
+    return issues;
+  }
+};
+
+const references: SemanticRule = {
+  id: "references",
+  description: "Reference fields and relations point to entities in dataModel.entities",
+  check(spec) {
+    const issues: SpecIssue[] = [];
+    const ids = new Set(spec.dataModel.entities.map(e => e.id));
+    spec.dataModel.entities.forEach((e, ei) => e.fields.forEach((f, fi) => {
+      if (f.references && !ids.has(f.references)) {
+        issues.push(issue("REFERENCE_UNKNOWN_ENTITY", [...entityPath(ei), "fields", fi, "references"], `${e.id}.${f.name} references unknown entity ${f.references}`));
+      }
+    }));
+    spec.dataModel.relations.forEach((r, ri) => {
+      for (const key of ["from", "to", "through"] as const) {
+        const target = r[key];
+        if (target && !ids.has(target)) {
+          issues.push(issue("RELATION_UNKNOWN_ENTITY", ["dataModel", "relations", ri, key], `Relation ${key} names unknown entity ${target}`));
+        }
+      }
+      if (r.field) {
+        const owner = spec.dataModel.entities.find(e => e.id === (r.through || r.from));
+        if (owner && !owner.fields.some(f => f.name === r.field)) {
+          issues.push(issue("RELATION_UNKNOWN_FIELD", ["dataModel", "relations", ri, "field"], `Entity ${owner.id} has no field ${r.field}`));
+        }
+      }
+    });
+    return issues;
+  }
+};
+
+const piiFlags: SemanticRule = {
+  id: "pii-flags",
+  description: "Under HIPAA or GDPR, fields that hold personal data are flagged pii (or their entity is)",
+  check(spec) {
+    const regimes = spec.nonFunctional.compliance.filter(c => PII_COMPLIANCE.includes(c));
+    if (!regimes.length) return [];
+    const issues: SpecIssue[] = [];
+    spec.dataModel.entities.forEach((e, ei) => {
+      if (e.pii) return;
+      e.fields.forEach((f, fi) => {
+        if (!f.pii && PII_FIELD_NAME.test(f.name)) {
+          issues.push(issue("PII_NOT_FLAGGED", [...entityPath(ei), "fields", fi, "pii"], `${e.id}.${f.name} looks like personal data; set pii: true (required by ${regimes.join(", ")})`));
+        }
+      });
+    });
+    return issues;
+  }
+};
+
+const workflowRules: SemanticRule = {
+  id: "workflow-rules",
+  description: "Decision steps reference rules (and versions) defined in the spec",
+  check(spec) {
+    const issues: SpecIssue[] = [];
+    spec.workflows.forEach((w, wi) => w.steps.forEach((s, si) => {
+      if (s.type !== "decision" || !s.ruleId) return;
+      const versions = spec.rules.filter(r => r.ruleId === s.ruleId || r.alias === s.ruleId).map(r => r.version);
+      const path = ["workflows", wi, "steps", si];
+      if (!versions.length) {
+        issues.push(issue("WORKFLOW_UNKNOWN_RULE", [...path, "ruleId"], `Workflow ${w.workflowId} step ${s.id} uses unknown rule ${s.ruleId}`));
+      } else if (s.version !== undefined && !versions.includes(s.version)) {
+        issues.push(issue("WORKFLOW_UNKNOWN_RULE_VERSION", [...path, "version"], `Rule ${s.ruleId} has no version ${s.version} (defined: ${versions.join(", ")})`));
+      }
+    }));
+    return issues;
+  }
+};
+
+const tenancy: SemanticRule = {
+  id: "tenancy",
+  description: "Entities carry tenant_id exactly when the tenancy model shares tables between tenants",
+  check(spec) {
+    const issues: SpecIssue[] = [];
+    const shared = spec.app.tenancyModel === "shared-db";
+    spec.dataModel.entities.forEach((e, ei) => {
+      const fi = e.fields.findIndex(f => f.name === "tenant_id");
+      const field = e.fields[fi];
+      if (shared && !field) {
+        issues.push(issue("TENANT_FIELD", [...entityPath(ei), "fields"], `Entity ${e.id} missing tenant_id (tenancyModel shared-db)`));
+      } else if (shared && (!field.required || !field.index)) {
+        issues.push(issue("TENANT_FIELD_NOT_INDEXED", [...entityPath(ei), "fields", fi], `${e.id}.tenant_id should be required and indexed; every query filters on it`, "warning"));
+      } else if (!shared && field) {
+        issues.push(issue("TENANT_FIELD_REDUNDANT", [...entityPath(ei), "fields", fi], `${e.id}.tenant_id is unused with tenancyModel ${spec.app.tenancyModel}; tenants are isolated by ${spec.app.tenancyModel === "db-per-tenant" ? "database" : "schema"}`, "warning"));
+      }
+    });
+    return issues;
+  }
+};
+
+const domainPacks: SemanticRule = {
+  id: "domain-packs",
+  description: "Every app.domain has a domain pack in domain-packs/",
+  check(spec) {
+    const known = listDomainPacks();
+    return spec.app.domain.flatMap((d, i) => known.includes(d) ? [] :
+      [issue("DOMAIN_PACK_UNKNOWN", ["app", "domain", i], `No domain pack for ${d} (available: ${known.join(", ")})`)]);
+  }
+};
+
+// Rule id -> rule; add project- or domain-specific checks with registerSemanticRule
+const semanticRules = new Map<string, SemanticRule>(
+  [uniqueIds, primaryKeys, references, piiFlags, workflowRules, tenancy, domainPacks].map(r => [r.id, r])
+);
+
+export function registerSemanticRule(rule: SemanticRule) {
+  semanticRules.set(rule.id, rule);
+}
+
+export function listSemanticRules(): Array<Pick<SemanticRule, "id" | "description">> {
+  return [...semanticRules.values()].map(({ id, description }) => ({ id, description }));
+}
+
+export function runSemanticRules(spec: CanonicalSpec, skip: string[] = []): SpecIssue[] {
+  return [...semanticRules.values()].filter(rule => !skip.includes(rule.id)).flatMap(rule => rule.check(spec));
+}
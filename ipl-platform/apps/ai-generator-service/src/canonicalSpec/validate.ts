@@ -1,14 +1,22 @@
+import type { ZodIssue } from "zod";
+import { upgradeSpec } from "./migrations.js";
 import { CanonicalSpecSchema } from "./schema.js";
+import { jsonPath, runSemanticRules } from "./semanticRules.js";
+import type { SpecIssue } from "./semanticRules.js";
+
+export function schemaIssue(i: ZodIssue): SpecIssue {
+  return { code: `SCHEMA_${i.code.toUpperCase()}`, severity: "error", path: jsonPath(i.path), message: i.message };
+}
+
+// Older specs are upgraded first; then the structural check (Zod) and the registered semantic rules.
+// Warnings never fail validation.
 export function validateCanonicalSpec(raw: unknown) {
-  const parsed = CanonicalSpecSchema.safeParse(raw);
-  if (!parsed.success) return { ok: false as const, issues: parsed.error.issues };
-  const spec: any = parsed.data;
-  const issues: any[] = [];
-  for (const e of (spec.dataModel?.entities || [])) {
-    const fields = e.fields || [];
-    const hasTenant = fields.find((f:any)=>f.name==="tenant_id");
-    if (!hasTenant) issues.push({ code:"TENANT_FIELD", message:`Entity ${e.id} missing tenant_id` });
-  }
-  if (issues.length) return { ok: false as const, issues };
-  return { ok: true as const, spec };
+  const upgraded = upgradeSpec(raw);
+  if (!upgraded.ok) return { ok: false as const, issues: [upgraded.issue] };
+  const parsed = CanonicalSpecSchema.safeParse(upgraded.spec);
+  if (!parsed.success) return { ok: false as const, issues: parsed.error.issues.map(schemaIssue), migrations: upgraded.applied };
+  const spec = parsed.data;
+  const issues = runSemanticRules(spec);
+  if (issues.some(i => i.severity === "error")) return { ok: false as const, issues, migrations: upgraded.applied };
+  return { ok: true as const, spec, issues, migrations: upgraded.applied };
 }
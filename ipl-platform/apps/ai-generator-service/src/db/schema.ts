@@ -1,4 +1,4 @@
-import { pgTable, serial, text, timestamp, jsonb, varchar } from "drizzle-orm/pg-core";
+import { pgTable, serial, text, timestamp, jsonb, varchar, integer, boolean } from "drizzle-orm/pg-core";
 
 // Chat sessions for incremental development
 export const chatSessions = pgTable("chat_sessions", {
@@ -100,6 +100,8 @@ export const projects = pgTable("projects", {
     createdAt: string;
     fixedAt?: string;
   }>>().default([]),
+  // Canonical spec sections edited in the console (workflows, ...); see canonicalSpec/schema.ts
+  spec: jsonb("spec").$type<Record<string, any>>().default({}),
   // Neon database branch for project isolation
   neonBranchId: varchar("neon_branch_id", { length: 100 }),
   neonBranchName: varchar("neon_branch_name", { length: 100 }),
@@ -142,3 +144,39 @@ export const workspaces = pgTable("workspaces", {
 
 export type Workspace = typeof workspaces.$inferSelect;
 export type InsertWorkspace = typeof workspaces.$inferInsert;
+
+// Webhook subscriptions per project; see webhooks/webhooks.ts for event types and signing
+export const webhookSubscriptions = pgTable("webhook_subscriptions", {
+  id: serial("id").primaryKey(),
+  projectId: varchar("project_id", { length: 100 }).notNull(),
+  name: varchar("name", { length: 255 }).notNull(),
+  url: text("url").notNull(),
+  events: jsonb("events").$type<string[]>().default([]).notNull(),
+  secret: varchar("secret", { length: 100 }).notNull(),
+  enabled: boolean("enabled").default(true).notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+export type WebhookSubscription = typeof webhookSubscriptions.$inferSelect;
+
+// One row per event per subscription; pending rows are retried with backoff until they succeed or run out of attempts
+export const webhookDeliveries = pgTable("webhook_deliveries", {
+  id: serial("id").primaryKey(),
+  subscriptionId: integer("subscription_id").notNull(),
+  projectId: varchar("project_id", { length: 100 }).notNull(),
+  eventId: varchar("event_id", { length: 64 }).notNull(),
+  event: varchar("event", { length: 100 }).notNull(),
+  payload: jsonb("payload").notNull(),
+  status: varchar("status", { length: 20 }).$type<'pending' | 'succeeded' | 'failed'>().default("pending").notNull(),
+  attempts: integer("attempts").default(0).notNull(),
+  responseStatus: integer("response_status"),
+  responseBody: text("response_body"),
+  error: text("error"),
+  durationMs: integer("duration_ms"),
+  nextAttemptAt: timestamp("next_attempt_at").defaultNow(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  deliveredAt: timestamp("delivered_at"),
+});
+
+export type WebhookDelivery = typeof webhookDeliveries.$inferSelect;
@@ -0,0 +1,202 @@
+import fs from "fs";
+import path from "path";
+import { jsonPath } from "../canonicalSpec/semanticRules.js";
+import type { SpecIssue } from "../canonicalSpec/semanticRules.js";
+import { DOMAIN_PACKS_DIR, domainPackFile, listDomainPacks } from "./files.js";
+import { domainPackJsonSchema } from "./jsonSchema.js";
+import { PACK_SECTIONS } from "./resolve.js";
+import { CURRENT_PACK_SCHEMA_VERSION } from "./schema.js";
+import type { DomainPack } from "./schema.js";
+import { validateDomainPackFile } from "./validate.js";
+
+// npm runs scripts from the package directory; paths are read and shown relative to where it was invoked
+const CWD = process.env.INIT_CWD || process.cwd();
+
+// Authoring tool for domain packs: npm run domain-pack -- <command>
+const USAGE = `Usage: npm run domain-pack -- <command>
+  init <domain> [name]     scaffold ${path.relative(CWD, DOMAIN_PACKS_DIR)}/<domain>/pack.json
+  lint [pack...]           validate packs (domain ids or pack.json paths; default: every installed pack)
+  test [pack...]           lint, then run the packs' rule test vectors on the rule engine (RULE_ENGINE_URL)
+  resolve <pack> [--json]  show where each item of the pack comes from once extends is applied, or the resolved pack
+  schema [file]            write the pack JSON Schema (default: domain-pack.schema.json next to the packs)`;
+
+const RULE_ENGINE_URL = process.env.RULE_ENGINE_URL || "http://localhost:7200";
+const SCHEMA_FILE = path.join(DOMAIN_PACKS_DIR, "domain-pack.schema.json");
+
+const rel = (file: string) => path.relative(CWD, file) || file;
+
+interface Target {
+  file: string;
+  // Directory name the pack is installed under, checked against its `domain`
+  domain?: string;
+}
+
+function targets(args: string[]): Target[] {
+  if (!args.length) return listDomainPacks().map(d => ({ file: domainPackFile(d), domain: d }));
+  return args.map(a => {
+    if (!a.endsWith(".json")) return { file: domainPackFile(a), domain: a };
+    const file = path.resolve(CWD, a);
+    return { file, domain: path.basename(file) === "pack.json" ? path.basename(path.dirname(file)) : undefined };
+  });
+}
+
+function printIssues(file: string, issues: SpecIssue[]) {
+  for (const i of issues) console.log(`${rel(file)}  ${i.severity.padEnd(7)}  ${i.path}  ${i.code}  ${i.message}`);
+}
+
+// Prints every issue; returns the packs that passed
+function lint(args: string[]): DomainPack[] {
+  const packs: DomainPack[] = [];
+  let errors = 0, warnings = 0;
+  for (const t of targets(args)) {
+    if (!fs.existsSync(t.file)) {
+      console.log(`${rel(t.file)}  error    $  PACK_NOT_FOUND  No such file`);
+      errors++;
+      continue;
+    }
+    const checked = validateDomainPackFile(t.file, t.domain);
+    printIssues(t.file, checked.issues);
+    errors += checked.issues.filter(i => i.severity === "error").length;
+    warnings += checked.issues.filter(i => i.severity === "warning").length;
+    if (checked.ok) packs.push(checked.pack);
+  }
+  console.log(`${packs.length} valid pack(s), ${errors} error(s), ${warnings} warning(s)`);
+  if (errors) process.exitCode = 1;
+  return packs;
+}
+
+async function test(args: string[]) {
+  const packs = lint(args);
+  for (const pack of packs) {
+    const tested = pack.rules.filter(r => r.tests?.length);
+    if (!tested.length) {
+      console.log(`${pack.domain}: no rule test vectors`);
+      continue;
+    }
+    // The spec carries the resolved pack; a pack that is not installed yet cannot be merged again by domain
+    const domain = listDomainPacks().includes(pack.domain) ? [pack.domain] : [];
+    const spec = { app: { name: `${pack.name} pack test`, domain }, dataModel: { entities: pack.entities }, rules: tested };
+    let body: any, status = 0;
+    try {
+      const res = await fetch(`${RULE_ENGINE_URL}/specs/validate-rules`, {
+        method: "POST",
+        headers: { "content-type": "application/json" },
+        body: JSON.stringify({ spec })
+      });
+      status = res.status;
+      body = await res.json();
+    } catch (e: any) {
+      console.log(`${pack.domain}: rule engine unreachable at ${RULE_ENGINE_URL} (${e?.message || e}); start it with npm run dev:rule`);
+      process.exitCode = 1;
+      continue;
+    }
+    if (!body?.reports) {
+      console.log(`${pack.domain}: rule engine rejected the pack: ${body?.error || `HTTP ${status}`}`);
+      process.exitCode = 1;
+      continue;
+    }
+    // The engine also merges installed packs; report only this pack's rules
+    for (const report of (body.reports || []).filter((r: any) => tested.some(t => t.ruleId === r.ruleId && t.version === r.version))) {
+      const counts = report.status === "skipped" ? "" : ` (${report.total - report.failed}/${report.total})`;
+      console.log(`${pack.domain}: rule ${report.ruleId}@${report.version} ${report.status}${counts}${report.reason ? `: ${report.reason}` : ""}`);
+      for (const c of (report.results || []).filter((c: any) => !c.passed)) {
+        console.log(`  ${c.name}: expected ${JSON.stringify(c.expected)} (${c.assert}), got ${c.error || JSON.stringify(c.actual)}`);
+      }
+      if (report.status === "failed") process.exitCode = 1;
+    }
+  }
+}
+
+function resolve(arg: string | undefined, json: boolean) {
+  if (!arg) {
+    console.error("resolve needs a domain id or pack.json path");
+    process.exitCode = 1;
+    return;
+  }
+  const [t] = targets([arg]);
+  const checked = validateDomainPackFile(t.file, t.domain);
+  if (!checked.ok) {
+    printIssues(t.file, checked.issues);
+    process.exitCode = 1;
+    return;
+  }
+  if (json) {
+    console.log(JSON.stringify(checked.pack, null, 2));
+    return;
+  }
+  printIssues(t.file, checked.issues);
+  console.log(checked.lineage.join(" extends "));
+  for (const section of PACK_SECTIONS) {
+    for (const [key, origin] of Object.entries(checked.provenance[section])) {
+      console.log(`  ${section}.${key}  ${origin.action} ${origin.action === "inherited" ? `from ${origin.from}` : `at ${jsonPath(origin.path!)}`}`);
+    }
+  }
+}
+
+function titleCase(domain: string) {
+  return domain.split("_").map(w => w.charAt(0).toUpperCase() + w.slice(1)).join(" ");
+}
+
+function init(domain: string | undefined, name?: string) {
+  if (!domain || !/^[a-z][a-z0-9_]*$/.test(domain)) {
+    console.error("init needs a snake_case domain id, e.g. npm run domain-pack -- init water");
+    process.exitCode = 1;
+    return;
+  }
+  const file = domainPackFile(domain);
+  if (fs.existsSync(file)) {
+    console.error(`${rel(file)} already exists`);
+    process.exitCode = 1;
+    return;
+  }
+  const field = (column: string, type: string, extra: Record<string, any> = {}) => ({ name: column, type, required: true, ...extra });
+  const pack = {
+    $schema: path.relative(path.dirname(file), SCHEMA_FILE).split(path.sep).join("/"),
+    schemaVersion: CURRENT_PACK_SCHEMA_VERSION,
+    domain,
+    name: name || titleCase(domain),
+    description: "",
+    entities: [
+      { id: "example", name: "Example", table: "example", pii: false,
+        fields: [
+          field("example_id", "uuid", { pk: true }),
+          field("tenant_id", "text", { index: true }),
+          field("title", "text"),
+          field("created_at", "datetime"),
+          field("updated_at", "datetime")
+        ] }
+    ],
+    workflows: [],
+    rules: [],
+    connectors: {},
+    terminology: {},
+    modules: {
+      core: {
+        name: "Core",
+        entities: ["example"],
+        apis: [{ method: "GET", path: "/api/examples", description: "List examples" }],
+        screens: [{ name: "Examples", type: "list", route: "/examples" }]
+      }
+    }
+  };
+  fs.mkdirSync(path.dirname(file), { recursive: true });
+  fs.writeFileSync(file, JSON.stringify(pack, null, 2) + "\n");
+  console.log(`Wrote ${rel(file)}; check it with npm run domain-pack -- lint ${domain}`);
+}
+
+function schema(out = SCHEMA_FILE) {
+  fs.writeFileSync(out, JSON.stringify(domainPackJsonSchema(), null, 2) + "\n");
+  console.log(`Wrote ${rel(out)}`);
+}
+
+const [command, ...args] = process.argv.slice(2);
+switch (command) {
+  case "init": init(args[0], args[1]); break;
+  case "lint": lint(args); break;
+  case "test": await test(args); break;
+  case "resolve": resolve(args.find(a => a !== "--json"), args.includes("--json")); break;
+  case "schema": schema(args[0] && path.resolve(CWD, args[0])); break;
+  default:
+    console.error(USAGE);
+    process.exitCode = command ? 1 : 0;
+}
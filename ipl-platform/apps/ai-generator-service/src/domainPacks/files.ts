@@ -0,0 +1,18 @@
+import fs from "fs";
+import path from "path";
+import { fileURLToPath } from "url";
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+// Also where rule-engine, workflow-engine and connector-service load packs from (through ./index.ts)
+export const DOMAIN_PACKS_DIR = process.env.DOMAIN_PACKS_DIR || path.join(__dirname, "..", "..", "..", "..", "domain-packs");
+
+export function domainPackFile(domain: string): string {
+  return path.join(DOMAIN_PACKS_DIR, domain, "pack.json");
+}
+
+export function listDomainPacks(): string[] {
+  if (!fs.existsSync(DOMAIN_PACKS_DIR)) return [];
+  return fs.readdirSync(DOMAIN_PACKS_DIR).filter(d => fs.existsSync(domainPackFile(d))).sort();
+}
@@ -0,0 +1,7 @@
+// Resolved, validated domain packs for rule-engine, workflow-engine and connector-service
+// (import "@ipl/ai-generator-service/domain-packs"), so `extends`, `remove` and `patch` are applied in one place
+export { DOMAIN_PACKS_DIR, listDomainPacks } from "./files.js";
+export { DomainPackError, installedDomainPacks, loadDomainPack } from "../steps/domainPackLoader.js";
+export { mergeDomainPacksIntoSpec } from "../canonicalSpec/mergeDomainPacks.js";
+export type { SpecIssue } from "../canonicalSpec/semanticRules.js";
+export type { DomainPack } from "./schema.js";
@@ -0,0 +1,12 @@
+import { zodToJsonSchema } from "zod-to-json-schema";
+import { DomainPackSchema } from "./schema.js";
+
+// JSON Schema (draft-07) of pack.json as authored: sections with defaults are optional
+export function domainPackJsonSchema() {
+  return zodToJsonSchema(DomainPackSchema, {
+    name: "DomainPack",
+    target: "jsonSchema7",
+    effectStrategy: "input",
+    pipeStrategy: "input"
+  });
+}
@@ -0,0 +1,168 @@
+import { jsonPath } from "../canonicalSpec/semanticRules.js";
+import type { SpecIssue } from "../canonicalSpec/semanticRules.js";
+import type { DomainPack } from "./schema.js";
+
+export const PACK_SECTIONS = ["entities", "workflows", "rules", "connectors", "modules", "terminology"] as const;
+export type PackSection = typeof PACK_SECTIONS[number];
+
+export interface ItemProvenance {
+  // Pack whose definition is used; for inherited items, the ancestor that defined it
+  from: string;
+  action: "added" | "replaced" | "patched" | "inherited";
+  // Where this pack's file defines or patches the item; unset when inherited as-is
+  path?: Array<string | number>;
+}
+
+// Section -> item key (ruleId@version for rules) -> where the resolved item came from
+export type PackProvenance = Record<PackSection, Record<string, ItemProvenance>>;
+
+export interface ResolvedPack {
+  // `remove` and `patch` are applied and dropped; `extends` is kept
+  pack: DomainPack;
+  provenance: PackProvenance;
+  // The pack, its parent, grandparent, ...
+  lineage: string[];
+  issues: SpecIssue[];
+}
+
+export const ruleKey = (r: { ruleId: string; version: number }) => `${r.ruleId}@${r.version}`;
+
+function issue(code: string, path: Array<string | number>, message: string, severity: SpecIssue["severity"] = "error"): SpecIssue {
+  return { code, severity, path: jsonPath(path), message };
+}
+
+const keyOf: Record<"entities" | "workflows" | "rules", (x: any) => string> = {
+  entities: e => e.id,
+  workflows: w => w.workflowId,
+  rules: ruleKey,
+};
+
+// Own items replace inherited ones with the same key in place, new ones are appended; removed keys are dropped
+function inherit<T>(
+  section: PackSection,
+  pack: DomainPack,
+  parent: ResolvedPack,
+  parentItems: Array<[string, T]>,
+  ownItems: Array<[string, T]>,
+  ownPath: (key: string, i: number) => Array<string | number>,
+  removes: (entry: string, key: string, item: T) => boolean,
+  provenance: PackProvenance,
+  issues: SpecIssue[]
+): Array<[string, T]> {
+  const removals = pack.remove?.[section] || [];
+  const used = new Set<number>();
+  const own = new Map(ownItems.map(([key], i) => [key, i]));
+  const out: Array<[string, T]> = [];
+  for (const [key, item] of parentItems) {
+    const ri = removals.findIndex(r => removes(r, key, item));
+    if (ri >= 0) used.add(ri);
+    const oi = own.get(key);
+    if (oi !== undefined) {
+      if (ri >= 0) issues.push(issue("PACK_REMOVE_REDEFINED", ["remove", section, ri], `${removals[ri]} is removed and also defined at ${jsonPath(ownPath(key, oi))}`));
+      out.push(ownItems[oi]);
+      provenance[section][key] = { from: pack.domain, action: "replaced", path: ownPath(key, oi) };
+    } else if (ri < 0) {
+      out.push([key, item]);
+      provenance[section][key] = { from: parent.provenance[section][key]?.from || parent.pack.domain, action: "inherited" };
+    }
+  }
+  ownItems.forEach(([key, item], i) => {
+    if (provenance[section][key]) return;
+    out.push([key, item]);
+    provenance[section][key] = { from: pack.domain, action: "added", path: ownPath(key, i) };
+  });
+  removals.forEach((r, i) => {
+    if (!used.has(i)) issues.push(issue("PACK_REMOVE_UNKNOWN", ["remove", section, i], `${parent.pack.domain} has no ${section} ${r} to remove`, "warning"));
+  });
+  return out;
+}
+
+function patchEntities(pack: DomainPack, entities: DomainPack["entities"], provenance: PackProvenance, issues: SpecIssue[]): DomainPack["entities"] {
+  const patches = pack.patch?.entities || {};
+  const result = [...entities];
+  for (const [id, patch] of Object.entries(patches)) {
+    const path = ["patch", "entities", id];
+    const at = result.findIndex(e => e.id === id);
+    const origin = provenance.entities[id];
+    if (at < 0) {
+      const removed = pack.remove?.entities.includes(id);
+      issues.push(issue(removed ? "PACK_PATCH_REMOVED" : "PACK_PATCH_UNKNOWN_ENTITY", path,
+        removed ? `Entity ${id} is patched but also removed` : `${pack.extends} has no entity ${id} to patch`));
+      continue;
+    }
+    if (origin.action !== "inherited") {
+      issues.push(issue("PACK_PATCH_OWN_ENTITY", path, `Entity ${id} is defined at ${jsonPath(origin.path!)}; change it there`));
+      continue;
+    }
+    const { fields, removeFields, ...props } = patch;
+    const entity = result[at];
+    removeFields.forEach((name, i) => {
+      if (!entity.fields.some(f => f.name === name)) issues.push(issue("PACK_PATCH_UNKNOWN_FIELD", [...path, "removeFields", i], `Entity ${id} has no field ${name} to remove`, "warning"));
+    });
+    const replaced = entity.fields
+      .filter(f => !removeFields.includes(f.name))
+      .map(f => fields.find(p => p.name === f.name) || f);
+    const added = fields.filter(p => !entity.fields.some(f => f.name === p.name));
+    result[at] = { ...entity, ...props, fields: [...replaced, ...added] };
+    provenance.entities[id] = { from: pack.domain, action: "patched", path };
+  }
+  return result;
+}
+
+function emptyProvenance(): PackProvenance {
+  return Object.fromEntries(PACK_SECTIONS.map(s => [s, {}])) as PackProvenance;
+}
+
+// Applies `extends` (with `remove` and `patch`) on top of the already resolved parent
+export function resolveDomainPack(pack: DomainPack, parent?: ResolvedPack): ResolvedPack {
+  const provenance = emptyProvenance();
+  const issues: SpecIssue[] = [];
+  const { remove, patch, ...own } = pack;
+
+  if (!parent) {
+    if (remove) issues.push(issue("PACK_OVERRIDE_WITHOUT_EXTENDS", ["remove"], "remove only applies to inherited items; set extends"));
+    if (patch) issues.push(issue("PACK_OVERRIDE_WITHOUT_EXTENDS", ["patch"], "patch only applies to inherited items; set extends"));
+    for (const section of ["entities", "workflows", "rules"] as const) {
+      (pack[section] as any[]).forEach((x, i) => { provenance[section][keyOf[section](x)] = { from: pack.domain, action: "added", path: [section, i] }; });
+    }
+    for (const section of ["connectors", "modules", "terminology"] as const) {
+      for (const key of Object.keys(pack[section])) provenance[section][key] = { from: pack.domain, action: "added", path: [section, key] };
+    }
+    return { pack: own, provenance, lineage: [pack.domain], issues };
+  }
+
+  const sameKey = (entry: string, key: string) => entry === key;
+  const list = <T>(section: "entities" | "workflows" | "rules", parentItems: T[], ownItems: T[], removes: (entry: string, key: string, item: T) => boolean = sameKey) => {
+    const keyed = (items: T[]) => items.map(x => [keyOf[section](x), x] as [string, T]);
+    return inherit(section, pack, parent, keyed(parentItems), keyed(ownItems), (_key, i) => [section, i], removes, provenance, issues).map(([, x]) => x);
+  };
+  const record = <T>(section: "connectors" | "modules" | "terminology", parentItems: Record<string, T>, ownItems: Record<string, T>) =>
+    Object.fromEntries(inherit(section, pack, parent, Object.entries(parentItems), Object.entries(ownItems), key => [section, key], sameKey, provenance, issues));
+
+  const entities = patchEntities(pack, list("entities", parent.pack.entities, pack.entities), provenance, issues);
+  const workflows = list("workflows", parent.pack.workflows, pack.workflows);
+  // A bare ruleId removes every version
+  const rules = list("rules", parent.pack.rules, pack.rules, (r, key, rule) => r === key || r === rule.ruleId);
+  const connectors = record("connectors", parent.pack.connectors, pack.connectors);
+  const terminology = record("terminology", parent.pack.terminology, pack.terminology);
+
+  // Inherited modules stop listing entities this pack removes
+  const removedEntities = new Set(remove?.entities || []);
+  const modules = record("modules", parent.pack.modules, pack.modules);
+  for (const [key, mod] of Object.entries(modules)) {
+    if (provenance.modules[key].action === "inherited") modules[key] = { ...mod, entities: mod.entities.filter(e => !removedEntities.has(e)) };
+  }
+
+  return {
+    pack: {
+      ...own,
+      description: pack.description || parent.pack.description,
+      entities, workflows, rules, connectors, modules, terminology,
+      scaleProfiles: { ...parent.pack.scaleProfiles, ...pack.scaleProfiles },
+      infrastructureRecommendations: { ...parent.pack.infrastructureRecommendations, ...pack.infrastructureRecommendations }
+    },
+    provenance,
+    lineage: [pack.domain, ...parent.lineage],
+    issues
+  };
+}
@@ -0,0 +1,84 @@
+import { z } from "zod";
+import { EntitySchema, FieldSchema, Identifier, IntegrationSchema, RuleSchema, ScreenType, WorkflowSchema } from "../canonicalSpec/schema.js";
+
+// Bump together with the pack files when the format changes; packs without schemaVersion are read as this one
+export const CURRENT_PACK_SCHEMA_VERSION = "1.0";
+
+// Domain vocabulary; a term is explained to the LLM when the user's message mentions it or an alias
+export const TermSchema = z.object({
+  aliases: z.array(z.string().min(1)).default([]),
+  description: z.string().min(1),
+  components: z.array(z.string().min(1)).optional()
+}).strict();
+
+// A functional area of the domain: the pack entities it owns and the APIs and screens to generate for them
+export const ModuleSchema = z.object({
+  name: z.string().min(1),
+  description: z.string().optional(),
+  entities: z.array(Identifier).default([]),
+  apis: z.array(z.object({
+    method: z.enum(["GET","POST","PUT","PATCH","DELETE"]),
+    path: z.string().startsWith("/", "must start with /"),
+    description: z.string().optional()
+  }).strict()).default([]),
+  screens: z.array(z.object({
+    name: z.string().min(1),
+    type: ScreenType,
+    route: z.string().startsWith("/", "must start with /")
+  }).strict()).default([])
+}).strict();
+
+// Keyed by connector id in the pack; the type defaults to the id
+export const ConnectorSchema = IntegrationSchema.omit({ id: true }).extend({
+  type: z.string().min(1).optional()
+}).strict();
+
+// Inherited items a pack drops; rules by ruleId (every version) or ruleId@version
+export const PackRemoveSchema = z.object({
+  entities: z.array(Identifier).default([]),
+  workflows: z.array(Identifier).default([]),
+  rules: z.array(z.string().regex(/^[a-z][a-z0-9_]*(@\d+)?$/, "must be ruleId or ruleId@version")).default([]),
+  connectors: z.array(Identifier).default([]),
+  modules: z.array(Identifier).default([]),
+  terminology: z.array(Identifier).default([])
+}).strict();
+
+// Changes to an inherited entity: fields are added, or replace the inherited field with the same name
+export const EntityPatchSchema = z.object({
+  name: z.string().min(1).optional(),
+  description: z.string().optional(),
+  table: Identifier.optional(),
+  pii: z.boolean().optional(),
+  fields: z.array(FieldSchema).default([]),
+  removeFields: z.array(Identifier).default([])
+}).strict();
+
+export const DomainPackSchema = z.object({
+  // Relative path to domain-pack.schema.json, for editors
+  $schema: z.string().optional(),
+  schemaVersion: z.literal(CURRENT_PACK_SCHEMA_VERSION).default(CURRENT_PACK_SCHEMA_VERSION),
+  // Must match the pack's directory name
+  domain: Identifier,
+  name: z.string().min(1),
+  // Empty inherits the parent's
+  description: z.string().default(""),
+  // Parent pack: its items are inherited; the sections below add items or replace inherited ones with the same key
+  extends: Identifier.optional(),
+  remove: PackRemoveSchema.optional(),
+  patch: z.object({
+    entities: z.record(Identifier, EntityPatchSchema).default({})
+  }).strict().optional(),
+  // Merged into specs that list the domain in app.domain
+  entities: z.array(EntitySchema).default([]),
+  workflows: z.array(WorkflowSchema).default([]),
+  rules: z.array(RuleSchema).default([]),
+  connectors: z.record(Identifier, ConnectorSchema).default({}),
+  // Prompt context for the LLM; never merged into specs
+  terminology: z.record(Identifier, TermSchema).default({}),
+  modules: z.record(Identifier, ModuleSchema).default({}),
+  // Sizing tiers, e.g. { small: { meters: 50000, retention_years: 2 } }
+  scaleProfiles: z.record(Identifier, z.record(z.number())).default({}),
+  infrastructureRecommendations: z.record(z.union([z.string(), z.record(z.string())])).default({})
+}).strict();
+export type DomainPack = z.infer<typeof DomainPackSchema>;
+export type DomainPackModule = z.infer<typeof ModuleSchema>;
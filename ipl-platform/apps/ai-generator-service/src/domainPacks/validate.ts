@@ -0,0 +1,131 @@
+import fs from "fs";
+import { CanonicalSpecSchema } from "../canonicalSpec/schema.js";
+import { jsonPath, runSemanticRules } from "../canonicalSpec/semanticRules.js";
+import type { SpecIssue } from "../canonicalSpec/semanticRules.js";
+import { schemaIssue } from "../canonicalSpec/validate.js";
+import { domainPackFile, listDomainPacks } from "./files.js";
+import { resolveDomainPack, ruleKey } from "./resolve.js";
+import type { PackSection, ResolvedPack } from "./resolve.js";
+import { CURRENT_PACK_SCHEMA_VERSION, DomainPackSchema } from "./schema.js";
+import type { DomainPack } from "./schema.js";
+
+export type DomainPackValidation =
+  | ({ ok: true } & ResolvedPack)
+  | { ok: false; issues: SpecIssue[] };
+
+function issue(code: string, path: Array<string | number>, message: string, severity: SpecIssue["severity"] = "error"): SpecIssue {
+  return { code, severity, path: jsonPath(path), message };
+}
+
+// The spec semantic rules see a pack as a spec holding only its entities, rules, workflows and connectors;
+// map their paths back onto the pack
+function packPath(path: string, connectorIds: string[]): string {
+  const entities = "$.dataModel.entities";
+  if (path.startsWith(entities)) return "$.entities" + path.slice(entities.length);
+  const integration = /^\$\.integrations\[(\d+)\]/.exec(path);
+  if (integration) return jsonPath(["connectors", connectorIds[Number(integration[1])]]) + path.slice(integration[0].length);
+  return path;
+}
+
+// From a path into the resolved pack to the pack file that defines the item; `$.extends` when it is inherited as-is
+function sourcePath(path: string, resolved: ResolvedPack): string {
+  const m = /^\$\.(entities|workflows|rules)\[(\d+)\]/.exec(path) || /^\$\.(connectors|modules|terminology)\.([a-z][a-z0-9_]*)/.exec(path);
+  if (!m) return path;
+  const section = m[1] as PackSection;
+  const key = /^\d+$/.test(m[2]) ? itemKey(section, (resolved.pack as any)[section][Number(m[2])]) : m[2];
+  const origin = resolved.provenance[section][key];
+  if (!origin) return path;
+  if (!origin.path) return "$.extends";
+  // Patched entities keep inherited fields, so indices below the patch do not apply
+  return jsonPath(origin.path) + (origin.action === "patched" ? "" : path.slice(m[0].length));
+}
+
+function itemKey(section: PackSection, item: any): string {
+  return section === "rules" ? ruleKey(item) : section === "workflows" ? item.workflowId : item.id;
+}
+
+// JSONPaths quoted in messages ("already defined at $.dataModel.entities[0]...") are mapped like issue paths
+const PATH_IN_MESSAGE = /\$(?:\.[A-Za-z_][A-Za-z0-9_]*|\[\d+\])+/g;
+
+function specIssues(pack: DomainPack): SpecIssue[] {
+  const connectorIds = Object.keys(pack.connectors);
+  const view = CanonicalSpecSchema.parse({
+    app: { name: `${pack.domain} domain pack`, domain: [pack.domain] },
+    dataModel: { entities: pack.entities },
+    rules: pack.rules,
+    workflows: pack.workflows,
+    integrations: connectorIds.map(id => ({ ...pack.connectors[id], id, type: pack.connectors[id].type || id }))
+  });
+  // The pack being checked may not be installed in domain-packs/ yet
+  const toPack = (path: string) => packPath(path, connectorIds);
+  return runSemanticRules(view, ["domain-packs"]).map(i => ({ ...i, path: toPack(i.path), message: i.message.replace(PATH_IN_MESSAGE, toPack) }));
+}
+
+function packIssues(pack: DomainPack, domain?: string): SpecIssue[] {
+  const issues: SpecIssue[] = [];
+  if (domain && pack.domain !== domain) {
+    issues.push(issue("PACK_DOMAIN_MISMATCH", ["domain"], `Pack declares domain ${pack.domain} but is installed as ${domain}`));
+  }
+  const entityIds = new Set(pack.entities.map(e => e.id));
+  for (const [key, mod] of Object.entries(pack.modules)) {
+    mod.entities.forEach((id, i) => {
+      if (!entityIds.has(id)) issues.push(issue("MODULE_UNKNOWN_ENTITY", ["modules", key, "entities", i], `Module ${key} lists unknown entity ${id}`));
+    });
+  }
+  pack.rules.forEach((r, i) => {
+    if (!r.tests?.length) issues.push(issue("RULE_UNTESTED", ["rules", i, "tests"], `Rule ${r.ruleId}@${r.version} has no test vectors`, "warning"));
+  });
+  return issues;
+}
+
+// Either the resolved parent or an issue at $.extends
+function parentPack(pack: DomainPack, chain: string[]): { resolved?: ResolvedPack; issues: SpecIssue[] } {
+  const parent = pack.extends!;
+  const fail = (code: string, message: string) => ({ issues: [issue(code, ["extends"], message)] });
+  if (chain.includes(parent)) return fail("PACK_EXTENDS_CYCLE", `Packs extend each other: ${[...chain, parent].join(" -> ")}`);
+  if (!listDomainPacks().includes(parent)) return fail("PACK_EXTENDS_UNKNOWN", `No domain pack ${parent} to extend (available: ${listDomainPacks().join(", ")})`);
+  const checked = validateDomainPackFile(domainPackFile(parent), parent, chain);
+  if (!checked.ok) {
+    const first = checked.issues.find(i => i.severity === "error")!;
+    return fail("PACK_EXTENDS_INVALID", `Parent pack ${parent} is invalid: ${first.path} ${first.message}`);
+  }
+  return { resolved: checked, issues: [] };
+}
+
+// `domain` is the directory the pack is installed under, when known; `chain` the packs being resolved that extend it.
+// Warnings never fail validation.
+export function validateDomainPack(raw: unknown, domain?: string, chain: string[] = []): DomainPackValidation {
+  const version = (raw as any)?.schemaVersion;
+  if (version !== undefined && version !== CURRENT_PACK_SCHEMA_VERSION) {
+    return { ok: false, issues: [issue("PACK_VERSION_UNSUPPORTED", ["schemaVersion"], `schemaVersion ${JSON.stringify(version)} is not ${CURRENT_PACK_SCHEMA_VERSION}, the pack format this service understands`)] };
+  }
+  const parsed = DomainPackSchema.safeParse(raw);
+  if (!parsed.success) return { ok: false, issues: parsed.error.issues.map(schemaIssue) };
+  const pack = parsed.data;
+
+  let parent: ResolvedPack | undefined;
+  if (pack.extends) {
+    const found = parentPack(pack, [...chain, pack.domain]);
+    if (!found.resolved) return { ok: false, issues: found.issues };
+    parent = found.resolved;
+  }
+  const resolved = resolveDomainPack(pack, parent);
+  const toSource = (path: string) => sourcePath(path, resolved);
+  const checks = [...packIssues(resolved.pack, domain), ...specIssues(resolved.pack)]
+    .map(i => ({ ...i, path: toSource(i.path), message: i.message.replace(PATH_IN_MESSAGE, toSource) }))
+    // Warnings about inherited items are the parent's to fix
+    .filter(i => !(i.path === "$.extends" && i.severity === "warning"));
+  const issues = [...resolved.issues, ...checks];
+  if (issues.some(i => i.severity === "error")) return { ok: false, issues };
+  return { ok: true, ...resolved, issues };
+}
+
+export function validateDomainPackFile(file: string, domain?: string, chain: string[] = []): DomainPackValidation {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(fs.readFileSync(file, "utf-8"));
+  } catch (e: any) {
+    return { ok: false, issues: [issue("PACK_INVALID_JSON", [], e?.message || String(e))] };
+  }
+  return validateDomainPack(raw, domain, chain);
+}
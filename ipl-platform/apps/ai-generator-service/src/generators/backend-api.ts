@@ -1,3 +1,7 @@
+import { generateGraphQLApi } from './graphql-api.js';
+import { generateTenancy, TENANT_COLUMN } from './tenancy.js';
+import type { TenancyModel, TenantResolution } from './tenancy.js';
+
 export interface BackendApiConfig {
   framework: 'nodejs' | 'python' | 'go';
   domain: string;
@@ -5,10 +9,14 @@ export interface BackendApiConfig {
   projectName?: string;
   tables: Array<{
     name: string;
-    columns: Array<{ name: string; type: string; nullable?: boolean; primaryKey?: boolean }>;
+    columns: Array<{ name: string; type: string; nullable?: boolean; primaryKey?: boolean; references?: string }>;
   }>;
   authentication: boolean;
   port?: number;
+  // Also serve a GraphQL schema over the same tables at /graphql (nodejs, SQL databases)
+  graphql?: boolean;
+  // Isolate tenants' data per the canonical spec's app.tenancyModel (nodejs, SQL databases)
+  tenancy?: { model: TenancyModel; resolution?: TenantResolution };
 }
 
 export interface GeneratedBackendApi {
@@ -41,6 +49,9 @@ function toKebabCase(str: string): string {
 }
 
 export function generateBackendApi(config: BackendApiConfig): GeneratedBackendApi {
+  if (config.tenancy && config.framework !== 'nodejs') {
+    throw new Error('Multi-tenancy generation supports the nodejs framework');
+  }
   switch (config.framework) {
     case 'nodejs':
       return generateNodejsExpress(config);
@@ -57,6 +68,18 @@ function generateNodejsExpress(config: BackendApiConfig): GeneratedBackendApi {
   const projectName = config.projectName || `${toKebabCase(config.domain)}-api`;
   const port = config.port || 3000;
   const files: GeneratedBackendApi['files'] = [];
+  if (config.graphql && config.database === 'mongodb') {
+    throw new Error('GraphQL generation requires a SQL database');
+  }
+  if (config.tenancy && config.database === 'mongodb') {
+    throw new Error('Multi-tenancy generation requires a SQL database');
+  }
+  const tenancy = config.tenancy
+    ? generateTenancy({ ...config.tenancy, tables: config.tables.map(t => toSnakeCase(t.name)) })
+    : null;
+  const graphql = config.graphql
+    ? generateGraphQLApi({ tables: config.tables, poolImport: tenancy ? '../tenancy/pool.js' : undefined, tenantColumn: tenancy?.tenantColumn })
+    : null;
 
   files.push({
     path: 'package.json',
@@ -70,6 +93,7 @@ function generateNodejsExpress(config: BackendApiConfig): GeneratedBackendApi {
         build: 'tsc',
         start: 'node dist/index.js',
         lint: 'eslint src --ext .ts',
+        ...tenancy?.scripts,
       },
       dependencies: {
         express: '^4.18.2',
@@ -79,6 +103,8 @@ function generateNodejsExpress(config: BackendApiConfig): GeneratedBackendApi {
         bcryptjs: '^2.4.3',
         jsonwebtoken: '^9.0.2',
         zod: '^3.22.4',
+        ...graphql?.dependencies,
+        ...tenancy?.dependencies,
       },
       devDependencies: {
         '@types/express': '^4.17.21',
@@ -125,7 +151,7 @@ function generateNodejsExpress(config: BackendApiConfig): GeneratedBackendApi {
 JWT_SECRET=your-super-secret-jwt-key-change-in-production
 PORT=${port}
 NODE_ENV=development
-`,
+${tenancy ? Object.entries(tenancy.environment).map(([k, v]) => `${k}=${v}\n`).join('') : ''}`,
   });
 
   files.push({
@@ -138,19 +164,21 @@ import { errorHandler } from './middleware/errorHandler.js';
 ${config.authentication ? "import { authMiddleware } from './middleware/auth.js';" : ''}
 ${config.tables.map(t => `import ${toCamelCase(t.name)}Routes from './routes/${toKebabCase(t.name)}.routes.js';`).join('\n')}
 ${config.authentication ? "import authRoutes from './routes/auth.routes.js';" : ''}
+${graphql ? "import { yoga } from './graphql/index.js';" : ''}
+${tenancy ? "import { tenantMiddleware } from './tenancy/resolve.js';" : ''}
 
 const app = express();
 const PORT = Number(process.env.PORT || ${port});
 
 app.use(cors());
-app.use(express.json());
+${graphql ? `app.use(yoga.graphqlEndpoint, ${config.authentication ? 'authMiddleware, ' : ''}${tenancy ? 'tenantMiddleware, ' : ''}yoga);\n` : ''}app.use(express.json());
 
 app.get('/health', (_req, res) => {
   res.json({ ok: true, service: '${projectName}' });
 });
 
 ${config.authentication ? `app.use('/api/auth', authRoutes);` : ''}
-${config.tables.map(t => `app.use('/api/${toKebabCase(t.name)}', ${config.authentication ? 'authMiddleware, ' : ''}${toCamelCase(t.name)}Routes);`).join('\n')}
+${config.tables.map(t => `app.use('/api/${toKebabCase(t.name)}', ${config.authentication ? 'authMiddleware, ' : ''}${tenancy ? 'tenantMiddleware, ' : ''}${toCamelCase(t.name)}Routes);`).join('\n')}
 
 app.use(errorHandler);
 
@@ -421,8 +449,13 @@ coverage/
     bcryptjs: '^2.4.3',
     jsonwebtoken: '^9.0.2',
     zod: '^3.22.4',
+    ...graphql?.dependencies,
+    ...tenancy?.dependencies,
   };
 
+  if (graphql) files.push(...graphql.files);
+  if (tenancy) files.push(...tenancy.files);
+
   const instructions = `## Setup Instructions
 
 1. Install dependencies:
@@ -461,7 +494,7 @@ ${config.tables.map(t => `### ${toPascalCase(t.name)}
 - POST /api/${toKebabCase(t.name)} - Create new
 - PUT /api/${toKebabCase(t.name)}/:id - Update by ID
 - DELETE /api/${toKebabCase(t.name)}/:id - Delete by ID`).join('\n\n')}
-`;
+${graphql ? `\n${graphql.instructions}` : ''}${tenancy ? `\n${tenancy.instructions}` : ''}`;
 
   return { files, instructions, dependencies };
 }
@@ -541,13 +574,18 @@ function generateNodeController(table: { name: string; columns: Array<{ name: st
   const name = toCamelCase(table.name);
   const Name = toPascalCase(table.name);
   const snake = toSnakeCase(table.name);
-  const columns = table.columns.filter(c => !c.primaryKey);
-  const insertCols = columns.map(c => toSnakeCase(c.name)).join(', ');
-  const insertPlaceholders = columns.map((_, i) => `$${i + 1}`).join(', ');
+  // shared-db: every statement also names the connection's tenant, so isolation holds even where RLS is bypassed
+  const sharedDb = config.tenancy?.model === 'shared-db';
+  const tenant = `${TENANT_COLUMN} = current_setting('app.tenant_id', true)`;
+  const andTenant = sharedDb ? ` AND ${tenant}` : '';
+  const columns = table.columns.filter(c => !c.primaryKey && !(sharedDb && toSnakeCase(c.name) === TENANT_COLUMN));
+  const insertCols = columns.map(c => toSnakeCase(c.name)).concat(sharedDb ? [TENANT_COLUMN] : []).join(', ');
+  const insertPlaceholders = columns.map((_, i) => `$${i + 1}`).concat(sharedDb ? ["current_setting('app.tenant_id', true)"] : []).join(', ');
   const updateSet = columns.map((c, i) => `${toSnakeCase(c.name)} = $${i + 1}`).join(', ');
+  const sql = (text: string) => text.includes("'") ? `\`${text}\`` : `'${text}'`;
 
   return `import { Request, Response, NextFunction } from 'express';
-import { pool } from '../config/database.js';
+import { pool } from '${config.tenancy ? '../tenancy/pool.js' : '../config/database.js'}';
 import { AppError } from '../middleware/errorHandler.js';
 import { z } from 'zod';
 
@@ -561,11 +599,11 @@ export async function getAll${Name}(req: Request, res: Response, next: NextFunct
     const limit = parseInt(req.query.limit as string) || 20;
     const offset = (page - 1) * limit;
 
-    const countResult = await pool.query('SELECT COUNT(*) FROM ${snake}');
+    const countResult = await pool.query(${sql(`SELECT COUNT(*) FROM ${snake}${sharedDb ? ` WHERE ${tenant}` : ''}`)});
     const total = parseInt(countResult.rows[0].count);
 
     const result = await pool.query(
-      'SELECT * FROM ${snake} ORDER BY id DESC LIMIT $1 OFFSET $2',
+      ${sql(`SELECT * FROM ${snake}${sharedDb ? ` WHERE ${tenant}` : ''} ORDER BY id DESC LIMIT $1 OFFSET $2`)},
       [limit, offset]
     );
 
@@ -585,7 +623,7 @@ export async function getAll${Name}(req: Request, res: Response, next: NextFunct
 export async function get${Name}ById(req: Request, res: Response, next: NextFunction) {
   try {
     const { id } = req.params;
-    const result = await pool.query('SELECT * FROM ${snake} WHERE id = $1', [id]);
+    const result = await pool.query(${sql(`SELECT * FROM ${snake} WHERE id = $1${andTenant}`)}, [id]);
 
     if (result.rows.length === 0) {
       throw new AppError('${Name} not found', 404);
@@ -617,13 +655,13 @@ export async function update${Name}(req: Request, res: Response, next: NextFunct
     const { id } = req.params;
     const data = ${name}Schema.partial().parse(req.body);
 
-    const existing = await pool.query('SELECT id FROM ${snake} WHERE id = $1', [id]);
+    const existing = await pool.query(${sql(`SELECT id FROM ${snake} WHERE id = $1${andTenant}`)}, [id]);
     if (existing.rows.length === 0) {
       throw new AppError('${Name} not found', 404);
     }
 
     const result = await pool.query(
-      \`UPDATE ${snake} SET ${updateSet}, updated_at = NOW() WHERE id = $${columns.length + 1} RETURNING *\`,
+      \`UPDATE ${snake} SET ${updateSet}, updated_at = NOW() WHERE id = $${columns.length + 1}${andTenant} RETURNING *\`,
       [${columns.map(c => `data.${toCamelCase(c.name)}`).join(', ')}, id]
     );
 
@@ -637,7 +675,7 @@ export async function delete${Name}(req: Request, res: Response, next: NextFunct
   try {
     const { id } = req.params;
 
-    const result = await pool.query('DELETE FROM ${snake} WHERE id = $1 RETURNING id', [id]);
+    const result = await pool.query(${sql(`DELETE FROM ${snake} WHERE id = $1${andTenant} RETURNING id`)}, [id]);
     if (result.rows.length === 0) {
       throw new AppError('${Name} not found', 404);
     }
@@ -1,5 +1,11 @@
 import fs from "fs/promises";
 import path from "path";
+import { generateGraphQLApi } from "./graphql-api.js";
+import type { GeneratedGraphQLApi } from "./graphql-api.js";
+import { generateMessageQueue } from "./message-queue.js";
+import type { EntityEventKind, GeneratedMessageQueue, MessageBroker } from "./message-queue.js";
+import { generateTenancy } from "./tenancy.js";
+import type { GeneratedTenancy, TenancyModel, TenantResolution } from "./tenancy.js";
 
 export interface ModuleDefinition {
   name: string;
@@ -34,6 +40,10 @@ export interface ProjectContext {
   domain: string;
   database: string;
   modules: ModuleDefinition[];
+  // Entity events through a transactional outbox to the chosen broker
+  messaging?: { broker: MessageBroker; events?: EntityEventKind[] };
+  // Tenant isolation per the canonical spec's app.tenancyModel
+  tenancy?: { model: TenancyModel; resolution?: TenantResolution };
 }
 
 export interface GeneratedFile {
@@ -128,10 +138,40 @@ export async function materializeProject(context: ProjectContext): Promise<Mater
   await fs.mkdir(path.join(projectDir, "frontend", "src", "pages"), { recursive: true });
   await fs.mkdir(path.join(projectDir, "frontend", "src", "components"), { recursive: true });
 
-  files.push(...generateBackendFiles(context));
-  files.push(...generateDatabaseFiles(context));
+  const messaging = context.messaging
+    ? generateMessageQueue({
+        broker: context.messaging.broker,
+        events: context.messaging.events,
+        projectName: context.projectName,
+        tables: context.modules.flatMap((m) => m.tables),
+      })
+    : null;
+  const allTables = context.modules.flatMap((m) => m.tables);
+  // The outbox relay reads one database; per-tenant databases would each hold their own outbox
+  if (context.tenancy?.model === "db-per-tenant" && context.messaging) {
+    throw new Error("Messaging is not supported with the db-per-tenant tenancy model");
+  }
+  const tenancy = context.tenancy && allTables.length
+    ? generateTenancy({
+        ...context.tenancy,
+        tables: allTables.map((t) => toSnakeCase(t.name)),
+        poolImport: "../db/index.js",
+      })
+    : null;
+  const graphql = allTables.length
+    ? generateGraphQLApi({
+        tables: allTables,
+        poolImport: tenancy ? "../tenancy/pool.js" : "../db/index.js",
+        timestamps: true,
+        events: messagingEvents(context),
+        tenantColumn: tenancy?.tenantColumn,
+      })
+    : null;
+
+  files.push(...generateBackendFiles(context, messaging, graphql, tenancy));
+  files.push(...generateDatabaseFiles(context, messaging, tenancy));
   files.push(...generateFrontendFiles(context));
-  files.push(...generateConfigFiles(context));
+  files.push(...generateConfigFiles(context, messaging, graphql, tenancy));
 
   for (const file of files) {
     const filePath = path.join(projectDir, file.path);
@@ -144,13 +184,18 @@ export async function materializeProject(context: ProjectContext): Promise<Mater
     files,
     commands: {
       install: "cd backend && npm install && cd ../frontend && npm install",
-      migrate: "cd backend && npm run db:push",
+      migrate: `cd backend && npm run db:push${tenancy ? " && npm run tenancy -- setup" : ""}`,
       start: "cd backend && npm run dev & cd ../frontend && npm run dev",
     },
   };
 }
 
-function generateBackendFiles(context: ProjectContext): GeneratedFile[] {
+function generateBackendFiles(
+  context: ProjectContext,
+  messaging: GeneratedMessageQueue | null,
+  graphql: GeneratedGraphQLApi | null,
+  tenancy: GeneratedTenancy | null
+): GeneratedFile[] {
   const files: GeneratedFile[] = [];
   const allTables = context.modules.flatMap((m) => m.tables);
   const allApis = context.modules.flatMap((m) => m.apis);
@@ -169,6 +214,8 @@ function generateBackendFiles(context: ProjectContext): GeneratedFile[] {
           start: "node dist/index.js",
           "db:push": "drizzle-kit push",
           "db:generate": "drizzle-kit generate",
+          ...messaging?.scripts,
+          ...tenancy?.scripts,
         },
         dependencies: {
           express: "^4.18.2",
@@ -177,6 +224,9 @@ function generateBackendFiles(context: ProjectContext): GeneratedFile[] {
           pg: "^8.11.3",
           "drizzle-orm": "^0.29.0",
           zod: "^3.22.4",
+          ...graphql?.dependencies,
+          ...messaging?.dependencies,
+          ...tenancy?.dependencies,
         },
         devDependencies: {
           "@types/express": "^4.17.21",
@@ -186,6 +236,7 @@ function generateBackendFiles(context: ProjectContext): GeneratedFile[] {
           typescript: "^5.3.2",
           tsx: "^4.6.2",
           "drizzle-kit": "^0.20.0",
+          ...tenancy?.devDependencies,
         },
       },
       null,
@@ -237,7 +288,7 @@ export default {
     type: "config",
     content: `DATABASE_URL=\${DATABASE_URL}
 PORT=3001
-`,
+${messaging ? Object.entries(messaging.environment).map(([key, value]) => `${key}=${value}\n`).join("") : ""}${tenancy ? Object.entries(tenancy.environment).map(([key, value]) => `${key}=${value}\n`).join("") : ""}`,
   });
 
   files.push({
@@ -246,19 +297,19 @@ PORT=3001
     content: `import "dotenv/config";
 import express from "express";
 import cors from "cors";
-${context.modules.map((m) => `import ${toCamelCase(m.name)}Routes from "./routes/${toKebabCase(m.name)}.js";`).join("\n")}
+${graphql ? `import { yoga } from "./graphql/index.js";\n` : ""}${tenancy ? `import { tenantMiddleware } from "./tenancy/resolve.js";\n` : ""}${messaging ? `import { startOutboxRelay } from "./messaging/outbox.js";\n` : ""}${context.modules.map((m) => `import ${toCamelCase(m.name)}Routes from "./routes/${toKebabCase(m.name)}.js";`).join("\n")}
 
 const app = express();
 app.use(cors());
-app.use(express.json());
+${graphql ? `app.use(yoga.graphqlEndpoint, ${tenancy ? "tenantMiddleware, " : ""}yoga);\n` : ""}app.use(express.json());
 
 app.get("/health", (_req, res) => res.json({ ok: true, project: "${context.projectName}" }));
 
-${context.modules.map((m) => `app.use("/api/${toKebabCase(m.name)}", ${toCamelCase(m.name)}Routes);`).join("\n")}
+${context.modules.map((m) => `app.use("/api/${toKebabCase(m.name)}", ${tenancy ? "tenantMiddleware, " : ""}${toCamelCase(m.name)}Routes);`).join("\n")}
 
 const PORT = process.env.PORT || 3001;
 app.listen(PORT, () => console.log(\`${context.projectName} API running on port \${PORT}\`));
-`,
+${messaging ? "startOutboxRelay();\n" : ""}`,
   });
 
   files.push({
@@ -268,27 +319,77 @@ app.listen(PORT, () => console.log(\`${context.projectName} API running on port
 import pg from "pg";
 import * as schema from "./schema.js";
 
-const pool = new pg.Pool({ connectionString: process.env.DATABASE_URL });
+export const pool = new pg.Pool({ connectionString: process.env.DATABASE_URL });
 export const db = drizzle(pool, { schema });
 `,
   });
 
+  if (tenancy) {
+    files.push({
+      path: "backend/src/db/tenant.ts",
+      type: "database",
+      content: `import { drizzle } from "drizzle-orm/node-postgres";
+import type { NodePgDatabase } from "drizzle-orm/node-postgres";
+import type { NextFunction, Request, Response } from "express";
+import * as schema from "./schema.js";
+import { withTenant } from "../tenancy/db.js";
+
+export type TenantDb = NodePgDatabase<typeof schema>;
+
+// Drizzle over a connection scoped to the current tenant; the root \`db\` is for tenant-independent work only
+export function withTenantDb<T>(fn: (db: TenantDb) => Promise<T>): Promise<T> {
+  return withTenant((client) => fn(drizzle(client, { schema })));
+}
+
+export function tenantRoute(handler: (db: TenantDb, req: Request, res: Response) => Promise<unknown>) {
+  return (req: Request, res: Response, next: NextFunction) => {
+    withTenantDb((db) => handler(db, req, res)).catch(next);
+  };
+}
+`,
+    });
+  }
+
   for (const module of context.modules) {
-    files.push(generateRouteFile(module, context));
+    files.push(generateRouteFile(module, context, tenancy));
+  }
+
+  for (const file of graphql?.files || []) {
+    files.push({ path: `backend/${file.path}`, content: file.content, type: "backend" });
+  }
+
+  for (const file of messaging?.files || []) {
+    const type = file.path.endsWith(".sql") ? "database" : file.path.endsWith(".yml") ? "config" : "backend";
+    files.push({ path: `backend/${file.path}`, content: file.content, type });
+  }
+
+  for (const file of tenancy?.files || []) {
+    files.push({ path: `backend/${file.path}`, content: file.content, type: file.path.endsWith(".sql") ? "database" : "backend" });
   }
 
   return files;
 }
 
-function generateRouteFile(module: ModuleDefinition, context: ProjectContext): GeneratedFile {
+function messagingEvents(context: ProjectContext): EntityEventKind[] {
+  if (!context.messaging) return [];
+  return context.messaging.events?.length ? context.messaging.events : ["created", "updated", "deleted"];
+}
+
+function generateRouteFile(module: ModuleDefinition, context: ProjectContext, tenancy: GeneratedTenancy | null): GeneratedFile {
   const routeName = toKebabCase(module.name);
   const tables = module.tables;
+  const events = messagingEvents(context);
+  const handler: RouteHandler = {
+    open: (params) => (tenancy ? `tenantRoute(async (db, ${params}) => {` : `async (${params}) => {`),
+    close: tenancy ? "}));" : "});",
+    sharedDb: !!tenancy?.tenantColumn,
+  };
 
   let imports = `import { Router } from "express";
-import { db } from "../db/index.js";
+${tenancy ? `import { tenantRoute } from "../db/tenant.js";` : `import { db } from "../db/index.js";`}
 import { ${tables.map((t) => toCamelCase(t.name)).join(", ")} } from "../db/schema.js";
-import { eq } from "drizzle-orm";
-`;
+import { ${handler.sharedDb ? "and, eq" : "eq"} } from "drizzle-orm";
+${handler.sharedDb ? `import { currentTenant } from "../tenancy/context.js";\n` : ""}${events.length ? `import { recordEvent } from "../messaging/producer.js";\n` : ""}`;
 
   let routes = `const router = Router();
 
@@ -298,74 +399,133 @@ import { eq } from "drizzle-orm";
     const tableCamel = toCamelCase(table.name);
     const tableKebab = toKebabCase(table.name);
     const pkColumn = table.columns.find((c) => c.primaryKey)?.name || "id";
+    const writes = generateWriteRoutes(table.name, tableCamel, tableKebab, pkColumn, events, handler);
 
     routes += `// ${toPascalCase(table.name)} CRUD
-router.get("/${tableKebab}", async (_req, res) => {
+router.get("/${tableKebab}", ${handler.open("_req, res")}
   try {
-    const items = await db.select().from(${tableCamel});
+    const items = await db.select().from(${tableCamel})${handler.sharedDb ? `.where(eq(${tableCamel}.tenantId, currentTenant()))` : ""};
     res.json(items);
   } catch (error) {
     res.status(500).json({ error: "Failed to fetch ${table.name}" });
   }
-});
+${handler.close}
 
-router.get("/${tableKebab}/:id", async (req, res) => {
+router.get("/${tableKebab}/:id", ${handler.open("req, res")}
   try {
-    const [item] = await db.select().from(${tableCamel}).where(eq(${tableCamel}.${pkColumn}, req.params.id));
+    const [item] = await db.select().from(${tableCamel}).where(${byId(tableCamel, pkColumn, handler)});
     if (!item) return res.status(404).json({ error: "Not found" });
     res.json(item);
   } catch (error) {
     res.status(500).json({ error: "Failed to fetch ${table.name}" });
   }
-});
+${handler.close}
+
+${writes}`;
+  }
+
+  routes += `export default router;
+`;
+
+  return {
+    path: `backend/src/routes/${routeName}.ts`,
+    type: "backend",
+    content: imports + routes,
+  };
+}
 
-router.post("/${tableKebab}", async (req, res) => {
+// With tenancy on, handlers get `db` scoped to the request's tenant instead of the root instance
+interface RouteHandler {
+  open: (params: string) => string;
+  close: string;
+  // shared-db: queries also filter on tenantId, so isolation holds even where RLS is bypassed
+  sharedDb: boolean;
+}
+
+function byId(tableCamel: string, pkColumn: string, handler: RouteHandler): string {
+  const pk = `eq(${tableCamel}.${pkColumn}, req.params.id)`;
+  return handler.sharedDb ? `and(${pk}, eq(${tableCamel}.tenantId, currentTenant()))` : pk;
+}
+
+// With messaging on, a write and its entity event commit in one transaction; the outbox relay publishes the event
+function generateWriteRoutes(
+  tableName: string,
+  tableCamel: string,
+  tableKebab: string,
+  pkColumn: string,
+  events: EntityEventKind[],
+  handler: RouteHandler
+): string {
+  const eventType = toSnakeCase(tableName);
+  const pk = toCamelCase(pkColumn);
+  const where = byId(tableCamel, pkColumn, handler);
+  const body = handler.sharedDb ? "{ ...req.body, tenantId: currentTenant() }" : "req.body";
+
+  const create = events.includes("created")
+    ? `    const item = await db.transaction(async (tx) => {
+      const [created] = await tx.insert(${tableCamel}).values(${body}).returning();
+      await recordEvent(tx, "${eventType}.created", created.${pk}, created);
+      return created;
+    });`
+    : `    const [item] = await db.insert(${tableCamel}).values(${body}).returning();`;
+
+  const update = events.includes("updated")
+    ? `    const item = await db.transaction(async (tx) => {
+      const [updated] = await tx.update(${tableCamel}).set(${body}).where(${where}).returning();
+      if (updated) await recordEvent(tx, "${eventType}.updated", updated.${pk}, updated);
+      return updated;
+    });`
+    : `    const [item] = await db.update(${tableCamel}).set(${body}).where(${where}).returning();`;
+
+  const remove = events.includes("deleted")
+    ? `    await db.transaction(async (tx) => {
+      const [deleted] = await tx.delete(${tableCamel}).where(${where}).returning();
+      if (deleted) await recordEvent(tx, "${eventType}.deleted", deleted.${pk}, deleted);
+    });`
+    : `    await db.delete(${tableCamel}).where(${where});`;
+
+  return `router.post("/${tableKebab}", ${handler.open("req, res")}
   try {
-    const [item] = await db.insert(${tableCamel}).values(req.body).returning();
+${create}
     res.status(201).json(item);
   } catch (error) {
-    res.status(500).json({ error: "Failed to create ${table.name}" });
+    res.status(500).json({ error: "Failed to create ${tableName}" });
   }
-});
+${handler.close}
 
-router.put("/${tableKebab}/:id", async (req, res) => {
+router.put("/${tableKebab}/:id", ${handler.open("req, res")}
   try {
-    const [item] = await db.update(${tableCamel}).set(req.body).where(eq(${tableCamel}.${pkColumn}, req.params.id)).returning();
+${update}
     if (!item) return res.status(404).json({ error: "Not found" });
     res.json(item);
   } catch (error) {
-    res.status(500).json({ error: "Failed to update ${table.name}" });
+    res.status(500).json({ error: "Failed to update ${tableName}" });
   }
-});
+${handler.close}
 
-router.delete("/${tableKebab}/:id", async (req, res) => {
+router.delete("/${tableKebab}/:id", ${handler.open("req, res")}
   try {
-    await db.delete(${tableCamel}).where(eq(${tableCamel}.${pkColumn}, req.params.id));
+${remove}
     res.status(204).send();
   } catch (error) {
-    res.status(500).json({ error: "Failed to delete ${table.name}" });
+    res.status(500).json({ error: "Failed to delete ${tableName}" });
   }
-});
+${handler.close}
 
 `;
-  }
-
-  routes += `export default router;
-`;
-
-  return {
-    path: `backend/src/routes/${routeName}.ts`,
-    type: "backend",
-    content: imports + routes,
-  };
 }
 
-function generateDatabaseFiles(context: ProjectContext): GeneratedFile[] {
+function generateDatabaseFiles(
+  context: ProjectContext,
+  messaging: GeneratedMessageQueue | null,
+  tenancy: GeneratedTenancy | null
+): GeneratedFile[] {
   const allTables = context.modules.flatMap((m) => m.tables);
   const files: GeneratedFile[] = [];
+  const tenantColumn = tenancy?.tenantColumn;
 
-  let schemaContent = `import { pgTable, serial, varchar, text, integer, boolean, timestamp, jsonb, decimal, real, bigint, uuid, date } from "drizzle-orm/pg-core";
-import { relations } from "drizzle-orm";
+  let schemaContent = `import { pgTable, serial, varchar, text, integer, boolean, timestamp, jsonb, decimal, real, bigint, uuid, date${messaging || tenantColumn ? ", index" : ""} } from "drizzle-orm/pg-core";
+import { relations${tenantColumn ? ", sql" : ""} } from "drizzle-orm";
 
 `;
 
@@ -376,6 +536,7 @@ import { relations } from "drizzle-orm";
     schemaContent += `export const ${tableCamel} = pgTable("${tableSnake}", {\n`;
 
     for (const col of table.columns) {
+      if (tenantColumn && toSnakeCase(col.name) === tenantColumn) continue;
       const colName = toCamelCase(col.name);
       const colSnake = toSnakeCase(col.name);
       const { drizzleType } = mapColumnType(col.type);
@@ -397,7 +558,17 @@ import { relations } from "drizzle-orm";
 
     schemaContent += `  createdAt: timestamp("created_at").defaultNow(),\n`;
     schemaContent += `  updatedAt: timestamp("updated_at").defaultNow(),\n`;
-    schemaContent += `});\n\n`;
+    if (tenantColumn) {
+      // Stamped from the tenant connection's app.tenant_id; row-level security (npm run tenancy -- setup) enforces it
+      schemaContent += `  tenantId: text("${tenantColumn}").notNull().default(sql\`current_setting('app.tenant_id', true)\`),\n`;
+      schemaContent += `}, (table) => ({\n  tenantIdx: index("${tableSnake}_${tenantColumn}_idx").on(table.tenantId),\n}));\n\n`;
+    } else {
+      schemaContent += `});\n\n`;
+    }
+  }
+
+  if (messaging) {
+    schemaContent += messaging.outboxTable;
   }
 
   files.push({
@@ -411,6 +582,8 @@ import { relations } from "drizzle-orm";
 
 function generateFrontendFiles(context: ProjectContext): GeneratedFile[] {
   const files: GeneratedFile[] = [];
+  // In development the proxy names the tenant, so the generated pages need no tenant handling
+  const tenantHeader = context.tenancy && (context.tenancy.resolution || "header") === "header";
 
   files.push({
     path: "frontend/package.json",
@@ -456,7 +629,7 @@ export default defineConfig({
     port: 3002,
     allowedHosts: true,
     proxy: {
-      "/api": "http://localhost:3001",
+      "/api": ${tenantHeader ? `{ target: "http://localhost:3001", headers: { "x-tenant-id": process.env.TENANT_ID || "default" } }` : `"http://localhost:3001"`},
     },
   },
 });
@@ -857,7 +1030,12 @@ export default function ${componentName}() {
   };
 }
 
-function generateConfigFiles(context: ProjectContext): GeneratedFile[] {
+function generateConfigFiles(
+  context: ProjectContext,
+  messaging: GeneratedMessageQueue | null,
+  graphql: GeneratedGraphQLApi | null,
+  tenancy: GeneratedTenancy | null
+): GeneratedFile[] {
   return [
     {
       path: "README.md",
@@ -874,7 +1052,7 @@ cd backend && npm install
 
 # Run database migrations
 npm run db:push
-
+${tenancy ? "npm run tenancy -- setup\n" : ""}
 # Start backend server
 npm run dev
 
@@ -884,11 +1062,11 @@ cd frontend && npm install
 # Start frontend
 npm run dev
 \`\`\`
-
+${graphql ? `\n## GraphQL\n\nThe backend serves GraphQL at http://localhost:3001/graphql next to the REST routes under /api.\n\n${graphql.instructions}` : ""}
 ## Modules
 
 ${context.modules.map((m) => `### ${m.name}\n${m.description}\n- Tables: ${m.tables.map((t) => t.name).join(", ")}\n- Screens: ${m.screens.map((s) => s.name).join(", ")}`).join("\n\n")}
-`,
+${messaging ? `\n${messaging.instructions}` : ""}${tenancy ? `\n${tenancy.instructions}` : ""}`,
     },
   ];
 }
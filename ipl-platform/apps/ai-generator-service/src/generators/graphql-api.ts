@@ -0,0 +1,646 @@
+import type { EntityEventKind } from './message-queue.js';
+
+export interface GraphQLApiConfig {
+  framework?: 'nodejs';
+  tables: Array<{
+    name: string;
+    columns: Array<{
+      name: string;
+      type: string;
+      primaryKey?: boolean;
+      nullable?: boolean;
+      // "<table>.<column>", e.g. "meters.id"
+      references?: string;
+    }>;
+  }>;
+  // Module (relative to src/graphql/) that exports the pg `pool` the resolvers query
+  poolImport?: string;
+  // Tables also have created_at/updated_at columns (materialized projects)
+  timestamps?: boolean;
+  // Entity events mutations record in the messaging outbox, alongside the row change
+  events?: EntityEventKind[];
+  // Shared-db tenancy column: filled and filtered by the API, never a GraphQL field
+  tenantColumn?: string | null;
+}
+
+export interface GeneratedGraphQLApi {
+  files: Array<{
+    path: string;
+    content: string;
+    description: string;
+  }>;
+  sdl: string;
+  instructions: string;
+  dependencies: Record<string, string>;
+}
+
+interface FieldModel {
+  field: string;
+  column: string;
+  type: string;
+  nullable: boolean;
+  primaryKey: boolean;
+  generated: boolean;
+}
+
+interface TableModel {
+  table: string;
+  typeName: string;
+  singleField: string;
+  listField: string;
+  fields: FieldModel[];
+  primaryKey: FieldModel;
+  references: Array<{ field: string; foreignKey: FieldModel; target: TableModel; targetKey: FieldModel }>;
+  children: Array<{ field: string; source: TableModel; foreignKey: FieldModel; via: string }>;
+}
+
+const RESERVED_TYPES = ['Query', 'Mutation', 'Subscription', 'PageInfo', 'DateTime', 'JSON', 'String', 'Int', 'Float', 'Boolean', 'ID'];
+const CHILDREN_LIMIT = 50;
+
+function toPascalCase(str: string): string {
+  return str.replace(/[-_\s]+(.)?/g, (_, c) => (c ? c.toUpperCase() : '')).replace(/^(.)/, c => c.toUpperCase());
+}
+
+function toCamelCase(str: string): string {
+  const pascal = toPascalCase(str);
+  return pascal.charAt(0).toLowerCase() + pascal.slice(1);
+}
+
+function toSnakeCase(str: string): string {
+  return str.replace(/([a-z])([A-Z])/g, '$1_$2').replace(/[\s-]+/g, '_').toLowerCase();
+}
+
+function singularize(word: string): string {
+  if (/ies$/i.test(word)) return word.slice(0, -3) + 'y';
+  if (/(ss|us|is)$/i.test(word)) return word;
+  if (/(sh|ch|x|ss)es$/i.test(word)) return word.slice(0, -2);
+  if (/s$/i.test(word)) return word.slice(0, -1);
+  return word;
+}
+
+// GraphQL names are [_A-Za-z][_0-9A-Za-z]*
+function graphqlName(str: string): string {
+  const name = str.replace(/[^_0-9A-Za-z]/g, '');
+  return /^[0-9]/.test(name) ? `_${name}` : name || '_';
+}
+
+function claim(name: string, used: Set<string>): string {
+  let candidate = name;
+  for (let i = 2; used.has(candidate); i++) candidate = `${name}${i}`;
+  used.add(candidate);
+  return candidate;
+}
+
+// Mirrors the column types code-materializer gives each table
+function graphqlType(type: string): { type: string; generated: boolean } {
+  const t = type.toLowerCase();
+  if (t.includes('serial')) return { type: 'Int', generated: true };
+  if (t.includes('uuid')) return { type: 'ID', generated: false };
+  if (t.includes('int')) return { type: 'Int', generated: false };
+  if (t.includes('decimal') || t.includes('numeric') || t.includes('float') || t.includes('double') || t.includes('real')) {
+    return { type: 'Float', generated: false };
+  }
+  if (t.includes('bool')) return { type: 'Boolean', generated: false };
+  if (t.includes('timestamp') || t.includes('datetime')) return { type: 'DateTime', generated: false };
+  if (t.includes('json')) return { type: 'JSON', generated: false };
+  return { type: 'String', generated: false };
+}
+
+function buildModels(config: GraphQLApiConfig): TableModel[] {
+  const typeNames = new Set(RESERVED_TYPES);
+  const rootFields = new Set<string>();
+
+  const columnsOf = (table: GraphQLApiConfig['tables'][number]) =>
+    table.columns.filter(col => !config.tenantColumn || toSnakeCase(col.name) !== config.tenantColumn);
+
+  const models: TableModel[] = config.tables.map(table => {
+    const fieldNames = new Set<string>();
+    const fields: FieldModel[] = columnsOf(table).map(col => {
+      const { type, generated } = graphqlType(col.type);
+      return {
+        field: claim(graphqlName(toCamelCase(col.name)), fieldNames),
+        column: toSnakeCase(col.name),
+        type: col.primaryKey ? 'ID' : type,
+        nullable: !!col.nullable && !col.primaryKey,
+        primaryKey: !!col.primaryKey,
+        generated,
+      };
+    });
+    if (!fields.some(f => f.primaryKey)) {
+      const id = fields.find(f => f.column === 'id');
+      if (id) Object.assign(id, { primaryKey: true, type: 'ID', nullable: false });
+    }
+    if (config.timestamps) {
+      for (const column of ['created_at', 'updated_at']) {
+        if (fields.some(f => f.column === column)) continue;
+        fields.push({
+          field: claim(toCamelCase(column), fieldNames),
+          column,
+          type: 'DateTime',
+          nullable: true,
+          primaryKey: false,
+          generated: true,
+        });
+      }
+    }
+
+    const typeName = claim(graphqlName(toPascalCase(singularize(table.name))), typeNames);
+    const single = toCamelCase(typeName);
+    const plural = graphqlName(toCamelCase(table.name));
+    return {
+      table: toSnakeCase(table.name),
+      typeName,
+      singleField: claim(single, rootFields),
+      listField: claim(plural === single ? `${single}List` : plural, rootFields),
+      fields,
+      primaryKey: fields.find(f => f.primaryKey) || fields[0],
+      references: [],
+      children: [],
+    };
+  });
+
+  // "meters.id" on meter_readings.meter_id: MeterReading.meter and Meter.meterReadings
+  config.tables.forEach((table, i) => {
+    const source = models[i];
+    const used = new Set(source.fields.map(f => f.field));
+    columnsOf(table).forEach((col, c) => {
+      if (!col.references) return;
+      const dot = col.references.lastIndexOf('.');
+      const targetTable = toSnakeCase(dot === -1 ? col.references : col.references.slice(0, dot));
+      const targetColumn = toSnakeCase(dot === -1 ? 'id' : col.references.slice(dot + 1));
+      const target = models.find(m => m.table === targetTable);
+      const targetKey = target?.fields.find(f => f.column === targetColumn);
+      if (!target || !targetKey) return;
+
+      const foreignKey = source.fields[c];
+      const stripped = foreignKey.field.replace(/_?(Id|ID|id)$/, '');
+      const field = claim(stripped && stripped !== foreignKey.field ? stripped : toCamelCase(target.typeName), used);
+      source.references.push({ field, foreignKey, target, targetKey });
+      target.children.push({ field: source.listField, source, foreignKey, via: field });
+    });
+  });
+
+  // Named once every reference is known: two references from one table need distinct reverse lists
+  for (const model of models) {
+    const used = new Set(model.fields.map(f => f.field));
+    for (const ref of model.references) used.add(ref.field);
+    for (const child of model.children) {
+      const ambiguous = child.source.references.filter(r => r.target === model).length > 1;
+      child.field = claim(ambiguous ? `${child.source.listField}By${toPascalCase(child.via)}` : child.field, used);
+    }
+  }
+  return models;
+}
+
+function generateSdl(models: TableModel[]): string {
+  const blocks: string[] = [
+    `scalar DateTime
+scalar JSON
+
+type PageInfo {
+  hasNextPage: Boolean!
+  endCursor: String
+}`,
+  ];
+
+  for (const m of models) {
+    const fields = [
+      ...m.fields.map(f => `  ${f.field}: ${f.type}${f.nullable || f.generated && !f.primaryKey ? '' : '!'}`),
+      // Nullable: nothing guarantees the referenced row still exists
+      ...m.references.map(r => `  ${r.field}: ${r.target.typeName}`),
+      ...m.children.map(c => `  ${c.field}(first: Int = ${CHILDREN_LIMIT}): [${c.source.typeName}!]!`),
+    ];
+    const filters = m.fields.filter(f => f.type !== 'JSON').flatMap(f => {
+      const ops = [`  ${f.field}: ${f.type}`];
+      if (f.type === 'String') ops.push(`  ${f.field}Contains: String`);
+      if (['Int', 'Float', 'DateTime'].includes(f.type)) ops.push(`  ${f.field}Gt: ${f.type}`, `  ${f.field}Lt: ${f.type}`);
+      return ops;
+    });
+    const writable = m.fields.filter(f => !f.generated);
+
+    blocks.push(`type ${m.typeName} {
+${fields.join('\n')}
+}
+
+type ${m.typeName}Edge {
+  cursor: String!
+  node: ${m.typeName}!
+}
+
+type ${m.typeName}Connection {
+  edges: [${m.typeName}Edge!]!
+  pageInfo: PageInfo!
+  totalCount: Int!
+}
+
+input ${m.typeName}Filter {
+${filters.join('\n')}
+}`);
+
+    if (writable.length) {
+      blocks.push(`input Create${m.typeName}Input {
+${writable.map(f => `  ${f.field}: ${f.type}${f.nullable ? '' : '!'}`).join('\n')}
+}`);
+    }
+    const patchable = writable.filter(f => !f.primaryKey);
+    if (patchable.length) {
+      blocks.push(`input Update${m.typeName}Input {
+${patchable.map(f => `  ${f.field}: ${f.type}`).join('\n')}
+}`);
+    }
+  }
+
+  blocks.push(`type Query {
+${models.map(m => `  ${m.singleField}(${m.primaryKey.field}: ID!): ${m.typeName}
+  ${m.listField}(first: Int = 20, after: String, filter: ${m.typeName}Filter): ${m.typeName}Connection!`).join('\n')}
+}`);
+
+  blocks.push(`type Mutation {
+${models.map(m => {
+    const writable = m.fields.some(f => !f.generated);
+    const patchable = m.fields.some(f => !f.generated && !f.primaryKey);
+    return [
+      `  create${m.typeName}${writable ? `(input: Create${m.typeName}Input!)` : ''}: ${m.typeName}!`,
+      ...(patchable ? [`  update${m.typeName}(${m.primaryKey.field}: ID!, input: Update${m.typeName}Input!): ${m.typeName}`] : []),
+      `  delete${m.typeName}(${m.primaryKey.field}: ID!): Boolean!`,
+    ].join('\n');
+  }).join('\n')}
+}`);
+
+  return blocks.join('\n\n') + '\n';
+}
+
+function generateTablesFile(models: TableModel[]): string {
+  return `export interface TableMeta {
+  table: string;
+  primaryKey: string;
+  // GraphQL field -> column
+  columns: Record<string, string>;
+}
+
+export const TABLES = {
+${models.map(m => `  ${JSON.stringify(m.table)}: {
+    table: ${JSON.stringify(m.table)},
+    primaryKey: ${JSON.stringify(m.primaryKey.field)},
+    columns: { ${m.fields.map(f => `${f.field}: ${JSON.stringify(f.column)}`).join(', ')} },
+  },`).join('\n')}
+} satisfies Record<string, TableMeta>;
+`;
+}
+
+function generateSqlFile(poolImport: string, events: EntityEventKind[], tenantColumn: string | null): string {
+  const andTenant = tenantColumn ? ' AND ${TENANT_SCOPE}' : '';
+  const write = events.length
+    ? `// The row change and its outbox event commit together; the outbox relay publishes the event
+async function write(meta: TableMeta, text: string, params: unknown[], event: EntityEventKind): Promise<Row | null> {
+  const client = await pool.connect();
+  try {
+    await client.query("BEGIN");
+    const { rows } = await client.query(text, params);
+    const node = rows[0] ? toNode(meta, rows[0]) : null;
+    if (node && EVENTS.includes(event)) {
+      await recordEventSql(client, \`\${meta.table}.\${event}\` as EventType, node[meta.primaryKey], node);
+    }
+    await client.query("COMMIT");
+    return node;
+  } catch (error) {
+    await client.query("ROLLBACK");
+    throw error;
+  } finally {
+    client.release();
+  }
+}`
+    : `async function write(meta: TableMeta, text: string, params: unknown[], _event: EntityEventKind): Promise<Row | null> {
+  const { rows } = await pool.query(text, params);
+  return rows[0] ? toNode(meta, rows[0]) : null;
+}`;
+
+  return `import { GraphQLError } from "graphql";
+import { pool } from "${poolImport}";
+${events.length ? `import { recordEventSql } from "../messaging/producer.js";
+import type { EventType } from "../messaging/events.js";
+` : ''}import type { TableMeta } from "./tables.js";
+
+export type Row = Record<string, any>;
+
+export interface ConnectionArgs {
+  first?: number | null;
+  after?: string | null;
+  filter?: Row | null;
+}
+
+type EntityEventKind = "created" | "updated" | "deleted";
+${events.length ? `const EVENTS: EntityEventKind[] = ${JSON.stringify(events)};\n` : ''}
+const MAX_PAGE_SIZE = 100;
+
+// Identifiers come from TABLES, never from the request; quoting covers reserved words
+export const quote = (identifier: string) => \`"\${identifier.replace(/"/g, '""')}"\`;
+${tenantColumn ? `
+// shared-db: every statement also names the connection's tenant, so isolation holds even where RLS is bypassed
+const TENANT_COLUMN = quote(${JSON.stringify(tenantColumn)});
+const CURRENT_TENANT = "current_setting('app.tenant_id', true)";
+export const TENANT_SCOPE = \`\${TENANT_COLUMN} = \${CURRENT_TENANT}\`;
+` : ''}
+// Rows come back keyed by column; GraphQL fields are the names in TableMeta.columns
+export function toNode(meta: TableMeta, row: Row): Row {
+  const node: Row = {};
+  for (const [field, column] of Object.entries(meta.columns)) node[field] = row[column];
+  return node;
+}
+
+function column(meta: TableMeta, field: string): string {
+  const name = meta.columns[field];
+  if (!name) throw new GraphQLError(\`Unknown field \${field}\`);
+  return quote(name);
+}
+
+const FILTER_OPERATORS: Array<[suffix: string, operator: string]> = [["Contains", "ILIKE"], ["Gt", ">"], ["Lt", "<"]];
+
+function whereClause(meta: TableMeta, filter: Row, params: unknown[]): string[] {
+  const conditions: string[] = [];
+  for (const [key, value] of Object.entries(filter)) {
+    if (value === undefined) continue;
+    const op = meta.columns[key] ? undefined : FILTER_OPERATORS.find(([suffix]) => key.endsWith(suffix));
+    const field = op ? key.slice(0, -op[0].length) : key;
+    if (value === null) {
+      conditions.push(\`\${column(meta, field)} IS NULL\`);
+      continue;
+    }
+    params.push(op?.[0] === "Contains" ? \`%\${String(value).replace(/[\\\\%_]/g, "\\\\$&")}%\` : value);
+    conditions.push(\`\${column(meta, field)} \${op ? op[1] : "="} $\${params.length}\`);
+  }
+  return conditions;
+}
+
+const where = (conditions: string[]) => (conditions.length ? \` WHERE \${conditions.join(" AND ")}\` : "");
+
+// Cursors are the opaque primary key of the last row seen; pages are in primary key order
+const encodeCursor = (value: unknown) => Buffer.from(JSON.stringify(value)).toString("base64url");
+
+function decodeCursor(cursor: string): unknown {
+  try {
+    return JSON.parse(Buffer.from(cursor, "base64url").toString());
+  } catch {
+    throw new GraphQLError("Invalid cursor");
+  }
+}
+
+export async function findConnection(meta: TableMeta, args: ConnectionArgs) {
+  const first = Math.min(Math.max(args.first ?? 20, 0), MAX_PAGE_SIZE);
+  const params: unknown[] = [];
+  const conditions = ${tenantColumn ? '[TENANT_SCOPE, ...whereClause(meta, args.filter || {}, params)]' : 'whereClause(meta, args.filter || {}, params)'};
+  const countText = \`SELECT COUNT(*)::int AS count FROM \${quote(meta.table)}\${where(conditions)}\`;
+  const countParams = [...params];
+
+  const pk = column(meta, meta.primaryKey);
+  if (args.after) {
+    params.push(decodeCursor(args.after));
+    conditions.push(\`\${pk} > $\${params.length}\`);
+  }
+  params.push(first + 1);
+  const [{ rows }, count] = await Promise.all([
+    pool.query(\`SELECT * FROM \${quote(meta.table)}\${where(conditions)} ORDER BY \${pk} LIMIT $\${params.length}\`, params),
+    pool.query(countText, countParams),
+  ]);
+
+  const edges = rows.slice(0, first).map((row) => {
+    const node = toNode(meta, row);
+    return { cursor: encodeCursor(node[meta.primaryKey]), node };
+  });
+  return {
+    edges,
+    totalCount: count.rows[0].count,
+    pageInfo: { hasNextPage: rows.length > first, endCursor: edges.at(-1)?.cursor ?? null },
+  };
+}
+
+function assignments(meta: TableMeta, input: Row): Array<[string, unknown]> {
+  return Object.entries(input)
+    .filter(([, value]) => value !== undefined)
+    .map(([field, value]) => [column(meta, field), value]);
+}
+
+${write}
+
+export async function insertRow(meta: TableMeta, input: Row = {}): Promise<Row> {
+  const values = assignments(meta, input);
+${tenantColumn ? `  const columns = [...values.map(([col]) => col), TENANT_COLUMN];
+  const placeholders = [...values.map((_, i) => \`$\${i + 1}\`), CURRENT_TENANT];
+  const text = \`INSERT INTO \${quote(meta.table)} (\${columns.join(", ")}) VALUES (\${placeholders.join(", ")}) RETURNING *\`;` : `  const text = values.length
+    ? \`INSERT INTO \${quote(meta.table)} (\${values.map(([col]) => col).join(", ")}) VALUES (\${values.map((_, i) => \`$\${i + 1}\`).join(", ")}) RETURNING *\`
+    : \`INSERT INTO \${quote(meta.table)} DEFAULT VALUES RETURNING *\`;`}
+  return (await write(meta, text, values.map(([, value]) => value), "created"))!;
+}
+
+export async function updateRow(meta: TableMeta, id: string, input: Row): Promise<Row | null> {
+  const values = assignments(meta, input);
+  if (!values.length) throw new GraphQLError("input must set at least one field");
+  const text = \`UPDATE \${quote(meta.table)} SET \${values.map(([col], i) => \`\${col} = $\${i + 1}\`).join(", ")} WHERE \${column(meta, meta.primaryKey)} = $\${values.length + 1}${andTenant} RETURNING *\`;
+  return write(meta, text, [...values.map(([, value]) => value), id], "updated");
+}
+
+export async function deleteRow(meta: TableMeta, id: string): Promise<boolean> {
+  const text = \`DELETE FROM \${quote(meta.table)} WHERE \${column(meta, meta.primaryKey)} = $1${andTenant} RETURNING *\`;
+  return (await write(meta, text, [id], "deleted")) !== null;
+}
+`;
+}
+
+function generateLoadersFile(poolImport: string, tenantColumn: string | null): string {
+  const andTenant = tenantColumn ? ' AND ${TENANT_SCOPE}' : '';
+  return `import DataLoader from "dataloader";
+import { pool } from "${poolImport}";
+import { quote, ${tenantColumn ? 'TENANT_SCOPE, ' : ''}toNode } from "./sql.js";
+import type { Row } from "./sql.js";
+import type { TableMeta } from "./tables.js";
+
+// Created per request, so batching and caching never leak between requests.
+// Each nested field resolves through a loader: a page of N rows costs one query per relation, not N.
+export function createLoaders() {
+  const loaders = new Map<string, DataLoader<string, any>>();
+  function memo<V>(key: string, create: () => DataLoader<string, V>): DataLoader<string, V> {
+    let loader = loaders.get(key);
+    if (!loader) {
+      loader = create();
+      loaders.set(key, loader);
+    }
+    return loader;
+  }
+
+  return {
+    // Rows by the value of one column: the primary key, or the target of a reference
+    byKey: (meta: TableMeta, field: string) =>
+      memo(\`\${meta.table}.\${field}\`, () => new DataLoader<string, Row | null>(async (keys) => {
+        const col = meta.columns[field];
+        const { rows } = await pool.query(\`SELECT * FROM \${quote(meta.table)} WHERE \${quote(col)} = ANY($1)${andTenant}\`, [keys]);
+        const byKey = new Map(rows.map((row) => [String(row[col]), toNode(meta, row)]));
+        return keys.map((key) => byKey.get(String(key)) ?? null);
+      })),
+
+    // At most \`limit\` rows per parent for a reverse relation, in primary key order
+    children: (meta: TableMeta, field: string, limit: number) =>
+      memo(\`\${meta.table}.\${field}[\${limit}]\`, () => new DataLoader<string, Row[]>(async (keys) => {
+        const col = meta.columns[field];
+        const pk = quote(meta.columns[meta.primaryKey]);
+        const { rows } = await pool.query(
+          \`SELECT * FROM (
+            SELECT *, ROW_NUMBER() OVER (PARTITION BY \${quote(col)} ORDER BY \${pk}) AS __rank
+            FROM \${quote(meta.table)} WHERE \${quote(col)} = ANY($1)${andTenant}
+          ) ranked WHERE __rank <= $2 ORDER BY \${pk}\`,
+          [keys, limit],
+        );
+        const groups = new Map<string, Row[]>(keys.map((key) => [String(key), []]));
+        for (const row of rows) groups.get(String(row[col]))?.push(toNode(meta, row));
+        return keys.map((key) => groups.get(String(key)) ?? []);
+      })),
+  };
+}
+
+export interface Context {
+  loaders: ReturnType<typeof createLoaders>;
+}
+`;
+}
+
+function generateResolversFile(models: TableModel[]): string {
+  const table = (m: TableModel) => `TABLES[${JSON.stringify(m.table)}]`;
+  const query = models.map(m => `    ${m.singleField}: (_: unknown, args: { ${m.primaryKey.field}: string }, { loaders }: Context) =>
+      loaders.byKey(${table(m)}, ${JSON.stringify(m.primaryKey.field)}).load(args.${m.primaryKey.field}),
+    ${m.listField}: (_: unknown, args: ConnectionArgs) => findConnection(${table(m)}, args),`);
+
+  const mutation = models.map(m => {
+    const writable = m.fields.some(f => !f.generated);
+    const patchable = m.fields.some(f => !f.generated && !f.primaryKey);
+    const pk = m.primaryKey.field;
+    return [
+      writable
+        ? `    create${m.typeName}: (_: unknown, { input }: { input: Row }) => insertRow(${table(m)}, input),`
+        : `    create${m.typeName}: () => insertRow(${table(m)}),`,
+      ...(patchable
+        ? [`    update${m.typeName}: (_: unknown, args: { ${pk}: string; input: Row }) => updateRow(${table(m)}, args.${pk}, args.input),`]
+        : []),
+      `    delete${m.typeName}: (_: unknown, args: { ${pk}: string }) => deleteRow(${table(m)}, args.${pk}),`,
+    ].join('\n');
+  });
+
+  const typeResolvers = models
+    .filter(m => m.references.length || m.children.length)
+    .map(m => `  ${m.typeName}: {
+${[
+      ...m.references.map(r => `    ${r.field}: (parent: Row, _: unknown, { loaders }: Context) =>
+      parent.${r.foreignKey.field} == null ? null : loaders.byKey(${table(r.target)}, ${JSON.stringify(r.targetKey.field)}).load(String(parent.${r.foreignKey.field})),`),
+      ...m.children.map(c => `    ${c.field}: (parent: Row, { first }: { first: number }, { loaders }: Context) =>
+      loaders.children(${table(c.source)}, ${JSON.stringify(c.foreignKey.field)}, Math.min(Math.max(first, 0), 100)).load(String(parent.${m.primaryKey.field})),`),
+    ].join('\n')}
+  },`);
+
+  return `import { GraphQLScalarType, Kind, valueFromASTUntyped } from "graphql";
+import { deleteRow, findConnection, insertRow, updateRow } from "./sql.js";
+import type { ConnectionArgs, Row } from "./sql.js";
+import type { Context } from "./loaders.js";
+import { TABLES } from "./tables.js";
+
+const DateTime = new GraphQLScalarType({
+  name: "DateTime",
+  serialize: (value) => (value instanceof Date ? value.toISOString() : value),
+  parseValue: (value) => new Date(value as string),
+  parseLiteral: (ast) => (ast.kind === Kind.STRING ? new Date(ast.value) : null),
+});
+
+const JSONScalar = new GraphQLScalarType({
+  name: "JSON",
+  serialize: (value) => value,
+  parseValue: (value) => value,
+  parseLiteral: (ast, variables) => valueFromASTUntyped(ast, variables),
+});
+
+export const resolvers = {
+  DateTime,
+  JSON: JSONScalar,
+  Query: {
+${query.join('\n')}
+  },
+  Mutation: {
+${mutation.join('\n')}
+  },
+${typeResolvers.join('\n')}
+};
+`;
+}
+
+function generateServerFile(): string {
+  return `import { createSchema, createYoga } from "graphql-yoga";
+import { createLoaders } from "./loaders.js";
+import { resolvers } from "./resolvers.js";
+import { typeDefs } from "./schema.js";
+
+// Mount before express.json(): Yoga reads the request body itself
+export const yoga = createYoga({
+  schema: createSchema({ typeDefs, resolvers }),
+  context: () => ({ loaders: createLoaders() }),
+  graphqlEndpoint: "/graphql",
+});
+`;
+}
+
+export function generateGraphQLApi(config: GraphQLApiConfig): GeneratedGraphQLApi {
+  if (config.framework && config.framework !== 'nodejs') {
+    throw new Error(`GraphQL generation supports the nodejs target only, not ${config.framework}`);
+  }
+  if (!config.tables.length) {
+    throw new Error('At least one table is required to generate a GraphQL API');
+  }
+
+  const models = buildModels(config);
+  const sdl = generateSdl(models);
+  const poolImport = config.poolImport || '../config/database.js';
+  const events = config.events || [];
+  const tenantColumn = config.tenantColumn || null;
+
+  return {
+    sdl,
+    files: [
+      {
+        path: 'src/graphql/schema.ts',
+        description: 'GraphQL type definitions',
+        content: `export const typeDefs = /* GraphQL */ \`\n${sdl}\`;\n`,
+      },
+      {
+        path: 'src/graphql/tables.ts',
+        description: 'Field to column mapping of every table',
+        content: generateTablesFile(models),
+      },
+      {
+        path: 'src/graphql/sql.ts',
+        description: 'Cursor-paginated, filtered queries and mutations',
+        content: generateSqlFile(poolImport, events, tenantColumn),
+      },
+      {
+        path: 'src/graphql/loaders.ts',
+        description: 'Per-request DataLoaders for nested reference fields',
+        content: generateLoadersFile(poolImport, tenantColumn),
+      },
+      {
+        path: 'src/graphql/resolvers.ts',
+        description: 'Query, Mutation and relation resolvers',
+        content: generateResolversFile(models),
+      },
+      {
+        path: 'src/graphql/index.ts',
+        description: 'GraphQL Yoga server, mounted at /graphql',
+        content: generateServerFile(),
+      },
+    ],
+    instructions: `GraphQL is served at /graphql (GraphiQL in the browser). Mount it with
+\`app.use(yoga.graphqlEndpoint, yoga)\` before \`express.json()\`.
+
+Lists are connections: \`${models[0].listField}(first: 20, after: $cursor, filter: {...}) { edges { cursor node { ... } } pageInfo { hasNextPage endCursor } totalCount }\`.
+Columns with \`references\` resolve as nested objects, and the referenced type gets the reverse list; both are batched with DataLoader.
+`,
+    dependencies: {
+      graphql: '^16.9.0',
+      'graphql-yoga': '^5.10.0',
+      dataloader: '^2.2.2',
+    },
+  };
+}
@@ -12,3 +12,7 @@ export * from './backend-api.js';
 export * from './migration-assistant.js';
 export * from './documentation.js';
 export * from './code-materializer.js';
+export * from './message-queue.js';
+export * from './graphql-api.js';
+export * from './tenancy.js';
+export * from './residency.js';
@@ -1,3 +1,6 @@
+import { resolveResidency, residencyRegion } from './residency.js';
+import type { Jurisdiction } from './residency.js';
+
 export interface InfraContext {
   domain: string;
   database: string;
@@ -7,11 +10,16 @@ export interface InfraContext {
   cacheNodes: number;
   region?: string;
   projectName?: string;
+  // Canonical spec app.dataResidency: keeps compute, replicas and backups inside the jurisdiction
+  dataResidency?: string | null;
 }
 
+const yamlList = (items: string[]) => `[${items.join(', ')}]`;
+
 export function generateTerraform(ctx: InfraContext): string {
   const project = ctx.projectName || `${ctx.domain}-platform`;
-  const region = ctx.region || 'us-east-1';
+  const residency = resolveResidency(ctx.dataResidency);
+  const region = residency ? residencyRegion(residency, ctx.region) : ctx.region || 'us-east-1';
   
   return `# Terraform Configuration for ${project}
 # Generated by Intelligent Platform Launcher
@@ -41,7 +49,8 @@ provider "aws" {
     tags = {
       Project     = "${project}"
       Environment = var.environment
-      ManagedBy   = "Terraform"
+      ManagedBy   = "Terraform"${residency ? `
+      DataResidency = "${residency.id}"` : ''}
     }
   }
 }
@@ -50,7 +59,12 @@ provider "aws" {
 variable "aws_region" {
   description = "AWS region"
   type        = string
-  default     = "${region}"
+  default     = "${region}"${residency ? `
+
+  validation {
+    condition     = contains(${JSON.stringify(residency.regions)}, var.aws_region)
+    error_message = "Data residency (${residency.name}) allows only ${residency.regions.join(', ')}."
+  }` : ''}
 }
 
 variable "environment" {
@@ -189,7 +203,10 @@ resource "aws_rds_cluster" "main" {
   db_subnet_group_name   = aws_db_subnet_group.main.name
   vpc_security_group_ids = [aws_security_group.db.id]
   skip_final_snapshot    = var.environment != "production"
-  
+${residency ? `  # Replicas are instances of this regional cluster and snapshots stay in its region (no global cluster)
+  backup_retention_period = 7
+  copy_tags_to_snapshot   = true
+` : ''}  
   serverlessv2_scaling_configuration {
     min_capacity = 0.5
     max_capacity = ${ctx.tier === 'Small' ? '4' : ctx.tier === 'Medium' ? '16' : ctx.tier === 'Large' ? '64' : '128'}
@@ -232,7 +249,7 @@ resource "aws_elasticache_replication_group" "main" {
 }
 ` : '# No cache configured'}
 
-# Outputs
+${residency ? terraformResidencyGuard(project, residency) : ''}# Outputs
 output "vpc_id" {
   value = module.vpc.vpc_id
 }
@@ -249,10 +266,70 @@ ${ctx.database === 'postgresql' || ctx.database === 'mysql' ? `
 output "database_endpoint" {
   value = aws_rds_cluster.main.endpoint
 }
+` : ''}${residency ? `
+output "data_residency" {
+  value = {
+    jurisdiction = "${residency.name}"
+    regions      = local.residency_regions
+  }
+}
 ` : ''}
 `;
 }
 
+// Attach to every role that deploys or operates the stack (or use it as an SCP):
+// nothing is created outside the jurisdiction and backups cannot be copied out of it
+function terraformResidencyGuard(project: string, residency: Jurisdiction): string {
+  return `# Data Residency (${residency.name})
+locals {
+  residency_regions = ${JSON.stringify(residency.regions)}
+}
+
+data "aws_iam_policy_document" "data_residency" {
+  statement {
+    sid         = "DenyRegionsOutsideJurisdiction"
+    effect      = "Deny"
+    not_actions = ["iam:*", "sts:*", "organizations:*", "route53:*", "cloudfront:*", "support:*", "budgets:*"]
+    resources   = ["*"]
+
+    condition {
+      test     = "StringNotEquals"
+      variable = "aws:RequestedRegion"
+      values   = local.residency_regions
+    }
+  }
+
+  statement {
+    sid       = "DenyBackupCopiesOutsideJurisdiction"
+    effect    = "Deny"
+    actions   = ["backup:StartCopyJob", "backup:CreateBackupPlan", "backup:UpdateBackupPlan"]
+    resources = ["*"]
+
+    condition {
+      test     = "ForAnyValue:StringNotLike"
+      variable = "backup:CopyTargets"
+      values   = [for r in local.residency_regions : "arn:aws:backup:\${r}:*"]
+    }
+  }
+
+  # S3 cannot constrain the destination of bucket replication, so it is not allowed at all
+  statement {
+    sid       = "DenyBucketReplication"
+    effect    = "Deny"
+    actions   = ["s3:PutReplicationConfiguration"]
+    resources = ["*"]
+  }
+}
+
+resource "aws_iam_policy" "data_residency" {
+  name        = "${project}-data-residency"
+  description = "Keeps ${project} resources, replicas and backups in ${residency.name}"
+  policy      = data.aws_iam_policy_document.data_residency.json
+}
+
+`;
+}
+
 export function generateCloudFormation(ctx: InfraContext): string {
   const project = ctx.projectName || `${ctx.domain}-platform`;
   
@@ -594,8 +671,52 @@ volumes:
 `;
 }
 
+// Pods only schedule on nodes in the jurisdiction's regions
+function residencyAffinity(residency: Jurisdiction, indent: string): string {
+  return `nodeAffinity:
+  requiredDuringSchedulingIgnoredDuringExecution:
+    nodeSelectorTerms:
+      - matchExpressions:
+          - key: topology.kubernetes.io/region
+            operator: In
+            values: ${yamlList(residency.regions)}`.split('\n').map(line => indent + line).join('\n');
+}
+
+// Kyverno policy: Velero backup and snapshot locations must be in the jurisdiction.
+// \`escape\` wraps Kyverno's {{ }} expressions for use inside a Helm template.
+function backupResidencyPolicy(project: string, residency: Jurisdiction, escape = (expr: string) => expr): string {
+  return `apiVersion: kyverno.io/v1
+kind: ClusterPolicy
+metadata:
+  name: ${project}-backup-residency
+  annotations:
+    policies.kyverno.io/description: Backups of ${project} stay in ${residency.name}
+spec:
+  validationFailureAction: Enforce
+  background: true
+  rules:
+    - name: backup-location-in-jurisdiction
+      match:
+        any:
+          - resources:
+              kinds:
+                - velero.io/v1/BackupStorageLocation
+                - velero.io/v1/VolumeSnapshotLocation
+      validate:
+        message: "Data residency (${residency.name}): backup locations must use region ${residency.regions.join(' or ')}"
+        deny:
+          conditions:
+            any:
+              - key: "${escape("{{ request.object.spec.config.region || '' }}")}"
+                operator: AnyNotIn
+                value: ${yamlList(residency.regions)}
+`;
+}
+
 export function generateKubernetes(ctx: InfraContext): string {
   const project = ctx.projectName || `${ctx.domain}-platform`;
+  const residency = resolveResidency(ctx.dataResidency);
+  if (residency && ctx.region) residencyRegion(residency, ctx.region);
   
   return `# Kubernetes Manifests for ${project}
 # Generated by Intelligent Platform Launcher
@@ -605,7 +726,8 @@ kind: Namespace
 metadata:
   name: ${project}
   labels:
-    app: ${project}
+    app: ${project}${residency ? `
+    data-residency: ${residency.id}` : ''}
 ---
 apiVersion: v1
 kind: ConfigMap
@@ -614,7 +736,9 @@ metadata:
   namespace: ${project}
 data:
   NODE_ENV: "production"
-  LOG_LEVEL: "info"
+  LOG_LEVEL: "info"${residency ? `
+  DATA_RESIDENCY: "${residency.id}"
+  DATA_REGIONS: "${residency.regions.join(',')}"` : ''}
 ---
 apiVersion: v1
 kind: Secret
@@ -646,7 +770,7 @@ spec:
         app: ${project}
         component: app
     spec:
-      containers:
+${residency ? `      affinity:\n${residencyAffinity(residency, '        ')}\n` : ''}      containers:
         - name: app
           image: ${project}:latest
           ports:
@@ -740,11 +864,13 @@ spec:
         target:
           type: Utilization
           averageUtilization: 80
-`;
+${residency ? `---\n${backupResidencyPolicy(project, residency)}` : ''}`;
 }
 
 export function generateHelmChart(ctx: InfraContext): string {
   const project = ctx.projectName || `${ctx.domain}-platform`;
+  const residency = resolveResidency(ctx.dataResidency);
+  if (residency && ctx.region) residencyRegion(residency, ctx.region);
   
   return `# Helm Chart for ${project}
 # Generated by Intelligent Platform Launcher
@@ -818,7 +944,7 @@ autoscaling:
 
 nodeSelector: {}
 tolerations: []
-affinity: {}
+${residency ? `affinity:\n${residencyAffinity(residency, '  ')}\n\n# Pods, replicas and backups stay in these regions\ndataResidency:\n  jurisdiction: ${residency.id}\n  regions: ${yamlList(residency.regions)}\n  enforceBackupLocations: true` : 'affinity: {}'}
 
 database:
   enabled: true
@@ -834,7 +960,7 @@ redis:
 
 env:
   NODE_ENV: production
-  LOG_LEVEL: info
+  LOG_LEVEL: info${residency ? `\n  DATA_RESIDENCY: ${residency.id}\n  DATA_REGIONS: "${residency.regions.join(',')}"` : ''}
 
 secrets:
   databaseUrl: ""
@@ -867,6 +993,10 @@ spec:
       serviceAccountName: {{ include "${project}.serviceAccountName" . }}
       securityContext:
         {{- toYaml .Values.podSecurityContext | nindent 8 }}
+      {{- with .Values.affinity }}
+      affinity:
+        {{- toYaml . | nindent 8 }}
+      {{- end }}
       containers:
         - name: {{ .Chart.Name }}
           securityContext:
@@ -889,5 +1019,10 @@ spec:
             initialDelaySeconds: 5
           resources:
             {{- toYaml .Values.resources | nindent 12 }}
-`;
+${residency ? `
+---
+# templates/backup-residency.yaml
+{{- if .Values.dataResidency.enforceBackupLocations }}
+${backupResidencyPolicy(project, residency, expr => `{{ \`${expr}\` }}`)}{{- end }}
+` : ''}`;
 }
@@ -0,0 +1,78 @@
+export interface Jurisdiction {
+  id: string;
+  name: string;
+  // Other spellings accepted for app.dataResidency
+  aliases: string[];
+  // AWS regions inside the jurisdiction; the first is the default
+  regions: string[];
+}
+
+export const JURISDICTIONS: Jurisdiction[] = [
+  { id: 'india', name: 'India', aliases: ['in'], regions: ['ap-south-1', 'ap-south-2'] },
+  // EU member states only: London (UK) and Zurich (Switzerland) are outside
+  { id: 'eu', name: 'European Union', aliases: ['europe', 'european-union'], regions: ['eu-central-1', 'eu-west-1', 'eu-west-3', 'eu-north-1', 'eu-south-1', 'eu-south-2'] },
+  { id: 'uk', name: 'United Kingdom', aliases: ['gb', 'united-kingdom'], regions: ['eu-west-2'] },
+  { id: 'us', name: 'United States', aliases: ['usa', 'united-states'], regions: ['us-east-1', 'us-east-2', 'us-west-1', 'us-west-2'] },
+  { id: 'canada', name: 'Canada', aliases: ['ca'], regions: ['ca-central-1', 'ca-west-1'] },
+  { id: 'australia', name: 'Australia', aliases: ['au'], regions: ['ap-southeast-2', 'ap-southeast-4'] },
+  { id: 'singapore', name: 'Singapore', aliases: ['sg'], regions: ['ap-southeast-1'] },
+];
+
+// Compliance regimes (canonical spec nonFunctional.compliance) that expect data kept in one jurisdiction
+export const COMPLIANCE_RESIDENCY: Record<string, string> = {
+  'dpdp-india': 'india',
+  gdpr: 'eu',
+};
+
+const normalize = (value: string) => value.trim().toLowerCase().replace(/[\s_]+/g, '-');
+
+export function findJurisdiction(value?: string | null): Jurisdiction | null {
+  if (!value) return null;
+  const key = normalize(value);
+  return JURISDICTIONS.find(j => j.id === key || normalize(j.name) === key || j.aliases.includes(key)) || null;
+}
+
+export function resolveResidency(value?: string | null): Jurisdiction | null {
+  if (!value) return null;
+  const jurisdiction = findJurisdiction(value);
+  if (!jurisdiction) {
+    throw new Error(`Unknown data residency "${value}" (${JURISDICTIONS.map(j => j.id).join(', ')})`);
+  }
+  return jurisdiction;
+}
+
+// The region to deploy to: the requested one if it is inside the jurisdiction, else an error
+export function residencyRegion(jurisdiction: Jurisdiction, region?: string): string {
+  if (!region) return jurisdiction.regions[0];
+  if (!jurisdiction.regions.includes(region)) {
+    throw new Error(`Region ${region} is outside ${jurisdiction.name} (data residency allows ${jurisdiction.regions.join(', ')})`);
+  }
+  return region;
+}
+
+export interface ResidencyPlacement {
+  region?: string;
+  replicaRegions?: string[];
+  backupRegions?: string[];
+}
+
+export interface ResidencyViolation {
+  kind: 'region' | 'replica' | 'backup';
+  region: string;
+  message: string;
+}
+
+export function residencyViolations(jurisdiction: Jurisdiction, placement: ResidencyPlacement): ResidencyViolation[] {
+  const outside = (region: string) => !jurisdiction.regions.includes(region);
+  const violations: ResidencyViolation[] = [];
+  if (placement.region && outside(placement.region)) {
+    violations.push({ kind: 'region', region: placement.region, message: `Primary region ${placement.region} is outside ${jurisdiction.name}` });
+  }
+  for (const region of (placement.replicaRegions || []).filter(outside)) {
+    violations.push({ kind: 'replica', region, message: `Data is replicated to ${region}, outside ${jurisdiction.name}` });
+  }
+  for (const region of (placement.backupRegions || []).filter(outside)) {
+    violations.push({ kind: 'backup', region, message: `Backups are copied to ${region}, outside ${jurisdiction.name}` });
+  }
+  return violations;
+}
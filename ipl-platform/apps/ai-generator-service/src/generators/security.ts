@@ -1,8 +1,15 @@
+import { COMPLIANCE_RESIDENCY, JURISDICTIONS, findJurisdiction, residencyViolations } from './residency.js';
+
 export interface SecurityContext {
   domain: string;
   projectName?: string;
   compliance?: string[];
   deploymentType?: string;
+  // Canonical spec app.dataResidency, checked against where the data is deployed, replicated and backed up
+  dataResidency?: string | null;
+  region?: string;
+  replicaRegions?: string[];
+  backupRegions?: string[];
 }
 
 interface SecurityIssue {
@@ -113,6 +120,8 @@ export function generateSecurityChecklist(ctx: SecurityContext): SecurityReport
     owasp: 'A09:2021',
   });
   
+  const residencyCheck = checkDataResidency(ctx, issues);
+  
   recommendations.push('Enable MFA for all administrative accounts');
   recommendations.push('Implement automated security scanning in CI/CD pipeline');
   recommendations.push('Conduct regular penetration testing');
@@ -185,6 +194,8 @@ export function generateSecurityChecklist(ctx: SecurityContext): SecurityReport
     });
   }
   
+  if (residencyCheck) complianceChecks.push(residencyCheck);
+  
   const criticalCount = issues.filter(i => i.severity === 'critical').length;
   const highCount = issues.filter(i => i.severity === 'high').length;
   const mediumCount = issues.filter(i => i.severity === 'medium').length;
@@ -201,6 +212,74 @@ export function generateSecurityChecklist(ctx: SecurityContext): SecurityReport
   };
 }
 
+// Adds data residency issues; returns the residency compliance check when a jurisdiction is set
+function checkDataResidency(ctx: SecurityContext, issues: SecurityIssue[]) {
+  const compliance = ctx.compliance || [];
+  const jurisdiction = findJurisdiction(ctx.dataResidency);
+
+  if (ctx.dataResidency && !jurisdiction) {
+    issues.push({
+      severity: 'medium',
+      category: 'Data Residency',
+      title: 'Unknown Data Residency',
+      description: `"${ctx.dataResidency}" is not a known jurisdiction, so data placement cannot be verified`,
+      recommendation: `Set app.dataResidency to one of ${JURISDICTIONS.map(j => j.id).join(', ')}.`,
+    });
+  }
+
+  for (const standard of compliance.filter(c => COMPLIANCE_RESIDENCY[c])) {
+    const expected = JURISDICTIONS.find(j => j.id === COMPLIANCE_RESIDENCY[standard])!;
+    if (!ctx.dataResidency) {
+      issues.push({
+        severity: 'high',
+        category: 'Data Residency',
+        title: `No Data Residency for ${standard.toUpperCase()}`,
+        description: `${standard.toUpperCase()} applies but app.dataResidency is not set, so infrastructure may be placed, replicated or backed up anywhere`,
+        recommendation: `Set app.dataResidency to "${expected.id}" to constrain generated infrastructure to ${expected.regions.join(', ')}.`,
+      });
+    } else if (jurisdiction && jurisdiction.id !== expected.id) {
+      issues.push({
+        severity: 'medium',
+        category: 'Data Residency',
+        title: `Data Stored Outside ${expected.name}`,
+        description: `${standard.toUpperCase()} applies but data resides in ${jurisdiction.name}`,
+        recommendation: `Document the legal basis for transferring personal data out of ${expected.name}, or set app.dataResidency to "${expected.id}".`,
+      });
+    }
+  }
+
+  if (!jurisdiction) return null;
+
+  const violations = residencyViolations(jurisdiction, ctx);
+  const titles: Record<string, string> = {
+    region: 'Deployment Region Outside Jurisdiction',
+    replica: 'Cross-Jurisdiction Replication',
+    backup: 'Cross-Jurisdiction Backups',
+  };
+  for (const v of violations) {
+    issues.push({
+      severity: 'critical',
+      category: 'Data Residency',
+      title: titles[v.kind],
+      description: `${v.message} (data residency: ${jurisdiction.name})`,
+      recommendation: `Use only ${jurisdiction.regions.join(', ')} for ${v.kind === 'region' ? 'deployment' : v.kind === 'replica' ? 'replicas' : 'backup copies'}.`,
+    });
+  }
+
+  const checked = [ctx.region ? 1 : 0, ctx.replicaRegions?.length || 0, ctx.backupRegions?.length || 0].reduce((a, b) => a + b, 0);
+  return {
+    standard: `Data Residency (${jurisdiction.name})`,
+    passed: checked - violations.length,
+    failed: violations.length,
+    controls: [
+      `Deploy only to ${jurisdiction.regions.join(', ')}`,
+      'Replicate databases and caches only within the jurisdiction',
+      'Keep backups and snapshot copies within the jurisdiction',
+      'Deny resource creation in other regions (IAM/SCP guard)',
+    ],
+  };
+}
+
 export function generateSecurityConfig(ctx: SecurityContext): string {
   return `// Security Configuration
 // Generated by Intelligent Platform Launcher
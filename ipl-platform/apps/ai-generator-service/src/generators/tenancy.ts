@@ -0,0 +1,775 @@
+export type TenancyModel = 'shared-db' | 'schema-per-tenant' | 'db-per-tenant';
+
+export const TENANCY_MODELS: TenancyModel[] = ['shared-db', 'schema-per-tenant', 'db-per-tenant'];
+
+export type TenantResolution = 'header' | 'subdomain' | 'jwt';
+
+export const TENANT_RESOLUTIONS: TenantResolution[] = ['header', 'subdomain', 'jwt'];
+
+export interface TenancyConfig {
+  model: TenancyModel;
+  // Where requests name their tenant; defaults to the X-Tenant-Id header
+  resolution?: TenantResolution;
+  // SQL names of the tables holding tenant data
+  tables: string[];
+  // Module (relative to src/tenancy/) that exports the application's root pg `pool`
+  poolImport?: string;
+}
+
+export interface GeneratedTenancy {
+  files: Array<{
+    path: string;
+    content: string;
+    description: string;
+  }>;
+  // Column that scopes rows under shared-db; the other models keep tenants apart without one
+  tenantColumn: string | null;
+  environment: Record<string, string>;
+  scripts: Record<string, string>;
+  instructions: string;
+  dependencies: Record<string, string>;
+  devDependencies: Record<string, string>;
+}
+
+export const TENANT_COLUMN = 'tenant_id';
+
+export function generateTenancy(config: TenancyConfig): GeneratedTenancy {
+  if (!TENANCY_MODELS.includes(config.model)) {
+    throw new Error(`Unsupported tenancy model: ${config.model}`);
+  }
+  const resolution = config.resolution || 'header';
+  if (!TENANT_RESOLUTIONS.includes(resolution)) {
+    throw new Error(`Unsupported tenant resolution: ${resolution}`);
+  }
+  if (!config.tables.length) {
+    throw new Error('At least one table is required to generate tenancy');
+  }
+
+  const tables = config.tables;
+  const poolImport = config.poolImport || '../config/database.js';
+  const files: GeneratedTenancy['files'] = [
+    {
+      path: 'src/tenancy/context.ts',
+      description: 'Tenant id validation and the per-request tenant (AsyncLocalStorage)',
+      content: generateContextFile(),
+    },
+    {
+      path: 'src/tenancy/resolve.ts',
+      description: `Middleware resolving the tenant from the ${resolutionLabel(resolution)}`,
+      content: generateResolveFile(resolution),
+    },
+    {
+      path: 'src/tenancy/db.ts',
+      description: modelDescription(config.model),
+      content: generateDbFile(config.model, poolImport),
+    },
+    {
+      path: 'src/tenancy/pool.ts',
+      description: 'pg pool look-alike scoped to the current tenant, for code written against `pool`',
+      content: `export { tenantPool as pool } from "./db.js";\n`,
+    },
+    {
+      path: 'src/tenancy/provision.ts',
+      description: 'Setup, tenant creation and removal',
+      content: generateProvisionFile(config.model, tables, poolImport),
+    },
+    {
+      path: 'src/tenancy/cli.ts',
+      description: 'npm run tenancy -- setup | create <tenant> | drop <tenant>',
+      content: generateCliFile(),
+    },
+    {
+      path: 'test/tenancy.test.ts',
+      description: 'Tenant resolution and cross-tenant isolation tests',
+      content: generateTestFile(config.model, resolution),
+    },
+  ];
+  if (config.model === 'shared-db') {
+    files.push({
+      path: 'migrations/tenancy_rls.sql',
+      description: 'tenant_id columns and row-level security policies',
+      content: tables.map(rlsStatements).join('\n'),
+    });
+  }
+
+  return {
+    files,
+    tenantColumn: config.model === 'shared-db' ? TENANT_COLUMN : null,
+    environment: tenancyEnvironment(config.model, resolution),
+    scripts: {
+      tenancy: 'tsx src/tenancy/cli.ts',
+      test: 'node --import tsx --test test/*.test.ts',
+    },
+    instructions: generateInstructions(config.model, resolution),
+    dependencies: resolution === 'jwt' ? { jsonwebtoken: '^9.0.2' } : {},
+    devDependencies: resolution === 'jwt' ? { '@types/jsonwebtoken': '^9.0.5' } : {},
+  };
+}
+
+function resolutionLabel(resolution: TenantResolution): string {
+  if (resolution === 'subdomain') return 'request subdomain';
+  if (resolution === 'jwt') return 'bearer token claim';
+  return 'X-Tenant-Id header';
+}
+
+function modelDescription(model: TenancyModel): string {
+  if (model === 'schema-per-tenant') return 'Connections routed to the tenant schema (search_path)';
+  if (model === 'db-per-tenant') return 'One connection pool per tenant database';
+  return 'Connections carrying app.tenant_id for row-level security';
+}
+
+function tenancyEnvironment(model: TenancyModel, resolution: TenantResolution): Record<string, string> {
+  const env: Record<string, string> = {};
+  if (resolution === 'header') env.TENANT_HEADER = 'x-tenant-id';
+  if (resolution === 'subdomain') env.TENANT_BASE_DOMAIN = 'localhost';
+  if (resolution === 'jwt') env.TENANT_CLAIM = TENANT_COLUMN;
+  if (model === 'db-per-tenant') {
+    env.TENANT_DATABASE_PREFIX = 'tenant_';
+    env.TENANT_TEMPLATE_DATABASE = 'tenant_template';
+    env.TENANT_POOLS_MAX = '50';
+    env.TENANT_POOL_SIZE = '5';
+  }
+  return env;
+}
+
+// Rows that predate tenancy get app.backfill_tenant_id, and the migration stops rather than leave any without a tenant.
+// Volatile default: rows inserted through a tenant connection are stamped with its tenant
+function rlsStatements(table: string): string {
+  const t = `"${table}"`;
+  return `ALTER TABLE ${t} ADD COLUMN IF NOT EXISTS ${TENANT_COLUMN} TEXT;
+UPDATE ${t} SET ${TENANT_COLUMN} = NULLIF(current_setting('app.backfill_tenant_id', true), '') WHERE ${TENANT_COLUMN} IS NULL;
+DO $$ BEGIN
+  IF EXISTS (SELECT 1 FROM ${t} WHERE ${TENANT_COLUMN} IS NULL) THEN
+    RAISE EXCEPTION '${table} has rows without a tenant: SET app.backfill_tenant_id to the tenant that owns them';
+  END IF;
+END $$;
+ALTER TABLE ${t} ALTER COLUMN ${TENANT_COLUMN} SET DEFAULT current_setting('app.tenant_id', true);
+ALTER TABLE ${t} ALTER COLUMN ${TENANT_COLUMN} SET NOT NULL;
+CREATE INDEX IF NOT EXISTS "${table}_${TENANT_COLUMN}_idx" ON ${t} (${TENANT_COLUMN});
+ALTER TABLE ${t} ENABLE ROW LEVEL SECURITY;
+ALTER TABLE ${t} FORCE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS tenant_isolation ON ${t};
+CREATE POLICY tenant_isolation ON ${t}
+  USING (${TENANT_COLUMN} = current_setting('app.tenant_id', true))
+  WITH CHECK (${TENANT_COLUMN} = current_setting('app.tenant_id', true));
+`;
+}
+
+function generateContextFile(): string {
+  return `import { AsyncLocalStorage } from "node:async_hooks";
+
+// Tenant ids become schema and database names, so they are restricted to lower-case letters, digits, "_" and "-"
+const TENANT_ID = /^[a-z0-9][a-z0-9_-]{0,39}$/;
+
+const storage = new AsyncLocalStorage<string>();
+
+export function isTenantId(value: unknown): value is string {
+  return typeof value === "string" && TENANT_ID.test(value);
+}
+
+export function assertTenantId(value: string): string {
+  if (!isTenantId(value)) throw new Error(\`Invalid tenant id: \${JSON.stringify(value)}\`);
+  return value;
+}
+
+export function runAsTenant<T>(tenantId: string, fn: () => T): T {
+  return storage.run(assertTenantId(tenantId), fn);
+}
+
+// Throws outside a tenant-scoped request: tenant data is never read without a tenant
+export function currentTenant(): string {
+  const tenantId = storage.getStore();
+  if (!tenantId) throw new Error("No tenant in scope; mount tenantMiddleware or use runAsTenant");
+  return tenantId;
+}
+`;
+}
+
+function generateResolveFile(resolution: TenantResolution): string {
+  const resolvers: Record<TenantResolution, { imports: string; body: string; missing: string; status: number }> = {
+    header: {
+      imports: '',
+      body: `const HEADER = process.env.TENANT_HEADER || "x-tenant-id";
+
+export function resolveTenant(req: Request): string | undefined {
+  return req.header(HEADER)?.trim().toLowerCase() || undefined;
+}`,
+      missing: '`${HEADER} header is required`',
+      status: 400,
+    },
+    subdomain: {
+      imports: '',
+      body: `const BASE_DOMAIN = (process.env.TENANT_BASE_DOMAIN || "localhost").toLowerCase();
+
+// acme.example.com -> acme for TENANT_BASE_DOMAIN=example.com; deeper or bare hosts have no tenant
+export function resolveTenant(req: Request): string | undefined {
+  const host = req.hostname.toLowerCase();
+  if (!host.endsWith(\`.\${BASE_DOMAIN}\`)) return undefined;
+  const subdomain = host.slice(0, -BASE_DOMAIN.length - 1);
+  return subdomain.includes(".") ? undefined : subdomain;
+}`,
+      missing: '`Use a tenant subdomain of ${BASE_DOMAIN}`',
+      status: 400,
+    },
+    jwt: {
+      imports: 'import jwt from "jsonwebtoken";\n',
+      body: `// Without the signing secret no token can be verified, so the API does not start
+if (!process.env.JWT_SECRET) {
+  throw new Error("JWT_SECRET must be set to the secret tenant tokens are signed with");
+}
+const JWT_SECRET = process.env.JWT_SECRET;
+const CLAIM = process.env.TENANT_CLAIM || "tenant_id";
+
+// Only a verified token names the tenant; an invalid signature resolves to no tenant
+export function resolveTenant(req: Request): string | undefined {
+  const header = req.headers.authorization;
+  if (!header?.startsWith("Bearer ")) return undefined;
+  try {
+    const payload = jwt.verify(header.slice(7), JWT_SECRET);
+    const tenant = typeof payload === "object" ? payload[CLAIM] : undefined;
+    return typeof tenant === "string" ? tenant.toLowerCase() : undefined;
+  } catch {
+    return undefined;
+  }
+}`,
+      missing: '`A bearer token with a ${CLAIM} claim is required`',
+      status: 401,
+    },
+  };
+  const r = resolvers[resolution];
+
+  return `import type { NextFunction, Request, Response } from "express";
+${r.imports}import { isTenantId, runAsTenant } from "./context.js";
+import { tenantExists } from "./db.js";
+
+${r.body}
+
+// Everything after this middleware runs as the resolved tenant (see currentTenant)
+export function createTenantMiddleware(exists: (tenantId: string) => Promise<boolean> = tenantExists) {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    const tenantId = resolveTenant(req);
+    if (!tenantId) {
+      return res.status(${r.status}).json({ ok: false, error: ${r.missing} });
+    }
+    if (!isTenantId(tenantId)) {
+      return res.status(400).json({ ok: false, error: "Invalid tenant id" });
+    }
+    try {
+      if (!(await exists(tenantId))) {
+        return res.status(404).json({ ok: false, error: \`Unknown tenant \${tenantId}\` });
+      }
+    } catch (error) {
+      return next(error);
+    }
+    runAsTenant(tenantId, () => next());
+  };
+}
+
+export const tenantMiddleware = createTenantMiddleware();
+`;
+}
+
+function generateDbFile(model: TenancyModel, poolImport: string): string {
+  const strategies: Record<TenancyModel, string> = {
+    'shared-db': `// Row-level security policies (provision.ts) compare tenant_id with app.tenant_id;
+// a connection without it sees no rows at all
+async function scope(client: pg.PoolClient, tenantId: string): Promise<void> {
+  await client.query("SELECT set_config('app.tenant_id', $1, false)", [tenantId]);
+}
+
+async function unscope(client: pg.PoolClient): Promise<void> {
+  await client.query("SELECT set_config('app.tenant_id', '', false)");
+}
+
+const poolFor = (_tenantId: string): pg.Pool => pool;
+
+// Tenants share every table, so any well-formed id is a tenant (with no rows yet)
+export async function tenantExists(_tenantId: string): Promise<boolean> {
+  return true;
+}`,
+    'schema-per-tenant': `export const tenantSchema = (tenantId: string) => \`tenant_\${assertTenantId(tenantId).replace(/-/g, "_")}\`;
+
+// Tenant tables shadow nothing: they only exist in tenant schemas; public keeps shared tables (e.g. the outbox)
+async function scope(client: pg.PoolClient, tenantId: string): Promise<void> {
+  await client.query(\`SET search_path TO "\${tenantSchema(tenantId)}", public\`);
+}
+
+async function unscope(client: pg.PoolClient): Promise<void> {
+  await client.query("SET search_path TO DEFAULT");
+}
+
+const poolFor = (_tenantId: string): pg.Pool => pool;
+
+const knownTenants = new Set<string>();
+
+export async function tenantExists(tenantId: string): Promise<boolean> {
+  if (knownTenants.has(tenantId)) return true;
+  const { rowCount } = await pool.query("SELECT 1 FROM information_schema.schemata WHERE schema_name = $1", [tenantSchema(tenantId)]);
+  if (rowCount) knownTenants.add(tenantId);
+  return !!rowCount;
+}
+
+export function forgetTenant(tenantId: string): void {
+  knownTenants.delete(tenantId);
+}`,
+    'db-per-tenant': `const DATABASE_PREFIX = process.env.TENANT_DATABASE_PREFIX || "tenant_";
+const MAX_POOLS = Number(process.env.TENANT_POOLS_MAX) || 50;
+const POOL_SIZE = Number(process.env.TENANT_POOL_SIZE) || 5;
+
+export const tenantDatabase = (tenantId: string) => DATABASE_PREFIX + assertTenantId(tenantId).replace(/-/g, "_");
+
+// Same server and credentials as DATABASE_URL, tenant database name
+export function tenantDatabaseUrl(tenantId: string): string {
+  const url = new URL(process.env.DATABASE_URL || "postgresql://localhost:5432/postgres");
+  url.pathname = \`/\${tenantDatabase(tenantId)}\`;
+  return url.toString();
+}
+
+// Pools in least-recently-used order; past TENANT_POOLS_MAX the oldest is closed
+const pools = new Map<string, pg.Pool>();
+
+function poolFor(tenantId: string): pg.Pool {
+  let tenantPool = pools.get(tenantId);
+  if (tenantPool) {
+    pools.delete(tenantId);
+  } else {
+    tenantPool = new pg.Pool({ connectionString: tenantDatabaseUrl(tenantId), max: POOL_SIZE });
+  }
+  pools.set(tenantId, tenantPool);
+  if (pools.size > MAX_POOLS) {
+    const [oldest, oldestPool] = pools.entries().next().value!;
+    pools.delete(oldest);
+    oldestPool.end().catch((error) => console.error(\`[tenancy] Closing pool of \${oldest} failed:\`, error));
+  }
+  return tenantPool;
+}
+
+export async function closeTenantPool(tenantId: string): Promise<void> {
+  const tenantPool = pools.get(tenantId);
+  pools.delete(tenantId);
+  await tenantPool?.end();
+}
+
+export async function closeTenantPools(): Promise<void> {
+  await Promise.all([...pools.keys()].map(closeTenantPool));
+}
+
+// Each tenant's database is its own boundary; connections need no further scoping
+async function scope(_client: pg.PoolClient, _tenantId: string): Promise<void> {}
+
+async function unscope(_client: pg.PoolClient): Promise<void> {}
+
+const knownTenants = new Set<string>();
+
+export async function tenantExists(tenantId: string): Promise<boolean> {
+  if (knownTenants.has(tenantId)) return true;
+  const { rowCount } = await pool.query("SELECT 1 FROM pg_database WHERE datname = $1", [tenantDatabase(tenantId)]);
+  if (rowCount) knownTenants.add(tenantId);
+  return !!rowCount;
+}
+
+export function forgetTenant(tenantId: string): void {
+  knownTenants.delete(tenantId);
+}`,
+  };
+
+  return `import pg from "pg";
+import { pool } from "${poolImport}";
+import { assertTenantId, currentTenant } from "./context.js";
+
+${strategies[model]}
+
+// A connection scoped to the tenant; release() clears the scope before the connection goes back to the pool
+export async function connectTenant(tenantId: string = currentTenant()): Promise<pg.PoolClient> {
+  assertTenantId(tenantId);
+  const client = await poolFor(tenantId).connect();
+  try {
+    await scope(client, tenantId);
+  } catch (error) {
+    client.release(error as Error);
+    throw error;
+  }
+  const release = client.release.bind(client);
+  client.release = (err?: Error | boolean) => {
+    if (err) return release(err);
+    // A connection whose scope cannot be cleared is discarded, never reused by another tenant
+    unscope(client).then(() => release(), (error: Error) => release(error));
+  };
+  return client;
+}
+
+export async function withTenant<T>(fn: (client: pg.PoolClient) => Promise<T>, tenantId: string = currentTenant()): Promise<T> {
+  const client = await connectTenant(tenantId);
+  try {
+    return await fn(client);
+  } finally {
+    client.release();
+  }
+}
+
+// pg.Pool-shaped access to the current tenant's data
+export const tenantPool = {
+  query: (text: string, params?: unknown[]) => withTenant((client) => client.query(text, params)),
+  connect: () => connectTenant(),
+};
+`;
+}
+
+function generateProvisionFile(model: TenancyModel, tables: string[], poolImport: string): string {
+  const header = `import pg from "pg";
+import { pool } from "${poolImport}";
+
+export { pool };
+`;
+  const tableList = `// Tables that hold tenant data
+export const TENANT_TABLES = ${JSON.stringify(tables)};
+
+const quote = (identifier: string) => \`"\${identifier.replace(/"/g, '""')}"\`;
+`;
+
+  if (model === 'shared-db') {
+    return `${header}import { assertTenantId } from "./context.js";
+import { withTenant } from "./db.js";
+
+${tableList}
+// Same statements as migrations/tenancy_rls.sql; safe to run again. Existing rows are assigned to backfillTenant;
+// without one, a table that has rows without a tenant is refused
+export async function enableRowLevelSecurity(client: Pick<pg.ClientBase, "query">, table: string, backfillTenant?: string): Promise<void> {
+  const t = quote(table);
+  await client.query(\`ALTER TABLE \${t} ADD COLUMN IF NOT EXISTS tenant_id TEXT\`);
+  if (backfillTenant) {
+    await client.query(\`UPDATE \${t} SET tenant_id = $1 WHERE tenant_id IS NULL\`, [assertTenantId(backfillTenant)]);
+  }
+  const { rowCount } = await client.query(\`SELECT 1 FROM \${t} WHERE tenant_id IS NULL LIMIT 1\`);
+  if (rowCount) {
+    throw new Error(\`\${table} has rows without a tenant; set TENANT_BACKFILL_ID to the tenant that owns them\`);
+  }
+  await client.query(\`ALTER TABLE \${t} ALTER COLUMN tenant_id SET DEFAULT current_setting('app.tenant_id', true)\`);
+  await client.query(\`ALTER TABLE \${t} ALTER COLUMN tenant_id SET NOT NULL\`);
+  await client.query(\`CREATE INDEX IF NOT EXISTS \${quote(\`\${table}_tenant_id_idx\`)} ON \${t} (tenant_id)\`);
+  await client.query(\`ALTER TABLE \${t} ENABLE ROW LEVEL SECURITY\`);
+  await client.query(\`ALTER TABLE \${t} FORCE ROW LEVEL SECURITY\`);
+  await client.query(\`DROP POLICY IF EXISTS tenant_isolation ON \${t}\`);
+  await client.query(\`CREATE POLICY tenant_isolation ON \${t}
+    USING (tenant_id = current_setting('app.tenant_id', true))
+    WITH CHECK (tenant_id = current_setting('app.tenant_id', true))\`);
+}
+
+// Superusers and BYPASSRLS roles skip every policy: the API must connect as an ordinary role
+export async function bypassesRowLevelSecurity(client: Pick<pg.ClientBase, "query"> = pool): Promise<boolean> {
+  const { rows } = await client.query("SELECT rolsuper OR rolbypassrls AS bypass FROM pg_roles WHERE rolname = current_user");
+  return rows[0]?.bypass === true;
+}
+
+export async function setupTenancy(tables: string[] = TENANT_TABLES, backfillTenant = process.env.TENANT_BACKFILL_ID): Promise<void> {
+  const client = await pool.connect();
+  try {
+    await client.query("BEGIN");
+    for (const table of tables) await enableRowLevelSecurity(client, table, backfillTenant);
+    await client.query("COMMIT");
+  } catch (error) {
+    await client.query("ROLLBACK");
+    throw error;
+  } finally {
+    client.release();
+  }
+  if (await bypassesRowLevelSecurity()) {
+    console.warn("[tenancy] DATABASE_URL connects as a superuser or BYPASSRLS role; row-level security does not apply to it");
+  }
+}
+
+// Nothing to create: a tenant's rows appear as it writes them
+export async function createTenant(tenantId: string): Promise<void> {
+  assertTenantId(tenantId);
+}
+
+export async function dropTenant(tenantId: string, tables: string[] = TENANT_TABLES): Promise<void> {
+  await withTenant(async (client) => {
+    for (const table of tables) await client.query(\`DELETE FROM \${quote(table)}\`);
+  }, tenantId);
+}
+`;
+  }
+
+  if (model === 'schema-per-tenant') {
+    return `${header}import { forgetTenant, tenantSchema } from "./db.js";
+
+${tableList}
+// Tables in public are the template for tenant schemas and stay empty
+export async function setupTenancy(): Promise<void> {}
+
+export async function createTenant(tenantId: string, tables: string[] = TENANT_TABLES): Promise<void> {
+  const schema = quote(tenantSchema(tenantId));
+  const client = await pool.connect();
+  try {
+    await client.query("BEGIN");
+    await client.query(\`CREATE SCHEMA IF NOT EXISTS \${schema}\`);
+    for (const table of tables) {
+      await client.query(\`CREATE TABLE IF NOT EXISTS \${schema}.\${quote(table)} (LIKE public.\${quote(table)} INCLUDING ALL)\`);
+    }
+    await client.query("COMMIT");
+  } catch (error) {
+    await client.query("ROLLBACK");
+    throw error;
+  } finally {
+    client.release();
+  }
+}
+
+export async function dropTenant(tenantId: string): Promise<void> {
+  await pool.query(\`DROP SCHEMA IF EXISTS \${quote(tenantSchema(tenantId))} CASCADE\`);
+  forgetTenant(tenantId);
+}
+`;
+  }
+
+  return `${header}import { closeTenantPool, forgetTenant, tenantDatabase } from "./db.js";
+
+${tableList}
+const TEMPLATE_DATABASE = process.env.TENANT_TEMPLATE_DATABASE || "tenant_template";
+
+// Tenant databases are copies of TENANT_TEMPLATE_DATABASE: create it and run the schema migrations against it first
+export async function setupTenancy(): Promise<void> {
+  const { rowCount } = await pool.query("SELECT 1 FROM pg_database WHERE datname = $1", [TEMPLATE_DATABASE]);
+  if (!rowCount) throw new Error(\`Template database \${TEMPLATE_DATABASE} does not exist\`);
+}
+
+// Postgres copies the template only while nobody is connected to it
+export async function createTenant(tenantId: string): Promise<void> {
+  await pool.query(\`CREATE DATABASE \${quote(tenantDatabase(tenantId))} TEMPLATE \${quote(TEMPLATE_DATABASE)}\`);
+}
+
+export async function dropTenant(tenantId: string): Promise<void> {
+  await closeTenantPool(tenantId);
+  await pool.query(\`DROP DATABASE IF EXISTS \${quote(tenantDatabase(tenantId))}\`);
+  forgetTenant(tenantId);
+}
+`;
+}
+
+function generateCliFile(): string {
+  return `import "dotenv/config";
+import { createTenant, dropTenant, pool, setupTenancy } from "./provision.js";
+
+const [command, tenantId] = process.argv.slice(2);
+
+try {
+  if (command === "setup") {
+    await setupTenancy();
+  } else if (command === "create" && tenantId) {
+    await createTenant(tenantId);
+  } else if (command === "drop" && tenantId) {
+    await dropTenant(tenantId);
+  } else {
+    console.error("Usage: npm run tenancy -- setup | create <tenant> | drop <tenant>");
+    process.exitCode = 1;
+  }
+  if (!process.exitCode) console.log(\`[tenancy] \${command}\${tenantId ? \` \${tenantId}\` : ""} done\`);
+} finally {
+  await pool.end();
+}
+`;
+}
+
+function generateTestFile(model: TenancyModel, resolution: TenantResolution): string {
+  const request: Record<TenantResolution, { as: string; missing: string; extra: string }> = {
+    header: {
+      as: `(tenant: string) => ({ "x-tenant-id": tenant })`,
+      missing: '400',
+      extra: '',
+    },
+    subdomain: {
+      as: `(tenant: string) => ({ host: \`\${tenant}.\${process.env.TENANT_BASE_DOMAIN || "localhost"}\` })`,
+      missing: '400',
+      extra: '',
+    },
+    jwt: {
+      as: `(tenant: string) => ({ authorization: \`Bearer \${jwt.sign({ [process.env.TENANT_CLAIM || "tenant_id"]: tenant }, process.env.JWT_SECRET!)}\` })`,
+      missing: '401',
+      extra: `
+  it("ignores tokens with a bad signature", async () => {
+    const forged = jwt.sign({ [process.env.TENANT_CLAIM || "tenant_id"]: "acme" }, "not-the-secret");
+    assert.equal((await get({ authorization: \`Bearer \${forged}\` })).status, 401);
+  });
+`,
+    },
+  };
+  const r = request[resolution];
+
+  const setup: Record<TenancyModel, string> = {
+    'shared-db': `    assert.equal(await provision.bypassesRowLevelSecurity(), false, "TEST_DATABASE_URL must use a role without SUPERUSER or BYPASSRLS");
+    await pool.query(\`DROP TABLE IF EXISTS \${PROBE}\`);
+    await pool.query(\`CREATE TABLE \${PROBE} (id SERIAL PRIMARY KEY, note TEXT NOT NULL)\`);
+    await provision.enableRowLevelSecurity(pool, PROBE);`,
+    'schema-per-tenant': `    await pool.query(\`DROP TABLE IF EXISTS \${PROBE}\`);
+    await pool.query(\`CREATE TABLE \${PROBE} (id SERIAL PRIMARY KEY, note TEXT NOT NULL)\`);
+    for (const tenant of TENANTS) await provision.createTenant(tenant, [PROBE]);`,
+    'db-per-tenant': `    const template = new URL(DATABASE_URL!);
+    template.pathname = \`/\${process.env.TENANT_TEMPLATE_DATABASE}\`;
+    await pool.query(\`DROP DATABASE IF EXISTS "\${process.env.TENANT_TEMPLATE_DATABASE}"\`);
+    await pool.query(\`CREATE DATABASE "\${process.env.TENANT_TEMPLATE_DATABASE}"\`);
+    const templatePool = new pg.Pool({ connectionString: template.toString() });
+    await templatePool.query(\`CREATE TABLE \${PROBE} (id SERIAL PRIMARY KEY, note TEXT NOT NULL)\`);
+    await templatePool.end();
+    for (const tenant of TENANTS) await provision.createTenant(tenant);`,
+  };
+
+  const teardown: Record<TenancyModel, string> = {
+    'shared-db': `    await pool.query(\`DROP TABLE IF EXISTS \${PROBE}\`);`,
+    'schema-per-tenant': `    for (const tenant of TENANTS) await provision.dropTenant(tenant);
+    await pool.query(\`DROP TABLE IF EXISTS \${PROBE}\`);`,
+    'db-per-tenant': `    for (const tenant of TENANTS) await provision.dropTenant(tenant);
+    await pool.query(\`DROP DATABASE IF EXISTS "\${process.env.TENANT_TEMPLATE_DATABASE}"\`);
+    await tenantDb.closeTenantPools();`,
+  };
+
+  const sharedDbTests = model === 'shared-db'
+    ? `
+  it("rejects rows written for another tenant", async () => {
+    await assert.rejects(withTenant((client) => client.query(\`INSERT INTO \${PROBE} (note, tenant_id) VALUES ('forged', 'globex')\`), "acme"));
+  });
+
+  it("shows nothing to connections without a tenant", async () => {
+    const { rowCount } = await pool.query(\`SELECT * FROM \${PROBE}\`);
+    assert.equal(rowCount, 0);
+  });
+
+  it("assigns rows that predate tenancy to the backfill tenant", async () => {
+    const legacy = \`\${PROBE}_legacy\`;
+    await pool.query(\`DROP TABLE IF EXISTS \${legacy}\`);
+    await pool.query(\`CREATE TABLE \${legacy} (id SERIAL PRIMARY KEY, note TEXT NOT NULL)\`);
+    try {
+      await pool.query(\`INSERT INTO \${legacy} (note) VALUES ('before tenancy')\`);
+      await assert.rejects(provision.enableRowLevelSecurity(pool, legacy), /without a tenant/);
+      await provision.enableRowLevelSecurity(pool, legacy, "acme");
+      const own = await withTenant((client) => client.query(\`SELECT note FROM \${legacy}\`), "acme");
+      assert.deepEqual(own.rows, [{ note: "before tenancy" }]);
+    } finally {
+      await pool.query(\`DROP TABLE IF EXISTS \${legacy}\`);
+    }
+  });
+`
+    : '';
+
+  return `import { after, before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import http from "node:http";
+import type { AddressInfo } from "node:net";
+import express from "express";
+${resolution === 'jwt' ? 'import jwt from "jsonwebtoken";\n' : ''}${model === 'db-per-tenant' ? 'import pg from "pg";\n' : ''}
+// Isolation tests need a disposable Postgres database; they create and drop their own tables${model === 'db-per-tenant' ? ' and databases' : ''}.
+// The app's pool reads DATABASE_URL when first imported, so the tenancy modules are imported after it points there.
+const DATABASE_URL = process.env.TEST_DATABASE_URL;
+if (DATABASE_URL) process.env.DATABASE_URL = DATABASE_URL;
+${resolution === 'jwt' ? `// resolve.ts refuses to load without a signing secret
+process.env.JWT_SECRET ||= "tenancy-test-secret";
+` : ''}${model === 'db-per-tenant' ? `process.env.TENANT_TEMPLATE_DATABASE = "tenancy_test_template";
+process.env.TENANT_DATABASE_PREFIX = "tenancy_test_";
+` : ''}
+const { currentTenant } = await import("../src/tenancy/context.js");
+const { createTenantMiddleware } = await import("../src/tenancy/resolve.js");
+const tenantDb = await import("../src/tenancy/db.js");
+const provision = await import("../src/tenancy/provision.js");
+const { withTenant } = tenantDb;
+const { pool } = provision;
+
+// Resolution is checked without a database; "acme" and "globex" are the only known tenants
+describe("tenant resolution", () => {
+  const as = ${r.as};
+  let server: http.Server;
+
+  before(async () => {
+    const app = express();
+    app.use(createTenantMiddleware(async (tenant) => ["acme", "globex"].includes(tenant)));
+    app.get("/whoami", (_req, res) => { res.json({ tenant: currentTenant() }); });
+    server = app.listen(0);
+    await new Promise((resolve) => server.once("listening", resolve));
+  });
+
+  after(() => { server.close(); });
+
+  // node:http rather than fetch, which does not let callers set Host
+  const get = (headers: Record<string, string>) => new Promise<{ status: number; body: any }>((resolve, reject) => {
+    const req = http.get({ port: (server.address() as AddressInfo).port, path: "/whoami", headers }, (res) => {
+      let data = "";
+      res.on("data", (chunk) => { data += chunk; });
+      res.on("end", () => resolve({ status: res.statusCode!, body: JSON.parse(data) }));
+    });
+    req.on("error", reject);
+  });
+
+  it("runs the request as the resolved tenant", async () => {
+    assert.deepEqual((await get(as("acme"))).body, { tenant: "acme" });
+    assert.deepEqual((await get(as("globex"))).body, { tenant: "globex" });
+  });
+
+  it("rejects requests without a tenant", async () => {
+    assert.equal((await get({})).status, ${r.missing});
+  });
+
+  it("rejects malformed and unknown tenants", async () => {
+    assert.equal((await get(as("acme_corp;drop"))).status, 400);
+    assert.equal((await get(as("initech"))).status, 404);
+  });
+${r.extra}});
+
+describe("tenant isolation", { skip: !DATABASE_URL && "set TEST_DATABASE_URL to run" }, () => {
+  const PROBE = "tenancy_probe";
+  const TENANTS = ["acme", "globex"];
+
+  before(async () => {
+${setup[model]}
+    await withTenant((client) => client.query(\`INSERT INTO \${PROBE} (note) VALUES ('acme only')\`), "acme");
+  });
+
+  after(async () => {
+${teardown[model]}
+  });
+
+  it("reads only the tenant's own rows", async () => {
+    const own = await withTenant((client) => client.query(\`SELECT note FROM \${PROBE}\`), "acme");
+    assert.deepEqual(own.rows, [{ note: "acme only" }]);
+  });
+
+  it("never returns another tenant's rows, even without a WHERE clause", async () => {
+    const other = await withTenant((client) => client.query(\`SELECT * FROM \${PROBE}\`), "globex");
+    assert.equal(other.rowCount, 0);
+    const updated = await withTenant((client) => client.query(\`UPDATE \${PROBE} SET note = 'taken'\`), "globex");
+    assert.equal(updated.rowCount, 0);
+  });
+${sharedDbTests}});
+
+// The app's pool stays open otherwise and keeps the test process alive
+after(() => pool.end());
+`;
+}
+
+function generateInstructions(model: TenancyModel, resolution: TenantResolution): string {
+  const how: Record<TenantResolution, string> = {
+    header: 'Every API request names its tenant in the `X-Tenant-Id` header (`TENANT_HEADER`).',
+    subdomain: 'The tenant is the subdomain of `TENANT_BASE_DOMAIN`: `acme.example.com` is tenant `acme`.',
+    jwt: 'The tenant is the `tenant_id` claim (`TENANT_CLAIM`) of the verified bearer token; your identity provider must issue it.' +
+      ' Tokens are verified with `JWT_SECRET`, without which the API refuses to start.',
+  };
+  const isolation: Record<TenancyModel, string> = {
+    'shared-db': `Tenants share tables. Every tenant table has a \`tenant_id\` column, queries filter on it, and Postgres row-level security
+enforces it underneath: \`npm run tenancy -- setup\` (or \`migrations/tenancy_rls.sql\`) adds the column and policies.
+Rows that exist before setup need an owner: set \`TENANT_BACKFILL_ID\` (for the SQL file, \`SET app.backfill_tenant_id\`)
+to the tenant they belong to; setup stops instead of leaving rows without one.
+Connect as a role without SUPERUSER or BYPASSRLS, which skip every policy.`,
+    'schema-per-tenant': `Each tenant has a schema (\`tenant_<id>\`) with copies of the tables in \`public\`, which stay empty as templates.
+Create a tenant with \`npm run tenancy -- create <id>\`; requests route to its schema through \`search_path\`.`,
+    'db-per-tenant': `Each tenant has a database (\`TENANT_DATABASE_PREFIX<id>\`) on the DATABASE_URL server, copied from \`TENANT_TEMPLATE_DATABASE\`.
+Migrate the template, then create tenants with \`npm run tenancy -- create <id>\`. The API keeps a small pool per tenant
+(\`TENANT_POOL_SIZE\`) and closes the least recently used past \`TENANT_POOLS_MAX\`.`,
+  };
+
+  return `## Multi-tenancy (${model})
+
+${how[resolution]} Unknown or malformed tenants are rejected before any query runs.
+
+${isolation[model]}
+
+\`npm test\` checks tenant resolution; with \`TEST_DATABASE_URL\` set to a disposable database it also proves one tenant cannot read or change another's rows.
+`;
+}
@@ -1,5 +1,6 @@
 import { EventEmitter } from "events";
 import { getToolDefinitions, executeTool, ToolContext, agentTools } from "./agent-tools.js";
+import { connectAutoMcpServers, getConnectedMcpTools } from "./mcp-client.js";
 import Anthropic from "@anthropic-ai/sdk";
 import Groq from "groq-sdk";
 
@@ -112,7 +113,10 @@ export class AgentOrchestrator extends EventEmitter {
   }
 
   private getSystemPrompt(): string {
-    const toolList = agentTools.map(t => `- ${t.name}: ${t.description}`).join('\n');
+    const toolList = [
+      ...agentTools.map(t => `- ${t.name}: ${t.description}`),
+      ...getConnectedMcpTools().map(t => `- ${t.qualifiedName}: [MCP ${t.serverId}] ${t.description || t.name}`)
+    ].join('\n');
     
     return `You are an INTELLIGENT AI development agent with FULL capabilities - like Claude. You can:
 1. Execute multiple steps before responding
@@ -308,8 +312,8 @@ Keep working until ALL tasks are complete, then use final_response.`;
     const provider = getLLMProvider();
     this.emit_event("thinking", { message: `Understanding your request... (using ${provider === "anthropic" ? "Claude" : "Groq"})` });
 
-    const toolDefinitions = getToolDefinitions();
-    
+    await connectAutoMcpServers();
+
     // Add orchestration tools
     const orchestrationTools = [
       {
@@ -379,8 +383,6 @@ Keep working until ALL tasks are complete, then use final_response.`;
       }
     ];
 
-    const allTools = [...toolDefinitions, ...orchestrationTools];
-
     // Build messages with FULL conversation history (like Claude's large context window)
     // Include up to 200 previous messages for full context (matching Claude's large context)
     const recentHistory = this.session.conversationHistory.slice(-200);
@@ -405,6 +407,8 @@ Keep working until ALL tasks are complete, then use final_response.`;
 
       try {
         console.log(`\n[Agent Step ${this.currentIteration}] Calling LLM...`);
+        // Rebuilt each step so tools of MCP servers connected mid-session become callable
+        const allTools = [...getToolDefinitions(), ...orchestrationTools];
         const { content, toolCalls } = await this.callLLM(messages, allTools);
         
         // Reset rate limit counter on success
@@ -10,6 +10,8 @@ import * as path from "path";
 import Groq from "groq-sdk";
 import puppeteer from "puppeteer";
 import Anthropic from "@anthropic-ai/sdk";
+import { emitProjectEvent } from "../webhooks/webhooks.js";
+import { callMcpTool, connectMcpServer, findMcpTool, getConnectedMcpTools, listMcpServers, readMcpResource } from "./mcp-client.js";
 
 const execAsync = promisify(exec);
 
@@ -591,6 +593,11 @@ export const agentTools: AgentTool[] = [
           status: 'building'
         } as any).where(eq(projects.projectId, context.projectId));
         
+        emitProjectEvent(context.projectId, "module.saved", {
+          module: newModule,
+          replaced: moduleIndex >= 0
+        });
+        
         return {
           success: true,
           data: {
@@ -2383,11 +2390,11 @@ Respond with JSON:
   },
 
   // ===============================
-  // MCP-STYLE INTEGRATION TOOLS
+  // MCP INTEGRATION TOOLS
   // ===============================
   {
     name: "mcp_list_integrations",
-    description: "List available MCP (Model Context Protocol) integrations that can connect to external services.",
+    description: "List the configured MCP (Model Context Protocol) servers with their connection status and the tools they expose.",
     parameters: {
       type: "object",
       properties: {},
@@ -2395,57 +2402,14 @@ Respond with JSON:
     },
     execute: async (params, context) => {
       try {
-        // Define available MCP-style integrations
-        const integrations = [
-          {
-            id: "github",
-            name: "GitHub",
-            description: "Create repositories, manage issues, read/write code",
-            status: "available",
-            requiredSecrets: ["GITHUB_TOKEN"]
-          },
-          {
-            id: "slack",
-            name: "Slack",
-            description: "Send messages, read channels, manage notifications",
-            status: "available",
-            requiredSecrets: ["SLACK_BOT_TOKEN"]
-          },
-          {
-            id: "notion",
-            name: "Notion",
-            description: "Create pages, manage databases, search content",
-            status: "available",
-            requiredSecrets: ["NOTION_API_KEY"]
-          },
-          {
-            id: "postgres",
-            name: "PostgreSQL",
-            description: "Execute queries, manage schema, import/export data",
-            status: "active",
-            requiredSecrets: ["DATABASE_URL"]
-          },
-          {
-            id: "filesystem",
-            name: "File System",
-            description: "Read/write files, manage directories",
-            status: "active",
-            requiredSecrets: []
-          },
-          {
-            id: "http",
-            name: "HTTP Client",
-            description: "Make HTTP requests to any API",
-            status: "active",
-            requiredSecrets: []
-          }
-        ];
-        
+        const servers = listMcpServers();
         return {
           success: true,
           data: {
-            integrations,
-            message: "Use mcp_connect to activate an integration"
+            servers,
+            message: servers.length
+              ? "Use mcp_connect to connect a server; its tools then become callable directly as mcp__<server>__<tool>"
+              : "No MCP servers configured. Set MCP_SERVERS or add an mcp.json file."
           }
         };
       } catch (e: any) {
@@ -2456,52 +2420,33 @@ Respond with JSON:
 
   {
     name: "mcp_connect",
-    description: "Connect to an MCP integration to use its tools. Some integrations require API keys.",
+    description: "Connect to a configured MCP server and list its tools (with input schemas) and resources. Connected tools become callable directly.",
     parameters: {
       type: "object",
       properties: {
         integration_id: {
           type: "string",
-          description: "ID of the integration (e.g., 'github', 'slack', 'notion')"
-        },
-        config: {
-          type: "object",
-          description: "Configuration for the integration"
+          description: "ID of the MCP server, as listed by mcp_list_integrations"
         }
       },
       required: ["integration_id"]
     },
     execute: async (params, context) => {
       try {
-        const integrationId = params.integration_id;
-        
-        // Check for required environment variables based on integration
-        const integrationSecrets: Record<string, string[]> = {
-          github: ["GITHUB_TOKEN"],
-          slack: ["SLACK_BOT_TOKEN"],
-          notion: ["NOTION_API_KEY"],
-          postgres: ["DATABASE_URL"],
-          filesystem: [],
-          http: []
-        };
-        
-        const required = integrationSecrets[integrationId] || [];
-        const missing = required.filter(key => !process.env[key]);
-        
-        if (missing.length > 0) {
-          return {
-            success: false,
-            error: `Missing required secrets: ${missing.join(', ')}. Please set these environment variables.`
-          };
-        }
-        
+        const connection = await connectMcpServer(params.integration_id);
         return {
           success: true,
           data: {
-            integration: integrationId,
+            integration: params.integration_id,
             status: "connected",
-            message: `Connected to ${integrationId}. Use mcp_execute to perform actions.`,
-            availableActions: getActionsForIntegration(integrationId)
+            tools: connection.tools.map(t => ({
+              name: t.name,
+              callAs: t.qualifiedName,
+              description: t.description,
+              inputSchema: t.inputSchema
+            })),
+            resources: connection.resources,
+            message: `Connected to ${params.integration_id}. Call its tools directly by their callAs name, or use mcp_execute.`
           }
         };
       } catch (e: any) {
@@ -2512,89 +2457,57 @@ Respond with JSON:
 
   {
     name: "mcp_execute",
-    description: "Execute an action on a connected MCP integration. Use after mcp_connect.",
+    description: "Call a tool on an MCP server by name. Connects to the server first if needed.",
     parameters: {
       type: "object",
       properties: {
         integration_id: {
           type: "string",
-          description: "ID of the integration"
+          description: "ID of the MCP server"
         },
         action: {
           type: "string",
-          description: "Action to perform (e.g., 'create_repo', 'send_message', 'query')"
+          description: "Name of the server's tool, as returned by mcp_connect"
         },
         params: {
           type: "object",
-          description: "Parameters for the action"
+          description: "Arguments for the tool, matching its input schema"
         }
       },
       required: ["integration_id", "action"]
     },
     execute: async (params, context) => {
       try {
-        const { integration_id, action, params: actionParams } = params;
-        
-        // Execute based on integration
-        switch (integration_id) {
-          case "http": {
-            const url = actionParams.url;
-            const method = actionParams.method || "GET";
-            const headers = actionParams.headers || {};
-            const body = actionParams.body;
-            
-            let curlCmd = `curl -s -X ${method}`;
-            
-            for (const [key, value] of Object.entries(headers)) {
-              curlCmd += ` -H "${key}: ${value}"`;
-            }
-            
-            if (body) {
-              curlCmd += ` -d '${JSON.stringify(body)}'`;
-            }
-            
-            curlCmd += ` "${url}"`;
-            
-            const { stdout } = await execAsync(curlCmd, { timeout: 30000 });
-            
-            try {
-              return { success: true, data: JSON.parse(stdout) };
-            } catch {
-              return { success: true, data: { response: stdout.slice(0, 5000) } };
-            }
-          }
-          
-          case "github": {
-            if (!process.env.GITHUB_TOKEN) {
-              return { success: false, error: "GITHUB_TOKEN not set" };
-            }
-            
-            // GitHub API call
-            const endpoint = actionParams.endpoint || "/user";
-            const { stdout } = await execAsync(
-              `curl -s -H "Authorization: Bearer ${process.env.GITHUB_TOKEN}" -H "Accept: application/vnd.github+json" "https://api.github.com${endpoint}"`,
-              { timeout: 15000 }
-            );
-            
-            try {
-              return { success: true, data: JSON.parse(stdout) };
-            } catch {
-              return { success: true, data: { response: stdout.slice(0, 3000) } };
-            }
-          }
-          
-          default:
-            return {
-              success: true,
-              data: {
-                integration: integration_id,
-                action,
-                params: actionParams,
-                message: `Action '${action}' executed on ${integration_id} (simulated)`,
-                hint: `For full functionality, implement the ${integration_id} integration handler`
-              }
-            };
+        const result = await callMcpTool(params.integration_id, params.action, params.params || {});
+        return result.isError
+          ? { success: false, error: result.content.map((c: any) => c.text).filter(Boolean).join("\n") || "MCP tool reported an error", data: result }
+          : { success: true, data: result };
+      } catch (e: any) {
+        return { success: false, error: e?.message || String(e) };
+      }
+    }
+  },
+
+  {
+    name: "mcp_read_resource",
+    description: "Read a resource (file, record, document) exposed by an MCP server, by its URI.",
+    parameters: {
+      type: "object",
+      properties: {
+        integration_id: {
+          type: "string",
+          description: "ID of the MCP server"
+        },
+        uri: {
+          type: "string",
+          description: "Resource URI, as listed by mcp_connect"
         }
+      },
+      required: ["integration_id", "uri"]
+    },
+    execute: async (params, context) => {
+      try {
+        return { success: true, data: { contents: await readMcpResource(params.integration_id, params.uri) } };
       } catch (e: any) {
         return { success: false, error: e?.message || String(e) };
       }
@@ -2602,21 +2515,9 @@ Respond with JSON:
   }
 ];
 
-// Helper function for MCP integrations
-function getActionsForIntegration(id: string): string[] {
-  const actions: Record<string, string[]> = {
-    github: ["create_repo", "list_repos", "create_issue", "list_issues", "get_file", "create_file"],
-    slack: ["send_message", "list_channels", "read_channel", "create_channel"],
-    notion: ["create_page", "update_page", "search", "get_database"],
-    postgres: ["query", "list_tables", "describe_table", "insert", "update", "delete"],
-    filesystem: ["read", "write", "list", "delete", "copy", "move"],
-    http: ["get", "post", "put", "delete", "patch"]
-  };
-  return actions[id] || [];
-}
-
+// Built-in tools plus every tool of the currently connected MCP servers
 export function getToolDefinitions() {
-  return agentTools.map(tool => ({
+  const builtIn = agentTools.map(tool => ({
     type: "function" as const,
     function: {
       name: tool.name,
@@ -2624,11 +2525,27 @@ export function getToolDefinitions() {
       parameters: tool.parameters
     }
   }));
+  const mcp = getConnectedMcpTools().map(tool => ({
+    type: "function" as const,
+    function: {
+      name: tool.qualifiedName,
+      description: `[MCP ${tool.serverId}] ${tool.description || tool.name}`,
+      parameters: { ...tool.inputSchema, type: "object", properties: tool.inputSchema?.properties ?? {} }
+    }
+  }));
+  return [...builtIn, ...mcp];
 }
 
 export async function executeTool(toolName: string, params: any, context: ToolContext): Promise<ToolResult> {
   const tool = agentTools.find(t => t.name === toolName);
   if (!tool) {
+    const mcpTool = findMcpTool(toolName);
+    if (mcpTool) {
+      return agentTools.find(t => t.name === "mcp_execute")!.execute(
+        { integration_id: mcpTool.serverId, action: mcpTool.name, params },
+        context
+      );
+    }
     return { success: false, error: `Unknown tool: ${toolName}` };
   }
   
@@ -0,0 +1,277 @@
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { StdioClientTransport } from "@modelcontextprotocol/sdk/client/stdio.js";
+import { StreamableHTTPClientTransport } from "@modelcontextprotocol/sdk/client/streamableHttp.js";
+import { ResourceListChangedNotificationSchema, ToolListChangedNotificationSchema } from "@modelcontextprotocol/sdk/types.js";
+import * as fs from "fs";
+import * as path from "path";
+
+export interface McpServerConfig {
+  id: string;
+  description?: string;
+  // stdio transport
+  command?: string;
+  args?: string[];
+  env?: Record<string, string>;
+  cwd?: string;
+  // streamable HTTP transport
+  url?: string;
+  headers?: Record<string, string>;
+  // Connect when an agent session starts instead of waiting for mcp_connect
+  autoConnect?: boolean;
+}
+
+export interface McpToolInfo {
+  serverId: string;
+  name: string;
+  qualifiedName: string;
+  description?: string;
+  inputSchema: { type: string; properties?: Record<string, any>; required?: string[] };
+}
+
+export interface McpResourceInfo {
+  uri: string;
+  name: string;
+  description?: string;
+  mimeType?: string;
+}
+
+interface McpConnection {
+  config: McpServerConfig;
+  client: Client;
+  tools: McpToolInfo[];
+  resources: McpResourceInfo[];
+  connectedAt: string;
+}
+
+const TOOL_PREFIX = "mcp__";
+const REQUEST_TIMEOUT_MS = Number(process.env.MCP_TOOL_TIMEOUT_MS) || 60_000;
+
+const connections = new Map<string, McpConnection>();
+const connecting = new Map<string, Promise<McpConnection>>();
+const lastErrors = new Map<string, string>();
+
+// "${VAR}" in env and header values is read from the service environment, so secrets stay out of the config file
+function expandEnv(values: Record<string, string> | undefined): Record<string, string> {
+  const out: Record<string, string> = {};
+  for (const [key, value] of Object.entries(values || {})) {
+    out[key] = String(value).replace(/\$\{([A-Z0-9_]+)\}/gi, (_, name) => process.env[name] ?? "");
+  }
+  return out;
+}
+
+// Servers come from MCP_SERVERS (JSON) or the file at MCP_CONFIG_FILE (default mcp.json), in the
+// usual `{ "mcpServers": { "<id>": { command, args, env } | { url, headers } } }` shape
+export function loadMcpServerConfigs(): McpServerConfig[] {
+  let raw: any = null;
+  if (process.env.MCP_SERVERS) {
+    raw = JSON.parse(process.env.MCP_SERVERS);
+  } else {
+    const file = path.resolve(process.env.MCP_CONFIG_FILE || "mcp.json");
+    if (fs.existsSync(file)) raw = JSON.parse(fs.readFileSync(file, "utf-8"));
+  }
+  if (!raw) return [];
+  const servers = raw.mcpServers || raw;
+  const list: McpServerConfig[] = Array.isArray(servers)
+    ? servers
+    : Object.entries(servers).map(([id, cfg]: [string, any]) => ({ ...cfg, id }));
+  return list.filter(s => s && s.id && (s.command || s.url));
+}
+
+function findServerConfig(serverId: string): McpServerConfig {
+  const config = loadMcpServerConfigs().find(s => s.id === serverId);
+  if (!config) {
+    const known = loadMcpServerConfigs().map(s => s.id);
+    throw new Error(`Unknown MCP server: ${serverId}. Configured servers: ${known.join(", ") || "none (set MCP_SERVERS or mcp.json)"}`);
+  }
+  return config;
+}
+
+function transportFor(config: McpServerConfig) {
+  if (config.url) {
+    return new StreamableHTTPClientTransport(new URL(config.url), {
+      requestInit: { headers: expandEnv(config.headers) },
+    });
+  }
+  return new StdioClientTransport({
+    command: config.command!,
+    args: config.args || [],
+    env: { ...process.env, ...expandEnv(config.env) } as Record<string, string>,
+    cwd: config.cwd,
+    stderr: "pipe",
+  });
+}
+
+// Provider tool names allow [a-zA-Z0-9_-] and at most 64 characters
+export function qualifyToolName(serverId: string, toolName: string): string {
+  return `${TOOL_PREFIX}${serverId}__${toolName}`.replace(/[^a-zA-Z0-9_-]/g, "_").slice(0, 64);
+}
+
+async function fetchTools(serverId: string, client: Client): Promise<McpToolInfo[]> {
+  if (!client.getServerCapabilities()?.tools) return [];
+  const tools: McpToolInfo[] = [];
+  let cursor: string | undefined;
+  do {
+    const page = await client.listTools(cursor ? { cursor } : undefined, { timeout: REQUEST_TIMEOUT_MS });
+    for (const tool of page.tools) {
+      // Some providers reject a $schema key inside function parameters
+      const { $schema, ...inputSchema } = tool.inputSchema as any;
+      tools.push({
+        serverId,
+        name: tool.name,
+        qualifiedName: qualifyToolName(serverId, tool.name),
+        description: tool.description,
+        inputSchema,
+      });
+    }
+    cursor = page.nextCursor;
+  } while (cursor);
+  return tools;
+}
+
+async function fetchResources(client: Client): Promise<McpResourceInfo[]> {
+  if (!client.getServerCapabilities()?.resources) return [];
+  const resources: McpResourceInfo[] = [];
+  let cursor: string | undefined;
+  do {
+    const page = await client.listResources(cursor ? { cursor } : undefined, { timeout: REQUEST_TIMEOUT_MS });
+    for (const r of page.resources) {
+      resources.push({ uri: r.uri, name: r.name, description: r.description, mimeType: r.mimeType });
+    }
+    cursor = page.nextCursor;
+  } while (cursor);
+  return resources;
+}
+
+async function openConnection(config: McpServerConfig): Promise<McpConnection> {
+  const client = new Client({ name: "ipl-ai-generator", version: "1.0.0" });
+  const transport = transportFor(config);
+  if (transport instanceof StdioClientTransport) {
+    transport.stderr?.on("data", chunk => console.error(`[MCP ${config.id}] ${String(chunk).trimEnd()}`));
+  }
+  let connection: McpConnection;
+  try {
+    await client.connect(transport, { timeout: REQUEST_TIMEOUT_MS });
+    connection = {
+      config,
+      client,
+      tools: await fetchTools(config.id, client),
+      resources: await fetchResources(client),
+      connectedAt: new Date().toISOString(),
+    };
+  } catch (e) {
+    // Don't leave a stdio server process running behind a failed handshake
+    await client.close().catch(() => undefined);
+    throw e;
+  }
+
+  // Servers announce catalog changes; keep the tool list the agent sees current
+  client.setNotificationHandler(ToolListChangedNotificationSchema, async () => {
+    connection.tools = await fetchTools(config.id, client).catch(() => connection.tools);
+  });
+  client.setNotificationHandler(ResourceListChangedNotificationSchema, async () => {
+    connection.resources = await fetchResources(client).catch(() => connection.resources);
+  });
+  client.onclose = () => {
+    if (connections.get(config.id) === connection) connections.delete(config.id);
+  };
+  return connection;
+}
+
+export async function connectMcpServer(serverId: string): Promise<McpConnection> {
+  const existing = connections.get(serverId);
+  if (existing) return existing;
+  let pending = connecting.get(serverId);
+  if (!pending) {
+    pending = openConnection(findServerConfig(serverId))
+      .then(connection => {
+        connections.set(serverId, connection);
+        lastErrors.delete(serverId);
+        return connection;
+      })
+      .catch(e => {
+        lastErrors.set(serverId, e?.message || String(e));
+        throw e;
+      })
+      .finally(() => connecting.delete(serverId));
+    connecting.set(serverId, pending);
+  }
+  return pending;
+}
+
+export async function disconnectMcpServer(serverId: string) {
+  const connection = connections.get(serverId);
+  connections.delete(serverId);
+  await connection?.client.close();
+}
+
+// Connects every server marked autoConnect; failures are reported by mcp_list_integrations, not thrown
+export async function connectAutoMcpServers() {
+  let configs: McpServerConfig[];
+  try {
+    configs = loadMcpServerConfigs();
+  } catch (e: any) {
+    console.error("[MCP] Invalid server configuration:", e?.message || e);
+    return;
+  }
+  await Promise.all(configs.filter(c => c.autoConnect && !connections.has(c.id)).map(c =>
+    connectMcpServer(c.id).catch(e => console.error(`[MCP] Could not connect to ${c.id}:`, e?.message || e))
+  ));
+}
+
+export function listMcpServers() {
+  return loadMcpServerConfigs().map(config => {
+    const connection = connections.get(config.id);
+    return {
+      id: config.id,
+      description: config.description,
+      transport: config.url ? "streamable-http" : "stdio",
+      status: connection ? "connected" : connecting.has(config.id) ? "connecting" : "disconnected",
+      tools: connection?.tools.map(t => t.name) ?? [],
+      resources: connection?.resources.length ?? 0,
+      error: lastErrors.get(config.id),
+    };
+  });
+}
+
+export function getConnectedMcpTools(): McpToolInfo[] {
+  return [...connections.values()].flatMap(c => c.tools);
+}
+
+export function findMcpTool(qualifiedName: string): McpToolInfo | undefined {
+  if (!qualifiedName.startsWith(TOOL_PREFIX)) return undefined;
+  return getConnectedMcpTools().find(t => t.qualifiedName === qualifiedName);
+}
+
+export function getMcpResources(serverId: string): McpResourceInfo[] {
+  return connections.get(serverId)?.resources ?? [];
+}
+
+// Flattens MCP content blocks; binary payloads are summarised rather than passed to the LLM
+function simplifyContent(content: any[]): any[] {
+  return (content || []).map(block => {
+    if (block.type === "text") return { type: "text", text: block.text };
+    if (block.type === "image" || block.type === "audio") return { type: block.type, mimeType: block.mimeType, bytes: block.data?.length ?? 0 };
+    if (block.type === "resource") return { type: "resource", uri: block.resource?.uri, text: block.resource?.text };
+    return block;
+  });
+}
+
+export async function callMcpTool(serverId: string, toolName: string, args: Record<string, any>) {
+  const connection = await connectMcpServer(serverId);
+  const result: any = await connection.client.callTool({ name: toolName, arguments: args || {} }, undefined, { timeout: REQUEST_TIMEOUT_MS });
+  return {
+    isError: !!result.isError,
+    content: simplifyContent(result.content),
+    structuredContent: result.structuredContent,
+  };
+}
+
+export async function readMcpResource(serverId: string, uri: string) {
+  const connection = await connectMcpServer(serverId);
+  const result = await connection.client.readResource({ uri }, { timeout: REQUEST_TIMEOUT_MS });
+  return result.contents.map((c: any) => ({
+    uri: c.uri,
+    mimeType: c.mimeType,
+    ...(c.text !== undefined ? { text: c.text } : { bytes: c.blob?.length ?? 0 }),
+  }));
+}
@@ -3,20 +3,19 @@ import type { GenerationContext } from "../index.js";
 export async function mockLLM(prompt: string) {
   console.log("Mock LLM invoked");
 
+  // Entities, rules and workflows come from the domain packs merged into the spec
   return {
     app: {
       name: "Generated App",
-      domains: inferDomain(prompt),
-      channels: ["web"]
+      domain: inferDomain(prompt)
     },
-    dataModel: {
-      entities: ["User", "Order", "Asset"]
+    ui: {
+      channels: ["web"]
     },
-    workflows: ["Create", "Update", "Audit"],
     deployment: {
       backend: "Node.js",
       frontend: "React",
-      database: "PostgreSQL"
+      database: "postgresql"
     }
   };
 }
@@ -0,0 +1,191 @@
+import { McpServer, ResourceTemplate } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { z } from "zod";
+
+// Every operation goes through the REST API, so the stdio entry point and the /mcp endpoint behave the same
+// and share the running-project state held by the server process
+async function callApi(apiBaseUrl: string, method: string, path: string, body?: any) {
+  const res = await fetch(`${apiBaseUrl}${path}`, {
+    method,
+    headers: body !== undefined ? { "Content-Type": "application/json" } : undefined,
+    body: body !== undefined ? JSON.stringify(body) : undefined,
+  });
+  const text = await res.text();
+  let data: any;
+  try {
+    data = text ? JSON.parse(text) : {};
+  } catch {
+    data = { response: text.slice(0, 5000) };
+  }
+  if (!res.ok) {
+    throw new Error(data?.details ? `${data.error}: ${data.details}` : data?.error || `${method} ${path} failed with ${res.status}`);
+  }
+  return data;
+}
+
+function toolResult(data: any) {
+  return { content: [{ type: "text" as const, text: JSON.stringify(data, null, 2) }] };
+}
+
+function toolError(e: any) {
+  return { isError: true, content: [{ type: "text" as const, text: e?.message || String(e) }] };
+}
+
+const tableSchema = z.object({
+  name: z.string(),
+  columns: z.array(z.object({
+    name: z.string(),
+    type: z.string(),
+    primaryKey: z.boolean().optional(),
+    references: z.string().optional(),
+  })),
+});
+
+const apiSchema = z.object({
+  method: z.string(),
+  path: z.string(),
+  description: z.string().optional(),
+});
+
+export function createIplMcpServer(apiBaseUrl: string): McpServer {
+  const server = new McpServer({ name: "ipl-platform", version: "1.0.0" });
+  const api = (method: string, path: string, body?: any) => callApi(apiBaseUrl, method, path, body);
+  const project = (projectId: string) => `/api/projects/${encodeURIComponent(projectId)}`;
+
+  const run = (fn: () => Promise<any>) => fn().then(toolResult, toolError);
+
+  server.registerTool("list_projects", {
+    description: "List IPL projects (most recently updated first) with their domain, status and modules.",
+    inputSchema: {},
+  }, () => run(async () => (await api("GET", "/api/projects")).projects));
+
+  server.registerTool("get_project", {
+    description: "Get one project, including its modules and canonical spec.",
+    inputSchema: { projectId: z.string() },
+  }, ({ projectId }) => run(async () => (await api("GET", project(projectId))).project));
+
+  server.registerTool("create_project", {
+    description: "Create a new IPL project. Returns the project with its generated projectId.",
+    inputSchema: {
+      name: z.string().min(1),
+      description: z.string().optional(),
+      domain: z.string().optional().describe("Domain pack, e.g. ami or insurance"),
+      database: z.string().optional().describe("Defaults to postgresql"),
+      cloudProvider: z.enum(["aws", "azure", "gcp"]).optional(),
+    },
+  }, (args) => run(() => api("POST", "/api/projects", args)));
+
+  server.registerTool("save_module", {
+    description: "Add or replace a module (tables and APIs) on a project. Modules are what materialize and provision_database build from.",
+    inputSchema: {
+      projectId: z.string(),
+      module_name: z.string().min(1),
+      tables: z.array(tableSchema),
+      apis: z.array(apiSchema),
+      files: z.array(z.string()).optional(),
+    },
+  }, ({ projectId, ...module }) => run(() => api("POST", `${project(projectId)}/modules`, module)));
+
+  server.registerTool("materialize_project", {
+    description: "Generate the project's backend and frontend source code from its modules.",
+    inputSchema: { projectId: z.string() },
+  }, ({ projectId }) => run(() => api("POST", `${project(projectId)}/materialize`)));
+
+  server.registerTool("provision_database", {
+    description: "Create the tables of the project's modules in its database.",
+    inputSchema: { projectId: z.string() },
+  }, ({ projectId }) => run(() => api("POST", `${project(projectId)}/database/provision`)));
+
+  server.registerTool("run_project", {
+    description: "Install dependencies and start the materialized application. Poll get_project_status until it is running.",
+    inputSchema: { projectId: z.string() },
+  }, ({ projectId }) => run(() => api("POST", `${project(projectId)}/run`)));
+
+  server.registerTool("stop_project", {
+    description: "Stop the project's running application.",
+    inputSchema: { projectId: z.string() },
+  }, ({ projectId }) => run(() => api("POST", `${project(projectId)}/stop`)));
+
+  server.registerTool("get_project_status", {
+    description: "Whether the project's application is starting, running, stopped or failed, and its port.",
+    inputSchema: { projectId: z.string() },
+  }, ({ projectId }) => run(() => api("GET", `${project(projectId)}/status`)));
+
+  server.registerTool("read_project_logs", {
+    description: "Read the latest install and server log lines of the project's application.",
+    inputSchema: { projectId: z.string(), tail: z.number().int().min(1).max(200).optional() },
+  }, ({ projectId, tail }) => run(async () => {
+    const { logs } = await api("GET", `${project(projectId)}/logs`);
+    return { logs: tail ? logs.slice(-tail) : logs };
+  }));
+
+  server.registerTool("generate_infrastructure", {
+    description: "Generate infrastructure as code (Terraform, CloudFormation, Docker, Kubernetes, Helm) for an application.",
+    inputSchema: {
+      type: z.enum(["terraform", "cloudformation", "dockerfile", "docker-compose", "kubernetes", "helm", "all"]).optional(),
+      projectName: z.string().optional(),
+      domain: z.string().optional(),
+      database: z.string().optional(),
+      cloudProvider: z.enum(["aws", "azure", "gcp"]).optional(),
+      region: z.string().optional(),
+      dataResidency: z.string().optional().describe("Jurisdiction the data must stay in, e.g. india or eu"),
+      tier: z.string().optional(),
+      appServers: z.number().int().min(1).optional(),
+      dbReplicas: z.number().int().min(0).optional(),
+      cacheNodes: z.number().int().min(0).optional(),
+    },
+  }, (args) => run(() => api("POST", "/api/generate-infrastructure", args)));
+
+  server.registerTool("generate_cicd", {
+    description: "Generate CI/CD pipelines (GitHub Actions, GitLab CI, Jenkins) for an application.",
+    inputSchema: {
+      type: z.enum(["github-actions", "gitlab-ci", "jenkins", "all"]).optional(),
+      projectName: z.string().optional(),
+      domain: z.string().optional(),
+      language: z.string().optional(),
+      registry: z.string().optional(),
+      cloudProvider: z.enum(["aws", "azure", "gcp"]).optional(),
+      database: z.string().optional(),
+    },
+  }, (args) => run(() => api("POST", "/api/generate-cicd", args)));
+
+  server.registerResource("canonical-spec", new ResourceTemplate("ipl://projects/{projectId}/spec", {
+    list: async () => {
+      const { projects } = await api("GET", "/api/projects");
+      return {
+        resources: projects.map((p: any) => ({
+          uri: `ipl://projects/${p.projectId}/spec`,
+          name: `${p.name} canonical spec`,
+          mimeType: "application/json",
+        })),
+      };
+    },
+  }), {
+    description: "A project's canonical spec: domain, entities, workflows, rules and integrations",
+    mimeType: "application/json",
+  }, async (uri, { projectId }) => {
+    const { project: p } = await api("GET", project(String(projectId)));
+    const spec = { app: { name: p.name, domain: p.domain ? [p.domain] : [] }, ...(p.spec || {}), modules: p.modules || [] };
+    return { contents: [{ uri: uri.href, mimeType: "application/json", text: JSON.stringify(spec, null, 2) }] };
+  });
+
+  server.registerResource("project-files", new ResourceTemplate("ipl://projects/{projectId}/files", { list: undefined }), {
+    description: "Index of a project's materialized source files",
+    mimeType: "application/json",
+  }, async (uri, { projectId }) => {
+    const { files } = await api("GET", `${project(String(projectId))}/materialized-files`);
+    const index = files.map((f: any) => ({ path: f.path, type: f.type, uri: `ipl://projects/${projectId}/files/${f.path}` }));
+    return { contents: [{ uri: uri.href, mimeType: "application/json", text: JSON.stringify(index, null, 2) }] };
+  });
+
+  server.registerResource("project-file", new ResourceTemplate("ipl://projects/{projectId}/files/{+path}", { list: undefined }), {
+    description: "One materialized source file of a project",
+    mimeType: "text/plain",
+  }, async (uri, { projectId, path }) => {
+    const { files } = await api("GET", `${project(String(projectId))}/materialized-files`);
+    const file = files.find((f: any) => f.path === String(path));
+    if (!file) throw new Error(`File ${path} not found in project ${projectId}`);
+    return { contents: [{ uri: uri.href, mimeType: "text/plain", text: file.content }] };
+  });
+
+  return server;
+}
@@ -0,0 +1,11 @@
+import "dotenv/config";
+import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
+import { createIplMcpServer } from "./ipl-mcp-server.js";
+
+// stdio entry point for assistants that launch MCP servers as a subprocess; needs the API server running
+const apiBaseUrl = process.env.IPL_API_URL || `http://localhost:${process.env.PORT || 8080}`;
+
+const server = createIplMcpServer(apiBaseUrl.replace(/\/$/, ""));
+await server.connect(new StdioServerTransport());
+// stdout carries the protocol, so diagnostics go to stderr
+console.error(`IPL MCP server (stdio) using ${apiBaseUrl}`);
@@ -8,6 +8,16 @@ const require = createRequire(import.meta.url);
 const pdf = require("pdf-parse");
 import { runLLM, runLLMForType, runGenerateCode, runReviewCode, runFixCode, runExplainCode } from "./llm/index.js";
 import userRoutes from "./modules/user-management/user.routes.js";
+import { validateCanonicalSpec } from "./canonicalSpec/validate.js";
+import { listSemanticRules } from "./canonicalSpec/semanticRules.js";
+import { listSpecMigrations, upgradeSpec } from "./canonicalSpec/migrations.js";
+import { diffSpecs } from "./canonicalSpec/diff.js";
+import { canonicalSpecJsonSchema } from "./canonicalSpec/jsonSchema.js";
+import { mergeDomainPacksIntoSpec } from "./canonicalSpec/mergeDomainPacks.js";
+import { domainPackFile, listDomainPacks } from "./domainPacks/files.js";
+import { domainPackJsonSchema } from "./domainPacks/jsonSchema.js";
+import { validateDomainPack, validateDomainPackFile } from "./domainPacks/validate.js";
+import { DomainPackError, loadDomainPack } from "./steps/domainPackLoader.js";
 import { groqGenerateMobileApp, groqGenerateBackendApi } from "./llm/providers/groq-mobile.js";
 import {
   groqGenerateInfrastructure,
@@ -31,8 +41,20 @@ import {
 // In-memory session storage (would use DB in production)
 const projectSessions = new Map<string, ProjectSession>();
 import { db } from "./db/index.js";
-import { workspaces, chatSessions, projects } from "./db/schema.js";
+import { workspaces, chatSessions, projects, webhookSubscriptions, webhookDeliveries } from "./db/schema.js";
 import { eq, desc } from "drizzle-orm";
+import {
+  WEBHOOK_EVENTS,
+  emitProjectEvent,
+  generateWebhookSecret,
+  getSubscription,
+  listDeliveries,
+  publicSubscription,
+  redeliver,
+  sendTestEvent,
+  startWebhookRetryLoop,
+  validateSubscriptionInput,
+} from "./webhooks/webhooks.js";
 import { provisionProjectDatabase, getProjectTables, getTableData, dropProjectTables, insertSampleData } from "./db/project-database.js";
 import { createProjectBranch, deleteProjectBranch, isNeonConfigured, executeOnProjectBranch, getProjectBranchTables } from "./db/neon-branches.js";
 import {
@@ -59,6 +81,13 @@ import {
   generateBenchmarkReport,
   generateMobileApp,
   generateBackendApi,
+  generateMessageQueue,
+  generateGraphQLApi,
+  MESSAGE_BROKERS,
+  TENANCY_MODELS,
+  TENANT_RESOLUTIONS,
+  findJurisdiction,
+  JURISDICTIONS,
   analyzeSchema,
   generateMigrationPlan,
   generateTargetDDL,
@@ -66,6 +95,10 @@ import {
   generateProjectDocumentation,
   type SourceSchema,
   type MigrationConfig,
+  type EntityEventKind,
+  type MessageBroker,
+  type TenancyModel,
+  type TenantResolution,
 } from "./generators/index.js";
 
 const app = express();
@@ -128,7 +161,11 @@ app.post("/api/generate-from-message-llm", async (req, res) => {
 
   try {
     const out = await runLLM(msg);
-    res.json({ ok: true, mode, spec: out });
+    const checked = validateCanonicalSpec(out);
+    if (!checked.ok) {
+      return res.status(422).json({ error: "LLM returned an invalid canonical spec", issues: checked.issues, spec: out });
+    }
+    res.json({ ok: true, mode, spec: checked.spec, issues: checked.issues });
   } catch (e: any) {
     console.error("LLM pipeline failed:", e);
     res.status(500).json({
@@ -138,6 +175,109 @@ app.post("/api/generate-from-message-llm", async (req, res) => {
   }
 });
 
+// Published JSON Schema of the canonical spec, for editors and LLM tool definitions
+app.get("/api/canonical-spec/schema", (_req, res) => {
+  res.json(canonicalSpecJsonSchema());
+});
+
+app.post("/api/canonical-spec/validate", (req, res) => {
+  const checked = validateCanonicalSpec(req.body?.spec);
+  if (!checked.ok) {
+    return res.status(422).json({ ok: false, issues: checked.issues });
+  }
+  res.json({ ok: true, spec: checked.spec, issues: checked.issues });
+});
+
+app.get("/api/canonical-spec/rules", (_req, res) => {
+  res.json({ ok: true, rules: listSemanticRules() });
+});
+
+app.get("/api/canonical-spec/migrations", (_req, res) => {
+  res.json({ ok: true, migrations: listSpecMigrations() });
+});
+
+app.post("/api/canonical-spec/upgrade", (req, res) => {
+  const upgraded = upgradeSpec(req.body?.spec);
+  if (!upgraded.ok) {
+    return res.status(422).json({ ok: false, issues: [upgraded.issue] });
+  }
+  res.json({ ok: true, spec: upgraded.spec, from: upgraded.from, migrations: upgraded.applied });
+});
+
+// Both sides are upgraded to the current specVersion before comparing
+app.post("/api/canonical-spec/diff", (req, res) => {
+  const before = upgradeSpec(req.body?.before ?? {});
+  const after = upgradeSpec(req.body?.after ?? {});
+  if (!before.ok || !after.ok) {
+    return res.status(422).json({ ok: false, issues: [before, after].flatMap(u => u.ok ? [] : [u.issue]) });
+  }
+  res.json({ ok: true, diff: diffSpecs(before.spec, after.spec) });
+});
+
+// Installed domain packs (domain-packs/<domain>/pack.json); invalid ones are listed with their issues
+app.get("/api/domain-packs", (_req, res) => {
+  const packs = listDomainPacks().map(domain => {
+    try {
+      const pack = loadDomainPack(domain);
+      return { domain, ok: true, name: pack.name, description: pack.description, extends: pack.extends, entities: pack.entities.length, rules: pack.rules.length, workflows: pack.workflows.length, modules: Object.keys(pack.modules) };
+    } catch (e: any) {
+      return { domain, ok: false, error: e?.message || String(e), issues: e instanceof DomainPackError ? e.issues : [] };
+    }
+  });
+  res.json({ ok: true, packs });
+});
+
+app.get("/api/domain-packs/schema", (_req, res) => {
+  res.json(domainPackJsonSchema());
+});
+
+// Lints a pack before it is installed; `domain` is the directory it will go in
+app.post("/api/domain-packs/validate", (req, res) => {
+  const checked = validateDomainPack(req.body?.pack, req.body?.domain);
+  if (!checked.ok) {
+    return res.status(422).json({ ok: false, issues: checked.issues });
+  }
+  res.json({ ok: true, pack: checked.pack, issues: checked.issues });
+});
+
+// Preview of a pack with `extends` applied: the resolved pack, its lineage and where every item comes from.
+// `{ pack }` previews an unsaved pack, `{ domain }` an installed one
+app.post("/api/domain-packs/resolve", (req, res) => {
+  const { pack, domain } = req.body || {};
+  if (!pack && !listDomainPacks().includes(domain)) {
+    return res.status(400).json({ error: "pack object or installed domain required" });
+  }
+  const checked = pack ? validateDomainPack(pack, domain) : validateDomainPackFile(domainPackFile(domain), domain);
+  if (!checked.ok) {
+    return res.status(422).json({ ok: false, issues: checked.issues });
+  }
+  res.json({ ok: true, pack: checked.pack, lineage: checked.lineage, provenance: checked.provenance, issues: checked.issues });
+});
+
+// What mergeDomainPacksIntoSpec adds for several domains, or the conflicts between their packs
+app.post("/api/domain-packs/compose", (req, res) => {
+  const { domains, spec } = req.body || {};
+  if (!Array.isArray(domains) || !domains.length) {
+    return res.status(400).json({ error: "domains array required" });
+  }
+  try {
+    const merged = mergeDomainPacksIntoSpec({ ...spec, app: { ...spec?.app, domain: domains } });
+    res.json({ ok: true, dataModel: merged.dataModel, rules: merged.rules, workflows: merged.workflows, integrations: merged.integrations });
+  } catch (e: any) {
+    if (!(e instanceof DomainPackError)) throw e;
+    res.status(422).json({ ok: false, error: e.message, issues: e.issues });
+  }
+});
+
+app.get("/api/domain-packs/:domain", (req, res) => {
+  try {
+    res.json({ ok: true, pack: loadDomainPack(req.params.domain) });
+  } catch (e: any) {
+    if (!(e instanceof DomainPackError)) throw e;
+    res.status(e.issues.length ? 422 : 404).json({ ok: false, error: e.message, issues: e.issues });
+  }
+});
+
 app.post("/api/generate-code", async (req, res) => {
   try {
     const { domain, entityCount, transactionsPerDay, database, compliance, deploymentType, modules, screens, tables, framework, language } = req.body;
@@ -213,9 +353,17 @@ app.post("/api/explain-code", async (req, res) => {
 
 app.post("/api/generate-infrastructure", async (req, res) => {
   try {
-    const { type, domain, database, tier, appServers, dbReplicas, cacheNodes, region, projectName, tables, modules, cloudProvider } = req.body;
+    const { type, domain, database, tier, appServers, dbReplicas, cacheNodes, region, projectName, tables, modules, cloudProvider, dataResidency } = req.body;
+
+    const residency = findJurisdiction(dataResidency);
+    if (dataResidency && !residency) {
+      return res.status(400).json({ error: `dataResidency must be one of ${JURISDICTIONS.map(j => j.id).join(", ")}` });
+    }
+    if (residency && region && !residency.regions.includes(region)) {
+      return res.status(400).json({ error: `region ${region} is outside the data residency (${residency.name}: ${residency.regions.join(", ")})` });
+    }
     
-    if (process.env.GROQ_API_KEY) {
+    if (process.env.GROQ_API_KEY && !residency) {
       console.log("Using AI-powered infrastructure generation");
       const aiConfig = {
         domain: domain || "custom",
@@ -241,8 +389,9 @@ app.post("/api/generate-infrastructure", async (req, res) => {
       appServers: appServers || 2,
       dbReplicas: dbReplicas || 1,
       cacheNodes: cacheNodes || 1,
-      region: region || "us-east-1",
+      region: region || residency?.regions[0] || "us-east-1",
       projectName: projectName,
+      dataResidency: residency?.id,
     };
     
     let result: Record<string, string> = {};
@@ -591,9 +740,10 @@ app.post("/api/generate-load-tests", async (req, res) => {
 
 app.post("/api/security-scan", async (req, res) => {
   try {
-    const { domain, projectName, compliance, deploymentType, cloudProvider, database, authentication, tables } = req.body;
+    const { domain, projectName, compliance, deploymentType, cloudProvider, database, authentication, tables, dataResidency, region, replicaRegions, backupRegions } = req.body;
     
-    if (process.env.GROQ_API_KEY) {
+    // Residency checks are deterministic; the AI analysis does not cover them
+    if (process.env.GROQ_API_KEY && !dataResidency) {
       console.log("Using AI-powered security analysis");
       const aiConfig = {
         domain: domain || "custom",
@@ -614,6 +764,10 @@ app.post("/api/security-scan", async (req, res) => {
       projectName: projectName,
       compliance: compliance || [],
       deploymentType: deploymentType || "cloud",
+      dataResidency,
+      region,
+      replicaRegions: Array.isArray(replicaRegions) ? replicaRegions : undefined,
+      backupRegions: Array.isArray(backupRegions) ? backupRegions : undefined,
     };
     
     const report = generateSecurityChecklist(ctx);
@@ -735,7 +889,7 @@ app.post("/api/generate-mobile-app", async (req, res) => {
 
 app.post("/api/generate-backend", async (req, res) => {
   try {
-    const { framework, domain, database, projectName, tables, authentication, port } = req.body;
+    const { framework, domain, database, projectName, tables, authentication, port, graphql, tenancy } = req.body;
     
     if (!framework || !['nodejs', 'python', 'go'].includes(framework)) {
       return res.status(400).json({ error: "framework is required (nodejs, python, or go)" });
@@ -744,6 +898,20 @@ app.post("/api/generate-backend", async (req, res) => {
     if (!tables || !Array.isArray(tables) || tables.length === 0) {
       return res.status(400).json({ error: "tables array is required with at least one table" });
     }
+
+    if (graphql && (framework !== 'nodejs' || database === 'mongodb')) {
+      return res.status(400).json({ error: "graphql is supported for the nodejs framework with a SQL database" });
+    }
+
+    if (tenancy) {
+      if (framework !== 'nodejs' || database === 'mongodb') {
+        return res.status(400).json({ error: "tenancy is supported for the nodejs framework with a SQL database" });
+      }
+      const invalid = validateTenancyInput(tenancy);
+      if (invalid) {
+        return res.status(400).json({ error: invalid });
+      }
+    }
     
     const config = {
       framework: framework as 'nodejs' | 'python' | 'go',
@@ -753,12 +921,14 @@ app.post("/api/generate-backend", async (req, res) => {
       tables: tables,
       authentication: authentication !== false,
       port: port,
+      graphql: graphql === true,
+      tenancy: tenancy ? { model: tenancy.model as TenancyModel, resolution: tenancy.resolution as TenantResolution | undefined } : undefined,
     };
     
     const provider = process.env.LLM_PROVIDER || "mock";
     let result;
     
-    if (provider === "groq" && process.env.GROQ_API_KEY) {
+    if (provider === "groq" && process.env.GROQ_API_KEY && !config.graphql && !config.tenancy) {
       console.log("Generating backend API with Groq AI...");
       result = await groqGenerateBackendApi(config);
     } else {
@@ -772,6 +942,100 @@ app.post("/api/generate-backend", async (req, res) => {
   }
 });
 
+function validateTenancyInput(tenancy: any): string | null {
+  if (!TENANCY_MODELS.includes(tenancy?.model)) {
+    return `tenancy.model is required (${TENANCY_MODELS.join(", ")})`;
+  }
+  if (tenancy.resolution !== undefined && !TENANT_RESOLUTIONS.includes(tenancy.resolution)) {
+    return `tenancy.resolution must be one of ${TENANT_RESOLUTIONS.join(", ")}`;
+  }
+  return null;
+}
+
+// Tenant isolation for materialized projects, from the canonical spec's app section
+function projectTenancy(spec: any): { model: TenancyModel; resolution?: TenantResolution } | undefined {
+  const app = spec?.app;
+  return app?.tenancyModel ? { model: app.tenancyModel, resolution: app.tenantResolution } : undefined;
+}
+
+function validateMessagingInput(broker: any, events: any): string | null {
+  if (!MESSAGE_BROKERS.includes(broker)) {
+    return `broker is required (${MESSAGE_BROKERS.join(", ")})`;
+  }
+  if (events !== undefined) {
+    const kinds: EntityEventKind[] = ["created", "updated", "deleted"];
+    if (!Array.isArray(events) || events.length === 0 || events.some((e: any) => !kinds.includes(e))) {
+      return `events must be a non-empty array of ${kinds.join(", ")}`;
+    }
+  }
+  return null;
+}
+
+// Producer/consumer modules, topics, outbox migration and docker-compose for one broker.
+// With a projectId, the project's name and (unless tables are given) its module tables are used.
+app.post("/api/generate-message-queue", async (req, res) => {
+  try {
+    const { broker, events, projectId } = req.body;
+    let { tables, projectName } = req.body;
+
+    const invalid = validateMessagingInput(broker, events);
+    if (invalid) {
+      return res.status(400).json({ error: invalid });
+    }
+
+    if (projectId) {
+      const [project] = await db.select().from(projects).where(eq(projects.projectId, projectId)).limit(1);
+      if (!project) {
+        return res.status(404).json({ error: "Project not found" });
+      }
+      tables = tables || ((project.modules as any[]) || []).flatMap((m: any) => m.tables || []);
+      projectName = projectName || project.name;
+    }
+
+    if (!tables || !Array.isArray(tables) || tables.length === 0) {
+      return res.status(400).json({ error: "tables array is required with at least one table" });
+    }
+
+    const result = generateMessageQueue({
+      broker: broker as MessageBroker,
+      events,
+      projectName: projectName || req.body.domain || "app",
+      tables,
+    });
+    res.json({ ok: true, broker, ...result });
+  } catch (e: any) {
+    console.error("Message queue generation failed:", e);
+    res.status(500).json({ error: "Message queue generation failed", details: e?.message || String(e) });
+  }
+});
+
+// GraphQL schema (SDL), DataLoader-batched resolvers and Yoga server for module tables.
+// With a projectId and no tables, the project's module tables are used.
+app.post("/api/generate-graphql", async (req, res) => {
+  try {
+    const { projectId, poolImport } = req.body;
+    let { tables } = req.body;
+
+    if (projectId && !tables) {
+      const [project] = await db.select().from(projects).where(eq(projects.projectId, projectId)).limit(1);
+      if (!project) {
+        return res.status(404).json({ error: "Project not found" });
+      }
+      tables = ((project.modules as any[]) || []).flatMap((m: any) => m.tables || []);
+    }
+
+    if (!tables || !Array.isArray(tables) || tables.length === 0) {
+      return res.status(400).json({ error: "tables array is required with at least one table" });
+    }
+
+    const result = generateGraphQLApi({ tables, poolImport });
+    res.json({ ok: true, ...result });
+  } catch (e: any) {
+    console.error("GraphQL generation failed:", e);
+    res.status(500).json({ error: "GraphQL generation failed", details: e?.message || String(e) });
+  }
+});
+
 app.post("/api/generate-documentation", async (req, res) => {
   try {
     const { domain, projectName, requirements, infrastructure, techStack, tables, security, deploymentType, cloudProvider, compliance, modules, screens } = req.body;
@@ -1198,6 +1462,19 @@ app.get("/api/projects/:projectId/files", async (req, res) => {
   }
 });
 
+// Add or replace a module (tables and APIs); same behaviour as the agent's save_module tool
+app.post("/api/projects/:projectId/modules", async (req, res) => {
+  const { module_name, tables, apis } = req.body || {};
+  if (!module_name || !Array.isArray(tables) || !Array.isArray(apis)) {
+    return res.status(400).json({ error: "module_name, tables and apis are required" });
+  }
+  const result = await executeTool("save_module", req.body, { projectId: req.params.projectId });
+  if (!result.success) {
+    return res.status(result.error === "Project not found" ? 404 : 500).json({ error: "Failed to save module", details: result.error });
+  }
+  res.json({ ok: true, ...result.data });
+});
+
 // Delete a project
 app.delete("/api/projects/:projectId", async (req, res) => {
   try {
@@ -1208,6 +1485,35 @@ app.delete("/api/projects/:projectId", async (req, res) => {
   }
 });
 
+// ===================== MCP SERVER =====================
+// IPL's project operations as an MCP server over streamable HTTP (stateless: one server per request)
+
+import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
+import { createIplMcpServer } from "./mcp/ipl-mcp-server.js";
+import { executeTool } from "./llm/agent-tools.js";
+
+app.post("/mcp", async (req, res) => {
+  const server = createIplMcpServer(`http://127.0.0.1:${PORT}`);
+  const transport = new StreamableHTTPServerTransport({ sessionIdGenerator: undefined });
+  res.on("close", () => {
+    transport.close();
+    server.close();
+  });
+  try {
+    await server.connect(transport);
+    await transport.handleRequest(req, res, req.body);
+  } catch (e: any) {
+    console.error("MCP request failed:", e);
+    if (!res.headersSent) {
+      res.status(500).json({ jsonrpc: "2.0", error: { code: -32603, message: "Internal server error" }, id: null });
+    }
+  }
+});
+
+app.all("/mcp", (_req, res) => {
+  res.status(405).json({ jsonrpc: "2.0", error: { code: -32000, message: "Method not allowed; this MCP endpoint is stateless" }, id: null });
+});
+
 // ===================== STREAMING AGENT ENDPOINT =====================
 // This provides Claude-like capabilities with real-time updates
 
@@ -1274,6 +1580,8 @@ app.post("/api/projects/:projectId/materialize", async (req, res) => {
       domain: project.domain || "custom",
       database: project.database || "postgresql",
       modules: modules,
+      messaging: project.spec?.messaging,
+      tenancy: projectTenancy(project.spec),
     });
     
     // Store generated files in database
@@ -1291,6 +1599,11 @@ app.post("/api/projects/:projectId/materialize", async (req, res) => {
       })
       .where(eq(projects.projectId, req.params.projectId));
     
+    emitProjectEvent(project.projectId, "project.materialized", {
+      filesCount: result.files.length,
+      modules: modules.map((m: any) => m.name),
+    });
+    
     res.json({
       ok: true,
       projectDir: result.projectDir,
@@ -1384,6 +1697,8 @@ async function runAutomationPipeline(projectId: string): Promise<{
       domain: project.domain || "custom",
       database: project.database || "postgresql",
       modules: modules,
+      messaging: project.spec?.messaging,
+      tenancy: projectTenancy(project.spec),
     });
     
     // Update generated files in DB - store metadata only (path and type)
@@ -1584,6 +1899,7 @@ app.post("/api/projects/:projectId/run", async (req, res) => {
         
         projectState.process = serverProcess;
         projectState.status = "running";
+        emitProjectEvent(projectId, "run.started", { port, startedAt: projectState.startedAt.toISOString() });
         
         serverProcess.stdout.on("data", (data) => {
           logs.push(data.toString().trim());
@@ -1598,6 +1914,7 @@ app.post("/api/projects/:projectId/run", async (req, res) => {
         serverProcess.on("close", (exitCode) => {
           logs.push(`[${new Date().toISOString()}] Server exited with code ${exitCode}`);
           projectState.status = "stopped";
+          emitProjectEvent(projectId, "run.stopped", { port, exitCode });
         });
         
         serverProcess.on("error", (err) => {
@@ -1607,6 +1924,7 @@ app.post("/api/projects/:projectId/run", async (req, res) => {
       } else {
         logs.push(`[${new Date().toISOString()}] npm install failed with code ${code}`);
         projectState.status = "error";
+        emitProjectEvent(projectId, "run.stopped", { port, exitCode: code, reason: "install_failed" });
       }
     });
     
@@ -1967,6 +2285,292 @@ app.put("/api/projects/:projectId/benchmarking", async (req, res) => {
   }
 });
 
+// ===================== WEBHOOKS =====================
+// Per-project subscriptions to project events; deliveries are HMAC-signed and retried (see webhooks/webhooks.ts)
+
+app.get("/api/projects/:projectId/webhooks", async (req, res) => {
+  try {
+    const subs = await db.select().from(webhookSubscriptions)
+      .where(eq(webhookSubscriptions.projectId, req.params.projectId))
+      .orderBy(webhookSubscriptions.createdAt);
+    res.json({ ok: true, webhooks: subs.map(s => publicSubscription(s)), events: WEBHOOK_EVENTS });
+  } catch (e: any) {
+    res.status(500).json({ error: "Failed to list webhooks", details: e?.message || String(e) });
+  }
+});
+
+// The secret is only returned in full here and when rotated
+app.post("/api/projects/:projectId/webhooks", async (req, res) => {
+  try {
+    const problem = validateSubscriptionInput(req.body || {});
+    if (problem) {
+      return res.status(400).json({ error: problem });
+    }
+    const [project] = await db.select({ projectId: projects.projectId }).from(projects).where(eq(projects.projectId, req.params.projectId)).limit(1);
+    if (!project) {
+      return res.status(404).json({ error: "Project not found" });
+    }
+    const { name, url, events, enabled } = req.body;
+    const [sub] = await db.insert(webhookSubscriptions).values({
+      projectId: req.params.projectId,
+      name: name.trim(),
+      url,
+      events,
+      enabled: enabled ?? true,
+      secret: generateWebhookSecret(),
+    }).returning();
+    res.json({ ok: true, webhook: publicSubscription(sub, true) });
+  } catch (e: any) {
+    res.status(500).json({ error: "Failed to create webhook", details: e?.message || String(e) });
+  }
+});
+
+// Body: any of { name, url, events, enabled, rotateSecret }
+app.put("/api/projects/:projectId/webhooks/:webhookId", async (req, res) => {
+  try {
+    const sub = await getSubscription(req.params.projectId, Number(req.params.webhookId));
+    if (!sub) {
+      return res.status(404).json({ error: "Webhook not found" });
+    }
+    const problem = validateSubscriptionInput(req.body || {}, true);
+    if (problem) {
+      return res.status(400).json({ error: problem });
+    }
+    const { name, url, events, enabled, rotateSecret } = req.body;
+    const [updated] = await db.update(webhookSubscriptions)
+      .set({
+        ...(name !== undefined && { name: name.trim() }),
+        ...(url !== undefined && { url }),
+        ...(events !== undefined && { events }),
+        ...(enabled !== undefined && { enabled }),
+        ...(rotateSecret && { secret: generateWebhookSecret() }),
+        updatedAt: new Date(),
+      })
+      .where(eq(webhookSubscriptions.id, sub.id))
+      .returning();
+    res.json({ ok: true, webhook: publicSubscription(updated, !!rotateSecret) });
+  } catch (e: any) {
+    res.status(500).json({ error: "Failed to update webhook", details: e?.message || String(e) });
+  }
+});
+
+app.delete("/api/projects/:projectId/webhooks/:webhookId", async (req, res) => {
+  try {
+    const sub = await getSubscription(req.params.projectId, Number(req.params.webhookId));
+    if (!sub) {
+      return res.status(404).json({ error: "Webhook not found" });
+    }
+    await db.delete(webhookSubscriptions).where(eq(webhookSubscriptions.id, sub.id));
+    res.json({ ok: true, message: "Webhook deleted" });
+  } catch (e: any) {
+    res.status(500).json({ error: "Failed to delete webhook", details: e?.message || String(e) });
+  }
+});
+
+app.post("/api/projects/:projectId/webhooks/:webhookId/test", async (req, res) => {
+  try {
+    const sub = await getSubscription(req.params.projectId, Number(req.params.webhookId));
+    if (!sub) {
+      return res.status(404).json({ error: "Webhook not found" });
+    }
+    res.json({ ok: true, delivery: await sendTestEvent(sub) });
+  } catch (e: any) {
+    res.status(500).json({ error: "Failed to send test event", details: e?.message || String(e) });
+  }
+});
+
+// Delivery log, newest first; ?webhookId= narrows it to one subscription
+app.get("/api/projects/:projectId/webhook-deliveries", async (req, res) => {
+  try {
+    const deliveries = await listDeliveries(req.params.projectId, {
+      subscriptionId: req.query.webhookId ? Number(req.query.webhookId) : undefined,
+      limit: req.query.limit ? Number(req.query.limit) : undefined,
+    });
+    res.json({ ok: true, deliveries });
+  } catch (e: any) {
+    res.status(500).json({ error: "Failed to list deliveries", details: e?.message || String(e) });
+  }
+});
+
+app.post("/api/projects/:projectId/webhook-deliveries/:deliveryId/redeliver", async (req, res) => {
+  try {
+    const [delivery] = await db.select().from(webhookDeliveries)
+      .where(eq(webhookDeliveries.id, Number(req.params.deliveryId)))
+      .limit(1);
+    if (!delivery || delivery.projectId !== req.params.projectId) {
+      return res.status(404).json({ error: "Delivery not found" });
+    }
+    res.json({ ok: true, delivery: await redeliver(delivery) });
+  } catch (e: any) {
+    res.status(500).json({ error: "Failed to redeliver", details: e?.message || String(e) });
+  }
+});
+
+// Broker the materialized backend publishes entity events to (spec.messaging); null when messaging is off
+app.get("/api/projects/:projectId/messaging", async (req, res) => {
+  try {
+    const [project] = await db.select().from(projects).where(eq(projects.projectId, req.params.projectId)).limit(1);
+    if (!project) {
+      return res.status(404).json({ error: "Project not found" });
+    }
+    res.json({ ok: true, messaging: project.spec?.messaging || null, brokers: MESSAGE_BROKERS });
+  } catch (e: any) {
+    res.status(500).json({ error: "Failed to get messaging", details: e?.message || String(e) });
+  }
+});
+
+app.put("/api/projects/:projectId/messaging", async (req, res) => {
+  try {
+    const { broker, events } = req.body;
+    if (broker !== null) {
+      const invalid = validateMessagingInput(broker, events);
+      if (invalid) {
+        return res.status(400).json({ error: invalid });
+      }
+    }
+
+    const [project] = await db.select().from(projects).where(eq(projects.projectId, req.params.projectId)).limit(1);
+    if (!project) {
+      return res.status(404).json({ error: "Project not found" });
+    }
+
+    const { messaging: _previous, ...spec } = project.spec || {};
+    const messaging = broker === null ? null : { broker, ...(events && { events }) };
+    await db.update(projects)
+      .set({ spec: messaging ? { ...spec, messaging } : spec, updatedAt: new Date() })
+      .where(eq(projects.projectId, req.params.projectId));
+
+    res.json({ ok: true, messaging });
+  } catch (e: any) {
+    res.status(500).json({ error: "Failed to save messaging", details: e?.message || String(e) });
+  }
+});
+
+// The project's canonical spec, upgraded to the current specVersion (older specs are migrated on read and saved on the next PUT)
+app.get("/api/projects/:projectId/spec", async (req, res) => {
+  try {
+    const [project] = await db.select().from(projects).where(eq(projects.projectId, req.params.projectId)).limit(1);
+    if (!project) {
+      return res.status(404).json({ error: "Project not found" });
+    }
+    const upgraded = upgradeSpec(project.spec || {});
+    if (!upgraded.ok) {
+      return res.status(422).json({ error: "Project spec cannot be upgraded", issues: [upgraded.issue] });
+    }
+    res.json({ ok: true, spec: upgraded.spec, migrations: upgraded.applied });
+  } catch (e: any) {
+    res.status(500).json({ error: "Failed to get spec", details: e?.message || String(e) });
+  }
+});
+
+// Sections the proposal spells out replace the stored ones; the rest (workflows edited in the designer, messaging, ...) are kept
+function applySpecProposal(current: Record<string, any>, proposal: unknown, validated: Record<string, any>) {
+  const upgraded = upgradeSpec(proposal);
+  const given = upgraded.spec && typeof upgraded.spec === "object" ? Object.keys(upgraded.spec) : [];
+  const sections = Object.keys(validated).filter(k => k === "specVersion" || given.includes(k));
+  return { ...current, ...Object.fromEntries(sections.map(k => [k, validated[k]])) };
+}
+
+// Preview of a proposed spec (e.g. from the agent): validation issues and a structural diff against the stored spec
+app.post("/api/projects/:projectId/spec/diff", async (req, res) => {
+  try {
+    const [project] = await db.select().from(projects).where(eq(projects.projectId, req.params.projectId)).limit(1);
+    if (!project) {
+      return res.status(404).json({ error: "Project not found" });
+    }
+    const current = upgradeSpec(project.spec || {});
+    if (!current.ok) {
+      return res.status(422).json({ error: "Project spec cannot be upgraded", issues: [current.issue] });
+    }
+    const checked = validateCanonicalSpec(req.body?.spec);
+    // An invalid proposal is still diffed as far as it upgrades, so the console can show what it would change
+    const upgraded = upgradeSpec(req.body?.spec ?? {});
+    const after = checked.ok
+      ? applySpecProposal(current.spec, req.body.spec, checked.spec)
+      : { ...current.spec, ...(upgraded.ok && typeof upgraded.spec === "object" ? upgraded.spec : {}) };
+    res.json({
+      ok: true,
+      valid: checked.ok,
+      issues: checked.issues,
+      migrations: upgraded.ok ? upgraded.applied : [],
+      diff: diffSpecs(current.spec, after),
+    });
+  } catch (e: any) {
+    res.status(500).json({ error: "Failed to diff spec", details: e?.message || String(e) });
+  }
+});
+
+app.put("/api/projects/:projectId/spec", async (req, res) => {
+  try {
+    const checked = validateCanonicalSpec(req.body?.spec);
+    if (!checked.ok) {
+      return res.status(422).json({ error: "Invalid canonical spec", issues: checked.issues });
+    }
+    const [project] = await db.select().from(projects).where(eq(projects.projectId, req.params.projectId)).limit(1);
+    if (!project) {
+      return res.status(404).json({ error: "Project not found" });
+    }
+    const current = upgradeSpec(project.spec || {});
+    const spec = applySpecProposal(current.ok ? current.spec : project.spec || {}, req.body.spec, checked.spec);
+    await db.update(projects)
+      .set({ spec, updatedAt: new Date() })
+      .where(eq(projects.projectId, req.params.projectId));
+
+    res.json({ ok: true, spec, issues: checked.issues, migrations: checked.migrations });
+  } catch (e: any) {
+    res.status(500).json({ error: "Failed to save spec", details: e?.message || String(e) });
+  }
+});
+
+// Workflows of the project's canonical spec (edited by the console's WorkflowDesigner)
+app.get("/api/projects/:projectId/workflows", async (req, res) => {
+  try {
+    const [project] = await db.select().from(projects).where(eq(projects.projectId, req.params.projectId)).limit(1);
+    if (!project) {
+      return res.status(404).json({ error: "Project not found" });
+    }
+    res.json({ ok: true, workflows: project.spec?.workflows || [] });
+  } catch (e: any) {
+    res.status(500).json({ error: "Failed to get workflows", details: e?.message || String(e) });
+  }
+});
+
+app.put("/api/projects/:projectId/workflows", async (req, res) => {
+  try {
+    const { workflows } = req.body;
+    if (!Array.isArray(workflows)) {
+      return res.status(400).json({ error: "workflows array is required" });
+    }
+    const problems: string[] = [];
+    const seen = new Set<string>();
+    workflows.forEach((wf: any, i: number) => {
+      const label = wf?.workflowId || `workflows[${i}]`;
+      if (!wf?.workflowId) problems.push(`${label}: workflowId required`);
+      if (!wf?.start) problems.push(`${label}: start required`);
+      if (!Array.isArray(wf?.steps) || !wf.steps.length) problems.push(`${label}: steps must be a non-empty array`);
+      const key = `${wf?.workflowId}@${wf?.version ?? 1}`;
+      if (seen.has(key)) problems.push(`${label}: duplicate workflowId/version`);
+      seen.add(key);
+    });
+    if (problems.length) {
+      return res.status(400).json({ error: "Invalid workflows", details: problems });
+    }
+
+    const [project] = await db.select().from(projects).where(eq(projects.projectId, req.params.projectId)).limit(1);
+    if (!project) {
+      return res.status(404).json({ error: "Project not found" });
+    }
+
+    await db.update(projects)
+      .set({ spec: { ...(project.spec || {}), workflows }, updatedAt: new Date() })
+      .where(eq(projects.projectId, req.params.projectId));
+
+    res.json({ ok: true, workflows });
+  } catch (e: any) {
+    res.status(500).json({ error: "Failed to save workflows", details: e?.message || String(e) });
+  }
+});
+
 // Provision database for a project - creates real tables from module definitions
 app.post("/api/projects/:projectId/database/provision", async (req, res) => {
   try {
@@ -2186,6 +2790,8 @@ app.post("/api/projects/:projectId/issues", async (req, res) => {
       })
       .where(eq(projects.projectId, req.params.projectId));
     
+    emitProjectEvent(req.params.projectId, "issue.detected", { issue: newIssue });
+    
     res.json({ ok: true, issue: newIssue, message: "Issue reported. Use /issues/:issueId/analyze to get AI analysis and fix." });
   } catch (e: any) {
     res.status(500).json({ error: "Failed to report issue", details: e?.message || String(e) });
@@ -2274,6 +2880,8 @@ app.post("/api/projects/:projectId/issues/:issueId/fix", async (req, res) => {
       .set({ issues, updatedAt: new Date() })
       .where(eq(projects.projectId, req.params.projectId));
     
+    emitProjectEvent(req.params.projectId, "issue.fixed", { issue: issues[issueIndex] });
+    
     res.json({ 
       ok: true, 
       issue: issues[issueIndex],
@@ -4499,6 +5107,7 @@ app.put("/api/project/:projectId/tabs", (req, res) => {
 
 app.listen(PORT, "0.0.0.0", () => {
   console.log(`AI Generator on :${PORT}`);
+  startWebhookRetryLoop();
   const llmProvider = process.env.AI_INTEGRATIONS_ANTHROPIC_API_KEY ? "Claude (Anthropic)" : 
                       process.env.GROQ_API_KEY ? "Groq (Llama 3.3)" : "mock";
   console.log(`LLM Provider: ${llmProvider}`);
@@ -1,54 +1,71 @@
-import fs from "fs";
 import path from "path";
-import { fileURLToPath } from "url";
+import type { SpecIssue } from "../canonicalSpec/semanticRules.js";
+import { domainPackFile, listDomainPacks } from "../domainPacks/files.js";
+import type { DomainPack } from "../domainPacks/schema.js";
+import { validateDomainPackFile } from "../domainPacks/validate.js";
 
-const __filename = fileURLToPath(import.meta.url);
-const __dirname = path.dirname(__filename);
+export type { DomainPack };
 
-export interface DomainPack {
+export class DomainPackError extends Error {
+  // Comma-separated when packs conflict with each other
   domain: string;
-  name: string;
-  description: string;
-  terminology: Record<string, any>;
-  entities: Record<string, any>;
-  modules: Record<string, any>;
-  scale_profiles: Record<string, any>;
-  infrastructure_recommendations: Record<string, any>;
+  issues: SpecIssue[];
+  file?: string;
+
+  constructor(domain: string, message: string, issues: SpecIssue[] = [], file?: string) {
+    super(message);
+    this.domain = domain;
+    this.issues = issues;
+    this.file = file;
+  }
 }
 
 const domainPackCache: Record<string, DomainPack> = {};
 
-export function loadDomainPack(domain: string): DomainPack | null {
+// Validated against the domain pack schema and resolved (extends) on first load; throws DomainPackError listing every issue
+export function loadDomainPack(domain: string): DomainPack {
   if (domainPackCache[domain]) {
     return domainPackCache[domain];
   }
 
-  const paths = [
-    path.join(process.cwd(), "domain-packs", `${domain}.json`),
-    path.join(process.cwd(), "src", "domain-packs", `${domain}.json`),
-    path.join(__dirname, "..", "..", "domain-packs", `${domain}.json`),
-    path.join(process.cwd(), "domain-packs", domain, "pack.json"),
-  ];
-
-  for (const p of paths) {
-    if (fs.existsSync(p)) {
-      try {
-        const pack = JSON.parse(fs.readFileSync(p, "utf-8"));
-        domainPackCache[domain] = pack;
-        console.log(`Loaded domain pack for ${domain} from ${p}`);
-        return pack;
-      } catch (e) {
-        console.error(`Failed to parse domain pack at ${p}:`, e);
-      }
-    }
+  const file = domainPackFile(domain);
+  const where = path.relative(process.cwd(), file);
+  if (!listDomainPacks().includes(domain)) {
+    throw new DomainPackError(domain, `No domain pack for ${domain} at ${where} (available: ${listDomainPacks().join(", ")})`, [], file);
   }
+  const checked = validateDomainPackFile(file, domain);
+  if (!checked.ok) {
+    const errors = checked.issues.filter(i => i.severity === "error");
+    throw new DomainPackError(domain, `Invalid domain pack ${where}: ${errors.map(i => `${i.path} ${i.message}`).join("; ")}`, checked.issues, file);
+  }
+  domainPackCache[domain] = checked.pack;
+  console.log(`Loaded domain pack for ${domain} from ${where}`);
+  return checked.pack;
+}
 
-  console.log(`No domain pack found for ${domain}`);
-  return null;
+const reportedInvalid = new Set<string>();
+
+// Every installed pack that loads, for services that serve pack items without a spec; invalid packs are reported once and skipped
+export function installedDomainPacks(): DomainPack[] {
+  return listDomainPacks().flatMap(domain => {
+    try {
+      return [loadDomainPack(domain)];
+    } catch (e: any) {
+      if (!(e instanceof DomainPackError)) throw e;
+      if (!reportedInvalid.has(domain)) console.error(`Skipping domain pack ${domain}: ${e.message}`);
+      reportedInvalid.add(domain);
+      return [];
+    }
+  });
+}
+
+// For prompt context, where the project's domain may have no pack
+export function findDomainPack(domain: string): DomainPack | null {
+  return listDomainPacks().includes(domain) ? loadDomainPack(domain) : null;
 }
 
 export function getDomainContext(domain: string, userIntent: string): string {
-  const pack = loadDomainPack(domain);
+  const pack = findDomainPack(domain);
   if (!pack) {
     return "";
   }
@@ -92,16 +109,16 @@ export function getDomainContext(domain: string, userIntent: string): string {
     context += `${matchedModule.description}\n`;
     context += `\nEntities to create:\n`;
     for (const entityName of matchedModule.entities || []) {
-      const entity = pack.entities?.[entityName];
+      const entity = pack.entities.find(e => e.id === entityName);
       if (entity) {
         context += `\n#### Table: ${entityName}\n`;
-        context += `${entity.description}\n`;
+        if (entity.description) context += `${entity.description}\n`;
         context += "Columns:\n";
-        for (const field of entity.fields || []) {
+        for (const field of entity.fields) {
           let colDef = `- ${field.name}: ${field.type}`;
-          if (field.primaryKey) colDef += " (PK)";
+          if (field.pk) colDef += " (PK)";
           if (field.references) colDef += ` -> ${field.references}`;
-          if (field.enum) colDef += ` [${field.enum.join(', ')}]`;
+          if (field.description) colDef += ` (${field.description})`;
           context += colDef + "\n";
         }
       }
@@ -122,18 +139,18 @@ export function getDomainContext(domain: string, userIntent: string): string {
 }
 
 export function getModuleSpec(domain: string, moduleName: string): any {
-  const pack = loadDomainPack(domain);
-  if (!pack || !pack.modules) return null;
+  const pack = findDomainPack(domain);
+  if (!pack) return null;
 
   const nameKey = moduleName.toLowerCase().replace(/\s+/g, '_');
   for (const [key, mod] of Object.entries(pack.modules)) {
-    if (key === nameKey || (mod as any).name?.toLowerCase() === moduleName.toLowerCase()) {
+    if (key === nameKey || mod.name.toLowerCase() === moduleName.toLowerCase()) {
       return {
         key,
-        ...mod as any,
-        entities: ((mod as any).entities || []).map((eName: string) => ({
-          name: eName,
-          ...pack.entities?.[eName]
+        ...mod,
+        entities: mod.entities.map(eName => ({
+          ...pack.entities.find(e => e.id === eName),
+          name: eName
         }))
       };
     }
@@ -142,11 +159,11 @@ export function getModuleSpec(domain: string, moduleName: string): any {
 }
 
 export function getAllModulesForDomain(domain: string): any[] {
-  const pack = loadDomainPack(domain);
-  if (!pack || !pack.modules) return [];
+  const pack = findDomainPack(domain);
+  if (!pack) return [];
 
   return Object.entries(pack.modules).map(([key, mod]) => ({
     key,
-    ...(mod as any)
+    ...mod
   }));
 }
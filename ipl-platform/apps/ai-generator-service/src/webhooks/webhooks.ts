@@ -0,0 +1,205 @@
+import { createHmac, randomBytes, randomUUID } from "crypto";
+import { and, desc, eq, lte } from "drizzle-orm";
+import { db } from "../db/index.js";
+import { webhookDeliveries, webhookSubscriptions } from "../db/schema.js";
+import type { WebhookDelivery, WebhookSubscription } from "../db/schema.js";
+
+export const WEBHOOK_EVENTS = [
+  "module.saved",
+  "project.materialized",
+  "run.started",
+  "run.stopped",
+  "issue.detected",
+  "issue.fixed",
+] as const;
+
+export type WebhookEvent = typeof WEBHOOK_EVENTS[number];
+
+// Delays before attempts 2..n; a delivery fails for good after the last one
+const RETRY_DELAYS_MS = [10_000, 60_000, 5 * 60_000, 30 * 60_000, 2 * 60 * 60_000];
+const MAX_ATTEMPTS = RETRY_DELAYS_MS.length + 1;
+const DELIVERY_TIMEOUT_MS = 10_000;
+const RESPONSE_BODY_LIMIT = 2_000;
+
+// Rows being attempted right away are leased past the timeout so the retry sweep doesn't send them twice
+const lease = () => new Date(Date.now() + 2 * DELIVERY_TIMEOUT_MS);
+
+export function generateWebhookSecret(): string {
+  return `whsec_${randomBytes(24).toString("hex")}`;
+}
+
+// Receivers recompute HMAC-SHA256(secret, `${timestamp}.${body}`) and compare it to X-IPL-Signature
+export function signWebhookPayload(secret: string, timestamp: string, body: string): string {
+  return `sha256=${createHmac("sha256", secret).update(`${timestamp}.${body}`).digest("hex")}`;
+}
+
+export function maskSecret(secret: string): string {
+  return `${secret.slice(0, 6)}…${secret.slice(-4)}`;
+}
+
+export function publicSubscription(sub: WebhookSubscription, revealSecret = false) {
+  return { ...sub, secret: revealSecret ? sub.secret : maskSecret(sub.secret) };
+}
+
+export function validateSubscriptionInput(input: any, partial = false): string | null {
+  if (!partial || input.name !== undefined) {
+    if (typeof input.name !== "string" || !input.name.trim()) return "name is required";
+  }
+  if (!partial || input.url !== undefined) {
+    try {
+      const url = new URL(input.url);
+      if (url.protocol !== "https:" && url.protocol !== "http:") return "url must be http(s)";
+    } catch {
+      return "url must be a valid URL";
+    }
+  }
+  if (!partial || input.events !== undefined) {
+    if (!Array.isArray(input.events) || input.events.length === 0) return "events must be a non-empty array";
+    const unknown = input.events.filter((e: string) => e !== "*" && !WEBHOOK_EVENTS.includes(e as WebhookEvent));
+    if (unknown.length) return `Unknown events: ${unknown.join(", ")}`;
+  }
+  if (input.enabled !== undefined && typeof input.enabled !== "boolean") return "enabled must be a boolean";
+  return null;
+}
+
+async function attemptDelivery(delivery: WebhookDelivery): Promise<WebhookDelivery> {
+  const [sub] = await db.select().from(webhookSubscriptions).where(eq(webhookSubscriptions.id, delivery.subscriptionId)).limit(1);
+  const attempts = delivery.attempts + 1;
+  if (!sub) {
+    const [row] = await db.update(webhookDeliveries)
+      .set({ status: "failed", attempts, error: "Subscription was deleted", nextAttemptAt: null })
+      .where(eq(webhookDeliveries.id, delivery.id)).returning();
+    return row;
+  }
+
+  const body = JSON.stringify(delivery.payload);
+  const timestamp = String(Math.floor(Date.now() / 1000));
+  const started = Date.now();
+  let responseStatus: number | null = null;
+  let responseBody: string | null = null;
+  let error: string | null = null;
+  try {
+    const res = await fetch(sub.url, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        "User-Agent": "IPL-Webhooks/1.0",
+        "X-IPL-Event": delivery.event,
+        "X-IPL-Delivery": String(delivery.id),
+        "X-IPL-Timestamp": timestamp,
+        "X-IPL-Signature": signWebhookPayload(sub.secret, timestamp, body),
+      },
+      body,
+      signal: AbortSignal.timeout(DELIVERY_TIMEOUT_MS),
+    });
+    responseStatus = res.status;
+    responseBody = (await res.text()).slice(0, RESPONSE_BODY_LIMIT);
+    if (!res.ok) error = `Receiver responded ${res.status}`;
+  } catch (e: any) {
+    error = e?.name === "TimeoutError" ? `No response within ${DELIVERY_TIMEOUT_MS}ms` : e?.message || String(e);
+  }
+
+  const succeeded = !error;
+  const exhausted = attempts >= MAX_ATTEMPTS;
+  const [row] = await db.update(webhookDeliveries)
+    .set({
+      status: succeeded ? "succeeded" : exhausted ? "failed" : "pending",
+      attempts,
+      responseStatus,
+      responseBody,
+      error,
+      durationMs: Date.now() - started,
+      nextAttemptAt: succeeded || exhausted ? null : new Date(Date.now() + RETRY_DELAYS_MS[attempts - 1]),
+      deliveredAt: succeeded ? new Date() : null,
+    })
+    .where(eq(webhookDeliveries.id, delivery.id))
+    .returning();
+  return row;
+}
+
+// Records one delivery per matching subscription and makes the first attempt right away.
+// Never throws: a broken webhook must not fail the project operation that raised the event.
+export async function emitProjectEvent(projectId: string, event: WebhookEvent, data: Record<string, any>) {
+  try {
+    const subs = await db.select().from(webhookSubscriptions)
+      .where(and(eq(webhookSubscriptions.projectId, projectId), eq(webhookSubscriptions.enabled, true)));
+    const matching = subs.filter(s => s.events.includes(event) || s.events.includes("*"));
+    if (!matching.length) return;
+
+    const eventId = `evt_${randomUUID()}`;
+    const payload = { id: eventId, type: event, projectId, createdAt: new Date().toISOString(), data };
+    const rows = await db.insert(webhookDeliveries)
+      .values(matching.map(s => ({ subscriptionId: s.id, projectId, eventId, event, payload, nextAttemptAt: lease() })))
+      .returning();
+    for (const row of rows) {
+      attemptDelivery(row).catch(e => console.error(`[Webhooks] Delivery ${row.id} failed:`, e));
+    }
+  } catch (e) {
+    console.error(`[Webhooks] Could not record ${event} for ${projectId}:`, e);
+  }
+}
+
+export async function sendTestEvent(sub: WebhookSubscription): Promise<WebhookDelivery> {
+  const eventId = `evt_${randomUUID()}`;
+  const payload = {
+    id: eventId,
+    type: "webhook.test",
+    projectId: sub.projectId,
+    createdAt: new Date().toISOString(),
+    data: { subscriptionId: sub.id, message: "Test delivery from IPL" },
+  };
+  const [row] = await db.insert(webhookDeliveries)
+    .values({ subscriptionId: sub.id, projectId: sub.projectId, eventId, event: "webhook.test", payload, nextAttemptAt: lease() })
+    .returning();
+  return attemptDelivery(row);
+}
+
+// Sends an existing delivery again (same event id and payload) with a fresh retry budget
+export async function redeliver(delivery: WebhookDelivery): Promise<WebhookDelivery> {
+  const [row] = await db.update(webhookDeliveries)
+    .set({ status: "pending", attempts: 0, nextAttemptAt: lease() })
+    .where(eq(webhookDeliveries.id, delivery.id))
+    .returning();
+  return attemptDelivery(row);
+}
+
+export async function listDeliveries(projectId: string, filter: { subscriptionId?: number; limit?: number }) {
+  const conditions = [eq(webhookDeliveries.projectId, projectId)];
+  if (filter.subscriptionId) conditions.push(eq(webhookDeliveries.subscriptionId, filter.subscriptionId));
+  return db.select().from(webhookDeliveries)
+    .where(and(...conditions))
+    .orderBy(desc(webhookDeliveries.createdAt))
+    .limit(Math.min(filter.limit || 50, 200));
+}
+
+async function retryDueDeliveries(): Promise<number> {
+  const due = await db.select().from(webhookDeliveries)
+    .where(and(eq(webhookDeliveries.status, "pending"), lte(webhookDeliveries.nextAttemptAt, new Date())))
+    .orderBy(webhookDeliveries.nextAttemptAt)
+    .limit(50);
+  for (const delivery of due) {
+    await attemptDelivery(delivery);
+  }
+  return due.length;
+}
+
+// Retries survive restarts: pending deliveries are picked up from the table, not from memory
+export function startWebhookRetryLoop(intervalMs = 5000): () => void {
+  let busy = false;
+  const handle = setInterval(() => {
+    if (busy) return;
+    busy = true;
+    retryDueDeliveries()
+      .catch(e => console.error("Webhook retry sweep failed:", e))
+      .finally(() => { busy = false; });
+  }, intervalMs);
+  return () => clearInterval(handle);
+}
+
+export async function getSubscription(projectId: string, id: number): Promise<WebhookSubscription | null> {
+  if (!Number.isInteger(id)) return null;
+  const [sub] = await db.select().from(webhookSubscriptions)
+    .where(and(eq(webhookSubscriptions.projectId, projectId), eq(webhookSubscriptions.id, id)))
+    .limit(1);
+  return sub ?? null;
+}
@@ -0,0 +1,111 @@
+import assert from "node:assert/strict";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { after, before, describe, it } from "node:test";
+import { fileURLToPath, pathToFileURL } from "node:url";
+import { generateGraphQLApi } from "../src/generators/graphql-api.js";
+import type { GraphQLApiConfig } from "../src/generators/graphql-api.js";
+
+// The generated modules resolve graphql and dataloader from the monorepo's node_modules
+const rootModules = fileURLToPath(new URL("../../../node_modules", import.meta.url));
+
+const TENANT_SCOPE = `"tenant_id" = current_setting('app.tenant_id', true)`;
+
+const tables: GraphQLApiConfig["tables"] = [
+  { name: "meters", columns: [{ name: "id", type: "serial", primaryKey: true }, { name: "serial", type: "text" }, { name: "tenant_id", type: "text" }] },
+  {
+    name: "readings",
+    columns: [
+      { name: "id", type: "serial", primaryKey: true },
+      { name: "tenant_id", type: "text" },
+      { name: "meter_id", type: "integer", references: "meters.id" },
+    ],
+  },
+];
+
+interface Statement { text: string; params: unknown[] }
+
+declare global {
+  var graphqlStubPool: { query: (text: string, params?: unknown[]) => Promise<{ rows: any[] }> } | undefined;
+}
+
+describe("generated GraphQL queries under shared-db tenancy", () => {
+  const statements: Statement[] = [];
+  let dir: string;
+  let sql: any;
+  let loaders: any;
+  let TABLES: any;
+
+  before(async () => {
+    globalThis.graphqlStubPool = {
+      query: async (text, params = []) => {
+        statements.push({ text, params });
+        if (text.startsWith("SELECT COUNT")) return { rows: [{ count: 0 }] };
+        return { rows: text.startsWith("SELECT") ? [] : [{ id: 1 }] };
+      },
+    };
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "graphql-"));
+    fs.symlinkSync(rootModules, path.join(dir, "node_modules"), "dir");
+    for (const file of generateGraphQLApi({ tables, tenantColumn: "tenant_id" }).files) {
+      fs.mkdirSync(path.dirname(path.join(dir, file.path)), { recursive: true });
+      fs.writeFileSync(path.join(dir, file.path), file.content);
+    }
+    fs.mkdirSync(path.join(dir, "src/config"));
+    fs.writeFileSync(path.join(dir, "src/config/database.ts"), "export const pool = globalThis.graphqlStubPool;\n");
+
+    const load = (module: string) => import(pathToFileURL(path.join(dir, "src/graphql", module)).href);
+    sql = await load("sql.ts");
+    ({ createLoaders: loaders } = await load("loaders.ts"));
+    ({ TABLES } = await load("tables.ts"));
+  });
+
+  after(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+    globalThis.graphqlStubPool = undefined;
+  });
+
+  const run = async (fn: () => Promise<unknown>) => {
+    statements.length = 0;
+    await fn();
+    assert.ok(statements.length > 0);
+    return statements;
+  };
+
+  it("scopes list pages and their counts to the connection's tenant", async () => {
+    for (const { text } of await run(() => sql.findConnection(TABLES.meters, { first: 5, filter: { serial: "A-1" } }))) {
+      assert.ok(text.includes(`WHERE ${TENANT_SCOPE} AND "serial" = $1`), text);
+    }
+  });
+
+  it("scopes loader lookups by key and by parent", async () => {
+    const scoped = async (fn: () => Promise<unknown>) => {
+      for (const { text } of await run(fn)) assert.ok(text.includes(`= ANY($1) AND ${TENANT_SCOPE}`), text);
+    };
+    await scoped(() => loaders().byKey(TABLES.meters, "id").load("1"));
+    await scoped(() => loaders().children(TABLES.readings, "meterId", 50).load("1"));
+  });
+
+  it("writes the tenant on insert and matches it on update and delete", async () => {
+    const [insert] = await run(() => sql.insertRow(TABLES.meters, { serial: "A-1" }));
+    assert.equal(insert.text, `INSERT INTO "meters" ("serial", "tenant_id") VALUES ($1, current_setting('app.tenant_id', true)) RETURNING *`);
+    const [update] = await run(() => sql.updateRow(TABLES.meters, "1", { serial: "A-2" }));
+    assert.ok(update.text.endsWith(`WHERE "id" = $2 AND ${TENANT_SCOPE} RETURNING *`), update.text);
+    const [remove] = await run(() => sql.deleteRow(TABLES.meters, "1"));
+    assert.ok(remove.text.endsWith(`WHERE "id" = $1 AND ${TENANT_SCOPE} RETURNING *`), remove.text);
+  });
+
+  it("does not let clients read, filter or write the tenant column", async () => {
+    const { sdl } = generateGraphQLApi({ tables, tenantColumn: "tenant_id" });
+    assert.doesNotMatch(sdl, /tenantId/);
+    assert.match(sdl, /type Reading \{[^}]*meter: Meter/);
+    await assert.rejects(sql.insertRow(TABLES.meters, { tenantId: "globex" }), /Unknown field tenantId/);
+    await assert.rejects(sql.findConnection(TABLES.meters, { filter: { tenantId: "globex" } }), /Unknown field tenantId/);
+  });
+
+  it("leaves queries unscoped without tenancy", () => {
+    const { files, sdl } = generateGraphQLApi({ tables });
+    assert.match(sdl, /tenantId: String/);
+    for (const file of files) assert.doesNotMatch(file.content, /app\.tenant_id/, file.path);
+  });
+});
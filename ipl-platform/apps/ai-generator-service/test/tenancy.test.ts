@@ -0,0 +1,106 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import ts from "typescript";
+import { generateTenancy, TENANCY_MODELS, TENANT_RESOLUTIONS } from "../src/generators/tenancy.js";
+import type { TenancyModel, TenantResolution } from "../src/generators/tenancy.js";
+
+const TABLES = ["orders", "invoices"];
+
+const COMMON_FILES = [
+  "src/tenancy/context.ts",
+  "src/tenancy/resolve.ts",
+  "src/tenancy/db.ts",
+  "src/tenancy/pool.ts",
+  "src/tenancy/provision.ts",
+  "src/tenancy/cli.ts",
+  "test/tenancy.test.ts",
+];
+
+const file = (model: TenancyModel, path: string, resolution?: TenantResolution) =>
+  generateTenancy({ model, resolution, tables: TABLES }).files.find(f => f.path === path)?.content;
+
+describe("generateTenancy", () => {
+  for (const model of TENANCY_MODELS) {
+    for (const resolution of TENANT_RESOLUTIONS) {
+      it(`emits the ${model} files for ${resolution} resolution`, () => {
+        const generated = generateTenancy({ model, resolution, tables: TABLES });
+        const expected = model === "shared-db" ? [...COMMON_FILES, "migrations/tenancy_rls.sql"] : COMMON_FILES;
+        assert.deepEqual(generated.files.map(f => f.path), expected);
+        assert.equal(generated.tenantColumn, model === "shared-db" ? "tenant_id" : null);
+        assert.equal(generated.scripts.tenancy, "tsx src/tenancy/cli.ts");
+        assert.match(generated.instructions, new RegExp(`^## Multi-tenancy \\(${model}\\)`));
+        assert.equal("jsonwebtoken" in generated.dependencies, resolution === "jwt");
+      });
+
+      it(`emits TypeScript that parses for ${model} with ${resolution} resolution`, () => {
+        for (const f of generateTenancy({ model, resolution, tables: TABLES }).files.filter(f => f.path.endsWith(".ts"))) {
+          const { diagnostics = [] } = ts.transpileModule(f.content, {
+            fileName: f.path,
+            reportDiagnostics: true,
+            compilerOptions: { module: ts.ModuleKind.ESNext, target: ts.ScriptTarget.ES2022 },
+          });
+          assert.deepEqual(diagnostics.map(d => ts.flattenDiagnosticMessageText(d.messageText, "\n")), [], f.path);
+        }
+      });
+    }
+  }
+
+  it("rejects unknown models, unknown resolutions and empty table lists", () => {
+    assert.throws(() => generateTenancy({ model: "per-user" as TenancyModel, tables: TABLES }), /Unsupported tenancy model: per-user/);
+    assert.throws(() => generateTenancy({ model: "shared-db", resolution: "cookie" as TenantResolution, tables: TABLES }), /Unsupported tenant resolution: cookie/);
+    assert.throws(() => generateTenancy({ model: "shared-db", tables: [] }), /At least one table/);
+  });
+
+  it("signs the generated jwt tests with a secret they set before loading resolve.ts", () => {
+    const test = file("shared-db", "test/tenancy.test.ts", "jwt")!;
+    assert.doesNotMatch(file("shared-db", "src/tenancy/resolve.ts", "jwt")!, /fallback-secret/);
+    assert.doesNotMatch(test, /fallback-secret/);
+    assert.ok(test.indexOf('process.env.JWT_SECRET ||=') < test.indexOf('await import("../src/tenancy/resolve.js")'));
+  });
+
+  it("defaults to header resolution", () => {
+    assert.equal(generateTenancy({ model: "shared-db", tables: TABLES }).environment.TENANT_HEADER, "x-tenant-id");
+  });
+});
+
+describe("shared-db row-level security migration", () => {
+  const sql = file("shared-db", "migrations/tenancy_rls.sql")!;
+
+  it("covers every tenant table", () => {
+    for (const table of TABLES) {
+      assert.match(sql, new RegExp(`ALTER TABLE "${table}" ENABLE ROW LEVEL SECURITY;`));
+      assert.match(sql, new RegExp(`ALTER TABLE "${table}" FORCE ROW LEVEL SECURITY;`));
+      assert.match(sql, new RegExp(`CREATE POLICY tenant_isolation ON "${table}"`));
+    }
+  });
+
+  it("backfills existing rows before tenant_id becomes NOT NULL", () => {
+    const at = (statement: string) => {
+      const i = sql.indexOf(statement);
+      assert.ok(i >= 0, `missing: ${statement}`);
+      return i;
+    };
+    const steps = [
+      `ALTER TABLE "orders" ADD COLUMN IF NOT EXISTS tenant_id TEXT;`,
+      `UPDATE "orders" SET tenant_id = NULLIF(current_setting('app.backfill_tenant_id', true), '') WHERE tenant_id IS NULL;`,
+      `IF EXISTS (SELECT 1 FROM "orders" WHERE tenant_id IS NULL) THEN`,
+      `ALTER TABLE "orders" ALTER COLUMN tenant_id SET NOT NULL;`,
+      `ALTER TABLE "orders" ENABLE ROW LEVEL SECURITY;`,
+    ].map(at);
+    assert.deepEqual(steps, [...steps].sort((x, y) => x - y));
+    assert.doesNotMatch(sql, /ADD COLUMN[^;]*NOT NULL/);
+  });
+
+  it("applies the same statements from npm run tenancy -- setup", () => {
+    const provision = file("shared-db", "src/tenancy/provision.ts")!;
+    assert.match(provision, /export const TENANT_TABLES = \["orders","invoices"\];/);
+    assert.match(provision, /ADD COLUMN IF NOT EXISTS tenant_id TEXT`/);
+    assert.match(provision, /process\.env\.TENANT_BACKFILL_ID/);
+    assert.ok(provision.indexOf("SET NOT NULL") > provision.indexOf("WHERE tenant_id IS NULL"));
+  });
+
+  it("is only generated for shared-db", () => {
+    assert.equal(file("schema-per-tenant", "migrations/tenancy_rls.sql"), undefined);
+    assert.equal(file("db-per-tenant", "migrations/tenancy_rls.sql"), undefined);
+  });
+});
@@ -0,0 +1,183 @@
+import assert from "node:assert/strict";
+import fs from "node:fs";
+import type { Server } from "node:http";
+import type { AddressInfo } from "node:net";
+import os from "node:os";
+import path from "node:path";
+import { after, before, describe, it } from "node:test";
+import { fileURLToPath, pathToFileURL } from "node:url";
+import express from "express";
+import { generateTenancy } from "../src/generators/tenancy.js";
+import type { TenancyConfig } from "../src/generators/tenancy.js";
+
+// The generated modules resolve express and pg from the monorepo's node_modules
+const rootModules = fileURLToPath(new URL("../../../node_modules", import.meta.url));
+
+interface Statement { client: number; scope: string; text: string }
+
+// Stands in for Postgres under the generated row-level security policy: a connection sees and writes
+// only rows whose tenant_id equals its app.tenant_id. Connections are reused, as pg.Pool reuses them.
+class StubPool {
+  rows: Array<{ note: string; tenant_id: string }> = [];
+  statements: Statement[] = [];
+  idle: StubClient[] = [];
+  opened = 0;
+  failUnscope = false;
+
+  async connect() {
+    return this.idle.pop() ?? new StubClient(this, ++this.opened);
+  }
+
+  async query(text: string, params?: unknown[]) {
+    const client = await this.connect();
+    try {
+      return await client.query(text, params);
+    } finally {
+      client.release();
+    }
+  }
+}
+
+class StubClient {
+  scope = "";
+
+  constructor(private pool: StubPool, readonly id: number) {}
+
+  async query(text: string, params: unknown[] = []) {
+    if (text.startsWith("SELECT set_config('app.tenant_id', ''")) {
+      if (this.pool.failUnscope) throw new Error("connection lost");
+      this.scope = "";
+      return { rows: [], rowCount: 1 };
+    }
+    if (text.startsWith("SELECT set_config('app.tenant_id', $1")) {
+      this.scope = params[0] as string;
+      return { rows: [], rowCount: 1 };
+    }
+    this.pool.statements.push({ client: this.id, scope: this.scope, text });
+    if (text.startsWith("INSERT INTO orders")) {
+      if (!this.scope) throw new Error("new row violates row-level security policy");
+      this.pool.rows.push({ note: params[0] as string, tenant_id: this.scope });
+      return { rows: [], rowCount: 1 };
+    }
+    const rows = this.pool.rows.filter(r => r.tenant_id === this.scope).map(({ note }) => ({ note }));
+    return { rows, rowCount: rows.length };
+  }
+
+  release(err?: Error | boolean) {
+    if (!err) this.pool.idle.push(this);
+  }
+}
+
+declare global {
+  var tenancyStubPool: StubPool | undefined;
+}
+
+function writeTenancy(config: TenancyConfig): string {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), "tenancy-"));
+  fs.symlinkSync(rootModules, path.join(dir, "node_modules"), "dir");
+  for (const file of generateTenancy(config).files) {
+    fs.mkdirSync(path.dirname(path.join(dir, file.path)), { recursive: true });
+    fs.writeFileSync(path.join(dir, file.path), file.content);
+  }
+  fs.mkdirSync(path.join(dir, "src/config"));
+  fs.writeFileSync(path.join(dir, "src/config/database.ts"), "export const pool = globalThis.tenancyStubPool;\n");
+  return dir;
+}
+
+const load = (dir: string, module: string) => import(pathToFileURL(path.join(dir, "src/tenancy", module)).href);
+
+describe("generated shared-db tenancy at runtime", () => {
+  const stub = new StubPool();
+  let dir: string;
+  let server: Server;
+
+  before(async () => {
+    globalThis.tenancyStubPool = stub;
+    dir = writeTenancy({ model: "shared-db", tables: ["orders"] });
+    const { tenantMiddleware } = await load(dir, "resolve.ts");
+    const { pool } = await load(dir, "pool.ts");
+
+    const app = express();
+    app.use(express.json());
+    app.use(tenantMiddleware);
+    app.get("/orders", async (_req, res) => {
+      const { rows } = await pool.query("SELECT note FROM orders");
+      res.json(rows.map((r: { note: string }) => r.note));
+    });
+    app.post("/orders", async (req, res) => {
+      await pool.query("INSERT INTO orders (note) VALUES ($1)", [req.body.note]);
+      res.status(201).end();
+    });
+    server = app.listen(0);
+    await new Promise(resolve => server.once("listening", resolve));
+  });
+
+  after(() => {
+    server.close();
+    fs.rmSync(dir, { recursive: true, force: true });
+    globalThis.tenancyStubPool = undefined;
+  });
+
+  const url = () => `http://localhost:${(server.address() as AddressInfo).port}/orders`;
+  const list = async (tenant: string) => (await fetch(url(), { headers: { "x-tenant-id": tenant } })).json();
+  const add = (tenant: string, note: string) =>
+    fetch(url(), { method: "POST", headers: { "x-tenant-id": tenant, "content-type": "application/json" }, body: JSON.stringify({ note }) });
+
+  it("never returns another tenant's rows", async () => {
+    assert.equal((await add("acme", "acme order")).status, 201);
+    assert.equal((await add("globex", "globex order")).status, 201);
+    assert.deepEqual(await list("acme"), ["acme order"]);
+    assert.deepEqual(await list("globex"), ["globex order"]);
+    assert.deepEqual(await list("initech"), []);
+  });
+
+  it("keeps concurrent requests of different tenants apart on shared connections", async () => {
+    const tenants = Array.from({ length: 20 }, (_, i) => (i % 2 ? "acme" : "globex"));
+    const results = await Promise.all(tenants.map(list));
+    results.forEach((notes, i) => assert.deepEqual(notes, [`${tenants[i]} order`]));
+    assert.ok(stub.opened < tenants.length, "connections should be reused across tenants");
+  });
+
+  it("runs every statement on a connection scoped to the tenant and clears the scope on release", async () => {
+    stub.statements = [];
+    await list("acme");
+    await list("globex");
+    assert.deepEqual(stub.statements.map(s => s.scope), ["acme", "globex"]);
+    assert.equal(stub.statements[0].client, stub.statements[1].client);
+    assert.ok(stub.idle.every(c => c.scope === ""));
+  });
+
+  it("runs no statement for requests without a valid tenant", async () => {
+    stub.statements = [];
+    assert.equal((await fetch(url())).status, 400);
+    assert.equal((await fetch(url(), { headers: { "x-tenant-id": "acme;drop" } })).status, 400);
+    assert.deepEqual(stub.statements, []);
+  });
+
+  it("discards a connection whose scope cannot be cleared", async () => {
+    stub.failUnscope = true;
+    try {
+      assert.deepEqual(await list("acme"), ["acme order"]);
+    } finally {
+      stub.failUnscope = false;
+    }
+    assert.ok(stub.idle.every(c => c.scope !== "acme"));
+    assert.deepEqual(await list("globex"), ["globex order"]);
+  });
+});
+
+describe("generated jwt tenant resolution", () => {
+  it("refuses to load without JWT_SECRET", async () => {
+    globalThis.tenancyStubPool = new StubPool();
+    const dir = writeTenancy({ model: "shared-db", resolution: "jwt", tables: ["orders"] });
+    const secret = process.env.JWT_SECRET;
+    delete process.env.JWT_SECRET;
+    try {
+      await assert.rejects(load(dir, "resolve.ts"), /JWT_SECRET must be set/);
+    } finally {
+      if (secret !== undefined) process.env.JWT_SECRET = secret;
+      fs.rmSync(dir, { recursive: true, force: true });
+      globalThis.tenancyStubPool = undefined;
+    }
+  });
+});
@@ -0,0 +1,164 @@
+import { and, desc, eq, isNull, lt, or, sql } from "drizzle-orm";
+import { db } from "../db/index.js";
+import { connectorCalls, deadLetters } from "../db/schema.js";
+import type { ConnectorCall, DeadLetter, DeadLetterStatus } from "../db/schema.js";
+import { ConnectorError } from "../connectors/errors.js";
+import type { ConnectorDefinition } from "../connectors/types.js";
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// Longer than any call with all its retries; a call or replay still holding its lease after this has crashed
+const LEASE_MS = 5 * 60_000;
+
+const leaseUntil = () => new Date(Date.now() + LEASE_MS);
+
+export interface StoredError {
+  code?: string;
+  message: string;
+  statusCode?: number;
+  details?: any;
+}
+
+export function toStoredError(e: any): StoredError {
+  return e instanceof ConnectorError
+    ? { code: e.code, message: e.message, statusCode: e.statusCode, details: e.details }
+    : { message: e?.message || String(e) };
+}
+
+// Claims the key atomically; `created` is false when an earlier request already holds it. The same request takes
+// the key over once the earlier one's lease has run out.
+export async function beginCall(
+  connectorId: string,
+  action: string,
+  idempotencyKey: string,
+  requestHash: string,
+): Promise<{ call: ConnectorCall; created: boolean }> {
+  const [created] = await db.insert(connectorCalls)
+    .values({ connectorId, action, idempotencyKey, requestHash, status: "in_progress", leaseExpiresAt: leaseUntil() })
+    .onConflictDoNothing()
+    .returning();
+  if (created) return { call: created, created: true };
+  const [takenOver] = await db.update(connectorCalls)
+    .set({ leaseExpiresAt: leaseUntil(), updatedAt: new Date() })
+    .where(and(
+      eq(connectorCalls.connectorId, connectorId),
+      eq(connectorCalls.idempotencyKey, idempotencyKey),
+      eq(connectorCalls.requestHash, requestHash),
+      eq(connectorCalls.status, "in_progress"),
+      or(isNull(connectorCalls.leaseExpiresAt), lt(connectorCalls.leaseExpiresAt, new Date())),
+    ))
+    .returning();
+  if (takenOver) return { call: takenOver, created: true };
+  const [existing] = await db.select().from(connectorCalls)
+    .where(and(eq(connectorCalls.connectorId, connectorId), eq(connectorCalls.idempotencyKey, idempotencyKey)))
+    .limit(1);
+  return { call: existing, created: false };
+}
+
+// Replays run the same request again under the key they failed with
+export async function reopenCall(connectorId: string, idempotencyKey: string) {
+  await db.update(connectorCalls)
+    .set({ status: "in_progress", leaseExpiresAt: leaseUntil(), updatedAt: new Date() })
+    .where(and(eq(connectorCalls.connectorId, connectorId), eq(connectorCalls.idempotencyKey, idempotencyKey)));
+}
+
+export async function finishCall(
+  connectorId: string,
+  idempotencyKey: string,
+  outcome: { output?: any; error?: StoredError; attempts: number; deadLetterId?: string },
+) {
+  await db.update(connectorCalls)
+    .set({
+      status: outcome.error ? "failed" : "succeeded",
+      output: outcome.output ?? null,
+      error: outcome.error ?? null,
+      attempts: outcome.attempts,
+      deadLetterId: outcome.deadLetterId ?? null,
+      leaseExpiresAt: null,
+      updatedAt: new Date(),
+      completedAt: new Date(),
+    })
+    .where(and(eq(connectorCalls.connectorId, connectorId), eq(connectorCalls.idempotencyKey, idempotencyKey)));
+}
+
+export async function addDeadLetter(entry: {
+  connector: ConnectorDefinition;
+  action: string;
+  input: Record<string, any>;
+  idempotencyKey?: string;
+  error: StoredError;
+  attempts: number;
+}): Promise<DeadLetter> {
+  const [row] = await db.insert(deadLetters).values({
+    connectorId: entry.connector.id,
+    action: entry.action,
+    connector: entry.connector,
+    input: entry.input,
+    idempotencyKey: entry.idempotencyKey,
+    error: entry.error,
+    attempts: entry.attempts,
+  }).returning();
+  return row;
+}
+
+export async function getDeadLetter(id: string): Promise<DeadLetter> {
+  if (!UUID_PATTERN.test(id)) throw new ConnectorError("DEAD_LETTER_NOT_FOUND", `Dead letter ${id} not found`, 404);
+  const [row] = await db.select().from(deadLetters).where(eq(deadLetters.id, id)).limit(1);
+  if (!row) throw new ConnectorError("DEAD_LETTER_NOT_FOUND", `Dead letter ${id} not found`, 404);
+  return row;
+}
+
+export async function listDeadLetters(filter: { status?: string; connectorId?: string; limit?: number }): Promise<DeadLetter[]> {
+  const conditions = [];
+  if (filter.status) conditions.push(eq(deadLetters.status, filter.status as DeadLetterStatus));
+  if (filter.connectorId) conditions.push(eq(deadLetters.connectorId, filter.connectorId));
+  return db.select().from(deadLetters)
+    .where(conditions.length ? and(...conditions) : undefined)
+    .orderBy(desc(deadLetters.createdAt))
+    .limit(Math.min(filter.limit || 100, 500));
+}
+
+// Takes a pending dead letter (or one whose replay lease ran out) for one replay; null when it is not available
+export async function claimDeadLetter(id: string): Promise<DeadLetter | null> {
+  const [row] = await db.update(deadLetters)
+    .set({ status: "replaying", leaseExpiresAt: leaseUntil() })
+    .where(and(
+      eq(deadLetters.id, id),
+      or(
+        eq(deadLetters.status, "pending"),
+        and(eq(deadLetters.status, "replaying"), or(isNull(deadLetters.leaseExpiresAt), lt(deadLetters.leaseExpiresAt, new Date()))),
+      ),
+    ))
+    .returning();
+  return row ?? null;
+}
+
+// Hands a claimed dead letter back to the queue after a replay that did not succeed
+export async function releaseDeadLetter(id: string) {
+  await db.update(deadLetters)
+    .set({ status: "pending", leaseExpiresAt: null })
+    .where(and(eq(deadLetters.id, id), eq(deadLetters.status, "replaying")));
+}
+
+export async function resolveDeadLetter(id: string, status: Exclude<DeadLetterStatus, "pending">, output?: any) {
+  await db.update(deadLetters)
+    .set({
+      status,
+      output: output ?? null,
+      replays: status === "replayed" ? sql`${deadLetters.replays} + 1` : deadLetters.replays,
+      leaseExpiresAt: null,
+      resolvedAt: new Date(),
+    })
+    .where(eq(deadLetters.id, id));
+}
+
+export async function recordReplayFailure(id: string, error: StoredError, attempts: number) {
+  await db.update(deadLetters)
+    .set({
+      error,
+      attempts: sql`${deadLetters.attempts} + ${attempts}`,
+      replays: sql`${deadLetters.replays} + 1`,
+      lastAttemptAt: new Date(),
+    })
+    .where(eq(deadLetters.id, id));
+}
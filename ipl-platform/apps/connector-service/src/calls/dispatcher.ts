@@ -0,0 +1,149 @@
+import { createHash } from "crypto";
+import { assertCircuitClosed, endTrial, recordFailure, recordSuccess } from "../connectors/circuitBreaker.js";
+import { ConnectorError } from "../connectors/errors.js";
+import { isDownstreamFailure, isRetryable, retryDelay, retryPolicyFor } from "../connectors/policy.js";
+import { callOnce, findAction, validateInput } from "../connectors/runtime.js";
+import type { ActionDefinition, ActionResult, ConnectorDefinition } from "../connectors/types.js";
+import {
+  addDeadLetter,
+  beginCall,
+  claimDeadLetter,
+  finishCall,
+  getDeadLetter,
+  recordReplayFailure,
+  releaseDeadLetter,
+  reopenCall,
+  resolveDeadLetter,
+  toStoredError,
+} from "./callStore.js";
+import type { ConnectorCall } from "../db/schema.js";
+import { withTrustedTransport } from "../spec/connectorSource.js";
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+function stableStringify(value: any): string {
+  if (Array.isArray(value)) return `[${value.map(stableStringify).join(",")}]`;
+  if (value && typeof value === "object") {
+    return `{${Object.keys(value).sort().map(k => `${JSON.stringify(k)}:${stableStringify(value[k])}`).join(",")}}`;
+  }
+  return JSON.stringify(value) ?? "null";
+}
+
+function requestHash(action: string, input: Record<string, any>): string {
+  return createHash("sha256").update(stableStringify({ action, input })).digest("hex");
+}
+
+// Answers a repeated idempotency key from the stored outcome instead of calling downstream again
+function fromStoredCall(call: ConnectorCall, action: string, hash: string): ActionResult {
+  if (call.requestHash !== hash) {
+    throw new ConnectorError("IDEMPOTENCY_KEY_REUSED", `Idempotency key ${call.idempotencyKey} was used for a different request`, 422, {
+      action: call.action,
+    });
+  }
+  if (call.status === "in_progress") {
+    throw new ConnectorError("REQUEST_IN_PROGRESS", `A request with idempotency key ${call.idempotencyKey} is still in progress`, 409);
+  }
+  if (call.status === "failed") {
+    const stored = call.error as any;
+    throw new ConnectorError(stored?.code || "CONNECTOR_CALL_FAILED", stored?.message || `${action} failed`, stored?.statusCode || 502, {
+      ...stored?.details && { cause: stored.details },
+      deadLetterId: call.deadLetterId,
+      replayed: true,
+    });
+  }
+  return { output: call.output, durationMs: 0, attempts: call.attempts, replayed: true };
+}
+
+// Attempts with backoff and the target's circuit breaker; a final downstream failure lands in the dead-letter queue
+async function execute(
+  connector: ConnectorDefinition,
+  action: ActionDefinition,
+  input: Record<string, any>,
+  idempotencyKey: string | undefined,
+  deadLetterId?: string,
+): Promise<ActionResult> {
+  const policy = retryPolicyFor(connector, action, idempotencyKey);
+  let attempts = 0;
+  let lastError: any;
+  while (attempts < policy.maxAttempts) {
+    attempts++;
+    let trial = false;
+    try {
+      trial = assertCircuitClosed(connector);
+      const result = await callOnce(connector, action, input, idempotencyKey);
+      recordSuccess(connector);
+      if (idempotencyKey) await finishCall(connector.id, idempotencyKey, { output: result.output, attempts });
+      return { ...result, attempts };
+    } catch (e: any) {
+      lastError = e;
+      if (isDownstreamFailure(e) && e.code !== "CIRCUIT_OPEN") recordFailure(connector, e.message);
+    } finally {
+      if (trial) endTrial(connector);
+    }
+    if (!isRetryable(lastError) || attempts >= policy.maxAttempts) break;
+    await sleep(retryDelay(policy, attempts));
+  }
+
+  const error = toStoredError(lastError);
+  if (isDownstreamFailure(lastError)) {
+    if (deadLetterId) await recordReplayFailure(deadLetterId, error, attempts);
+    else deadLetterId = (await addDeadLetter({ connector, action: action.name, input, idempotencyKey, error, attempts })).id;
+    lastError.details = { ...(lastError.details && { cause: lastError.details }), deadLetterId, attempts };
+  }
+  if (idempotencyKey) await finishCall(connector.id, idempotencyKey, { error, attempts, deadLetterId });
+  throw lastError;
+}
+
+export async function dispatch(
+  connector: ConnectorDefinition,
+  actionName: string,
+  input: Record<string, any>,
+  idempotencyKey?: string,
+): Promise<ActionResult> {
+  const action = findAction(connector, actionName);
+  validateInput(connector, action, input);
+  if (!idempotencyKey) {
+    if (action.requireIdempotencyKey) {
+      throw new ConnectorError("IDEMPOTENCY_KEY_REQUIRED", `${connector.id}.${action.name} requires an Idempotency-Key header`, 400);
+    }
+    return execute(connector, action, input, undefined);
+  }
+
+  const hash = requestHash(action.name, input);
+  const { call, created } = await beginCall(connector.id, action.name, idempotencyKey, hash);
+  if (!created) return fromStoredCall(call, action.name, hash);
+  return execute(connector, action, input, idempotencyKey);
+}
+
+// Re-runs a dead-lettered call with its original input, idempotency key and connector snapshot. The entry is claimed
+// first, so of two concurrent replays only one calls downstream.
+export async function replayDeadLetter(id: string): Promise<ActionResult> {
+  const entry = await claimDeadLetter((await getDeadLetter(id)).id);
+  if (!entry) {
+    const { status } = await getDeadLetter(id);
+    if (status === "replaying") throw new ConnectorError("REPLAY_IN_PROGRESS", `Dead letter ${id} is already being replayed`, 409);
+    throw new ConnectorError("DEAD_LETTER_CLOSED", `Dead letter ${id} is already ${status}`, 409);
+  }
+  try {
+    // The snapshot may come from a request spec, and credentials may have been set since it was taken
+    const connector = withTrustedTransport(entry.connector);
+    const action = findAction(connector, entry.action);
+    const key = entry.idempotencyKey || undefined;
+    if (key) await reopenCall(connector.id, key);
+    const result = await execute(connector, action, entry.input, key, entry.id);
+    await resolveDeadLetter(entry.id, "replayed", result.output);
+    return result;
+  } catch (e) {
+    await releaseDeadLetter(entry.id);
+    throw e;
+  }
+}
+
+export async function discardDeadLetter(id: string) {
+  const entry = await getDeadLetter(id);
+  if (entry.status !== "pending") {
+    throw new ConnectorError("DEAD_LETTER_CLOSED", `Dead letter ${id} is already ${entry.status}`, 409);
+  }
+  await resolveDeadLetter(entry.id, "discarded");
+  return getDeadLetter(entry.id);
+}
@@ -0,0 +1,20 @@
+import { ConnectorError } from "./errors.js";
+import { httpAdapter } from "./httpAdapter.js";
+import type { ConnectorAdapter } from "./types.js";
+
+// Connector type -> adapter; register custom protocols (SOAP, SFTP, vendor SDKs) with registerAdapter
+const adapters = new Map<string, ConnectorAdapter>([[httpAdapter.type, httpAdapter]]);
+
+export function registerAdapter(adapter: ConnectorAdapter) {
+  adapters.set(adapter.type, adapter);
+}
+
+export function hasAdapter(type: string): boolean {
+  return adapters.has(type);
+}
+
+export function getAdapter(type: string): ConnectorAdapter {
+  const adapter = adapters.get(type);
+  if (!adapter) throw new ConnectorError("NO_ADAPTER", `No adapter registered for connector type ${type}`, 501);
+  return adapter;
+}
@@ -0,0 +1,89 @@
+import { ConnectorError } from "./errors.js";
+import type { ConnectorDefinition } from "./types.js";
+
+type CircuitState = "closed" | "open" | "half_open";
+
+interface Circuit {
+  state: CircuitState;
+  failures: number;
+  openedAt?: number;
+  lastError?: string;
+}
+
+const DEFAULT_FAILURE_THRESHOLD = 5;
+const DEFAULT_RESET_AFTER_MS = 30_000;
+
+// Keyed by target host, so connectors sharing a downstream system share its circuit
+const circuits = new Map<string, Circuit>();
+
+export function circuitKey(connector: ConnectorDefinition): string {
+  if (connector.baseUrl) {
+    try {
+      return new URL(connector.baseUrl).host;
+    } catch {
+      // fall through to the connector id
+    }
+  }
+  return connector.id;
+}
+
+function circuitFor(connector: ConnectorDefinition): Circuit {
+  const key = circuitKey(connector);
+  let circuit = circuits.get(key);
+  if (!circuit) {
+    circuit = { state: "closed", failures: 0 };
+    circuits.set(key, circuit);
+  }
+  return circuit;
+}
+
+// Throws CIRCUIT_OPEN while open; after resetAfterMs one trial call is let through (half-open) and gets true back
+export function assertCircuitClosed(connector: ConnectorDefinition, now = Date.now()): boolean {
+  const circuit = circuitFor(connector);
+  if (circuit.state === "closed") return false;
+  const resetAfter = connector.circuitBreaker?.resetAfterMs ?? DEFAULT_RESET_AFTER_MS;
+  if (circuit.state === "open" && now - circuit.openedAt! >= resetAfter) {
+    circuit.state = "half_open";
+    return true;
+  }
+  throw new ConnectorError("CIRCUIT_OPEN", `Circuit for ${circuitKey(connector)} is open after repeated failures`, 503, {
+    target: circuitKey(connector),
+    retryAfterMs: Math.max(0, resetAfter - (now - circuit.openedAt!)),
+    lastError: circuit.lastError,
+  });
+}
+
+export function recordSuccess(connector: ConnectorDefinition) {
+  const circuit = circuitFor(connector);
+  circuit.state = "closed";
+  circuit.failures = 0;
+  circuit.openedAt = undefined;
+}
+
+export function recordFailure(connector: ConnectorDefinition, error: string, now = Date.now()) {
+  const circuit = circuitFor(connector);
+  circuit.failures++;
+  circuit.lastError = error;
+  const threshold = connector.circuitBreaker?.failureThreshold ?? DEFAULT_FAILURE_THRESHOLD;
+  if (circuit.state === "half_open" || circuit.failures >= threshold) {
+    circuit.state = "open";
+    circuit.openedAt = now;
+  }
+}
+
+// Called once the trial call is over: a trial that neither succeeded nor failed downstream (bad input, no adapter)
+// proved nothing, so the circuit reopens as it was and the next call becomes the trial
+export function endTrial(connector: ConnectorDefinition) {
+  const circuit = circuitFor(connector);
+  if (circuit.state === "half_open") circuit.state = "open";
+}
+
+export function listCircuits() {
+  return [...circuits].map(([target, c]) => ({
+    target,
+    state: c.state,
+    failures: c.failures,
+    openedAt: c.openedAt ? new Date(c.openedAt).toISOString() : null,
+    lastError: c.lastError ?? null,
+  }));
+}
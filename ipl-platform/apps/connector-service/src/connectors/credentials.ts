@@ -0,0 +1,57 @@
+import { ConnectorError } from "./errors.js";
+import type { Credentials } from "./types.js";
+
+// Set at runtime through PUT /connectors/:id/credentials; not persisted
+const registered = new Map<string, Credentials>();
+
+function envPrefix(connectorId: string): string {
+  return `CONNECTOR_${connectorId.toUpperCase().replace(/[^A-Z0-9]/g, "_")}_`;
+}
+
+export function validateCredentials(value: any): Credentials {
+  const ok =
+    (value?.type === "bearer" && typeof value.token === "string" && value.token) ||
+    (value?.type === "basic" && typeof value.username === "string" && typeof value.password === "string") ||
+    (value?.type === "apiKey" && typeof value.value === "string" && value.value) ||
+    (value?.type === "headers" && value.headers && typeof value.headers === "object" && !Array.isArray(value.headers));
+  if (!ok) {
+    throw new ConnectorError(
+      "INVALID_CREDENTIALS",
+      'credentials must be { type: "bearer", token }, { type: "basic", username, password }, { type: "apiKey", value, header? } or { type: "headers", headers }',
+      422,
+    );
+  }
+  return value;
+}
+
+export function setCredentials(connectorId: string, credentials: Credentials | null) {
+  if (credentials) registered.set(connectorId, validateCredentials(credentials));
+  else registered.delete(connectorId);
+}
+
+// Runtime registration wins over CONNECTOR_CREDENTIALS (JSON keyed by connector id), which wins over CONNECTOR_<ID>_* variables
+export function resolveCredentials(connectorId: string): Credentials | undefined {
+  const set = registered.get(connectorId);
+  if (set) return set;
+
+  if (process.env.CONNECTOR_CREDENTIALS) {
+    let all: Record<string, any>;
+    try {
+      all = JSON.parse(process.env.CONNECTOR_CREDENTIALS);
+    } catch {
+      throw new ConnectorError("INVALID_CREDENTIALS", "CONNECTOR_CREDENTIALS is not valid JSON", 500);
+    }
+    if (all?.[connectorId]) return validateCredentials(all[connectorId]);
+  }
+
+  const prefix = envPrefix(connectorId);
+  const env = (name: string) => process.env[prefix + name];
+  if (env("TOKEN")) return { type: "bearer", token: env("TOKEN")! };
+  if (env("USERNAME") && env("PASSWORD") !== undefined) return { type: "basic", username: env("USERNAME")!, password: env("PASSWORD")! };
+  if (env("API_KEY")) return { type: "apiKey", value: env("API_KEY")!, header: env("API_KEY_HEADER") };
+  return undefined;
+}
+
+export function baseUrlOverride(connectorId: string): string | undefined {
+  return process.env[`${envPrefix(connectorId)}BASE_URL`];
+}
@@ -0,0 +1,95 @@
+import { ConnectorError } from "./errors.js";
+import type { ActionContext, ConnectorAdapter, Credentials } from "./types.js";
+
+const DEFAULT_TIMEOUT_MS = 10_000;
+const BODYLESS = new Set(["GET", "HEAD", "DELETE"]);
+
+function authHeaders(credentials?: Credentials): Record<string, string> {
+  switch (credentials?.type) {
+    case "bearer":
+      return { Authorization: `Bearer ${credentials.token}` };
+    case "basic":
+      return { Authorization: `Basic ${Buffer.from(`${credentials.username}:${credentials.password}`).toString("base64")}` };
+    case "apiKey":
+      return { [credentials.header || "X-API-Key"]: credentials.value };
+    case "headers":
+      return { ...credentials.headers };
+    default:
+      return {};
+  }
+}
+
+// Fills "{field}" placeholders from the input; used fields are not sent again in the body or query
+function buildPath(template: string, input: Record<string, any>): { path: string; rest: Record<string, any> } {
+  const rest = { ...input };
+  const path = template.replace(/\{(\w+)\}/g, (_, field: string) => {
+    if (input[field] === undefined || input[field] === null) {
+      throw new ConnectorError("INVALID_INPUT", `Input field ${field} is required by path ${template}`, 422);
+    }
+    delete rest[field];
+    return encodeURIComponent(String(input[field]));
+  });
+  return { path, rest };
+}
+
+// Generic REST adapter: one HTTP call per action against the connector's baseUrl
+export const httpAdapter: ConnectorAdapter = {
+  type: "http",
+
+  async invoke({ connector, action, input, credentials, idempotencyKey }: ActionContext) {
+    if (!connector.baseUrl) {
+      throw new ConnectorError("CONNECTOR_NOT_CONFIGURED", `Connector ${connector.id} has no baseUrl`, 503);
+    }
+    const method = (action.method || "POST").toUpperCase();
+    const { path, rest } = buildPath(action.path || `/${action.name}`, input);
+    const url = new URL(connector.baseUrl.replace(/\/$/, "") + path);
+    if (BODYLESS.has(method)) {
+      for (const [k, v] of Object.entries(rest)) {
+        if (v !== undefined && v !== null) url.searchParams.set(k, typeof v === "object" ? JSON.stringify(v) : String(v));
+      }
+    }
+
+    const timeoutMs = action.timeoutMs || connector.timeoutMs || DEFAULT_TIMEOUT_MS;
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), timeoutMs);
+    let res: Response;
+    try {
+      res = await fetch(url, {
+        method,
+        headers: {
+          Accept: "application/json",
+          "Content-Type": "application/json",
+          ...connector.headers,
+          ...authHeaders(credentials),
+          ...(idempotencyKey ? { "Idempotency-Key": idempotencyKey } : {}),
+        },
+        body: BODYLESS.has(method) ? undefined : JSON.stringify(rest),
+        signal: controller.signal,
+      });
+    } catch (e: any) {
+      if (e?.name === "AbortError") {
+        throw new ConnectorError("CONNECTOR_TIMEOUT", `${connector.id}.${action.name} timed out after ${timeoutMs}ms`, 504);
+      }
+      throw new ConnectorError("CONNECTOR_UNAVAILABLE", `${connector.id} is unreachable at ${connector.baseUrl}: ${e?.message || e}`, 502);
+    } finally {
+      clearTimeout(timer);
+    }
+
+    const text = await res.text();
+    let body: any = text;
+    if (text && (res.headers.get("content-type") || "").includes("json")) {
+      try {
+        body = JSON.parse(text);
+      } catch {
+        // leave as text; output validation reports the mismatch
+      }
+    }
+    if (!res.ok) {
+      throw new ConnectorError("CONNECTOR_REQUEST_FAILED", `${connector.id}.${action.name} returned HTTP ${res.status}`, 502, {
+        status: res.status,
+        body,
+      });
+    }
+    return text ? body : null;
+  },
+};
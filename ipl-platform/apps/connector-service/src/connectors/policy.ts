@@ -0,0 +1,37 @@
+import { ConnectorError } from "./errors.js";
+import type { ActionDefinition, ConnectorDefinition, RetryPolicy } from "./types.js";
+
+const DEFAULT_RETRY: Required<RetryPolicy> = { maxAttempts: 3, initialDelayMs: 200, multiplier: 2, maxDelayMs: 5_000 };
+const IDEMPOTENT_METHODS = new Set(["GET", "HEAD", "PUT", "DELETE"]);
+
+// Failures of the downstream system itself; these feed the circuit breaker and the dead-letter queue
+const DOWNSTREAM_CODES = new Set(["CONNECTOR_UNAVAILABLE", "CONNECTOR_TIMEOUT", "CONNECTOR_REQUEST_FAILED", "INVALID_OUTPUT", "CIRCUIT_OPEN"]);
+
+export function isDownstreamFailure(e: unknown): e is ConnectorError {
+  return e instanceof ConnectorError && DOWNSTREAM_CODES.has(e.code);
+}
+
+// Transient failures only: network errors, timeouts, 5xx and 429
+export function isRetryable(e: unknown): boolean {
+  if (!(e instanceof ConnectorError)) return false;
+  if (e.code === "CONNECTOR_UNAVAILABLE" || e.code === "CONNECTOR_TIMEOUT") return true;
+  const status = e.details?.status;
+  return e.code === "CONNECTOR_REQUEST_FAILED" && (status >= 500 || status === 429);
+}
+
+export function isIdempotent(connector: ConnectorDefinition, action: ActionDefinition): boolean {
+  if (action.idempotent !== undefined) return action.idempotent;
+  return connector.type === "http" && IDEMPOTENT_METHODS.has((action.method || "POST").toUpperCase());
+}
+
+// Unsafe actions called without an idempotency key get a single attempt: a retry could fire them twice
+export function retryPolicyFor(connector: ConnectorDefinition, action: ActionDefinition, idempotencyKey?: string): Required<RetryPolicy> {
+  const policy = { ...DEFAULT_RETRY, ...connector.retry, ...action.retry };
+  if (!idempotencyKey && !isIdempotent(connector, action)) policy.maxAttempts = 1;
+  return policy;
+}
+
+// `attempt` counts failures so far (1-based)
+export function retryDelay(policy: Required<RetryPolicy>, attempt: number): number {
+  return Math.min(policy.initialDelayMs * Math.pow(policy.multiplier, attempt - 1), policy.maxDelayMs);
+}
@@ -0,0 +1,41 @@
+import { getAdapter } from "./adapters.js";
+import { resolveCredentials } from "./credentials.js";
+import { ConnectorError } from "./errors.js";
+import { schemaProblems } from "./schema.js";
+import type { ActionDefinition, ActionResult, ConnectorDefinition } from "./types.js";
+
+export function findAction(connector: ConnectorDefinition, actionName: string): ActionDefinition {
+  const action = connector.actions.find(a => a.name === actionName);
+  if (!action) {
+    throw new ConnectorError("UNKNOWN_ACTION", `Connector ${connector.id} has no action ${actionName}`, 404, {
+      actions: connector.actions.map(a => a.name),
+    });
+  }
+  return action;
+}
+
+export function validateInput(connector: ConnectorDefinition, action: ActionDefinition, input: Record<string, any>) {
+  const problems = schemaProblems(action.input, input, "input");
+  if (problems.length) {
+    throw new ConnectorError("INVALID_INPUT", `Invalid input for ${connector.id}.${action.name}`, 422, problems);
+  }
+}
+
+// One attempt: calls the adapter for the connector's type, then validates what came back
+export async function callOnce(
+  connector: ConnectorDefinition,
+  action: ActionDefinition,
+  input: Record<string, any>,
+  idempotencyKey?: string,
+): Promise<ActionResult> {
+  const adapter = getAdapter(connector.type);
+  const started = Date.now();
+  const output = await adapter.invoke({ connector, action, input, credentials: resolveCredentials(connector.id), idempotencyKey });
+  const durationMs = Date.now() - started;
+
+  const problems = schemaProblems(action.output, output, "output");
+  if (problems.length) {
+    throw new ConnectorError("INVALID_OUTPUT", `${connector.id}.${action.name} returned an unexpected response`, 502, problems);
+  }
+  return { output, durationMs };
+}
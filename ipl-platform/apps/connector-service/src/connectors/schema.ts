@@ -0,0 +1,28 @@
+import { Ajv } from "ajv";
+import type { ValidateFunction } from "ajv";
+import { ConnectorError } from "./errors.js";
+import type { JsonSchema } from "./types.js";
+
+const ajv = new Ajv({ allErrors: true, strict: false });
+const compiled = new Map<string, ValidateFunction>();
+
+function compile(schema: JsonSchema): ValidateFunction {
+  const key = JSON.stringify(schema);
+  const cached = compiled.get(key);
+  if (cached) return cached;
+  let validate: ValidateFunction;
+  try {
+    validate = ajv.compile(schema);
+  } catch (e: any) {
+    throw new ConnectorError("INVALID_SCHEMA", `Invalid JSON schema: ${e.message}`, 500);
+  }
+  compiled.set(key, validate);
+  return validate;
+}
+
+export function schemaProblems(schema: JsonSchema | undefined, value: any, label: string): string[] {
+  if (!schema) return [];
+  const validate = compile(schema);
+  if (validate(value)) return [];
+  return (validate.errors || []).map(e => `${label}${e.instancePath.replace(/\//g, ".")} ${e.message}`);
+}
@@ -0,0 +1,75 @@
+// A JSON Schema (draft-07 / 2019-09 subset understood by ajv)
+export type JsonSchema = Record<string, any>;
+
+export interface RetryPolicy {
+  // Total attempts including the first one
+  maxAttempts: number;
+  initialDelayMs?: number;
+  multiplier?: number;
+  maxDelayMs?: number;
+}
+
+export interface CircuitBreakerPolicy {
+  // Consecutive downstream failures that open the circuit
+  failureThreshold?: number;
+  // How long an open circuit rejects calls before letting one trial call through
+  resetAfterMs?: number;
+}
+
+export interface ActionDefinition {
+  name: string;
+  description?: string;
+  // HTTP adapter: defaults to POST /<action name>; "{field}" placeholders in the path are filled from the input
+  method?: string;
+  path?: string;
+  timeoutMs?: number;
+  // Safe to repeat without an idempotency key (defaults to true for GET, HEAD, PUT and DELETE)
+  idempotent?: boolean;
+  // Rejects calls without an Idempotency-Key, for actions that move money or devices
+  requireIdempotencyKey?: boolean;
+  retry?: RetryPolicy;
+  input?: JsonSchema;
+  output?: JsonSchema;
+}
+
+export interface ConnectorDefinition {
+  id: string;
+  // Selects the adapter; "http" is built in
+  type: string;
+  description?: string;
+  baseUrl?: string;
+  headers?: Record<string, string>;
+  timeoutMs?: number;
+  retry?: RetryPolicy;
+  circuitBreaker?: CircuitBreakerPolicy;
+  actions: ActionDefinition[];
+}
+
+// Secrets are resolved per connector id at call time and never returned by the API
+export type Credentials =
+  | { type: "bearer"; token: string }
+  | { type: "basic"; username: string; password: string }
+  | { type: "apiKey"; value: string; header?: string }
+  | { type: "headers"; headers: Record<string, string> };
+
+export interface ActionContext {
+  connector: ConnectorDefinition;
+  action: ActionDefinition;
+  input: Record<string, any>;
+  credentials?: Credentials;
+  // Forwarded downstream so the target can deduplicate retries too
+  idempotencyKey?: string;
+}
+
+export interface ConnectorAdapter {
+  type: string;
+  invoke(ctx: ActionContext): Promise<any>;
+}
+
+export interface ActionResult {
+  output: any;
+  durationMs: number;
+  attempts?: number;
+  // True when the output was stored by an earlier request with the same idempotency key
+  replayed?: boolean;
+}
@@ -0,0 +1,54 @@
+import { pgTable, integer, timestamp, jsonb, varchar, uuid, index, uniqueIndex } from "drizzle-orm/pg-core";
+import type { ConnectorDefinition } from "../connectors/types.js";
+
+export type CallStatus = "in_progress" | "succeeded" | "failed";
+export type DeadLetterStatus = "pending" | "replaying" | "replayed" | "discarded";
+
+// One row per idempotency key; the stored outcome is returned to every later request with the same key
+export const connectorCalls = pgTable("connector_calls", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  connectorId: varchar("connector_id", { length: 100 }).notNull(),
+  action: varchar("action", { length: 100 }).notNull(),
+  idempotencyKey: varchar("idempotency_key", { length: 255 }).notNull(),
+  // sha256 of action + input, so a key cannot be reused for a different request
+  requestHash: varchar("request_hash", { length: 64 }).notNull(),
+  status: varchar("status", { length: 20 }).$type<CallStatus>().notNull(),
+  output: jsonb("output"),
+  error: jsonb("error"),
+  attempts: integer("attempts").notNull().default(0),
+  deadLetterId: uuid("dead_letter_id"),
+  // An in_progress row whose lease has run out belongs to a request that crashed; the next one with the key takes over
+  leaseExpiresAt: timestamp("lease_expires_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+  completedAt: timestamp("completed_at"),
+}, (t) => [
+  uniqueIndex("connector_calls_key_idx").on(t.connectorId, t.idempotencyKey),
+]);
+
+export type ConnectorCall = typeof connectorCalls.$inferSelect;
+
+// Calls that failed downstream after all retries; the connector is snapshotted so replay works after spec edits
+export const deadLetters = pgTable("dead_letters", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  connectorId: varchar("connector_id", { length: 100 }).notNull(),
+  action: varchar("action", { length: 100 }).notNull(),
+  connector: jsonb("connector").$type<ConnectorDefinition>().notNull(),
+  input: jsonb("input").$type<Record<string, any>>().notNull(),
+  idempotencyKey: varchar("idempotency_key", { length: 255 }),
+  status: varchar("status", { length: 20 }).$type<DeadLetterStatus>().notNull().default("pending"),
+  error: jsonb("error").notNull(),
+  attempts: integer("attempts").notNull().default(0),
+  replays: integer("replays").notNull().default(0),
+  output: jsonb("output"),
+  // Held while a replay runs, so concurrent replays call downstream once; expires if the replaying process dies
+  leaseExpiresAt: timestamp("lease_expires_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  lastAttemptAt: timestamp("last_attempt_at").defaultNow().notNull(),
+  resolvedAt: timestamp("resolved_at"),
+}, (t) => [
+  index("dead_letters_status_idx").on(t.status),
+  index("dead_letters_connector_idx").on(t.connectorId),
+]);
+
+export type DeadLetter = typeof deadLetters.$inferSelect;
@@ -1,4 +1,162 @@
+import "dotenv/config";
 import express from "express";
-const app = express(); app.use(express.json());
-app.get("/health",(_,res)=>res.json({ok:true,service:"connector-service"}));
-app.listen(7400,()=>console.log("Connector Service on :7400"));
+import cors from "cors";
+import { ConnectorError } from "./connectors/errors.js";
+import { hasAdapter } from "./connectors/adapters.js";
+import { resolveCredentials, setCredentials } from "./connectors/credentials.js";
+import { listCircuits } from "./connectors/circuitBreaker.js";
+import { discardDeadLetter, dispatch, replayDeadLetter } from "./calls/dispatcher.js";
+import { getDeadLetter, listDeadLetters } from "./calls/callStore.js";
+import { mergedSpecConnectors, resolveConnector } from "./spec/connectorSource.js";
+import type { ConnectorDefinition } from "./connectors/types.js";
+
+const app = express();
+app.use(cors());
+app.use(express.json({ limit: "2mb" }));
+
+function sendError(res: express.Response, e: any) {
+  if (e instanceof ConnectorError) {
+    return res.status(e.statusCode).json({ ok: false, code: e.code, error: e.message, details: e.details });
+  }
+  console.error("Connector service error:", e);
+  return res.status(500).json({ ok: false, error: e?.message || String(e) });
+}
+
+function connectorView(c: ConnectorDefinition, withSchemas = false) {
+  return {
+    id: c.id,
+    type: c.type,
+    description: c.description,
+    baseUrl: c.baseUrl,
+    adapterAvailable: hasAdapter(c.type),
+    hasCredentials: !!resolveCredentials(c.id),
+    actions: c.actions.map(a => ({
+      name: a.name,
+      description: a.description,
+      method: a.method,
+      path: a.path,
+      ...(withSchemas ? { input: a.input, output: a.output } : {}),
+    })),
+  };
+}
+
+app.get("/health", (_, res) => res.json({ ok: true, service: "connector-service" }));
+
+// Connectors from the spec's integrations (when given) plus every domain pack
+app.get("/connectors", (req, res) => {
+  try {
+    const domain = req.query.domain as string | undefined;
+    const connectors = mergedSpecConnectors(domain ? { app: { domain: [domain] } } : undefined);
+    res.json({ ok: true, connectors: connectors.map(c => connectorView(c)) });
+  } catch (e: any) {
+    sendError(res, e);
+  }
+});
+
+app.get("/connectors/:id", (req, res) => {
+  try {
+    res.json({ ok: true, connector: connectorView(resolveConnector(mergedSpecConnectors(), req.params.id), true) });
+  } catch (e: any) {
+    sendError(res, e);
+  }
+});
+
+// Body: { input, spec?, idempotencyKey? }; input and output are checked against the action's JSON schemas.
+// A repeated Idempotency-Key returns the first call's outcome without calling downstream again.
+app.post("/connectors/:id/actions/:action", async (req, res) => {
+  try {
+    const { input = {}, spec } = req.body || {};
+    if (typeof input !== "object" || Array.isArray(input) || input === null) {
+      return res.status(400).json({ ok: false, error: "input must be an object" });
+    }
+    const idempotencyKey = req.header("Idempotency-Key") || req.body?.idempotencyKey;
+    if (idempotencyKey !== undefined && (typeof idempotencyKey !== "string" || !idempotencyKey.trim() || idempotencyKey.length > 255)) {
+      return res.status(400).json({ ok: false, error: "Idempotency key must be a non-empty string of at most 255 characters" });
+    }
+    const connector = resolveConnector(mergedSpecConnectors(spec), req.params.id);
+    const result = await dispatch(connector, req.params.action, input, idempotencyKey);
+    if (result.replayed) res.setHeader("Idempotent-Replayed", "true");
+    res.json({ ok: true, connectorId: connector.id, action: req.params.action, ...result });
+  } catch (e: any) {
+    sendError(res, e);
+  }
+});
+
+// Runtime credentials (not persisted); disabled unless CONNECTOR_ADMIN_TOKEN is set
+app.put("/connectors/:id/credentials", (req, res) => {
+  const adminToken = process.env.CONNECTOR_ADMIN_TOKEN;
+  if (!adminToken) {
+    return res.status(403).json({ ok: false, error: "Credential registration is disabled; set CONNECTOR_ADMIN_TOKEN" });
+  }
+  if (req.headers.authorization !== `Bearer ${adminToken}`) {
+    return res.status(401).json({ ok: false, error: "Invalid admin token" });
+  }
+  try {
+    setCredentials(req.params.id, req.body?.credentials ?? null);
+    res.json({ ok: true, connectorId: req.params.id, hasCredentials: !!req.body?.credentials });
+  } catch (e: any) {
+    sendError(res, e);
+  }
+});
+
+app.get("/circuits", (_, res) => res.json({ ok: true, circuits: listCircuits() }));
+
+app.get("/dead-letters", async (req, res) => {
+  try {
+    const deadLetters = await listDeadLetters({
+      status: req.query.status as string | undefined,
+      connectorId: req.query.connectorId as string | undefined,
+      limit: req.query.limit ? Number(req.query.limit) : undefined,
+    });
+    res.json({ ok: true, deadLetters });
+  } catch (e: any) {
+    sendError(res, e);
+  }
+});
+
+app.get("/dead-letters/:id", async (req, res) => {
+  try {
+    res.json({ ok: true, deadLetter: await getDeadLetter(req.params.id) });
+  } catch (e: any) {
+    sendError(res, e);
+  }
+});
+
+// Body: { connectorId?, limit? }; replays pending entries oldest first and reports each outcome
+app.post("/dead-letters/replay", async (req, res) => {
+  try {
+    const { connectorId, limit = 50 } = req.body || {};
+    const pending = await listDeadLetters({ status: "pending", connectorId, limit });
+    const results = [];
+    for (const entry of pending.reverse()) {
+      try {
+        const result = await replayDeadLetter(entry.id);
+        results.push({ id: entry.id, ok: true, output: result.output, attempts: result.attempts });
+      } catch (e: any) {
+        results.push({ id: entry.id, ok: false, code: e?.code, error: e?.message || String(e) });
+      }
+    }
+    res.json({ ok: true, replayed: results.filter(r => r.ok).length, failed: results.filter(r => !r.ok).length, results });
+  } catch (e: any) {
+    sendError(res, e);
+  }
+});
+
+app.post("/dead-letters/:id/replay", async (req, res) => {
+  try {
+    const result = await replayDeadLetter(req.params.id);
+    res.json({ ok: true, deadLetter: await getDeadLetter(req.params.id), ...result });
+  } catch (e: any) {
+    sendError(res, e);
+  }
+});
+
+app.post("/dead-letters/:id/discard", async (req, res) => {
+  try {
+    res.json({ ok: true, deadLetter: await discardDeadLetter(req.params.id) });
+  } catch (e: any) {
+    sendError(res, e);
+  }
+});
+
+app.listen(7400, () => console.log("Connector Service on :7400"));
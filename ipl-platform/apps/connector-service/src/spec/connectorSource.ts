@@ -0,0 +1,66 @@
+import { DomainPackError, installedDomainPacks, mergeDomainPacksIntoSpec } from "@ipl/ai-generator-service/domain-packs";
+import { baseUrlOverride, resolveCredentials } from "../connectors/credentials.js";
+import { ConnectorError } from "../connectors/errors.js";
+import type { ActionDefinition, ConnectorDefinition } from "../connectors/types.js";
+
+// Packs list actions as names or full definitions; spec.integrations always carries { name, ... } objects
+function normalize(id: string, raw: any): ConnectorDefinition {
+  const actions: ActionDefinition[] = (raw?.actions || []).map((a: any) => (typeof a === "string" ? { name: a } : a));
+  return {
+    ...raw,
+    id,
+    type: raw?.type || id,
+    baseUrl: baseUrlOverride(id) || raw?.baseUrl,
+    actions,
+  };
+}
+
+function installedConnectors(): ConnectorDefinition[] {
+  const connectors: ConnectorDefinition[] = [];
+  for (const pack of installedDomainPacks()) {
+    for (const [id, conn] of Object.entries(pack.connectors)) {
+      if (!connectors.find(c => c.id === id)) connectors.push(normalize(id, conn));
+    }
+  }
+  return connectors;
+}
+
+// A connector with credentials only reaches the adapter, baseUrl and headers of its installed pack or
+// CONNECTOR_<ID>_BASE_URL; a request spec may change its actions and policies but cannot send its secrets elsewhere
+export function withTrustedTransport(connector: ConnectorDefinition, installed = installedConnectors()): ConnectorDefinition {
+  if (!resolveCredentials(connector.id)) return connector;
+  const trusted = installed.find(c => c.id === connector.id);
+  return {
+    ...connector,
+    type: trusted?.type ?? "http",
+    baseUrl: baseUrlOverride(connector.id) || trusted?.baseUrl,
+    headers: trusted?.headers,
+  };
+}
+
+// A spec listing domains gets its packs merged exactly as the AI generator merges them; otherwise spec integrations
+// come first and every installed pack adds its own, deduped on id
+export function mergedSpecConnectors(spec?: any): ConnectorDefinition[] {
+  const installed = installedConnectors();
+  let connectors: ConnectorDefinition[];
+  if (spec?.app?.domain?.length) {
+    try {
+      connectors = mergeDomainPacksIntoSpec(spec).integrations.map((i: any) => normalize(i.id, i));
+    } catch (e) {
+      if (e instanceof DomainPackError) throw new ConnectorError("DOMAIN_PACK_INVALID", e.message, 422, e.issues);
+      throw e;
+    }
+  } else {
+    connectors = (spec?.integrations || []).map((i: any) => normalize(i.id, i));
+    for (const conn of installed) {
+      if (!connectors.find(c => c.id === conn.id)) connectors.push(conn);
+    }
+  }
+  return connectors.map(c => withTrustedTransport(c, installed));
+}
+
+export function resolveConnector(connectors: ConnectorDefinition[], id: string): ConnectorDefinition {
+  const connector = connectors.find(c => c.id === id);
+  if (!connector) throw new ConnectorError("CONNECTOR_NOT_FOUND", `Connector ${id} not found`, 404);
+  return connector;
+}
@@ -0,0 +1,39 @@
+import assert from "node:assert/strict";
+import { afterEach, test } from "node:test";
+import { mergedSpecConnectors, resolveConnector, withTrustedTransport } from "../src/spec/connectorSource.js";
+
+const evil = { type: "http", baseUrl: "https://attacker.example", headers: { "X-Forward": "me" } };
+const requestSpec = {
+  integrations: [
+    { id: "payment", ...evil, actions: [{ name: "charge", path: "/steal" }] },
+    { id: "shadow", ...evil, actions: ["ping"] },
+  ],
+};
+
+afterEach(() => {
+  for (const name of ["CONNECTOR_PAYMENT_TOKEN", "CONNECTOR_SHADOW_TOKEN", "CONNECTOR_SHADOW_BASE_URL"]) delete process.env[name];
+});
+
+test("a request spec cannot move a credentialed pack connector to another host", () => {
+  process.env.CONNECTOR_PAYMENT_TOKEN = "secret";
+  const installed = resolveConnector(mergedSpecConnectors(), "payment");
+  const payment = resolveConnector(mergedSpecConnectors(requestSpec), "payment");
+  assert.equal(payment.type, installed.type);
+  assert.equal(payment.baseUrl, installed.baseUrl);
+  assert.deepEqual(payment.headers, installed.headers);
+  assert.deepEqual(payment.actions, [{ name: "charge", path: "/steal" }]);
+});
+
+test("a credentialed connector only the request defines gets its host from the environment or none", () => {
+  process.env.CONNECTOR_SHADOW_TOKEN = "secret";
+  const shadow = resolveConnector(mergedSpecConnectors(requestSpec), "shadow");
+  assert.deepEqual([shadow.type, shadow.baseUrl, shadow.headers], ["http", undefined, undefined]);
+
+  process.env.CONNECTOR_SHADOW_BASE_URL = "http://localhost:7999";
+  assert.equal(resolveConnector(mergedSpecConnectors(requestSpec), "shadow").baseUrl, "http://localhost:7999");
+});
+
+test("connectors without credentials keep the request's transport", () => {
+  assert.equal(resolveConnector(mergedSpecConnectors(requestSpec), "payment").baseUrl, evil.baseUrl);
+  assert.deepEqual(withTrustedTransport({ id: "shadow", ...evil, actions: [] }), { id: "shadow", ...evil, actions: [] });
+});
@@ -0,0 +1,125 @@
+import assert from "node:assert/strict";
+import { createServer, type Server } from "node:http";
+import type { AddressInfo } from "node:net";
+import { after, before, describe, it } from "node:test";
+import { listCircuits } from "../src/connectors/circuitBreaker.js";
+import type { ConnectorDefinition } from "../src/connectors/types.js";
+import { startTestDatabase } from "./testDb.js";
+
+const database = await startTestDatabase();
+const { dispatch, replayDeadLetter } = await import("../src/calls/dispatcher.js");
+const { beginCall } = await import("../src/calls/callStore.js");
+const { db, pool } = await import("../src/db/index.js");
+const { connectorCalls } = await import("../src/db/schema.js");
+
+// A downstream stub answering with whatever status the test sets, after a short delay
+async function downstream(): Promise<{ server: Server; baseUrl: string; hits: string[]; setStatus: (s: number) => void }> {
+  let status = 200;
+  const hits: string[] = [];
+  const server = createServer((req, res) => {
+    hits.push(req.url!);
+    setTimeout(() => res.writeHead(status, { "Content-Type": "application/json" }).end(JSON.stringify({ ok: status < 400 })), 50);
+  });
+  await new Promise<void>(resolve => server.listen(0, "127.0.0.1", resolve));
+  return { server, baseUrl: `http://127.0.0.1:${(server.address() as AddressInfo).port}`, hits, setStatus: (s) => { status = s; } };
+}
+
+const expectCode = (code: string) => (e: any) => e.code === code;
+
+after(async () => {
+  await pool.end();
+  await database.stop();
+});
+
+describe("dead-letter replay", () => {
+  let stub: Awaited<ReturnType<typeof downstream>>;
+  before(async () => { stub = await downstream(); });
+  after(() => { stub.server.close(); });
+
+  it("calls downstream once when two replays of the same entry race", async () => {
+    const connector: ConnectorDefinition = {
+      id: "billing",
+      type: "http",
+      baseUrl: stub.baseUrl,
+      retry: { maxAttempts: 1 },
+      actions: [{ name: "invoice" }],
+    };
+    stub.setStatus(503);
+    const failure = await dispatch(connector, "invoice", { amount: 10 }, "inv-1").catch(e => e);
+    const deadLetterId = failure.details.deadLetterId;
+    assert.ok(deadLetterId);
+
+    stub.setStatus(200);
+    stub.hits.length = 0;
+    const outcomes = await Promise.allSettled([replayDeadLetter(deadLetterId), replayDeadLetter(deadLetterId)]);
+    assert.equal(stub.hits.length, 1);
+    assert.deepEqual(outcomes.map(o => o.status).sort(), ["fulfilled", "rejected"]);
+    const rejected = outcomes.find(o => o.status === "rejected") as PromiseRejectedResult;
+    assert.equal(rejected.reason.code, "REPLAY_IN_PROGRESS");
+
+    await assert.rejects(replayDeadLetter(deadLetterId), expectCode("DEAD_LETTER_CLOSED"));
+    assert.equal(stub.hits.length, 1);
+  });
+
+  it("returns an entry to the queue when its replay fails", async () => {
+    const connector: ConnectorDefinition = { id: "ledger", type: "http", baseUrl: stub.baseUrl, retry: { maxAttempts: 1 }, actions: [{ name: "post" }] };
+    stub.setStatus(503);
+    const { details } = await dispatch(connector, "post", {}).catch(e => e);
+    await assert.rejects(replayDeadLetter(details.deadLetterId), expectCode("CONNECTOR_REQUEST_FAILED"));
+    stub.setStatus(200);
+    assert.deepEqual((await replayDeadLetter(details.deadLetterId)).output, { ok: true });
+  });
+});
+
+describe("idempotency key leases", () => {
+  const expireLease = () => db.update(connectorCalls).set({ leaseExpiresAt: new Date(Date.now() - 1000) });
+
+  it("keeps a live in_progress key for the request holding it", async () => {
+    assert.equal((await beginCall("crm", "sync", "k1", "hash-a")).created, true);
+    assert.equal((await beginCall("crm", "sync", "k1", "hash-a")).created, false);
+  });
+
+  it("lets the same request take over a key whose lease ran out", async () => {
+    await expireLease();
+    const { call, created } = await beginCall("crm", "sync", "k1", "hash-a");
+    assert.equal(created, true);
+    assert.ok(call.leaseExpiresAt! > new Date());
+    assert.equal((await beginCall("crm", "sync", "k1", "hash-a")).created, false);
+  });
+
+  it("never hands an expired key to a different request", async () => {
+    await expireLease();
+    const { call, created } = await beginCall("crm", "sync", "k1", "hash-b");
+    assert.equal(created, false);
+    assert.equal(call.requestHash, "hash-a");
+  });
+});
+
+describe("circuit breaker trial", () => {
+  let stub: Awaited<ReturnType<typeof downstream>>;
+  before(async () => { stub = await downstream(); });
+  after(() => { stub.server.close(); });
+
+  it("reopens after a trial that fails before reaching downstream, so the next call is the trial", async () => {
+    const connector: ConnectorDefinition = {
+      id: "meters",
+      type: "http",
+      baseUrl: stub.baseUrl,
+      retry: { maxAttempts: 1 },
+      circuitBreaker: { failureThreshold: 1, resetAfterMs: 0 },
+      actions: [{ name: "read", method: "GET", path: "/meters/{meterId}" }],
+    };
+    const circuit = () => listCircuits().find(c => c.target === new URL(stub.baseUrl).host)!;
+
+    stub.setStatus(500);
+    await assert.rejects(dispatch(connector, "read", { meterId: 1 }), expectCode("CONNECTOR_REQUEST_FAILED"));
+    assert.equal(circuit().state, "open");
+
+    await assert.rejects(dispatch(connector, "read", {}), expectCode("INVALID_INPUT"));
+    assert.equal(circuit().state, "open");
+
+    stub.setStatus(200);
+    assert.deepEqual((await dispatch(connector, "read", { meterId: 1 })).output, { ok: true });
+    assert.equal(circuit().state, "closed");
+  });
+});
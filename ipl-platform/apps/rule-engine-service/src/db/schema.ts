@@ -0,0 +1,46 @@
+import { pgTable, serial, integer, text, timestamp, jsonb, varchar, uniqueIndex } from "drizzle-orm/pg-core";
+import type { RuleTestVector } from "../rules/types.js";
+
+// Published rule versions are immutable: rows are only ever inserted
+export const ruleVersions = pgTable("rule_versions", {
+  id: serial("id").primaryKey(),
+  ruleId: varchar("rule_id", { length: 100 }).notNull(),
+  version: integer("version").notNull(),
+  dsl: varchar("dsl", { length: 50 }).notNull(),
+  body: jsonb("body").notNull(),
+  tests: jsonb("tests").$type<RuleTestVector[]>().default([]),
+  description: text("description"),
+  publishedBy: varchar("published_by", { length: 100 }),
+  publishedAt: timestamp("published_at").defaultNow().notNull(),
+}, (t) => [
+  uniqueIndex("rule_versions_rule_version_idx").on(t.ruleId, t.version),
+]);
+
+export type RuleVersion = typeof ruleVersions.$inferSelect;
+export type InsertRuleVersion = typeof ruleVersions.$inferInsert;
+
+// Movable pointers such as "current" and "canary" to a published version
+export const ruleAliases = pgTable("rule_aliases", {
+  id: serial("id").primaryKey(),
+  ruleId: varchar("rule_id", { length: 100 }).notNull(),
+  alias: varchar("alias", { length: 50 }).notNull(),
+  version: integer("version").notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+}, (t) => [
+  uniqueIndex("rule_aliases_rule_alias_idx").on(t.ruleId, t.alias),
+]);
+
+export type RuleAlias = typeof ruleAliases.$inferSelect;
+
+export const ruleAliasAudit = pgTable("rule_alias_audit", {
+  id: serial("id").primaryKey(),
+  ruleId: varchar("rule_id", { length: 100 }).notNull(),
+  alias: varchar("alias", { length: 50 }).notNull(),
+  fromVersion: integer("from_version"),
+  toVersion: integer("to_version").notNull(),
+  actor: varchar("actor", { length: 100 }),
+  reason: text("reason"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export type RuleAliasAuditEntry = typeof ruleAliasAudit.$inferSelect;
@@ -0,0 +1,36 @@
+export interface DiffEntry {
+  path: string;
+  op: "added" | "removed" | "changed";
+  from?: any;
+  to?: any;
+}
+
+function isPlainObject(v: any): v is Record<string, any> {
+  return v !== null && typeof v === "object" && !Array.isArray(v);
+}
+
+export function diffJson(a: any, b: any, path = "$"): DiffEntry[] {
+  if (Array.isArray(a) && Array.isArray(b)) {
+    const changes: DiffEntry[] = [];
+    for (let i = 0; i < Math.max(a.length, b.length); i++) {
+      const p = `${path}[${i}]`;
+      if (i >= a.length) changes.push({ path: p, op: "added", to: b[i] });
+      else if (i >= b.length) changes.push({ path: p, op: "removed", from: a[i] });
+      else changes.push(...diffJson(a[i], b[i], p));
+    }
+    return changes;
+  }
+
+  if (isPlainObject(a) && isPlainObject(b)) {
+    const changes: DiffEntry[] = [];
+    for (const key of new Set([...Object.keys(a), ...Object.keys(b)])) {
+      const p = `${path}.${key}`;
+      if (!(key in a)) changes.push({ path: p, op: "added", to: b[key] });
+      else if (!(key in b)) changes.push({ path: p, op: "removed", from: a[key] });
+      else changes.push(...diffJson(a[key], b[key], p));
+    }
+    return changes;
+  }
+
+  return JSON.stringify(a) === JSON.stringify(b) ? [] : [{ path, op: "changed", from: a, to: b }];
+}
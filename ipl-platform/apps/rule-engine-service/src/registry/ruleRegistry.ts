@@ -0,0 +1,225 @@
+import { and, asc, desc, eq } from "drizzle-orm";
+import { db } from "../db/index.js";
+import { ruleAliasAudit, ruleAliases, ruleVersions, type RuleVersion } from "../db/schema.js";
+import { RuleError } from "../rules/errors.js";
+import { normalizeRuleBody, validateRule } from "../rules/evaluate.js";
+import { runRuleTests, type RuleTestReport } from "../rules/testRunner.js";
+import type { RuleContext, RuleDefinition, RuleTestVector } from "../rules/types.js";
+import { mergedSpecRules, resolveRule } from "../spec/ruleSource.js";
+import { diffJson, type DiffEntry } from "./diff.js";
+
+const RULE_ID_PATTERN = /^[a-z][a-z0-9_]*$/;
+const ALIAS_PATTERN = /^[a-z][a-z0-9_-]*$/;
+
+export interface PublishRuleInput {
+  ruleId: string;
+  version?: number;
+  dsl: string;
+  body: any;
+  tests?: RuleTestVector[];
+  description?: string;
+  alias?: string;
+  publishedBy?: string;
+}
+
+export interface RuleSummary {
+  ruleId: string;
+  dsl: string;
+  versions: number[];
+  latestVersion: number;
+  aliases: Record<string, number>;
+}
+
+type Tx = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+function toDefinition(row: RuleVersion, alias?: string): RuleDefinition {
+  return {
+    ruleId: row.ruleId,
+    version: row.version,
+    dsl: row.dsl,
+    body: row.body,
+    tests: row.tests || [],
+    alias: alias ? `${row.ruleId}.${alias}` : undefined,
+  };
+}
+
+// Accepts both "current" and the domain-pack form "underwriting_score.current"
+function normalizeAlias(ruleId: string, alias: string): string {
+  const short = alias.startsWith(`${ruleId}.`) ? alias.slice(ruleId.length + 1) : alias;
+  if (!ALIAS_PATTERN.test(short)) throw new RuleError("INVALID_ALIAS", `Invalid alias "${alias}"`);
+  return short;
+}
+
+async function findVersion(ruleId: string, version: number, tx: Tx | typeof db = db): Promise<RuleVersion | undefined> {
+  const [row] = await tx.select().from(ruleVersions)
+    .where(and(eq(ruleVersions.ruleId, ruleId), eq(ruleVersions.version, version)))
+    .limit(1);
+  return row;
+}
+
+async function pointAlias(tx: Tx, ruleId: string, alias: string, version: number, actor?: string, reason?: string) {
+  const [existing] = await tx.select().from(ruleAliases)
+    .where(and(eq(ruleAliases.ruleId, ruleId), eq(ruleAliases.alias, alias)))
+    .limit(1);
+  if (existing?.version === version) return { changed: false, fromVersion: version };
+
+  await tx.insert(ruleAliases)
+    .values({ ruleId, alias, version })
+    .onConflictDoUpdate({
+      target: [ruleAliases.ruleId, ruleAliases.alias],
+      set: { version, updatedAt: new Date() },
+    });
+  await tx.insert(ruleAliasAudit).values({
+    ruleId,
+    alias,
+    fromVersion: existing?.version ?? null,
+    toVersion: version,
+    actor: actor || null,
+    reason: reason || null,
+  });
+  return { changed: true, fromVersion: existing?.version ?? null };
+}
+
+// Embedded test vectors must pass before a version is stored
+export async function publishRule(input: PublishRuleInput, ctx: RuleContext = {}): Promise<{ rule: RuleDefinition; testReport: RuleTestReport }> {
+  if (!RULE_ID_PATTERN.test(input.ruleId || "")) {
+    throw new RuleError("INVALID_RULE_ID", `Invalid ruleId "${input.ruleId}"`);
+  }
+  const problems = validateRule(input, ctx);
+  if (problems.length) {
+    throw new RuleError("INVALID_RULE_BODY", `Rule ${input.ruleId} failed validation`, 422, problems);
+  }
+  const alias = input.alias ? normalizeAlias(input.ruleId, input.alias) : undefined;
+
+  const body = normalizeRuleBody(input, ctx);
+  const testReport = runRuleTests({ ...input, body, version: input.version ?? 0, tests: input.tests || [] }, ctx);
+  if (testReport.status === "failed") {
+    throw new RuleError("RULE_TESTS_FAILED", `Rule ${input.ruleId}: ${testReport.failed} of ${testReport.total} test vectors failed`, 422, testReport);
+  }
+
+  try {
+    return await db.transaction(async (tx) => {
+      const [latest] = await tx.select({ version: ruleVersions.version }).from(ruleVersions)
+        .where(eq(ruleVersions.ruleId, input.ruleId))
+        .orderBy(desc(ruleVersions.version))
+        .limit(1);
+      const version = input.version ?? (latest?.version ?? 0) + 1;
+
+      if (await findVersion(input.ruleId, version, tx)) {
+        throw new RuleError("VERSION_EXISTS", `Rule ${input.ruleId} v${version} is already published; versions are immutable`, 409);
+      }
+
+      const [row] = await tx.insert(ruleVersions).values({
+        ruleId: input.ruleId,
+        version,
+        dsl: input.dsl,
+        body,
+        tests: input.tests || [],
+        description: input.description || null,
+        publishedBy: input.publishedBy || null,
+      }).returning();
+
+      if (alias) await pointAlias(tx, input.ruleId, alias, version, input.publishedBy, `published v${version}`);
+      return { rule: toDefinition(row, alias), testReport: { ...testReport, version } };
+    });
+  } catch (e: any) {
+    // Concurrent publish of the same version loses on the unique index
+    if (e?.code === "23505") {
+      throw new RuleError("VERSION_EXISTS", `Rule ${input.ruleId} was published concurrently; versions are immutable`, 409);
+    }
+    throw e;
+  }
+}
+
+export async function moveAlias(ruleId: string, aliasName: string, version: number, actor?: string, reason?: string) {
+  const alias = normalizeAlias(ruleId, aliasName);
+  if (!(await findVersion(ruleId, version))) {
+    throw new RuleError("RULE_NOT_FOUND", `Rule ${ruleId} has no version ${version}`, 404);
+  }
+  const result = await db.transaction((tx) => pointAlias(tx, ruleId, alias, version, actor, reason));
+  return { ruleId, alias, version, ...result };
+}
+
+export async function listRules(): Promise<RuleSummary[]> {
+  const rows = await db.select({
+    ruleId: ruleVersions.ruleId,
+    version: ruleVersions.version,
+    dsl: ruleVersions.dsl,
+  }).from(ruleVersions).orderBy(asc(ruleVersions.ruleId), asc(ruleVersions.version));
+  const aliases = await db.select().from(ruleAliases);
+
+  const summaries = new Map<string, RuleSummary>();
+  for (const row of rows) {
+    const s = summaries.get(row.ruleId) || { ruleId: row.ruleId, dsl: row.dsl, versions: [], latestVersion: 0, aliases: {} };
+    s.versions.push(row.version);
+    s.latestVersion = row.version;
+    s.dsl = row.dsl;
+    summaries.set(row.ruleId, s);
+  }
+  for (const a of aliases) {
+    const s = summaries.get(a.ruleId);
+    if (s) s.aliases[a.alias] = a.version;
+  }
+  return [...summaries.values()];
+}
+
+export async function listVersions(ruleId: string): Promise<RuleVersion[]> {
+  return db.select().from(ruleVersions)
+    .where(eq(ruleVersions.ruleId, ruleId))
+    .orderBy(asc(ruleVersions.version));
+}
+
+export async function getRuleVersion(ruleId: string, version: number): Promise<RuleDefinition> {
+  const row = await findVersion(ruleId, version);
+  if (!row) throw new RuleError("RULE_NOT_FOUND", `Rule ${ruleId} has no version ${version}`, 404);
+  return toDefinition(row);
+}
+
+export async function getAliasAudit(ruleId: string) {
+  return db.select().from(ruleAliasAudit)
+    .where(eq(ruleAliasAudit.ruleId, ruleId))
+    .orderBy(desc(ruleAliasAudit.createdAt));
+}
+
+export async function diffRuleVersions(ruleId: string, fromVersion: number, toVersion: number) {
+  const [from, to] = await Promise.all([getRuleVersion(ruleId, fromVersion), getRuleVersion(ruleId, toVersion)]);
+  const changes: DiffEntry[] = [
+    ...diffJson(from.dsl, to.dsl, "$.dsl"),
+    ...diffJson(from.body, to.body, "$.body"),
+    ...diffJson(from.tests || [], to.tests || [], "$.tests"),
+  ];
+  return { ruleId, from: fromVersion, to: toVersion, identical: changes.length === 0, changes };
+}
+
+// Resolves "ruleId", "ruleId.alias" or an explicit version; null when the registry has no such rule
+export async function resolveRegistryRule(ruleRef: string, version?: number): Promise<RuleDefinition | null> {
+  const dot = ruleRef.lastIndexOf(".");
+  const ruleId = dot === -1 ? ruleRef : ruleRef.slice(0, dot);
+  const alias = dot === -1 ? "current" : ruleRef.slice(dot + 1);
+
+  if (version !== undefined) {
+    const row = await findVersion(ruleId, version);
+    return row ? toDefinition(row) : null;
+  }
+
+  const [pointer] = await db.select().from(ruleAliases)
+    .where(and(eq(ruleAliases.ruleId, ruleId), eq(ruleAliases.alias, alias)))
+    .limit(1);
+  if (pointer) {
+    const row = await findVersion(ruleId, pointer.version);
+    return row ? toDefinition(row, alias) : null;
+  }
+  if (dot !== -1) return null;
+
+  const [latest] = await db.select().from(ruleVersions)
+    .where(eq(ruleVersions.ruleId, ruleId))
+    .orderBy(desc(ruleVersions.version))
+    .limit(1);
+  return latest ? toDefinition(latest) : null;
+}
+
+// An inline spec wins, otherwise the registry, otherwise the domain packs
+export async function loadRule(ruleRef: string, version?: number, spec?: any): Promise<RuleDefinition> {
+  if (spec) return resolveRule(mergedSpecRules(spec), ruleRef, version);
+  return (await resolveRegistryRule(ruleRef, version)) ?? resolveRule(mergedSpecRules(), ruleRef, version);
+}
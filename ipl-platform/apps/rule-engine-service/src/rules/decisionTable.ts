@@ -0,0 +1,195 @@
+import { RuleError } from "./errors.js";
+import { coerceValue, formatOutput } from "./values.js";
+import type {
+  ColumnType,
+  Condition,
+  DecisionTableBody,
+  EvaluationResult,
+  HitPolicy,
+  InputColumn,
+  OutputColumn,
+  RowMatch,
+  RowTrace,
+  RuleDefinition,
+} from "./types.js";
+
+export const COLUMN_TYPES = new Set<ColumnType>(["uuid", "text", "number", "date", "datetime", "boolean", "json", "reference"]);
+const HIT_POLICIES = new Set<HitPolicy>(["first", "unique", "collect", "priority"]);
+const COMPARISON_OPS = ["gt", "gte", "lt", "lte"];
+const RANGE_PATTERN = /^([\[\(\]])\s*(.*?)\s*\.\.\s*(.*?)\s*([\]\)\[])$/;
+
+function isAny(cond: Condition | undefined): boolean {
+  return cond === undefined || cond === null || cond === "-";
+}
+
+function matchRange(range: string, value: any, col: InputColumn): boolean {
+  const m = range.match(RANGE_PATTERN);
+  if (!m) throw new RuleError("INVALID_CONDITION", `${col.name}: malformed range "${range}"`);
+  const [, open, lowRaw, highRaw, close] = m;
+  const low = lowRaw === "" ? null : coerceValue(lowRaw, col.type, col.name);
+  const high = highRaw === "" ? null : coerceValue(highRaw, col.type, col.name);
+  const lowOk = low === null || (open === "[" ? value >= low : value > low);
+  const highOk = high === null || (close === "]" ? value <= high : value < high);
+  return lowOk && highOk;
+}
+
+function matchCondition(cond: Condition | undefined, value: any, col: InputColumn): boolean {
+  if (isAny(cond)) return true;
+  if (value === null) return false;
+
+  if (typeof cond !== "object") {
+    return value === coerceValue(cond, col.type, col.name);
+  }
+
+  const c = cond as Record<string, any>;
+  if ("in" in c) {
+    if (!Array.isArray(c.in)) throw new RuleError("INVALID_CONDITION", `${col.name}: "in" must be a list`);
+    return c.in.some((v: any) => coerceValue(v, col.type, col.name) === value);
+  }
+  if ("notIn" in c) {
+    if (!Array.isArray(c.notIn)) throw new RuleError("INVALID_CONDITION", `${col.name}: "notIn" must be a list`);
+    return !c.notIn.some((v: any) => coerceValue(v, col.type, col.name) === value);
+  }
+  if ("range" in c) {
+    return matchRange(String(c.range), value, col);
+  }
+
+  const ops = Object.keys(c);
+  if (!ops.length || ops.some(op => !COMPARISON_OPS.includes(op))) {
+    throw new RuleError("INVALID_CONDITION", `${col.name}: unsupported condition ${JSON.stringify(cond)}`);
+  }
+  return ops.every(op => {
+    const bound = coerceValue(c[op], col.type, col.name);
+    if (op === "gt") return value > bound;
+    if (op === "gte") return value >= bound;
+    if (op === "lt") return value < bound;
+    return value <= bound;
+  });
+}
+
+export function validateDecisionTable(body: any): string[] {
+  const problems: string[] = [];
+  if (!body || typeof body !== "object") return ["body must be an object"];
+
+  const hitPolicy = body.hitPolicy ?? "first";
+  if (!HIT_POLICIES.has(hitPolicy)) problems.push(`unknown hitPolicy "${hitPolicy}"`);
+
+  const inputs: InputColumn[] = Array.isArray(body.inputs) ? body.inputs : [];
+  const outputs: OutputColumn[] = Array.isArray(body.outputs) ? body.outputs : [];
+  if (!Array.isArray(body.inputs)) problems.push("inputs must be an array");
+  if (!outputs.length) problems.push("outputs must be a non-empty array");
+  if (!Array.isArray(body.rules)) problems.push("rules must be an array");
+
+  for (const col of [...inputs, ...outputs]) {
+    if (!col?.name) problems.push("every column needs a name");
+    else if (!COLUMN_TYPES.has(col.type)) problems.push(`${col.name}: unknown type "${col.type}"`);
+  }
+
+  if (hitPolicy === "priority" && !outputs.some(o => Array.isArray(o.priority) && o.priority.length)) {
+    problems.push("priority hit policy requires at least one output with a priority list");
+  }
+
+  const inputNames = new Set(inputs.map(i => i.name));
+  const outputNames = new Set(outputs.map(o => o.name));
+  (Array.isArray(body.rules) ? body.rules : []).forEach((row: any, i: number) => {
+    for (const key of Object.keys(row?.when || {})) {
+      if (!inputNames.has(key)) problems.push(`rules[${i}].when: unknown input "${key}"`);
+    }
+    for (const key of Object.keys(row?.then || {})) {
+      if (!outputNames.has(key)) problems.push(`rules[${i}].then: unknown output "${key}"`);
+    }
+  });
+  for (const key of Object.keys(body.default || {})) {
+    if (!outputNames.has(key)) problems.push(`default: unknown output "${key}"`);
+  }
+
+  return problems;
+}
+
+function buildOutput(values: Record<string, any>, outputs: OutputColumn[]): Record<string, any> {
+  const out: Record<string, any> = {};
+  for (const col of outputs) {
+    out[col.name] = formatOutput(values[col.name] ?? null, col);
+  }
+  return out;
+}
+
+function priorityRank(match: RowMatch, outputs: OutputColumn[]): number[] {
+  return outputs
+    .filter(o => Array.isArray(o.priority) && o.priority.length)
+    .map(o => {
+      const idx = o.priority!.indexOf(match.output[o.name]);
+      return idx === -1 ? o.priority!.length : idx;
+    });
+}
+
+function selectByPriority(matches: RowMatch[], outputs: OutputColumn[]): RowMatch {
+  let best = matches[0];
+  let bestRank = priorityRank(best, outputs);
+  for (const m of matches.slice(1)) {
+    const rank = priorityRank(m, outputs);
+    const better = rank.findIndex((r, i) => r !== bestRank[i]);
+    if (better !== -1 && rank[better] < bestRank[better]) {
+      best = m;
+      bestRank = rank;
+    }
+  }
+  return best;
+}
+
+export function evaluateDecisionTable(rule: RuleDefinition, rawInput: Record<string, any>): EvaluationResult {
+  const problems = validateDecisionTable(rule.body);
+  if (problems.length) {
+    throw new RuleError("INVALID_RULE_BODY", `Rule ${rule.ruleId} v${rule.version} has an invalid decision table`, 422, problems);
+  }
+
+  const body = rule.body as DecisionTableBody;
+  const hitPolicy: HitPolicy = body.hitPolicy ?? "first";
+
+  const input: Record<string, any> = {};
+  for (const col of body.inputs) {
+    const raw = rawInput?.[col.name];
+    if ((raw === undefined || raw === null) && col.required) {
+      throw new RuleError("MISSING_INPUT", `Missing required input "${col.name}"`);
+    }
+    input[col.name] = coerceValue(raw, col.type, col.name);
+  }
+
+  const columns = new Map(body.inputs.map(c => [c.name, c]));
+  const trace: RowTrace[] = [];
+  const matches: RowMatch[] = [];
+
+  for (let i = 0; i < body.rules.length; i++) {
+    const row = body.rules[i];
+    const conditions = Object.entries(row.when || {}).map(([name, condition]) => ({
+      input: name,
+      condition,
+      value: rawInput?.[name] ?? null,
+      result: matchCondition(condition, input[name], columns.get(name)!),
+    }));
+    const matched = conditions.every(c => c.result);
+    trace.push({ row: i, description: row.description, matched, conditions });
+
+    if (matched) {
+      matches.push({ row: i, description: row.description, output: buildOutput(row.then, body.outputs) });
+      if (hitPolicy === "first") break;
+    }
+  }
+
+  if (hitPolicy === "unique" && matches.length > 1) {
+    throw new RuleError("UNIQUE_VIOLATION", `Unique hit policy violated: rows ${matches.map(m => m.row).join(", ")} all matched`, 422, { trace });
+  }
+
+  let output: EvaluationResult["output"] = null;
+  let usedDefault = false;
+  if (matches.length) {
+    if (hitPolicy === "collect") output = matches.map(m => m.output);
+    else if (hitPolicy === "priority") output = selectByPriority(matches, body.outputs).output;
+    else output = matches[0].output;
+  } else if (body.default) {
+    usedDefault = true;
+    output = hitPolicy === "collect" ? [buildOutput(body.default, body.outputs)] : buildOutput(body.default, body.outputs);
+  }
+
+  return { ruleId: rule.ruleId, version: rule.version, dsl: rule.dsl, hitPolicy, output, matches, usedDefault, trace };
+}
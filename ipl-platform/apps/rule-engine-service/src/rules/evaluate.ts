@@ -0,0 +1,33 @@
+import { RuleError } from "./errors.js";
+import { evaluateDecisionTable, validateDecisionTable } from "./decisionTable.js";
+import { evaluateExpressionRule, resolveExpressionBody, validateExpressionRule } from "./expressionRule.js";
+import type { EvaluationResult, RuleContext, RuleDefinition } from "./types.js";
+
+export const SUPPORTED_DSLS = ["decision-table", "expression"];
+
+export function validateRule(rule: Pick<RuleDefinition, "dsl" | "body">, ctx: RuleContext = {}): string[] {
+  switch (rule.dsl) {
+    case "decision-table":
+      return validateDecisionTable(rule.body);
+    case "expression":
+      return validateExpressionRule(rule.body, ctx);
+    default:
+      return [`unsupported dsl "${rule.dsl}"`];
+  }
+}
+
+// Body as it should be stored on publish
+export function normalizeRuleBody(rule: Pick<RuleDefinition, "dsl" | "body">, ctx: RuleContext = {}): any {
+  return rule.dsl === "expression" ? resolveExpressionBody(rule.body, ctx) : rule.body;
+}
+
+export function evaluateRule(rule: RuleDefinition, input: Record<string, any>, ctx: RuleContext = {}): EvaluationResult {
+  switch (rule.dsl) {
+    case "decision-table":
+      return evaluateDecisionTable(rule, input);
+    case "expression":
+      return evaluateExpressionRule(rule, input, ctx);
+    default:
+      throw new RuleError("UNSUPPORTED_DSL", `Rule ${rule.ruleId} uses unsupported dsl "${rule.dsl}"`, 422);
+  }
+}
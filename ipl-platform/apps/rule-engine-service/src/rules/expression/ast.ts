@@ -0,0 +1,72 @@
+export type ScalarKind = "number" | "text" | "boolean" | "date" | "datetime" | "reference" | "json" | "null";
+
+export type ExprType = { kind: ScalarKind } | { kind: "list"; of: ExprType };
+
+export type ExprNode =
+  | { kind: "literal"; pos: number; value: any; type: ExprType }
+  | { kind: "ident"; pos: number; name: string }
+  | { kind: "list"; pos: number; items: ExprNode[] }
+  | { kind: "unary"; pos: number; op: "-" | "not"; arg: ExprNode }
+  | { kind: "binary"; pos: number; op: BinaryOp; left: ExprNode; right: ExprNode }
+  | { kind: "cond"; pos: number; test: ExprNode; then: ExprNode; else: ExprNode }
+  | { kind: "call"; pos: number; name: string; args: ExprNode[] };
+
+export type BinaryOp = "+" | "-" | "*" | "/" | "%" | "<" | "<=" | ">" | ">=" | "==" | "!=" | "and" | "or";
+
+export const T = {
+  number: { kind: "number" } as ExprType,
+  text: { kind: "text" } as ExprType,
+  boolean: { kind: "boolean" } as ExprType,
+  date: { kind: "date" } as ExprType,
+  datetime: { kind: "datetime" } as ExprType,
+  reference: { kind: "reference" } as ExprType,
+  json: { kind: "json" } as ExprType,
+  null: { kind: "null" } as ExprType,
+  list: (of: ExprType): ExprType => ({ kind: "list", of }),
+};
+
+export function typeName(t: ExprType): string {
+  return t.kind === "list" ? `list<${typeName(t.of)}>` : t.kind;
+}
+
+// Canonical-spec field types; uuid values behave like references (identity comparison only)
+export function fieldTypeToExprType(fieldType: string): ExprType | null {
+  switch (fieldType) {
+    case "number": return T.number;
+    case "text": return T.text;
+    case "boolean": return T.boolean;
+    case "date": return T.date;
+    case "datetime": return T.datetime;
+    case "uuid":
+    case "reference": return T.reference;
+    case "json": return T.json;
+    default: return null;
+  }
+}
+
+export function isAssignable(from: ExprType, to: ExprType): boolean {
+  if (from.kind === "null" || from.kind === "json" || to.kind === "json") return true;
+  if (from.kind === "list" || to.kind === "list") {
+    return from.kind === "list" && to.kind === "list" && isAssignable(from.of, to.of);
+  }
+  if (from.kind === to.kind) return true;
+  if (from.kind === "date" && to.kind === "datetime") return true;
+  // Literal ids compared against reference fields
+  if (from.kind === "text" && to.kind === "reference") return true;
+  return false;
+}
+
+// Common type of two branches (ternary, coalesce, list items); null when incompatible
+export function unify(a: ExprType, b: ExprType): ExprType | null {
+  if (a.kind === "null") return b;
+  if (b.kind === "null") return a;
+  if (a.kind === "json" || b.kind === "json") return T.json;
+  if (a.kind === "list" && b.kind === "list") {
+    const of = unify(a.of, b.of);
+    return of ? T.list(of) : null;
+  }
+  if (a.kind === b.kind) return a;
+  if ((a.kind === "date" && b.kind === "datetime") || (a.kind === "datetime" && b.kind === "date")) return T.datetime;
+  if ((a.kind === "text" && b.kind === "reference") || (a.kind === "reference" && b.kind === "text")) return T.reference;
+  return null;
+}
@@ -0,0 +1,197 @@
+import { RuleError } from "../errors.js";
+import { T, isAssignable, typeName, unify, type ExprType } from "./ast.js";
+
+const DAY_MS = 86_400_000;
+const CLOCK_PATTERN = /^([01]?[0-9]|2[0-3]):([0-5][0-9])$/;
+
+export interface Builtin {
+  // Returns the result type or throws a message describing the mismatch
+  check(args: ExprType[]): ExprType;
+  impl(...args: any[]): any;
+  // When false, null arguments are passed through instead of short-circuiting to null
+  nullSafe?: boolean;
+}
+
+export function runtimeError(message: string): RuleError {
+  return new RuleError("EXPRESSION_RUNTIME", message, 422);
+}
+
+function sig(params: ExprType[], returns: ExprType, optional = 0) {
+  return (args: ExprType[]): ExprType => {
+    if (args.length < params.length - optional || args.length > params.length) {
+      const arity = optional ? `${params.length - optional}-${params.length}` : `${params.length}`;
+      throw `expects ${arity} arguments, got ${args.length}`;
+    }
+    args.forEach((a, i) => {
+      if (!isAssignable(a, params[i])) throw `argument ${i + 1} must be ${typeName(params[i])}, got ${typeName(a)}`;
+    });
+    return returns;
+  };
+}
+
+function variadic(param: ExprType, returns: ExprType, min: number) {
+  return (args: ExprType[]): ExprType => {
+    if (args.length < min) throw `expects at least ${min} arguments, got ${args.length}`;
+    args.forEach((a, i) => {
+      if (!isAssignable(a, param)) throw `argument ${i + 1} must be ${typeName(param)}, got ${typeName(a)}`;
+    });
+    return returns;
+  };
+}
+
+// date or datetime in, same type out
+function temporalShift(args: ExprType[]): ExprType {
+  sig([T.datetime, T.number], T.datetime)(args);
+  return args[0].kind === "date" ? T.date : T.datetime;
+}
+
+function utcMidnight(d: Date): number {
+  return Date.UTC(d.getUTCFullYear(), d.getUTCMonth(), d.getUTCDate());
+}
+
+function parseClock(value: string): number {
+  const m = String(value).match(CLOCK_PATTERN);
+  if (!m) throw runtimeError(`Invalid time of day "${value}", expected HH:MM`);
+  return Number(m[1]) * 60 + Number(m[2]);
+}
+
+function parseTemporal(value: string, kind: "date" | "datetime"): Date {
+  const t = Date.parse(value);
+  if (Number.isNaN(t)) throw runtimeError(`Invalid ${kind} "${value}"`);
+  return kind === "date" ? new Date(utcMidnight(new Date(t))) : new Date(t);
+}
+
+function checkBands(bounds: number[], values: number[], fn: string) {
+  if (values.length !== bounds.length + 1) {
+    throw runtimeError(`${fn}: expected ${bounds.length + 1} rates for ${bounds.length} bounds, got ${values.length}`);
+  }
+  for (let i = 1; i < bounds.length; i++) {
+    if (bounds[i] <= bounds[i - 1]) throw runtimeError(`${fn}: bounds must be strictly ascending`);
+  }
+}
+
+// All date/time functions work in UTC so evaluation never depends on the server's timezone
+export const BUILTINS: Record<string, Builtin> = {
+  abs: { check: sig([T.number], T.number), impl: (n: number) => Math.abs(n) },
+  floor: { check: sig([T.number], T.number), impl: (n: number) => Math.floor(n) },
+  ceil: { check: sig([T.number], T.number), impl: (n: number) => Math.ceil(n) },
+  round: {
+    check: sig([T.number, T.number], T.number, 1),
+    impl: (n: number, digits = 0) => {
+      const f = 10 ** digits;
+      return Math.round((n + Number.EPSILON) * f) / f;
+    },
+  },
+  min: { check: variadic(T.number, T.number, 1), impl: (...ns: number[]) => Math.min(...ns) },
+  max: { check: variadic(T.number, T.number, 1), impl: (...ns: number[]) => Math.max(...ns) },
+  clamp: { check: sig([T.number, T.number, T.number], T.number), impl: (n: number, lo: number, hi: number) => Math.min(Math.max(n, lo), hi) },
+
+  // Progressive slab pricing: quantity up to bounds[0] at rates[0], the next slab at rates[1], ...
+  tiered: {
+    check: sig([T.number, T.list(T.number), T.list(T.number)], T.number),
+    impl: (qty: number, bounds: number[], rates: number[]) => {
+      checkBands(bounds, rates, "tiered");
+      let total = 0;
+      let lower = 0;
+      for (let i = 0; i < rates.length; i++) {
+        const upper = i < bounds.length ? bounds[i] : Infinity;
+        if (qty <= lower) break;
+        total += (Math.min(qty, upper) - lower) * rates[i];
+        lower = upper;
+      }
+      return total;
+    },
+  },
+  // Flat band lookup: the value of the first band whose upper bound is >= x
+  step: {
+    check: sig([T.number, T.list(T.number), T.list(T.number)], T.number),
+    impl: (x: number, bounds: number[], values: number[]) => {
+      checkBands(bounds, values, "step");
+      const idx = bounds.findIndex(b => x <= b);
+      return values[idx === -1 ? bounds.length : idx];
+    },
+  },
+
+  date: { check: sig([T.text], T.date), impl: (s: string) => parseTemporal(s, "date") },
+  datetime: { check: sig([T.text], T.datetime), impl: (s: string) => parseTemporal(s, "datetime") },
+  toDate: { check: sig([T.datetime], T.date), impl: (d: Date) => new Date(utcMidnight(d)) },
+  year: { check: sig([T.datetime], T.number), impl: (d: Date) => d.getUTCFullYear() },
+  month: { check: sig([T.datetime], T.number), impl: (d: Date) => d.getUTCMonth() + 1 },
+  day: { check: sig([T.datetime], T.number), impl: (d: Date) => d.getUTCDate() },
+  dayOfWeek: { check: sig([T.datetime], T.number), impl: (d: Date) => d.getUTCDay() },
+  isWeekend: { check: sig([T.datetime], T.boolean), impl: (d: Date) => d.getUTCDay() === 0 || d.getUTCDay() === 6 },
+  hour: { check: sig([T.datetime], T.number), impl: (d: Date) => d.getUTCHours() },
+  minute: { check: sig([T.datetime], T.number), impl: (d: Date) => d.getUTCMinutes() },
+  addDays: { check: temporalShift, impl: (d: Date, n: number) => new Date(d.getTime() + Math.trunc(n) * DAY_MS) },
+  addMonths: {
+    check: temporalShift,
+    impl: (d: Date, n: number) => {
+      const r = new Date(d.getTime());
+      r.setUTCMonth(r.getUTCMonth() + Math.trunc(n));
+      return r;
+    },
+  },
+  daysBetween: {
+    check: sig([T.datetime, T.datetime], T.number),
+    impl: (a: Date, b: Date) => Math.round((utcMidnight(b) - utcMidnight(a)) / DAY_MS),
+  },
+  // Time-of-use window [start, end); wraps past midnight when end <= start
+  inWindow: {
+    check: sig([T.datetime, T.text, T.text], T.boolean),
+    impl: (d: Date, start: string, end: string) => {
+      const m = d.getUTCHours() * 60 + d.getUTCMinutes();
+      const s = parseClock(start);
+      const e = parseClock(end);
+      return s < e ? m >= s && m < e : m >= s || m < e;
+    },
+  },
+
+  lower: { check: sig([T.text], T.text), impl: (s: string) => s.toLowerCase() },
+  upper: { check: sig([T.text], T.text), impl: (s: string) => s.toUpperCase() },
+  len: { check: sig([T.text], T.number), impl: (s: string) => s.length },
+  contains: { check: sig([T.text, T.text], T.boolean), impl: (s: string, part: string) => s.includes(part) },
+  startsWith: { check: sig([T.text, T.text], T.boolean), impl: (s: string, prefix: string) => s.startsWith(prefix) },
+  concat: { check: variadic(T.text, T.text, 1), impl: (...parts: string[]) => parts.join("") },
+
+  coalesce: {
+    nullSafe: false,
+    check: (args) => {
+      if (!args.length) throw "expects at least 1 argument";
+      return args.reduce<ExprType>((acc, a, i) => {
+        const u = unify(acc, a);
+        if (!u) throw `argument ${i + 1} (${typeName(a)}) is incompatible with ${typeName(acc)}`;
+        return u;
+      }, T.null);
+    },
+    impl: (...values: any[]) => values.find(v => v !== null && v !== undefined) ?? null,
+  },
+  isNull: {
+    nullSafe: false,
+    check: (args) => {
+      if (args.length !== 1) throw `expects 1 argument, got ${args.length}`;
+      return T.boolean;
+    },
+    impl: (v: any) => v === null || v === undefined,
+  },
+  oneOf: {
+    check: (args) => {
+      if (args.length !== 2) throw `expects 2 arguments, got ${args.length}`;
+      if (args[1].kind !== "list") throw `argument 2 must be a list, got ${typeName(args[1])}`;
+      if (!unify(args[0], args[1].of)) throw `cannot look up ${typeName(args[0])} in ${typeName(args[1])}`;
+      return T.boolean;
+    },
+    impl: (v: any, list: any[]) => list.some(item => valuesEqual(v, item)),
+  },
+};
+
+// Own keys only: BUILTINS is a plain object, so "toString" or "constructor" must not resolve to a prototype member
+export function builtin(name: string): Builtin | undefined {
+  return Object.hasOwn(BUILTINS, name) ? BUILTINS[name] : undefined;
+}
+
+export function valuesEqual(a: any, b: any): boolean {
+  if (a instanceof Date && b instanceof Date) return a.getTime() === b.getTime();
+  if (a instanceof Date || b instanceof Date) return false;
+  if (a && b && typeof a === "object" && typeof b === "object") return JSON.stringify(a) === JSON.stringify(b);
+  return a === b;
+}
@@ -0,0 +1,67 @@
+import type { ExprNode } from "./ast.js";
+import { builtin, runtimeError, valuesEqual } from "./functions.js";
+
+function compare(a: any, b: any): number {
+  const x = a instanceof Date ? a.getTime() : a;
+  const y = b instanceof Date ? b.getTime() : b;
+  return x < y ? -1 : x > y ? 1 : 0;
+}
+
+// Walks a type-checked AST; there is no host access, so evaluation cannot reach anything outside scope
+export function evaluateNode(node: ExprNode, scope: Map<string, any>): any {
+  switch (node.kind) {
+    case "literal":
+      return node.value;
+
+    case "ident":
+      return scope.has(node.name) ? scope.get(node.name) : null;
+
+    case "list":
+      return node.items.map(item => evaluateNode(item, scope));
+
+    case "unary": {
+      const v = evaluateNode(node.arg, scope);
+      if (node.op === "not") return !v;
+      return v === null ? null : -v;
+    }
+
+    case "binary": {
+      if (node.op === "and") return !!evaluateNode(node.left, scope) && !!evaluateNode(node.right, scope);
+      if (node.op === "or") return !!evaluateNode(node.left, scope) || !!evaluateNode(node.right, scope);
+
+      const l = evaluateNode(node.left, scope);
+      const r = evaluateNode(node.right, scope);
+      if (node.op === "==") return valuesEqual(l, r);
+      if (node.op === "!=") return !valuesEqual(l, r);
+      if (l === null || r === null) return null;
+
+      switch (node.op) {
+        case "+": return l + r;
+        case "-": return l - r;
+        case "*": return l * r;
+        case "/":
+          if (r === 0) throw runtimeError(`Division by zero at position ${node.pos}`);
+          return l / r;
+        case "%":
+          if (r === 0) throw runtimeError(`Division by zero at position ${node.pos}`);
+          return l % r;
+        case "<": return compare(l, r) < 0;
+        case "<=": return compare(l, r) <= 0;
+        case ">": return compare(l, r) > 0;
+        case ">=": return compare(l, r) >= 0;
+      }
+      return null;
+    }
+
+    case "cond":
+      return evaluateNode(node.test, scope) ? evaluateNode(node.then, scope) : evaluateNode(node.else, scope);
+
+    case "call": {
+      const fn = builtin(node.name);
+      if (!fn) throw runtimeError(`Unknown function "${node.name}"`);
+      const args = node.args.map(a => evaluateNode(a, scope));
+      if (fn.nullSafe !== false && args.some(a => a === null || a === undefined)) return null;
+      return fn.impl(...args);
+    }
+  }
+}
@@ -0,0 +1,167 @@
+import { RuleError } from "../errors.js";
+import { T, type BinaryOp, type ExprNode } from "./ast.js";
+
+const MAX_SOURCE_LENGTH = 10_000;
+const MAX_DEPTH = 64;
+
+type Token =
+  | { t: "num"; pos: number; value: number }
+  | { t: "str"; pos: number; value: string }
+  | { t: "ident"; pos: number; value: string }
+  | { t: "op"; pos: number; value: string }
+  | { t: "eof"; pos: number };
+
+const OPERATORS = ["<=", ">=", "==", "!=", "&&", "||", "+", "-", "*", "/", "%", "<", ">", "!", "(", ")", "[", "]", ",", "?", ":"];
+
+function syntaxError(message: string, pos: number): RuleError {
+  return new RuleError("EXPRESSION_SYNTAX", `${message} at position ${pos}`, 422);
+}
+
+function tokenize(src: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+  while (i < src.length) {
+    const ch = src[i];
+    if (/\s/.test(ch)) { i++; continue; }
+
+    if (/[0-9]/.test(ch)) {
+      const m = src.slice(i).match(/^[0-9]+(\.[0-9]+)?/)!;
+      tokens.push({ t: "num", pos: i, value: Number(m[0]) });
+      i += m[0].length;
+      continue;
+    }
+
+    if (ch === "'" || ch === '"') {
+      let j = i + 1;
+      let value = "";
+      while (j < src.length && src[j] !== ch) {
+        if (src[j] === "\\" && j + 1 < src.length) j++;
+        value += src[j++];
+      }
+      if (j >= src.length) throw syntaxError("Unterminated string", i);
+      tokens.push({ t: "str", pos: i, value });
+      i = j + 1;
+      continue;
+    }
+
+    if (/[A-Za-z_]/.test(ch)) {
+      const m = src.slice(i).match(/^[A-Za-z_][A-Za-z0-9_]*/)!;
+      tokens.push({ t: "ident", pos: i, value: m[0] });
+      i += m[0].length;
+      continue;
+    }
+
+    const op = OPERATORS.find(o => src.startsWith(o, i));
+    if (!op) throw syntaxError(`Unexpected character "${ch}"`, i);
+    tokens.push({ t: "op", pos: i, value: op });
+    i += op.length;
+  }
+  tokens.push({ t: "eof", pos: src.length });
+  return tokens;
+}
+
+const BINARY_PRECEDENCE: Record<string, number> = {
+  "or": 2, "||": 2,
+  "and": 3, "&&": 3,
+  "==": 4, "!=": 4,
+  "<": 5, "<=": 5, ">": 5, ">=": 5,
+  "+": 6, "-": 6,
+  "*": 7, "/": 7, "%": 7,
+};
+
+const NORMALIZED_OPS: Record<string, BinaryOp> = { "||": "or", "&&": "and" };
+
+export function parseExpression(src: string): ExprNode {
+  if (typeof src !== "string" || !src.trim()) throw syntaxError("Empty expression", 0);
+  if (src.length > MAX_SOURCE_LENGTH) throw syntaxError(`Expression longer than ${MAX_SOURCE_LENGTH} characters`, 0);
+
+  const tokens = tokenize(src);
+  let p = 0;
+  const peek = () => tokens[p];
+  const next = () => tokens[p++];
+
+  const binaryOpOf = (tok: Token): string | null => {
+    if (tok.t === "op" && tok.value in BINARY_PRECEDENCE) return tok.value;
+    if (tok.t === "ident" && (tok.value === "and" || tok.value === "or")) return tok.value;
+    return null;
+  };
+
+  const expectOp = (value: string) => {
+    const tok = next();
+    if (tok.t !== "op" || tok.value !== value) throw syntaxError(`Expected "${value}"`, tok.pos);
+  };
+
+  function parseList(close: string, depth: number): ExprNode[] {
+    const items: ExprNode[] = [];
+    const tok = peek();
+    if (tok.t === "op" && tok.value === close) { next(); return items; }
+    for (;;) {
+      items.push(parse(0, depth + 1));
+      const sep = next();
+      if (sep.t === "op" && sep.value === close) return items;
+      if (sep.t !== "op" || sep.value !== ",") throw syntaxError(`Expected "," or "${close}"`, sep.pos);
+    }
+  }
+
+  function parsePrimary(depth: number): ExprNode {
+    const tok = next();
+    switch (tok.t) {
+      case "num":
+        return { kind: "literal", pos: tok.pos, value: tok.value, type: T.number };
+      case "str":
+        return { kind: "literal", pos: tok.pos, value: tok.value, type: T.text };
+      case "ident": {
+        if (tok.value === "true" || tok.value === "false") {
+          return { kind: "literal", pos: tok.pos, value: tok.value === "true", type: T.boolean };
+        }
+        if (tok.value === "null") return { kind: "literal", pos: tok.pos, value: null, type: T.null };
+        if (tok.value === "not") return { kind: "unary", pos: tok.pos, op: "not", arg: parse(8, depth + 1) };
+        const after = peek();
+        if (after.t === "op" && after.value === "(") {
+          next();
+          return { kind: "call", pos: tok.pos, name: tok.value, args: parseList(")", depth) };
+        }
+        return { kind: "ident", pos: tok.pos, name: tok.value };
+      }
+      case "op":
+        if (tok.value === "(") {
+          const inner = parse(0, depth + 1);
+          expectOp(")");
+          return inner;
+        }
+        if (tok.value === "[") return { kind: "list", pos: tok.pos, items: parseList("]", depth) };
+        if (tok.value === "-") return { kind: "unary", pos: tok.pos, op: "-", arg: parse(8, depth + 1) };
+        if (tok.value === "!") return { kind: "unary", pos: tok.pos, op: "not", arg: parse(8, depth + 1) };
+        throw syntaxError(`Unexpected "${tok.value}"`, tok.pos);
+      default:
+        throw syntaxError("Unexpected end of expression", tok.pos);
+    }
+  }
+
+  function parse(minPrecedence: number, depth: number): ExprNode {
+    if (depth > MAX_DEPTH) throw syntaxError(`Expression nested deeper than ${MAX_DEPTH}`, peek().pos);
+    let left = parsePrimary(depth);
+
+    for (;;) {
+      const tok = peek();
+      if (tok.t === "op" && tok.value === "?" && minPrecedence <= 1) {
+        next();
+        const then = parse(0, depth + 1);
+        expectOp(":");
+        const otherwise = parse(1, depth + 1);
+        left = { kind: "cond", pos: tok.pos, test: left, then, else: otherwise };
+        continue;
+      }
+      const op = binaryOpOf(tok);
+      if (!op || BINARY_PRECEDENCE[op] <= minPrecedence) return left;
+      next();
+      const right = parse(BINARY_PRECEDENCE[op], depth + 1);
+      left = { kind: "binary", pos: tok.pos, op: NORMALIZED_OPS[op] ?? (op as BinaryOp), left, right };
+    }
+  }
+
+  const ast = parse(0, 0);
+  const tail = peek();
+  if (tail.t !== "eof") throw syntaxError("Unexpected trailing input", tail.pos);
+  return ast;
+}
@@ -0,0 +1,99 @@
+import { RuleError } from "../errors.js";
+import { T, isAssignable, typeName, unify, type ExprNode, type ExprType } from "./ast.js";
+import { builtin } from "./functions.js";
+
+const ORDERED_KINDS = new Set(["number", "text", "date", "datetime"]);
+
+function typeError(message: string, pos: number): RuleError {
+  return new RuleError("EXPRESSION_TYPE", `${message} at position ${pos}`, 422);
+}
+
+export function inferType(node: ExprNode, env: Map<string, ExprType>): ExprType {
+  switch (node.kind) {
+    case "literal":
+      return node.type;
+
+    case "ident": {
+      const t = env.get(node.name);
+      if (!t) throw typeError(`Unknown identifier "${node.name}"`, node.pos);
+      return t;
+    }
+
+    case "list": {
+      let of: ExprType = T.null;
+      for (const item of node.items) {
+        const t = inferType(item, env);
+        const u = unify(of, t);
+        if (!u) throw typeError(`List mixes ${typeName(of)} and ${typeName(t)}`, item.pos);
+        of = u;
+      }
+      return T.list(of);
+    }
+
+    case "unary": {
+      const t = inferType(node.arg, env);
+      const want = node.op === "-" ? T.number : T.boolean;
+      if (!isAssignable(t, want)) throw typeError(`"${node.op}" needs ${typeName(want)}, got ${typeName(t)}`, node.pos);
+      return want;
+    }
+
+    case "binary": {
+      const l = inferType(node.left, env);
+      const r = inferType(node.right, env);
+      const mismatch = () => typeError(`"${node.op}" cannot combine ${typeName(l)} and ${typeName(r)}`, node.pos);
+
+      switch (node.op) {
+        case "+": {
+          const u = unify(l, r);
+          if (!u || (u.kind !== "number" && u.kind !== "text")) throw mismatch();
+          return u;
+        }
+        case "-":
+        case "*":
+        case "/":
+        case "%":
+          if (!isAssignable(l, T.number) || !isAssignable(r, T.number)) throw mismatch();
+          return T.number;
+        case "<":
+        case "<=":
+        case ">":
+        case ">=": {
+          const u = unify(l, r);
+          if (!u || !ORDERED_KINDS.has(u.kind)) throw mismatch();
+          return T.boolean;
+        }
+        case "==":
+        case "!=":
+          if (!unify(l, r)) throw mismatch();
+          return T.boolean;
+        case "and":
+        case "or":
+          if (!isAssignable(l, T.boolean) || !isAssignable(r, T.boolean)) throw mismatch();
+          return T.boolean;
+      }
+      throw mismatch();
+    }
+
+    case "cond": {
+      const test = inferType(node.test, env);
+      if (!isAssignable(test, T.boolean)) throw typeError(`Condition must be boolean, got ${typeName(test)}`, node.test.pos);
+      const a = inferType(node.then, env);
+      const b = inferType(node.else, env);
+      const u = unify(a, b);
+      if (!u) throw typeError(`Branches disagree: ${typeName(a)} vs ${typeName(b)}`, node.pos);
+      return u;
+    }
+
+    case "call": {
+      const fn = builtin(node.name);
+      if (!fn) throw typeError(`Unknown function "${node.name}"`, node.pos);
+      const args = node.args.map(a => inferType(a, env));
+      try {
+        return fn.check(args);
+      } catch (msg) {
+        if (msg instanceof RuleError) throw msg;
+        throw typeError(`${node.name}() ${msg}`, node.pos);
+      }
+    }
+  }
+}
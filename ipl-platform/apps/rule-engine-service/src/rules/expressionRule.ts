@@ -0,0 +1,139 @@
+import { RuleError } from "./errors.js";
+import { COLUMN_TYPES } from "./decisionTable.js";
+import { coerceValue, formatOutput } from "./values.js";
+import { fieldTypeToExprType, isAssignable, typeName, type ExprNode, type ExprType } from "./expression/ast.js";
+import { parseExpression } from "./expression/parser.js";
+import { inferType } from "./expression/typeCheck.js";
+import { evaluateNode } from "./expression/interpreter.js";
+import type {
+  EvaluationResult,
+  ExpressionBody,
+  ExpressionTrace,
+  InputColumn,
+  RuleContext,
+  RuleDefinition,
+} from "./types.js";
+
+interface CompiledStep {
+  name: string;
+  kind: "let" | "output";
+  expr: string;
+  ast: ExprNode;
+}
+
+function findEntity(ref: string, entities: any[] = []): any {
+  return entities.find(e => e?.id === ref || e?.table === ref || e?.name === ref);
+}
+
+// Entity fields plus explicitly declared inputs; explicit declarations must agree with the entity
+function resolveInputs(body: ExpressionBody, ctx: RuleContext, problems: string[]): InputColumn[] {
+  const declared = Array.isArray(body.inputs) ? body.inputs : [];
+  const inputs = new Map<string, InputColumn>();
+
+  if (body.entity) {
+    const entity = findEntity(body.entity, ctx.entities);
+    if (entity) {
+      for (const f of entity.fields || []) {
+        // Entity "required" is a persistence constraint; rules are often evaluated over partial rows
+        if (f?.name && fieldTypeToExprType(f.type)) inputs.set(f.name, { name: f.name, type: f.type });
+      }
+    } else if (!declared.length) {
+      problems.push(`entity "${body.entity}" not found in dataModel.entities`);
+    }
+  }
+
+  for (const col of declared) {
+    if (!col?.name || !COLUMN_TYPES.has(col.type)) {
+      problems.push(`input ${col?.name ?? "?"}: unknown type "${col?.type}"`);
+      continue;
+    }
+    const fromEntity = inputs.get(col.name);
+    if (fromEntity && fromEntity.type !== col.type) {
+      problems.push(`input ${col.name}: declared ${col.type} but entity ${body.entity} has ${fromEntity.type}`);
+    }
+    inputs.set(col.name, col);
+  }
+  return [...inputs.values()];
+}
+
+function compile(body: ExpressionBody, ctx: RuleContext): { inputs: InputColumn[]; steps: CompiledStep[]; problems: string[] } {
+  const problems: string[] = [];
+  if (!body || typeof body !== "object") return { inputs: [], steps: [], problems: ["body must be an object"] };
+  if (!Array.isArray(body.outputs) || !body.outputs.length) problems.push("outputs must be a non-empty array");
+
+  const inputs = resolveInputs(body, ctx, problems);
+  const env = new Map<string, ExprType>(inputs.map(i => [i.name, fieldTypeToExprType(i.type)!]));
+  const steps: CompiledStep[] = [];
+
+  const bindings = [
+    ...(Array.isArray(body.let) ? body.let : []).map(b => ({ ...b, kind: "let" as const, declared: undefined as ExprType | undefined })),
+    ...(Array.isArray(body.outputs) ? body.outputs : []).map(o => ({
+      ...o,
+      kind: "output" as const,
+      declared: COLUMN_TYPES.has(o.type) ? fieldTypeToExprType(o.type)! : undefined,
+    })),
+  ];
+
+  for (const b of bindings) {
+    const label = `${b.kind} ${b.name ?? "?"}`;
+    if (!b.name) { problems.push(`${label}: name required`); continue; }
+    if (env.has(b.name)) { problems.push(`${label}: "${b.name}" is already defined`); continue; }
+    if (b.kind === "output" && !b.declared) { problems.push(`${label}: unknown type "${(b as any).type}"`); continue; }
+
+    try {
+      const ast = parseExpression(b.expr);
+      const inferred = inferType(ast, env);
+      if (b.declared && !isAssignable(inferred, b.declared)) {
+        problems.push(`${label}: expression is ${typeName(inferred)} but output is declared ${typeName(b.declared)}`);
+        continue;
+      }
+      env.set(b.name, b.declared ?? inferred);
+      steps.push({ name: b.name, kind: b.kind, expr: b.expr, ast });
+    } catch (e: any) {
+      problems.push(`${label}: ${e?.message || String(e)}`);
+    }
+  }
+
+  return { inputs, steps, problems };
+}
+
+export function validateExpressionRule(body: any, ctx: RuleContext = {}): string[] {
+  return compile(body, ctx).problems;
+}
+
+// Pins entity-derived inputs into the body so a published version stays checkable without the spec
+export function resolveExpressionBody(body: ExpressionBody, ctx: RuleContext = {}): ExpressionBody {
+  const { inputs } = compile(body, ctx);
+  return { ...body, inputs };
+}
+
+export function evaluateExpressionRule(rule: RuleDefinition, rawInput: Record<string, any>, ctx: RuleContext = {}): EvaluationResult {
+  const body = rule.body as ExpressionBody;
+  const { inputs, steps, problems } = compile(body, ctx);
+  if (problems.length) {
+    throw new RuleError("INVALID_RULE_BODY", `Rule ${rule.ruleId} v${rule.version} has an invalid expression body`, 422, problems);
+  }
+
+  const scope = new Map<string, any>();
+  for (const col of inputs) {
+    const raw = rawInput?.[col.name];
+    if ((raw === undefined || raw === null) && col.required) {
+      throw new RuleError("MISSING_INPUT", `Missing required input "${col.name}"`);
+    }
+    const v = coerceValue(raw, col.type, col.name);
+    scope.set(col.name, v !== null && (col.type === "date" || col.type === "datetime") ? new Date(v) : v);
+  }
+
+  const trace: ExpressionTrace[] = [];
+  const output: Record<string, any> = {};
+  const outputColumns = new Map(body.outputs.map(o => [o.name, o]));
+
+  for (const step of steps) {
+    const value = evaluateNode(step.ast, scope);
+    scope.set(step.name, value);
+    if (step.kind === "output") output[step.name] = formatOutput(value, outputColumns.get(step.name)!);
+    trace.push({ name: step.name, kind: step.kind, expr: step.expr, value: step.kind === "output" ? output[step.name] : value });
+  }
+
+  return { ruleId: rule.ruleId, version: rule.version, dsl: rule.dsl, output, trace };
+}
@@ -0,0 +1,81 @@
+import { SUPPORTED_DSLS, evaluateRule, validateRule } from "./evaluate.js";
+import type { RuleContext, RuleDefinition, RuleTestVector } from "./types.js";
+
+const NUMBER_TOLERANCE = 1e-9;
+
+export interface TestCaseResult {
+  name: string;
+  passed: boolean;
+  assert: "equals" | "contains";
+  input: Record<string, any>;
+  expected: any;
+  actual?: any;
+  error?: string;
+}
+
+export interface RuleTestReport {
+  ruleId: string;
+  version: number;
+  status: "passed" | "failed" | "skipped";
+  total: number;
+  failed: number;
+  reason?: string;
+  results: TestCaseResult[];
+}
+
+function deepEqual(a: any, b: any): boolean {
+  if (typeof a === "number" && typeof b === "number") return Math.abs(a - b) <= NUMBER_TOLERANCE;
+  if (Array.isArray(a) && Array.isArray(b)) return a.length === b.length && a.every((v, i) => deepEqual(v, b[i]));
+  if (a && b && typeof a === "object" && typeof b === "object" && !Array.isArray(a) && !Array.isArray(b)) {
+    const keys = new Set([...Object.keys(a), ...Object.keys(b)]);
+    return [...keys].every(k => deepEqual(a[k], b[k]));
+  }
+  return a === b;
+}
+
+// "contains": every expected key matches; for collect outputs, every expected row appears
+function contains(actual: any, expected: any): boolean {
+  if (Array.isArray(actual)) {
+    const wanted = Array.isArray(expected) ? expected : [expected];
+    return wanted.every(w => actual.some(a => contains(a, w)));
+  }
+  if (actual && typeof actual === "object" && expected && typeof expected === "object") {
+    return Object.keys(expected).every(k => deepEqual(actual[k], expected[k]));
+  }
+  return deepEqual(actual, expected);
+}
+
+function runCase(rule: RuleDefinition, test: RuleTestVector, ctx: RuleContext): TestCaseResult {
+  const assert = test.assert ?? "equals";
+  const base = { name: test.name, assert, input: test.input, expected: test.expected };
+  try {
+    const actual = evaluateRule(rule, test.input || {}, ctx).output;
+    const passed = assert === "contains" ? contains(actual, test.expected) : deepEqual(actual, test.expected);
+    return { ...base, passed, actual };
+  } catch (e: any) {
+    return { ...base, passed: false, error: e?.message || String(e) };
+  }
+}
+
+export function runRuleTests(rule: RuleDefinition, ctx: RuleContext = {}): RuleTestReport {
+  const tests = rule.tests || [];
+  const base = { ruleId: rule.ruleId, version: rule.version, total: tests.length, results: [] };
+  if (!SUPPORTED_DSLS.includes(rule.dsl)) {
+    return { ...base, status: "skipped", failed: 0, reason: `dsl "${rule.dsl}" is not executable by the rule engine` };
+  }
+  const problems = validateRule(rule, ctx);
+  if (problems.length) {
+    return { ...base, status: "failed", failed: tests.length, reason: problems.join("; ") };
+  }
+
+  const results = tests.map(t => runCase(rule, t, ctx));
+  const failed = results.filter(r => !r.passed).length;
+  return {
+    ruleId: rule.ruleId,
+    version: rule.version,
+    status: failed ? "failed" : "passed",
+    total: results.length,
+    failed,
+    results,
+  };
+}
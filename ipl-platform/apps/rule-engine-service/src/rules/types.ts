@@ -0,0 +1,119 @@
+// Mirrors FieldType in ai-generator-service/src/canonicalSpec/schema.ts
+export type ColumnType = "uuid" | "text" | "number" | "date" | "datetime" | "boolean" | "json" | "reference";
+
+export type HitPolicy = "first" | "unique" | "collect" | "priority";
+
+export interface RuleTestVector {
+  name: string;
+  input: Record<string, any>;
+  expected: Record<string, any>;
+  assert?: "equals" | "contains";
+}
+
+export interface RuleDefinition {
+  ruleId: string;
+  alias?: string;
+  version: number;
+  dsl: string;
+  body: any;
+  tests?: RuleTestVector[];
+}
+
+export interface InputColumn {
+  name: string;
+  type: ColumnType;
+  required?: boolean;
+}
+
+export interface OutputColumn {
+  name: string;
+  type: ColumnType;
+  // Output values ordered from highest to lowest priority (priority hit policy)
+  priority?: any[];
+}
+
+// A cell is either a literal (equality), "-" / null (any value), or an operator object
+export type Condition =
+  | string
+  | number
+  | boolean
+  | null
+  | { in: any[] }
+  | { notIn: any[] }
+  | { range: string }
+  | { gt?: any; gte?: any; lt?: any; lte?: any };
+
+export interface DecisionRow {
+  description?: string;
+  when: Record<string, Condition>;
+  then: Record<string, any>;
+}
+
+export interface DecisionTableBody {
+  hitPolicy?: HitPolicy;
+  inputs: InputColumn[];
+  outputs: OutputColumn[];
+  rules: DecisionRow[];
+  default?: Record<string, any>;
+}
+
+export interface ExpressionBinding {
+  name: string;
+  expr: string;
+}
+
+export interface ExpressionOutput extends OutputColumn {
+  expr: string;
+}
+
+export interface ExpressionBody {
+  // Entity in dataModel.entities whose fields become typed inputs
+  entity?: string;
+  inputs?: InputColumn[];
+  let?: ExpressionBinding[];
+  outputs: ExpressionOutput[];
+}
+
+// Spec data the rule is checked against; entities come from the merged canonical spec
+export interface RuleContext {
+  entities?: any[];
+}
+
+export interface ConditionTrace {
+  input: string;
+  condition: Condition;
+  value: any;
+  result: boolean;
+}
+
+export interface RowTrace {
+  row: number;
+  description?: string;
+  matched: boolean;
+  conditions: ConditionTrace[];
+}
+
+export interface RowMatch {
+  row: number;
+  description?: string;
+  output: Record<string, any>;
+}
+
+export interface ExpressionTrace {
+  name: string;
+  kind: "let" | "output";
+  expr: string;
+  value: any;
+}
+
+export interface EvaluationResult {
+  ruleId: string;
+  version: number;
+  dsl: string;
+  output: Record<string, any> | Record<string, any>[] | null;
+  trace: RowTrace[] | ExpressionTrace[];
+  // Decision tables only
+  hitPolicy?: HitPolicy;
+  matches?: RowMatch[];
+  usedDefault?: boolean;
+}
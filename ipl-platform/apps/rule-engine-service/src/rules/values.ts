@@ -0,0 +1,45 @@
+import { RuleError } from "./errors.js";
+import type { ColumnType, OutputColumn } from "./types.js";
+
+// Dates are normalized to epoch milliseconds (UTC midnight for "date") so they compare as numbers
+export function coerceValue(value: any, type: ColumnType, column: string): any {
+  if (value === null || value === undefined) return null;
+
+  switch (type) {
+    case "number": {
+      const n = typeof value === "number" ? value : Number(value);
+      if (typeof value === "boolean" || value === "" || !Number.isFinite(n)) {
+        throw new RuleError("INVALID_INPUT", `${column}: expected number, got ${JSON.stringify(value)}`);
+      }
+      return n;
+    }
+    case "boolean":
+      if (typeof value === "boolean") return value;
+      if (value === "true" || value === "false") return value === "true";
+      throw new RuleError("INVALID_INPUT", `${column}: expected boolean, got ${JSON.stringify(value)}`);
+    case "date":
+    case "datetime": {
+      const t = value instanceof Date ? value.getTime() : Date.parse(String(value));
+      if (Number.isNaN(t)) {
+        throw new RuleError("INVALID_INPUT", `${column}: expected ${type}, got ${JSON.stringify(value)}`);
+      }
+      if (type === "date") {
+        const d = new Date(t);
+        return Date.UTC(d.getUTCFullYear(), d.getUTCMonth(), d.getUTCDate());
+      }
+      return t;
+    }
+    case "json":
+      return value;
+    default:
+      return String(value);
+  }
+}
+
+export function formatOutput(value: any, column: OutputColumn): any {
+  const coerced = coerceValue(value, column.type, column.name);
+  if (coerced === null) return null;
+  if (column.type === "date") return new Date(coerced).toISOString().slice(0, 10);
+  if (column.type === "datetime") return new Date(coerced).toISOString();
+  return coerced;
+}
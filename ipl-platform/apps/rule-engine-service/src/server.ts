@@ -1,4 +1,200 @@
+import "dotenv/config";
 import express from "express";
-const app = express(); app.use(express.json());
-app.get("/health",(_,res)=>res.json({ok:true,service:"rule-engine-service"}));
-app.listen(7200,()=>console.log("Rule Engine on :7200"));
+import { RuleError } from "./rules/errors.js";
+import { evaluateRule } from "./rules/evaluate.js";
+import { runRuleTests } from "./rules/testRunner.js";
+import { mergedSpecRules, ruleContext } from "./spec/ruleSource.js";
+import { sampleProjectRows } from "./simulation/projectRows.js";
+import { backtestVersions } from "./simulation/backtest.js";
+import {
+  publishRule,
+  moveAlias,
+  listRules,
+  listVersions,
+  getRuleVersion,
+  getAliasAudit,
+  diffRuleVersions,
+  loadRule,
+} from "./registry/ruleRegistry.js";
+
+const app = express();
+app.use(express.json({ limit: "2mb" }));
+
+function sendError(res: express.Response, e: any) {
+  if (e instanceof RuleError) {
+    return res.status(e.statusCode).json({ ok: false, code: e.code, error: e.message, details: e.details });
+  }
+  console.error("Rule engine error:", e);
+  return res.status(500).json({ ok: false, error: e?.message || String(e) });
+}
+
+function parseVersion(value: any): number | undefined {
+  if (value === undefined || value === null || value === "") return undefined;
+  const n = Number(value);
+  if (!Number.isInteger(n) || n < 1) throw new RuleError("INVALID_VERSION", `Invalid version "${value}"`);
+  return n;
+}
+
+app.get("/health", (_, res) => res.json({ ok: true, service: "rule-engine-service" }));
+
+// Evaluate a rule; an inline spec wins, otherwise the registry, otherwise the domain packs
+app.post("/rules/:ruleId/evaluate", async (req, res) => {
+  try {
+    const { input, spec } = req.body || {};
+    if (!input || typeof input !== "object") {
+      return res.status(400).json({ ok: false, error: "input object required" });
+    }
+    const version = parseVersion(req.body?.version);
+
+    const rule = await loadRule(req.params.ruleId, version, spec);
+    const result = evaluateRule(rule, input, ruleContext(spec, rule));
+    res.json({ ok: true, ...result });
+  } catch (e: any) {
+    sendError(res, e);
+  }
+});
+
+// Publish a new immutable rule version
+app.post("/rules", async (req, res) => {
+  try {
+    const { ruleId, dsl, body, tests, description, alias, publishedBy, spec } = req.body || {};
+    if (!ruleId || !dsl || body === undefined) {
+      return res.status(400).json({ ok: false, error: "ruleId, dsl and body are required" });
+    }
+    const version = parseVersion(req.body.version);
+    const published = await publishRule({
+      ruleId,
+      version,
+      dsl,
+      body,
+      tests,
+      description,
+      alias,
+      publishedBy,
+    }, ruleContext(spec, { ruleId, version }));
+    res.status(201).json({ ok: true, ...published });
+  } catch (e: any) {
+    sendError(res, e);
+  }
+});
+
+// List registered rules with their versions and aliases
+app.get("/rules", async (_req, res) => {
+  try {
+    res.json({ ok: true, rules: await listRules() });
+  } catch (e: any) {
+    sendError(res, e);
+  }
+});
+
+app.get("/rules/:ruleId/versions", async (req, res) => {
+  try {
+    const versions = await listVersions(req.params.ruleId);
+    if (!versions.length) return res.status(404).json({ ok: false, error: `Rule ${req.params.ruleId} not found` });
+    res.json({ ok: true, versions });
+  } catch (e: any) {
+    sendError(res, e);
+  }
+});
+
+app.get("/rules/:ruleId/versions/:version", async (req, res) => {
+  try {
+    const rule = await getRuleVersion(req.params.ruleId, parseVersion(req.params.version)!);
+    res.json({ ok: true, rule });
+  } catch (e: any) {
+    sendError(res, e);
+  }
+});
+
+// Re-run a published version's embedded test vectors
+app.get("/rules/:ruleId/versions/:version/test-report", async (req, res) => {
+  try {
+    const rule = await getRuleVersion(req.params.ruleId, parseVersion(req.params.version)!);
+    res.json({ ok: true, report: runRuleTests(rule, ruleContext(undefined, rule)) });
+  } catch (e: any) {
+    sendError(res, e);
+  }
+});
+
+// Structural diff between two published versions: /rules/:ruleId/diff?from=1&to=2
+app.get("/rules/:ruleId/diff", async (req, res) => {
+  try {
+    const from = parseVersion(req.query.from);
+    const to = parseVersion(req.query.to);
+    if (!from || !to) return res.status(400).json({ ok: false, error: "from and to versions are required" });
+    res.json({ ok: true, ...(await diffRuleVersions(req.params.ruleId, from, to)) });
+  } catch (e: any) {
+    sendError(res, e);
+  }
+});
+
+// Point an alias (current, canary, ...) at a published version; every move is audited
+app.put("/rules/:ruleId/aliases/:alias", async (req, res) => {
+  try {
+    const version = parseVersion(req.body?.version);
+    if (!version) return res.status(400).json({ ok: false, error: "version is required" });
+    const result = await moveAlias(req.params.ruleId, req.params.alias, version, req.body?.actor, req.body?.reason);
+    res.json({ ok: true, ...result });
+  } catch (e: any) {
+    sendError(res, e);
+  }
+});
+
+app.get("/rules/:ruleId/audit", async (req, res) => {
+  try {
+    res.json({ ok: true, audit: await getAliasAudit(req.params.ruleId) });
+  } catch (e: any) {
+    sendError(res, e);
+  }
+});
+
+// Replay two versions of a rule over sampled rows of a project table (ipl_<project>_<table>)
+app.post("/rules/:ruleId/backtest", async (req, res) => {
+  try {
+    const { projectId, table, sampleSize, random, mapping, keyColumn, spec } = req.body || {};
+    const baselineVersion = parseVersion(req.body?.baselineVersion);
+    const candidateVersion = parseVersion(req.body?.candidateVersion);
+    if (!projectId || !table || !baselineVersion || !candidateVersion) {
+      return res.status(400).json({ ok: false, error: "projectId, table, baselineVersion and candidateVersion are required" });
+    }
+
+    const [baseline, candidate] = await Promise.all([
+      loadRule(req.params.ruleId, baselineVersion, spec),
+      loadRule(req.params.ruleId, candidateVersion, spec),
+    ]);
+    const sample = await sampleProjectRows(String(projectId), String(table), {
+      sampleSize: sampleSize !== undefined ? Number(sampleSize) : undefined,
+      random: !!random,
+    });
+    const summary = backtestVersions(baseline, candidate, sample.rows, ruleContext(spec, baseline), { mapping, keyColumn });
+    res.json({ ok: true, table: sample.table, ...summary });
+  } catch (e: any) {
+    sendError(res, e);
+  }
+});
+
+// Run the test vectors of every rule in a spec (merged with its domain packs)
+app.post("/specs/validate-rules", (req, res) => {
+  try {
+    const spec = req.body?.spec;
+    if (!spec || typeof spec !== "object") {
+      return res.status(400).json({ ok: false, error: "spec object required" });
+    }
+    const reports = mergedSpecRules(spec).map(r => runRuleTests(r, ruleContext(spec, r)));
+    const failed = reports.filter(r => r.status === "failed");
+    res.status(failed.length ? 422 : 200).json({
+      ok: failed.length === 0,
+      summary: {
+        rules: reports.length,
+        passed: reports.filter(r => r.status === "passed").length,
+        failed: failed.length,
+        skipped: reports.filter(r => r.status === "skipped").length,
+      },
+      reports,
+    });
+  } catch (e: any) {
+    sendError(res, e);
+  }
+});
+
+app.listen(7200, () => console.log("Rule Engine on :7200"));
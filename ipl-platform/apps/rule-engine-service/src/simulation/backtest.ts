@@ -0,0 +1,146 @@
+import { evaluateRule } from "../rules/evaluate.js";
+import type { RuleContext, RuleDefinition } from "../rules/types.js";
+
+const MAX_EXAMPLES = 25;
+
+export interface BacktestOptions {
+  // rule input name -> table column name; unmapped inputs read the column of the same name
+  mapping?: Record<string, string>;
+  // column used to identify rows in examples (defaults to the first *_id column)
+  keyColumn?: string;
+}
+
+interface Outcome {
+  output?: any;
+  error?: string;
+}
+
+interface NumericDelta {
+  baselineTotal: number;
+  candidateTotal: number;
+  meanDelta: number;
+  maxIncrease: number;
+  maxDecrease: number;
+}
+
+export interface BacktestSummary {
+  ruleId: string;
+  baselineVersion: number;
+  candidateVersion: number;
+  sampled: number;
+  changed: number;
+  unchanged: number;
+  errors: { baseline: number; candidate: number };
+  outcomeCounts: { baseline: Record<string, Record<string, number>>; candidate: Record<string, Record<string, number>> };
+  transitions: Record<string, Record<string, number>>;
+  numericDeltas: Record<string, NumericDelta>;
+  examples: Array<{ key: any; input: Record<string, any>; baseline: Outcome; candidate: Outcome }>;
+}
+
+function toInput(row: Record<string, any>, mapping: Record<string, string>): Record<string, any> {
+  const input: Record<string, any> = { ...row };
+  for (const [name, column] of Object.entries(mapping)) input[name] = row[column];
+  return input;
+}
+
+function run(rule: RuleDefinition, input: Record<string, any>, ctx: RuleContext): Outcome {
+  try {
+    return { output: evaluateRule(rule, input, ctx).output };
+  } catch (e: any) {
+    return { error: e?.message || String(e) };
+  }
+}
+
+// Collect outputs are arrays of rows; each output field is keyed on the list of its values
+function fieldValues(outcome: Outcome): Record<string, any> {
+  if (outcome.error) return { "<error>": outcome.error };
+  const out = outcome.output;
+  if (out === null || out === undefined) return { "<no match>": true };
+  if (Array.isArray(out)) {
+    const fields: Record<string, any[]> = {};
+    for (const row of out) for (const [k, v] of Object.entries(row)) (fields[k] ||= []).push(v);
+    return fields;
+  }
+  return out;
+}
+
+function bump(counts: Record<string, Record<string, number>>, field: string, value: any) {
+  const key = typeof value === "string" ? value : JSON.stringify(value);
+  counts[field] ||= {};
+  counts[field][key] = (counts[field][key] || 0) + 1;
+}
+
+export function backtestVersions(
+  baseline: RuleDefinition,
+  candidate: RuleDefinition,
+  rows: Record<string, any>[],
+  ctx: RuleContext = {},
+  opts: BacktestOptions = {},
+): BacktestSummary {
+  const mapping = opts.mapping || {};
+  const keyColumn = opts.keyColumn ?? Object.keys(rows[0] || {}).find(c => c === "id" || c.endsWith("_id"));
+
+  const summary: BacktestSummary = {
+    ruleId: candidate.ruleId,
+    baselineVersion: baseline.version,
+    candidateVersion: candidate.version,
+    sampled: rows.length,
+    changed: 0,
+    unchanged: 0,
+    errors: { baseline: 0, candidate: 0 },
+    outcomeCounts: { baseline: {}, candidate: {} },
+    transitions: {},
+    numericDeltas: {},
+    examples: [],
+  };
+  const deltas: Record<string, { base: number; cand: number; diffs: number[] }> = {};
+
+  for (const row of rows) {
+    const input = toInput(row, mapping);
+    const before = run(baseline, input, ctx);
+    const after = run(candidate, input, ctx);
+    if (before.error) summary.errors.baseline++;
+    if (after.error) summary.errors.candidate++;
+
+    const beforeFields = fieldValues(before);
+    const afterFields = fieldValues(after);
+    for (const [k, v] of Object.entries(beforeFields)) bump(summary.outcomeCounts.baseline, k, v);
+    for (const [k, v] of Object.entries(afterFields)) bump(summary.outcomeCounts.candidate, k, v);
+
+    let changed = false;
+    for (const field of new Set([...Object.keys(beforeFields), ...Object.keys(afterFields)])) {
+      const a = beforeFields[field];
+      const b = afterFields[field];
+      if (typeof a === "number" && typeof b === "number") {
+        const d = (deltas[field] ||= { base: 0, cand: 0, diffs: [] });
+        d.base += a;
+        d.cand += b;
+        d.diffs.push(b - a);
+      }
+      if (JSON.stringify(a) !== JSON.stringify(b)) {
+        changed = true;
+        bump(summary.transitions, field, `${JSON.stringify(a ?? null)} -> ${JSON.stringify(b ?? null)}`);
+      }
+    }
+
+    if (changed) {
+      summary.changed++;
+      if (summary.examples.length < MAX_EXAMPLES) {
+        summary.examples.push({ key: keyColumn ? row[keyColumn] : undefined, input, baseline: before, candidate: after });
+      }
+    } else {
+      summary.unchanged++;
+    }
+  }
+
+  for (const [field, d] of Object.entries(deltas)) {
+    summary.numericDeltas[field] = {
+      baselineTotal: d.base,
+      candidateTotal: d.cand,
+      meanDelta: d.diffs.reduce((s, x) => s + x, 0) / d.diffs.length,
+      maxIncrease: Math.max(0, ...d.diffs),
+      maxDecrease: Math.min(0, ...d.diffs),
+    };
+  }
+  return summary;
+}
@@ -0,0 +1,36 @@
+import { sql } from "drizzle-orm";
+import { db } from "../db/index.js";
+import { RuleError } from "../rules/errors.js";
+
+export const MAX_SAMPLE_SIZE = 5000;
+
+// Same naming as ai-generator-service/src/db/project-database.ts: ipl_<project>_<table>
+function sanitizeName(name: string): string {
+  return name.replace(/[^a-zA-Z0-9_]/g, "_").toLowerCase().substring(0, 63);
+}
+
+export function projectTableName(projectId: string, table: string): string {
+  return `ipl_${sanitizeName(projectId)}_${sanitizeName(table)}`;
+}
+
+export interface SampleOptions {
+  sampleSize?: number;
+  random?: boolean;
+}
+
+export async function sampleProjectRows(projectId: string, table: string, opts: SampleOptions = {}): Promise<{ table: string; rows: any[] }> {
+  const fullTableName = projectTableName(projectId, table);
+  const limit = Math.min(Math.max(Math.trunc(opts.sampleSize ?? 500), 1), MAX_SAMPLE_SIZE);
+
+  const exists = await db.execute(sql`
+    SELECT 1 FROM information_schema.tables
+    WHERE table_schema = 'public' AND table_name = ${fullTableName}
+  `);
+  if (!exists.rows.length) {
+    throw new RuleError("TABLE_NOT_FOUND", `Table ${table} not found for project ${projectId}`, 404);
+  }
+
+  const order = opts.random ? " ORDER BY random()" : "";
+  const result = await db.execute(sql.raw(`SELECT * FROM "${fullTableName}"${order} LIMIT ${limit}`));
+  return { table: fullTableName, rows: result.rows as any[] };
+}
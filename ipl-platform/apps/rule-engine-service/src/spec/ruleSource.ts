@@ -0,0 +1,67 @@
+import { DomainPackError, installedDomainPacks, mergeDomainPacksIntoSpec } from "@ipl/ai-generator-service/domain-packs";
+import { RuleError } from "../rules/errors.js";
+import type { RuleContext, RuleDefinition } from "../rules/types.js";
+
+const listsDomains = (spec?: any) => !!spec?.app?.domain?.length;
+
+// The spec with its domain packs merged exactly as the AI generator merges them
+function mergedSpec(spec: any): any {
+  try {
+    return mergeDomainPacksIntoSpec(spec);
+  } catch (e) {
+    if (e instanceof DomainPackError) throw new RuleError("DOMAIN_PACK_INVALID", e.message, 422, e.issues);
+    throw e;
+  }
+}
+
+const sameRule = (a: RuleDefinition, b: RuleDefinition) => a.ruleId === b.ruleId && a.version === b.version;
+
+// Without domains in a spec, every installed pack contributes rules, the first pack listing a ruleId+version wins
+function packOf(rule: { ruleId: string; version?: number }) {
+  const packs = installedDomainPacks();
+  return packs.find(p => p.rules.some(r => r.ruleId === rule.ruleId && r.version === rule.version))
+    || packs.find(p => p.rules.some(r => r.ruleId === rule.ruleId));
+}
+
+// Spec rules first, pack rules deduped on ruleId+version
+export function mergedSpecRules(spec?: any): RuleDefinition[] {
+  if (listsDomains(spec)) return mergedSpec(spec).rules;
+  const rules: RuleDefinition[] = [...(spec?.rules || [])];
+  for (const pack of installedDomainPacks()) {
+    for (const pr of pack.rules as RuleDefinition[]) {
+      if (!rules.find(r => sameRule(r, pr))) rules.push(pr);
+    }
+  }
+  return rules;
+}
+
+// Entities a rule is checked against. Without domains in a spec, a pack rule sees only its own pack's entities:
+// packs that extend another one may change the same entity (water's meter_reading has volume_m3, ami's has kwh)
+export function ruleContext(spec?: any, rule?: { ruleId: string; version?: number }): RuleContext {
+  if (listsDomains(spec)) return { entities: mergedSpec(spec).dataModel.entities };
+  const entities: any[] = [...(spec?.dataModel?.entities || [])];
+  const own = rule && packOf(rule);
+  for (const pack of own ? [own] : installedDomainPacks()) {
+    for (const pe of pack.entities) {
+      if (!entities.find(e => e.id === pe.id)) entities.push(pe);
+    }
+  }
+  return { entities };
+}
+
+// ruleId may be a plain id ("underwriting_score") or an alias ("underwriting_score.current")
+export function resolveRule(rules: RuleDefinition[], ruleId: string, version?: number): RuleDefinition {
+  const byAlias = rules.filter(r => r.alias === ruleId);
+  const candidates = byAlias.length ? byAlias : rules.filter(r => r.ruleId === ruleId);
+  if (!candidates.length) throw new RuleError("RULE_NOT_FOUND", `Rule ${ruleId} not found`, 404);
+
+  if (version !== undefined) {
+    const exact = candidates.find(r => Number(r.version) === version);
+    if (!exact) throw new RuleError("RULE_NOT_FOUND", `Rule ${ruleId} has no version ${version}`, 404);
+    return exact;
+  }
+
+  const current = candidates.find(r => r.alias === `${r.ruleId}.current`);
+  if (current) return current;
+  return [...candidates].sort((a, b) => Number(b.version) - Number(a.version))[0];
+}
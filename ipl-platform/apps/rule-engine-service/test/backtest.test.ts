@@ -0,0 +1,85 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import type { RuleDefinition } from "../src/rules/types.js";
+import { backtestVersions } from "../src/simulation/backtest.js";
+
+function discount(version: number, loyaltyYears: number, rate: number, required = false): RuleDefinition {
+  return {
+    ruleId: "discount",
+    version,
+    dsl: "decision-table",
+    body: {
+      hitPolicy: "first",
+      inputs: [{ name: "years", type: "number", required }],
+      outputs: [{ name: "rate", type: "number" }, { name: "band", type: "text" }],
+      rules: [{ when: { years: { gte: loyaltyYears } }, then: { rate, band: "loyalty" } }],
+      default: { rate: 0, band: "new" },
+    },
+  };
+}
+
+const baseline = discount(1, 5, 0.3);
+const candidate = discount(2, 3, 0.25, true);
+const rows = [
+  { customer_id: "c1", tenure: 6 },
+  { customer_id: "c2", tenure: 4 },
+  { customer_id: "c3", tenure: 1 },
+  { customer_id: "c4", tenure: null },
+];
+
+test("counts changed rows, outcomes and transitions per output field", () => {
+  const summary = backtestVersions(baseline, candidate, rows, {}, { mapping: { years: "tenure" } });
+
+  assert.equal(summary.sampled, 4);
+  assert.equal(summary.changed, 3);
+  assert.equal(summary.unchanged, 1);
+  assert.deepEqual(summary.errors, { baseline: 0, candidate: 1 });
+  assert.deepEqual(summary.outcomeCounts.baseline, { rate: { "0.3": 1, "0": 3 }, band: { loyalty: 1, new: 3 } });
+  assert.deepEqual(summary.outcomeCounts.candidate, {
+    rate: { "0.25": 2, "0": 1 },
+    band: { loyalty: 2, new: 1 },
+    "<error>": { 'Missing required input "years"': 1 },
+  });
+  assert.deepEqual(summary.transitions, {
+    rate: { "0.3 -> 0.25": 1, "0 -> 0.25": 1, "0 -> null": 1 },
+    band: { '"new" -> "loyalty"': 1, '"new" -> null': 1 },
+    "<error>": { 'null -> "Missing required input \\"years\\""': 1 },
+  });
+});
+
+test("sums numeric outputs over the rows where both versions produced a number", () => {
+  const { rate } = backtestVersions(baseline, candidate, rows, {}, { mapping: { years: "tenure" } }).numericDeltas;
+  assert.ok(Math.abs(rate.baselineTotal - 0.3) < 1e-9);
+  assert.ok(Math.abs(rate.candidateTotal - 0.5) < 1e-9);
+  assert.ok(Math.abs(rate.meanDelta - 0.2 / 3) < 1e-9);
+  assert.ok(Math.abs(rate.maxIncrease - 0.25) < 1e-9);
+  assert.ok(Math.abs(rate.maxDecrease + 0.05) < 1e-9);
+});
+
+test("examples show changed rows keyed by the first id column, with the mapped input", () => {
+  const { examples } = backtestVersions(baseline, candidate, rows, {}, { mapping: { years: "tenure" } });
+  assert.deepEqual(examples.map(e => e.key), ["c1", "c2", "c4"]);
+  assert.deepEqual(examples[0], {
+    key: "c1",
+    input: { customer_id: "c1", tenure: 6, years: 6 },
+    baseline: { output: { rate: 0.3, band: "loyalty" } },
+    candidate: { output: { rate: 0.25, band: "loyalty" } },
+  });
+  assert.deepEqual(examples[2].candidate, { error: 'Missing required input "years"' });
+});
+
+test("keyColumn overrides the detected key and examples are capped", () => {
+  const many = Array.from({ length: 40 }, (_, i) => ({ id: i, account: `a${i}`, years: 4 }));
+  const summary = backtestVersions(baseline, candidate, many, {}, { keyColumn: "account" });
+  assert.equal(summary.changed, 40);
+  assert.equal(summary.examples.length, 25);
+  assert.equal(summary.examples[0].key, "a0");
+});
+
+test("a version without a default reports unmatched rows as <no match>", () => {
+  const strict: RuleDefinition = { ...candidate, body: { ...candidate.body, default: undefined } };
+  const summary = backtestVersions(baseline, strict, [{ years: 1 }], {});
+  assert.deepEqual(summary.outcomeCounts.candidate, { "<no match>": { true: 1 } });
+  assert.deepEqual(summary.transitions["<no match>"], { "null -> true": 1 });
+  assert.equal(summary.examples[0].key, undefined);
+});
@@ -0,0 +1,167 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { evaluateDecisionTable, validateDecisionTable } from "../src/rules/decisionTable.js";
+import { RuleError } from "../src/rules/errors.js";
+import type { DecisionTableBody, HitPolicy, RuleDefinition } from "../src/rules/types.js";
+
+// Premium tiers: rows 0 and 1 overlap for ages 25..30 with a clean record
+function table(hitPolicy: HitPolicy, extra: Partial<DecisionTableBody> = {}): RuleDefinition {
+  return {
+    ruleId: "premium_tier",
+    version: 1,
+    dsl: "decision-table",
+    body: {
+      hitPolicy,
+      inputs: [
+        { name: "age", type: "number", required: true },
+        { name: "claims", type: "number" },
+        { name: "region", type: "text" },
+      ],
+      outputs: [{ name: "tier", type: "text", priority: ["gold", "silver", "bronze"] }],
+      rules: [
+        { description: "young", when: { age: { lt: 30 } }, then: { tier: "bronze" } },
+        { description: "clean record", when: { age: { range: "[25..40)" }, claims: 0 }, then: { tier: "silver" } },
+        { description: "loyal regions", when: { region: { in: ["north", "east"] } }, then: { tier: "gold" } },
+      ],
+      default: { tier: "standard" },
+      ...extra,
+    },
+  };
+}
+
+const tiers = (output: any) => (output as Array<{ tier: string }>).map(o => o.tier);
+
+describe("decision table hit policies", () => {
+  it("first returns the first matching row and stops", () => {
+    const result = evaluateDecisionTable(table("first"), { age: 27, claims: 0, region: "north" });
+    assert.deepEqual(result.output, { tier: "bronze" });
+    assert.deepEqual(result.matches!.map(m => m.row), [0]);
+    assert.equal(result.trace.length, 1);
+  });
+
+  it("unique returns the only match", () => {
+    assert.deepEqual(evaluateDecisionTable(table("unique"), { age: 35, claims: 0 }).output, { tier: "silver" });
+  });
+
+  it("unique rejects overlapping rows with the trace", () => {
+    assert.throws(
+      () => evaluateDecisionTable(table("unique"), { age: 27, claims: 0 }),
+      (e: any) => e instanceof RuleError && e.code === "UNIQUE_VIOLATION" && e.statusCode === 422 && e.details.trace.length === 3
+    );
+  });
+
+  it("collect returns every match in row order", () => {
+    const result = evaluateDecisionTable(table("collect"), { age: 27, claims: 0, region: "east" });
+    assert.deepEqual(tiers(result.output), ["bronze", "silver", "gold"]);
+  });
+
+  it("priority picks the match ranked highest by the output's priority list", () => {
+    assert.deepEqual(evaluateDecisionTable(table("priority"), { age: 27, claims: 0, region: "east" }).output, { tier: "gold" });
+    assert.deepEqual(evaluateDecisionTable(table("priority"), { age: 27, claims: 0 }).output, { tier: "silver" });
+  });
+
+  it("falls back to the default when nothing matches; collect wraps it in a list", () => {
+    const first = evaluateDecisionTable(table("first"), { age: 50, claims: 3, region: "south" });
+    assert.deepEqual(first.output, { tier: "standard" });
+    assert.equal(first.usedDefault, true);
+    assert.deepEqual(evaluateDecisionTable(table("collect"), { age: 50 }).output, [{ tier: "standard" }]);
+  });
+
+  it("returns null without a match or a default", () => {
+    const result = evaluateDecisionTable(table("first", { default: undefined }), { age: 50 });
+    assert.equal(result.output, null);
+    assert.equal(result.usedDefault, false);
+  });
+});
+
+describe("decision table conditions", () => {
+  const single = (column: any, when: any): RuleDefinition => ({
+    ruleId: "cond",
+    version: 1,
+    dsl: "decision-table",
+    body: { inputs: [column], outputs: [{ name: "hit", type: "boolean" }], rules: [{ when: { [column.name]: when }, then: { hit: true } }], default: { hit: false } },
+  });
+  const hits = (column: any, when: any, value: any) => (evaluateDecisionTable(single(column, when), { [column.name]: value }).output as Record<string, any>).hit;
+  const n = { name: "n", type: "number" };
+
+  it("ranges honour inclusive and exclusive bounds", () => {
+    assert.equal(hits(n, { range: "[10..20]" }, 10), true);
+    assert.equal(hits(n, { range: "[10..20]" }, 20), true);
+    assert.equal(hits(n, { range: "(10..20)" }, 10), false);
+    assert.equal(hits(n, { range: "(10..20)" }, 20), false);
+    assert.equal(hits(n, { range: "[10..20)" }, 15), true);
+  });
+
+  it("ranges may be open-ended", () => {
+    assert.equal(hits(n, { range: "[100..]" }, 1e6), true);
+    assert.equal(hits(n, { range: "[..0)" }, -1), true);
+    assert.equal(hits(n, { range: "[..0)" }, 0), false);
+  });
+
+  it("date ranges compare calendar days", () => {
+    const d = { name: "d", type: "date" };
+    assert.equal(hits(d, { range: "[2024-01-01..2024-12-31]" }, "2024-12-31T23:59:00Z"), true);
+    assert.equal(hits(d, { range: "[2024-01-01..2024-12-31]" }, "2025-01-01"), false);
+  });
+
+  it("in and notIn coerce list items to the column type", () => {
+    assert.equal(hits(n, { in: ["1", "2"] }, 2), true);
+    assert.equal(hits(n, { in: [1, 2] }, 3), false);
+    assert.equal(hits({ name: "s", type: "text" }, { notIn: ["a", "b"] }, "c"), true);
+    assert.equal(hits({ name: "s", type: "text" }, { notIn: ["a", "b"] }, "a"), false);
+  });
+
+  it("comparisons combine, and '-' matches anything", () => {
+    assert.equal(hits(n, { gte: 1, lt: 5 }, 4.9), true);
+    assert.equal(hits(n, { gte: 1, lt: 5 }, 5), false);
+    assert.equal(hits(n, "-", 42), true);
+  });
+
+  it("a missing value matches only wildcard cells", () => {
+    assert.equal(hits(n, { in: [1] }, undefined), false);
+    assert.equal(hits(n, null, undefined), true);
+  });
+
+  it("rejects malformed conditions and inputs", () => {
+    assert.throws(() => hits(n, { range: "10-20" }, 1), (e: any) => e.code === "INVALID_CONDITION");
+    assert.throws(() => hits(n, { in: 1 }, 1), (e: any) => e.code === "INVALID_CONDITION");
+    assert.throws(() => hits(n, { between: [1, 2] }, 1), (e: any) => e.code === "INVALID_CONDITION");
+    assert.throws(() => hits(n, { gt: 1 }, "abc"), (e: any) => e.code === "INVALID_INPUT");
+    assert.throws(() => evaluateDecisionTable(table("first"), { claims: 0 }), (e: any) => e.code === "MISSING_INPUT");
+  });
+});
+
+describe("validateDecisionTable", () => {
+  it("accepts a well-formed table", () => {
+    assert.deepEqual(validateDecisionTable(table("priority").body), []);
+  });
+
+  it("reports unknown policies, columns and types", () => {
+    const problems = validateDecisionTable({
+      hitPolicy: "any",
+      inputs: [{ name: "a", type: "integer" }],
+      outputs: [{ name: "b", type: "text" }],
+      rules: [{ when: { c: 1 }, then: { d: 2 } }],
+      default: { e: 3 },
+    });
+    assert.deepEqual(problems, [
+      'unknown hitPolicy "any"',
+      'a: unknown type "integer"',
+      'rules[0].when: unknown input "c"',
+      'rules[0].then: unknown output "d"',
+      'default: unknown output "e"',
+    ]);
+  });
+
+  it("requires a priority list for the priority policy", () => {
+    const body = table("priority").body;
+    const problems = validateDecisionTable({ ...body, outputs: [{ name: "tier", type: "text" }] });
+    assert.deepEqual(problems, ["priority hit policy requires at least one output with a priority list"]);
+  });
+
+  it("refuses to evaluate an invalid body", () => {
+    const rule = table("first");
+    rule.body = { ...rule.body, hitPolicy: "any" };
+    assert.throws(() => evaluateDecisionTable(rule, { age: 1 }), (e: any) => e.code === "INVALID_RULE_BODY" && e.statusCode === 422);
+  });
+});
@@ -0,0 +1,25 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { RuleError } from "../src/rules/errors.js";
+import { evaluateNode } from "../src/rules/expression/interpreter.js";
+import { parseExpression } from "../src/rules/expression/parser.js";
+import { inferType } from "../src/rules/expression/typeCheck.js";
+
+test("calls to Object.prototype names are unknown functions", () => {
+  for (const name of ["toString", "constructor", "hasOwnProperty", "__proto__"]) {
+    assert.throws(
+      () => inferType(parseExpression(`${name}(1)`), new Map()),
+      (e: any) => e instanceof RuleError && e.code === "EXPRESSION_TYPE" && e.message.startsWith(`Unknown function "${name}"`)
+    );
+    assert.throws(
+      () => evaluateNode(parseExpression(`${name}(1)`), new Map()),
+      (e: any) => e instanceof RuleError && e.message === `Unknown function "${name}"`
+    );
+  }
+});
+
+test("builtins still type-check and evaluate", () => {
+  const ast = parseExpression("round(abs(-2.345), 2)");
+  assert.equal(inferType(ast, new Map()).kind, "number");
+  assert.equal(evaluateNode(ast, new Map()), 2.35);
+});
@@ -0,0 +1,155 @@
+import assert from "node:assert/strict";
+import { after, before, describe, it } from "node:test";
+import { diffJson } from "../src/registry/diff.js";
+import { startTestDatabase } from "./testDb.js";
+
+const database = await startTestDatabase();
+const registry = await import("../src/registry/ruleRegistry.js");
+const { pool } = await import("../src/db/index.js");
+
+const body = {
+  hitPolicy: "first",
+  inputs: [{ name: "score", type: "number", required: true }],
+  outputs: [{ name: "band", type: "text" }],
+  rules: [{ when: { score: { gte: 700 } }, then: { band: "prime" } }],
+  default: { band: "subprime" },
+};
+const withThreshold = (gte: number) => ({ ...body, rules: [{ when: { score: { gte } }, then: { band: "prime" } }] });
+
+const rejects = (promise: Promise<unknown>, code: string, statusCode?: number) =>
+  assert.rejects(promise, (e: any) => e.code === code && (statusCode === undefined || e.statusCode === statusCode));
+
+after(async () => {
+  await pool.end();
+  await database.stop();
+});
+
+describe("publishing", () => {
+  before(async () => {
+    await registry.publishRule({ ruleId: "credit_band", dsl: "decision-table", body, alias: "current", publishedBy: "ana" });
+  });
+
+  it("numbers versions from 1 and stores the body as published", async () => {
+    const { rule, testReport } = await registry.publishRule({
+      ruleId: "credit_band",
+      dsl: "decision-table",
+      body: withThreshold(680),
+      tests: [{ name: "edge", input: { score: 680 }, expected: { band: "prime" } }],
+    });
+    assert.equal(rule.version, 2);
+    assert.equal(testReport.status, "passed");
+    assert.equal(testReport.version, 2);
+    assert.deepEqual((await registry.getRuleVersion("credit_band", 1)).body, body);
+    assert.deepEqual((await registry.listVersions("credit_band")).map(v => v.version), [1, 2]);
+  });
+
+  it("never overwrites a published version", async () => {
+    await rejects(registry.publishRule({ ruleId: "credit_band", version: 1, dsl: "decision-table", body: withThreshold(1) }), "VERSION_EXISTS", 409);
+    assert.deepEqual((await registry.getRuleVersion("credit_band", 1)).body, body);
+  });
+
+  it("rejects bad ids, invalid bodies and failing test vectors without storing anything", async () => {
+    await rejects(registry.publishRule({ ruleId: "Credit Band", dsl: "decision-table", body }), "INVALID_RULE_ID");
+    await rejects(registry.publishRule({ ruleId: "broken", dsl: "decision-table", body: { ...body, hitPolicy: "any" } }), "INVALID_RULE_BODY", 422);
+    await rejects(
+      registry.publishRule({
+        ruleId: "broken",
+        dsl: "decision-table",
+        body,
+        tests: [{ name: "wrong", input: { score: 800 }, expected: { band: "subprime" } }],
+      }),
+      "RULE_TESTS_FAILED",
+      422
+    );
+    assert.deepEqual(await registry.listVersions("broken"), []);
+  });
+});
+
+describe("aliases", () => {
+  before(async () => {
+    await registry.publishRule({ ruleId: "limit_band", dsl: "decision-table", body, alias: "limit_band.current", publishedBy: "ana" });
+    await registry.publishRule({ ruleId: "limit_band", dsl: "decision-table", body: withThreshold(650) });
+  });
+
+  it("moves an alias and records who moved it and from where", async () => {
+    const moved = await registry.moveAlias("limit_band", "current", 2, "ben", "promote");
+    assert.deepEqual(moved, { ruleId: "limit_band", alias: "current", version: 2, changed: true, fromVersion: 1 });
+
+    const audit = await registry.getAliasAudit("limit_band");
+    assert.deepEqual(
+      audit.map(a => [a.alias, a.fromVersion, a.toVersion, a.actor, a.reason]),
+      [["current", 1, 2, "ben", "promote"], ["current", null, 1, "ana", "published v1"]]
+    );
+    const summary = (await registry.listRules()).find(r => r.ruleId === "limit_band");
+    assert.deepEqual(summary, { ruleId: "limit_band", dsl: "decision-table", versions: [1, 2], latestVersion: 2, aliases: { current: 2 } });
+  });
+
+  it("does not audit a move to the version the alias already points at", async () => {
+    const before = (await registry.getAliasAudit("limit_band")).length;
+    const moved = await registry.moveAlias("limit_band", "limit_band.current", 2);
+    assert.equal(moved.changed, false);
+    assert.equal((await registry.getAliasAudit("limit_band")).length, before);
+  });
+
+  it("refuses unknown versions and malformed alias names", async () => {
+    await rejects(registry.moveAlias("limit_band", "current", 9), "RULE_NOT_FOUND", 404);
+    await rejects(registry.moveAlias("limit_band", "Not Valid", 1), "INVALID_ALIAS");
+  });
+});
+
+describe("resolveRegistryRule", () => {
+  before(async () => {
+    await registry.publishRule({ ruleId: "fee_band", dsl: "decision-table", body, alias: "current" });
+    await registry.publishRule({ ruleId: "fee_band", dsl: "decision-table", body: withThreshold(600), alias: "canary" });
+    await registry.publishRule({ ruleId: "fee_band", dsl: "decision-table", body: withThreshold(500) });
+    await registry.publishRule({ ruleId: "unaliased", dsl: "decision-table", body });
+    await registry.publishRule({ ruleId: "unaliased", dsl: "decision-table", body: withThreshold(1) });
+  });
+
+  it("follows the current alias for a bare id and a named alias after the dot", async () => {
+    const current = await registry.resolveRegistryRule("fee_band");
+    assert.equal(current?.version, 1);
+    assert.equal(current?.alias, "fee_band.current");
+    assert.equal((await registry.resolveRegistryRule("fee_band.canary"))?.version, 2);
+  });
+
+  it("prefers an explicit version over any alias", async () => {
+    assert.equal((await registry.resolveRegistryRule("fee_band", 3))?.version, 3);
+    assert.equal(await registry.resolveRegistryRule("fee_band", 4), null);
+  });
+
+  it("falls back to the latest version only for a bare id", async () => {
+    assert.equal((await registry.resolveRegistryRule("unaliased"))?.version, 2);
+    assert.equal(await registry.resolveRegistryRule("unaliased.current"), null);
+    assert.equal(await registry.resolveRegistryRule("no_such_rule"), null);
+  });
+});
+
+describe("diffs", () => {
+  it("diffRuleVersions lists changed paths between two published versions", async () => {
+    await registry.publishRule({ ruleId: "diffed", dsl: "decision-table", body });
+    await registry.publishRule({
+      ruleId: "diffed",
+      dsl: "decision-table",
+      body: { ...withThreshold(720), default: undefined },
+      tests: [{ name: "prime", input: { score: 720 }, expected: { band: "prime" } }],
+    });
+    const diff = await registry.diffRuleVersions("diffed", 1, 2);
+    assert.equal(diff.identical, false);
+    assert.deepEqual(diff.changes, [
+      { path: "$.body.rules[0].when.score.gte", op: "changed", from: 700, to: 720 },
+      { path: "$.body.default", op: "removed", from: { band: "subprime" } },
+      { path: "$.tests[0]", op: "added", to: { name: "prime", input: { score: 720 }, expected: { band: "prime" } } },
+    ]);
+    assert.equal((await registry.diffRuleVersions("diffed", 1, 1)).identical, true);
+  });
+
+  it("diffJson reports additions, removals and changes by path", () => {
+    assert.deepEqual(diffJson({ a: 1, b: [1, 2], c: { d: "x" } }, { a: 2, b: [1], c: { d: "x", e: null } }), [
+      { path: "$.a", op: "changed", from: 1, to: 2 },
+      { path: "$.b[1]", op: "removed", from: 2 },
+      { path: "$.c.e", op: "added", to: null },
+    ]);
+    assert.deepEqual(diffJson([1], { 0: 1 }), [{ path: "$", op: "changed", from: [1], to: { 0: 1 } }]);
+  });
+});
@@ -0,0 +1,43 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { RuleError } from "../src/rules/errors.js";
+import { evaluateRule } from "../src/rules/evaluate.js";
+import { runRuleTests } from "../src/rules/testRunner.js";
+import { mergedSpecRules, resolveRule, ruleContext } from "../src/spec/ruleSource.js";
+
+// The installed domain packs: water extends ami and patches meter_reading (volume_m3 instead of kwh)
+describe("domain pack rules without a spec", () => {
+  const rules = mergedSpecRules();
+
+  it("pass their test vectors as the test-report endpoint runs them", () => {
+    const reports = rules.filter(r => r.tests?.length).map(rule => runRuleTests(rule, ruleContext(undefined, rule)));
+    for (const report of reports) {
+      assert.notEqual(report.status, "failed", `${report.ruleId}@${report.version}: ${JSON.stringify(report.results.filter(r => !r.passed))}`);
+    }
+    assert.equal(reports.find(r => r.ruleId === "water_charge")?.status, "passed");
+  });
+
+  it("evaluate against their own pack's entities", () => {
+    const rule = resolveRule(rules, "water_charge");
+    assert.deepEqual(evaluateRule(rule, { volume_m3: 45 }, ruleContext(undefined, rule)).output, { amount: 125 });
+  });
+});
+
+describe("domain pack rules with a spec", () => {
+  it("merge the spec's domains like the AI generator", () => {
+    const spec = { app: { name: "water utility", domain: ["ami", "water"] } };
+    const rule = resolveRule(mergedSpecRules(spec), "water_charge");
+    assert.deepEqual(evaluateRule(rule, { volume_m3: 5 }, ruleContext(spec, rule)).output, { amount: 7.5 });
+    const reading = ruleContext(spec).entities!.find(e => e.id === "meter_reading");
+    assert.ok(reading.fields.some((f: any) => f.name === "volume_m3"));
+    assert.ok(!reading.fields.some((f: any) => f.name === "kwh"));
+    assert.ok(!mergedSpecRules(spec).some(r => r.ruleId === "tou_energy_charge"));
+  });
+
+  it("reject domains without a pack", () => {
+    assert.throws(
+      () => mergedSpecRules({ app: { name: "x", domain: ["no_such_domain"] } }),
+      (e: any) => e instanceof RuleError && e.code === "DOMAIN_PACK_INVALID" && e.statusCode === 422
+    );
+  });
+});
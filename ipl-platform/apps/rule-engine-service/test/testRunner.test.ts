@@ -0,0 +1,75 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { runRuleTests } from "../src/rules/testRunner.js";
+import type { RuleDefinition, RuleTestVector } from "../src/rules/types.js";
+
+function discounts(hitPolicy: "first" | "collect", tests: RuleTestVector[]): RuleDefinition {
+  return {
+    ruleId: "discount",
+    version: 3,
+    dsl: "decision-table",
+    tests,
+    body: {
+      hitPolicy,
+      inputs: [{ name: "years", type: "number", required: true }],
+      outputs: [{ name: "rate", type: "number" }, { name: "reason", type: "text" }],
+      rules: [
+        { when: { years: { gte: 5 } }, then: { rate: 0.3, reason: "loyalty" } },
+        { when: { years: { gte: 1 } }, then: { rate: 0.1, reason: "returning" } },
+      ],
+      default: { rate: 0, reason: "new" },
+    },
+  };
+}
+
+test("equals compares the whole output, allowing for float rounding", () => {
+  const report = runRuleTests(discounts("first", [
+    { name: "loyal", input: { years: 6 }, expected: { rate: 0.1 + 0.2, reason: "loyalty" } },
+    { name: "new", input: { years: 0 }, expected: { rate: 0 } },
+  ]));
+  assert.equal(report.status, "failed");
+  assert.equal(report.total, 2);
+  assert.equal(report.failed, 1);
+  assert.deepEqual(report.results.map(r => [r.name, r.passed]), [["loyal", true], ["new", false]]);
+  assert.deepEqual(report.results[1].actual, { rate: 0, reason: "new" });
+});
+
+test("contains checks only the expected keys, and for collect outputs that every expected row appears", () => {
+  const report = runRuleTests(discounts("collect", [
+    { name: "keys", input: { years: 0 }, expected: { reason: "new" }, assert: "contains" },
+    { name: "rows", input: { years: 7 }, expected: [{ reason: "returning" }, { rate: 0.3 }], assert: "contains" },
+    { name: "one row", input: { years: 7 }, expected: { reason: "loyalty" }, assert: "contains" },
+    { name: "missing row", input: { years: 2 }, expected: [{ reason: "loyalty" }], assert: "contains" },
+  ]));
+  assert.deepEqual(report.results.map(r => [r.name, r.passed]), [["keys", true], ["rows", true], ["one row", true], ["missing row", false]]);
+  assert.equal(report.results[0].assert, "contains");
+});
+
+test("an evaluation error fails the case with the message", () => {
+  const report = runRuleTests(discounts("first", [{ name: "no input", input: {}, expected: { rate: 0 } }]));
+  assert.equal(report.status, "failed");
+  assert.equal(report.results[0].passed, false);
+  assert.match(report.results[0].error!, /years/);
+});
+
+test("an invalid body fails every case without running them", () => {
+  const rule = discounts("first", [{ name: "a", input: { years: 1 }, expected: {} }, { name: "b", input: { years: 2 }, expected: {} }]);
+  rule.body.outputs = [];
+  const report = runRuleTests(rule);
+  assert.equal(report.status, "failed");
+  assert.equal(report.failed, 2);
+  assert.deepEqual(report.results, []);
+  assert.match(report.reason!, /unknown output "rate"/);
+});
+
+test("rules in a dsl the engine cannot run are skipped", () => {
+  const report = runRuleTests({ ruleId: "legacy", version: 1, dsl: "drools", body: "rule x", tests: [{ name: "a", input: {}, expected: {} }] });
+  assert.equal(report.status, "skipped");
+  assert.equal(report.failed, 0);
+  assert.equal(report.total, 1);
+  assert.equal(report.reason, 'dsl "drools" is not executable by the rule engine');
+});
+
+test("a rule with no test vectors passes", () => {
+  assert.deepEqual(runRuleTests(discounts("first", [])), { ruleId: "discount", version: 3, status: "passed", total: 0, failed: 0, results: [] });
+});
@@ -1,21 +1,420 @@
 import fs from "fs";
+import path from "path";
+import { camelCase, slug, tsType } from "../spec.js";
+import type { FieldType, RuntimeEntity, RuntimeField, RuntimeModel } from "../spec.js";
 
-export function generateBackend(spec: any, dir: string) {
-  fs.mkdirSync(`${dir}/src`, { recursive: true });
+function write(dir: string, file: string, content: string) {
+  fs.mkdirSync(path.dirname(path.join(dir, file)), { recursive: true });
+  fs.writeFileSync(path.join(dir, file), content);
+}
 
-  const entities = spec.spec.dataModel.entities;
+// Values the generated API tests send; `next` differs from `sample` so updates are observable
+const sampleValues: Record<FieldType, { sample: unknown; next: unknown; invalid?: unknown }> = {
+  uuid: { sample: "00000000-0000-4000-8000-000000000001", next: "00000000-0000-4000-8000-000000000002", invalid: "not-a-uuid" },
+  text: { sample: "sample", next: "updated", invalid: 42 },
+  number: { sample: 1, next: 2, invalid: "one" },
+  date: { sample: "2024-01-01", next: "2024-02-01", invalid: "01/01/2024" },
+  datetime: { sample: "2024-01-01T00:00:00.000Z", next: "2024-02-01T00:00:00.000Z", invalid: "yesterday" },
+  boolean: { sample: true, next: false, invalid: "yes" },
+  json: { sample: { key: "value" }, next: { key: "updated" } },
+  reference: { sample: "ref-1", next: "ref-2", invalid: true }
+};
 
-  fs.writeFileSync(
-    `${dir}/src/server.ts`,
-`import express from "express";
-const app = express();
-app.use(express.json());
-${entities.map((e:any)=>`app.post("/api/${e.toLowerCase()}",(req,res)=>res.json(req.body));`).join("\n")}
-app.listen(3000);`
-  );
+const editable = (e: RuntimeEntity) => e.fields.filter(f => !f.generated);
+
+function fieldDefs(fields: RuntimeField[]) {
+  return fields.map(({ name, type, required, pk, unique, generated }) => `  ${JSON.stringify({ name, type, required, pk, unique, generated })}`).join(",\n");
+}
+
+const validationTs = `export type FieldType = "uuid" | "text" | "number" | "date" | "datetime" | "boolean" | "json" | "reference";
+
+export interface FieldDef {
+  name: string;
+  type: FieldType;
+  required: boolean;
+  pk: boolean;
+  unique: boolean;
+  // Set by the server (generated key, tenant_id); clients cannot write it
+  generated: boolean;
+}
+
+export type Row = Record<string, unknown>;
+
+const checks: Record<FieldType, (v: unknown) => boolean> = {
+  uuid: v => typeof v === "string" && /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(v),
+  text: v => typeof v === "string",
+  number: v => typeof v === "number" && Number.isFinite(v),
+  date: v => typeof v === "string" && /^\\d{4}-\\d{2}-\\d{2}$/.test(v) && !Number.isNaN(Date.parse(v)),
+  datetime: v => typeof v === "string" && !Number.isNaN(Date.parse(v)),
+  boolean: v => typeof v === "boolean",
+  json: () => true,
+  reference: v => (typeof v === "string" && v.length > 0) || typeof v === "number"
+};
+
+// "create" needs every required field, "update" takes a partial body; keys are read-only after create
+export function validate(fields: FieldDef[], input: unknown, mode: "create" | "update") {
+  const value: Row = {};
+  if (input === null || typeof input !== "object" || Array.isArray(input)) return { value, errors: ["body must be a JSON object"] };
+  const body = input as Row;
+  const known = new Set(fields.map(f => f.name));
+  const errors = Object.keys(body).filter(key => !known.has(key)).map(key => key + " is not a field");
+
+  for (const f of fields) {
+    const v = body[f.name];
+    if (v === undefined) {
+      if (mode === "create" && f.required && !f.generated) errors.push(f.name + " is required");
+    } else if (f.generated || (mode === "update" && f.pk)) {
+      errors.push(f.name + " is read-only");
+    } else if (v === null) {
+      if (f.required) errors.push(f.name + " is required");
+      else value[f.name] = null;
+    } else if (!checks[f.type](v)) {
+      errors.push(f.name + " must be a " + f.type);
+    } else {
+      value[f.name] = v;
+    }
+  }
+  return { value, errors };
+}
+`;
+
+const storeTs = `import { randomUUID } from "node:crypto";
+import type { FieldDef, Row } from "./validation.js";
+
+// Rows are kept per tenant; implement this interface over a database to persist them
+export interface Store {
+  list(tenant: string, entity: string, page: { limit: number; offset: number }): Promise<{ items: Row[]; total: number }>;
+  get(tenant: string, entity: string, id: string): Promise<Row | undefined>;
+  findBy(tenant: string, entity: string, field: string, value: unknown): Promise<Row | undefined>;
+  insert(tenant: string, entity: string, pk: FieldDef, row: Row): Promise<Row>;
+  update(tenant: string, entity: string, id: string, patch: Row): Promise<Row | undefined>;
+  remove(tenant: string, entity: string, id: string): Promise<boolean>;
+}
+
+export class MemoryStore implements Store {
+  private tables = new Map<string, Map<string, Row>>();
+  private sequences = new Map<string, number>();
+
+  private table(tenant: string, entity: string) {
+    const key = tenant + "/" + entity;
+    let table = this.tables.get(key);
+    if (!table) this.tables.set(key, table = new Map());
+    return table;
+  }
+
+  async list(tenant: string, entity: string, page: { limit: number; offset: number }) {
+    const rows = [...this.table(tenant, entity).values()];
+    return { items: rows.slice(page.offset, page.offset + page.limit), total: rows.length };
+  }
+
+  async get(tenant: string, entity: string, id: string) {
+    return this.table(tenant, entity).get(id);
+  }
+
+  async findBy(tenant: string, entity: string, field: string, value: unknown) {
+    return [...this.table(tenant, entity).values()].find(row => row[field] === value);
+  }
+
+  async insert(tenant: string, entity: string, pk: FieldDef, row: Row) {
+    if (pk.generated) {
+      const key = tenant + "/" + entity;
+      const next = (this.sequences.get(key) || 0) + 1;
+      this.sequences.set(key, next);
+      row = { [pk.name]: pk.type === "number" ? next : randomUUID(), ...row };
+    }
+    this.table(tenant, entity).set(String(row[pk.name]), row);
+    return row;
+  }
+
+  async update(tenant: string, entity: string, id: string, patch: Row) {
+    const table = this.table(tenant, entity);
+    const row = table.get(id);
+    if (!row) return undefined;
+    const next = { ...row, ...patch };
+    table.set(id, next);
+    return next;
+  }
+
+  async remove(tenant: string, entity: string, id: string) {
+    return this.table(tenant, entity).delete(id);
+  }
+}
+`;
+
+const crudTs = `import { Router } from "express";
+import type { NextFunction, Request, Response } from "express";
+import type { Store } from "./store.js";
+import { validate } from "./validation.js";
+import type { FieldDef, Row } from "./validation.js";
+
+type Handler = (req: Request, res: Response) => Promise<unknown>;
+const handle = (fn: Handler) => (req: Request, res: Response, next: NextFunction) => { fn(req, res).catch(next); };
+
+// List, read, create, update and delete rows of one entity, scoped to res.locals.tenantId
+export function crudRouter(entity: string, fields: FieldDef[], store: Store) {
+  const router = Router();
+  const pk = fields.find(f => f.pk)!;
+  const unique = fields.filter(f => f.unique && !f.pk);
+  const tenantField = fields.some(f => f.name === "tenant_id");
+
+  const duplicate = async (tenant: string, row: Row, id?: string) => {
+    for (const f of unique) {
+      if (row[f.name] === undefined || row[f.name] === null) continue;
+      const other = await store.findBy(tenant, entity, f.name, row[f.name]);
+      if (other && String(other[pk.name]) !== id) return f.name + " " + JSON.stringify(row[f.name]) + " already exists";
+    }
+    return null;
+  };
+
+  router.get("/", handle(async (req, res) => {
+    const limit = Math.min(Math.max(Number(req.query.limit) || 50, 1), 500);
+    const offset = Math.max(Number(req.query.offset) || 0, 0);
+    res.json(await store.list(res.locals.tenantId, entity, { limit, offset }));
+  }));
+
+  router.get("/:id", handle(async (req, res) => {
+    const row = await store.get(res.locals.tenantId, entity, req.params.id);
+    if (!row) return res.status(404).json({ error: entity + " " + req.params.id + " not found" });
+    res.json(row);
+  }));
+
+  router.post("/", handle(async (req, res) => {
+    const tenant: string = res.locals.tenantId;
+    const { value, errors } = validate(fields, req.body, "create");
+    if (errors.length) return res.status(400).json({ error: "Invalid " + entity, details: errors });
+    if (tenantField) value.tenant_id = tenant;
+    if (!pk.generated && await store.get(tenant, entity, String(value[pk.name]))) {
+      return res.status(409).json({ error: entity + " " + value[pk.name] + " already exists" });
+    }
+    const conflict = await duplicate(tenant, value);
+    if (conflict) return res.status(409).json({ error: conflict });
+    res.status(201).json(await store.insert(tenant, entity, pk, value));
+  }));
+
+  router.put("/:id", handle(async (req, res) => {
+    const tenant: string = res.locals.tenantId;
+    const { value, errors } = validate(fields, req.body, "update");
+    if (errors.length) return res.status(400).json({ error: "Invalid " + entity, details: errors });
+    if (!await store.get(tenant, entity, req.params.id)) return res.status(404).json({ error: entity + " " + req.params.id + " not found" });
+    const conflict = await duplicate(tenant, value, req.params.id);
+    if (conflict) return res.status(409).json({ error: conflict });
+    res.json(await store.update(tenant, entity, req.params.id, value));
+  }));
+
+  router.delete("/:id", handle(async (req, res) => {
+    if (!await store.remove(res.locals.tenantId, entity, req.params.id)) {
+      return res.status(404).json({ error: entity + " " + req.params.id + " not found" });
+    }
+    res.status(204).end();
+  }));
+
+  return router;
+}
+`;
 
-  fs.writeFileSync(
-    `${dir}/package.json`,
-    JSON.stringify({ scripts:{start:"node src/server.ts"},dependencies:{express:"^4"}},null,2)
+function tenantTs(model: RuntimeModel) {
+  return `import type { RequestHandler } from "express";
+
+// Tenancy model: ${model.tenancyModel}. Every /api request names its tenant and only sees that tenant's rows.
+export const tenantScope: RequestHandler = (req, res, next) => {
+  const tenant = req.header("x-tenant-id");
+  if (!tenant) {
+    res.status(400).json({ error: "X-Tenant-Id header is required" });
+    return;
+  }
+  res.locals.tenantId = tenant;
+  next();
+};
+`;
+}
+
+function modelTs(e: RuntimeEntity) {
+  const props = e.fields.map(f => {
+    const optional = !f.required && !f.generated;
+    const ref = f.references ? ` // references ${f.references}` : "";
+    return `  ${f.name}${optional ? "?" : ""}: ${tsType[f.type]}${optional ? " | null" : ""};${ref}`;
+  });
+  return `import type { FieldDef } from "../validation.js";
+
+export interface ${e.type} {
+${props.join("\n")}
+}
+
+export const ${camelCase(e.id)}Fields: FieldDef[] = [
+${fieldDefs(e.fields)}
+];
+`;
+}
+
+function routeTs(e: RuntimeEntity) {
+  const fields = `${camelCase(e.id)}Fields`;
+  return `import { crudRouter } from "../crud.js";
+import type { Store } from "../store.js";
+import { ${fields} } from "../models/${e.id}.js";
+
+export const ${camelCase(e.id)}Router = (store: Store) => crudRouter("${e.id}", ${fields}, store);
+`;
+}
+
+function appTs(model: RuntimeModel) {
+  return `import express from "express";
+import type { ErrorRequestHandler } from "express";
+import { MemoryStore } from "./store.js";
+import type { Store } from "./store.js";
+import { tenantScope } from "./tenant.js";
+${model.entities.map(e => `import { ${camelCase(e.id)}Router } from "./routes/${e.id}.js";`).join("\n")}
+
+const errorHandler: ErrorRequestHandler = (err, _req, res, _next) => {
+  const status = err.status || err.statusCode || 500;
+  res.status(status).json({ error: status === 500 ? "Internal server error" : err.message });
+};
+
+export function createApp(store: Store = new MemoryStore()) {
+  const app = express();
+  app.use(express.json());
+  app.get("/health", (_req, res) => { res.json({ ok: true }); });
+
+  app.use("/api", tenantScope);
+${model.entities.map(e => `  app.use("/api/${e.id}", ${camelCase(e.id)}Router(store));`).join("\n")}
+
+  app.use(errorHandler);
+  return app;
+}
+`;
+}
+
+const serverTs = `import { createApp } from "./app.js";
+
+const port = Number(process.env.PORT) || 3000;
+createApp().listen(port, () => console.log("API listening on " + port));
+`;
+
+function entityTests(e: RuntimeEntity) {
+  const sample: Record<string, unknown> = {};
+  for (const f of editable(e)) sample[f.name] = sampleValues[f.type].sample;
+  const pk = JSON.stringify(e.pk.name);
+  const updatable = editable(e).find(f => !f.pk);
+  const invalid = editable(e).find(f => sampleValues[f.type].invalid !== undefined);
+  const required = editable(e).find(f => f.required);
+
+  const lines = [
+    `describe("${e.id}", () => {`,
+    `  const sample = ${JSON.stringify(sample)};`,
+    ``,
+    `  it("creates, reads, lists, updates and deletes", async () => {`,
+    `    const created = await call("POST", "/api/${e.id}", sample);`,
+    `    assert.equal(created.status, 201, JSON.stringify(created.body));`,
+    `    const id = encodeURIComponent(String(created.body[${pk}]));`,
+    `    assert.equal((await call("GET", "/api/${e.id}/" + id)).status, 200);`,
+    `    assert.ok((await call("GET", "/api/${e.id}")).body.total >= 1);`
+  ];
+  if (updatable) {
+    lines.push(
+      `    const updated = await call("PUT", "/api/${e.id}/" + id, { ${updatable.name}: ${JSON.stringify(sampleValues[updatable.type].next)} });`,
+      `    assert.equal(updated.status, 200, JSON.stringify(updated.body));`,
+      `    assert.deepEqual(updated.body.${updatable.name}, ${JSON.stringify(sampleValues[updatable.type].next)});`
+    );
+  }
+  if (e.tenantField) lines.push(`    assert.equal(created.body.tenant_id, "tenant-a");`);
+  lines.push(
+    `    assert.equal((await call("DELETE", "/api/${e.id}/" + id)).status, 204);`,
+    `    assert.equal((await call("GET", "/api/${e.id}/" + id)).status, 404);`,
+    `  });`,
+    ``,
+    `  it("rejects invalid bodies", async () => {`,
+    `    assert.equal((await call("POST", "/api/${e.id}", { ...sample, not_a_field: 1 })).status, 400);`
   );
+  if (invalid) lines.push(`    assert.equal((await call("POST", "/api/${e.id}", { ...sample, ${invalid.name}: ${JSON.stringify(sampleValues[invalid.type].invalid)} })).status, 400);`);
+  if (required) lines.push(`    assert.equal((await call("POST", "/api/${e.id}", { ...sample, ${required.name}: undefined })).status, 400);`);
+  lines.push(
+    `  });`,
+    ``,
+    `  it("scopes rows to the tenant", async () => {`,
+    `    const created = await call("POST", "/api/${e.id}", ${e.pk.generated ? "sample" : `{ ...sample, ${e.pk.name}: "tenant-scoped" }`});`,
+    `    assert.equal(created.status, 201, JSON.stringify(created.body));`,
+    `    const id = encodeURIComponent(String(created.body[${pk}]));`,
+    `    assert.equal((await call("GET", "/api/${e.id}/" + id, undefined, "tenant-b")).status, 404);`,
+    `    assert.equal((await call("GET", "/api/${e.id}", undefined, "tenant-b")).body.total, 0);`,
+    `  });`,
+    `});`
+  );
+  return lines.join("\n");
+}
+
+function testsTs(model: RuntimeModel) {
+  return `import { after, before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import type { Server } from "node:http";
+import type { AddressInfo } from "node:net";
+import { createApp } from "../src/app.js";
+
+let server: Server;
+let base = "";
+
+before(async () => {
+  server = createApp().listen(0);
+  await new Promise(resolve => server.once("listening", resolve));
+  base = "http://127.0.0.1:" + (server.address() as AddressInfo).port;
+});
+
+after(() => { server.close(); });
+
+async function call(method: string, path: string, body?: unknown, tenant = "tenant-a") {
+  const res = await fetch(base + path, {
+    method,
+    headers: { "content-type": "application/json", "x-tenant-id": tenant },
+    body: body === undefined ? undefined : JSON.stringify(body)
+  });
+  return { status: res.status, body: res.status === 204 ? null : await res.json() };
+}
+
+it("requires a tenant", async () => {
+  const res = await fetch(base + "/api/${model.entities[0].id}");
+  assert.equal(res.status, 400);
+});
+
+${model.entities.map(entityTests).join("\n\n")}
+`;
+}
+
+export function generateBackend(model: RuntimeModel, dir: string) {
+  write(dir, "package.json", JSON.stringify({
+    name: `${slug(model.appName)}-api`,
+    private: true,
+    type: "module",
+    scripts: {
+      dev: "tsx watch src/server.ts",
+      build: "tsc",
+      start: "node dist/src/server.js",
+      test: "tsc && node --test dist/test/*.test.js"
+    },
+    dependencies: { express: "^4.21.0" },
+    devDependencies: { "@types/express": "^4.17.21", "@types/node": "^20.11.0", tsx: "^4.7.0", typescript: "^5.4.0" }
+  }, null, 2));
+
+  write(dir, "tsconfig.json", JSON.stringify({
+    compilerOptions: {
+      target: "ES2022",
+      module: "NodeNext",
+      moduleResolution: "NodeNext",
+      outDir: "dist",
+      rootDir: ".",
+      strict: true,
+      esModuleInterop: true,
+      skipLibCheck: true
+    },
+    include: ["src", "test"]
+  }, null, 2));
+
+  write(dir, "src/validation.ts", validationTs);
+  write(dir, "src/store.ts", storeTs);
+  write(dir, "src/crud.ts", crudTs);
+  write(dir, "src/tenant.ts", tenantTs(model));
+  for (const e of model.entities) {
+    write(dir, `src/models/${e.id}.ts`, modelTs(e));
+    write(dir, `src/routes/${e.id}.ts`, routeTs(e));
+  }
+  write(dir, "src/app.ts", appTs(model));
+  write(dir, "src/server.ts", serverTs);
+  write(dir, "test/api.test.ts", testsTs(model));
 }
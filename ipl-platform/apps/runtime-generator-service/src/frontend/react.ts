@@ -1,19 +1,492 @@
 import fs from "fs";
+import path from "path";
+import { camelCase, slug, tsType } from "../spec.js";
+import type { RuntimeEntity, RuntimeModel } from "../spec.js";
 
-export function generateFrontend(spec:any, dir:string) {
-  fs.mkdirSync(`${dir}/src`, { recursive: true });
+function write(dir: string, file: string, content: string) {
+  fs.mkdirSync(path.dirname(path.join(dir, file)), { recursive: true });
+  fs.writeFileSync(path.join(dir, file), content);
+}
+
+// Entity and app names are free text; keep them out of JSX expressions and string literals
+const text = (s: string) => s.replace(/[{}<>"\\`$]/g, "");
+const label = (name: string) => name.replace(/_/g, " ").replace(/^./, c => c.toUpperCase());
+
+// Columns shown in lists and details; tenant_id is implied by the selected tenant
+const visible = (e: RuntimeEntity) => e.fields.filter(f => f.name !== "tenant_id");
+const formFields = (e: RuntimeEntity) => e.fields.filter(f => !f.generated);
+
+const indexHtml = (model: RuntimeModel) => `<!doctype html>
+<html lang="en">
+  <head>
+    <meta charset="UTF-8" />
+    <meta name="viewport" content="width=device-width, initial-scale=1.0" />
+    <title>${model.appName.replace(/</g, "&lt;")}</title>
+    <style>
+      body { font-family: system-ui, sans-serif; margin: 0; color: #0f172a; }
+      header.app { display: flex; gap: 16px; align-items: center; padding: 12px 24px; background: #0f172a; color: #e2e8f0; }
+      header.app a { color: #e2e8f0; }
+      main { padding: 24px; }
+      table { border-collapse: collapse; width: 100%; }
+      th, td { text-align: left; padding: 6px 10px; border-bottom: 1px solid #e2e8f0; }
+      label { display: block; margin-bottom: 12px; }
+      input, textarea { display: block; margin-top: 4px; padding: 6px; min-width: 280px; }
+      .error { color: #b91c1c; }
+      .actions { display: flex; gap: 12px; align-items: center; margin: 12px 0; }
+    </style>
+  </head>
+  <body>
+    <div id="root"></div>
+    <script type="module" src="/src/main.tsx"></script>
+  </body>
+</html>
+`;
+
+const viteConfig = `import { defineConfig } from "vite";
+import react from "@vitejs/plugin-react";
+
+// The generated API listens on 3000 by default
+export default defineConfig({
+  plugins: [react()],
+  server: { proxy: { "/api": process.env.VITE_API_URL || "http://localhost:3000" } }
+});
+`;
+
+const mainTsx = `import { StrictMode } from "react";
+import { createRoot } from "react-dom/client";
+import App from "./App";
+
+createRoot(document.getElementById("root")!).render(
+  <StrictMode>
+    <App />
+  </StrictMode>
+);
+`;
+
+const apiTs = `export interface Page<T> {
+  items: T[];
+  total: number;
+}
+
+export class ApiError extends Error {
+  details: string[];
+
+  constructor(message: string, details: string[] = []) {
+    super(message);
+    this.details = details;
+  }
+}
+
+// Sent as X-Tenant-Id; the API only returns the selected tenant's rows
+export const getTenant = () => localStorage.getItem("tenantId") || "default";
+export const setTenant = (tenant: string) => localStorage.setItem("tenantId", tenant);
+
+export async function api<T>(path: string, method = "GET", body?: unknown): Promise<T> {
+  const res = await fetch("/api" + path, {
+    method,
+    headers: { "Content-Type": "application/json", "X-Tenant-Id": getTenant() },
+    body: body === undefined ? undefined : JSON.stringify(body)
+  });
+  if (res.status === 204) return undefined as T;
+  const data = await res.json();
+  if (!res.ok) throw new ApiError(data.error || res.statusText, data.details || []);
+  return data as T;
+}
+`;
+
+const formTs = `export type FieldType = "uuid" | "text" | "number" | "date" | "datetime" | "boolean" | "json" | "reference";
+
+export interface FieldMeta {
+  name: string;
+  label: string;
+  type: FieldType;
+  required: boolean;
+}
+
+export type FormValues = Record<string, string | boolean>;
+
+export function display(value: unknown) {
+  if (value === null || value === undefined) return "";
+  return typeof value === "object" ? JSON.stringify(value) : String(value);
+}
+
+export function toForm(fields: FieldMeta[], row?: Record<string, unknown>): FormValues {
+  const values: FormValues = {};
+  for (const f of fields) {
+    const v = row?.[f.name];
+    if (f.type === "boolean") values[f.name] = v === true;
+    else if (v === null || v === undefined) values[f.name] = "";
+    else if (f.type === "json") values[f.name] = JSON.stringify(v, null, 2);
+    // datetime-local inputs have no seconds or zone
+    else if (f.type === "datetime") values[f.name] = new Date(String(v)).toISOString().slice(0, 16);
+    else values[f.name] = String(v);
+  }
+  return values;
+}
+
+// Empty inputs are left out on create and cleared (null) on update; the API validates the rest
+export function fromForm(fields: FieldMeta[], values: FormValues, mode: "create" | "update") {
+  const body: Record<string, unknown> = {};
+  const errors: string[] = [];
+  for (const f of fields) {
+    const raw = values[f.name];
+    if (typeof raw === "boolean") {
+      body[f.name] = raw;
+    } else if (raw.trim() === "") {
+      if (mode === "update") body[f.name] = null;
+    } else if (f.type === "number") {
+      const n = Number(raw);
+      if (Number.isNaN(n)) errors.push(f.label + " must be a number");
+      else body[f.name] = n;
+    } else if (f.type === "json") {
+      try {
+        body[f.name] = JSON.parse(raw);
+      } catch {
+        errors.push(f.label + " must be valid JSON");
+      }
+    } else if (f.type === "datetime") {
+      body[f.name] = new Date(raw).toISOString();
+    } else {
+      body[f.name] = raw;
+    }
+  }
+  return { body, errors };
+}
+`;
+
+const fieldInputTsx = `import type { FieldMeta, FormValues } from "../form";
+
+const inputTypes: Record<string, string> = { number: "number", date: "date", datetime: "datetime-local" };
+
+export default function FieldInput({ field, values, onChange }: { field: FieldMeta; values: FormValues; onChange: (values: FormValues) => void }) {
+  const value = values[field.name];
+  const set = (v: string | boolean) => onChange({ ...values, [field.name]: v });
+
+  if (field.type === "boolean") {
+    return (
+      <label>
+        <input type="checkbox" checked={value === true} onChange={e => set(e.target.checked)} style={{ display: "inline", minWidth: 0 }} /> {field.label}
+      </label>
+    );
+  }
+  return (
+    <label>
+      {field.label}{field.required ? " *" : ""}
+      {field.type === "json"
+        ? <textarea rows={4} value={String(value)} onChange={e => set(e.target.value)} />
+        : <input type={inputTypes[field.type] || "text"} step={field.type === "number" ? "any" : undefined} required={field.required} value={String(value)} onChange={e => set(e.target.value)} />}
+    </label>
+  );
+}
+`;
+
+function modelsTs(model: RuntimeModel) {
+  const blocks = model.entities.map(e => {
+    const props = e.fields.map(f => {
+      const optional = !f.required && !f.generated;
+      return `  ${f.name}${optional ? "?" : ""}: ${tsType[f.type]}${optional ? " | null" : ""};`;
+    });
+    const meta = (fields: RuntimeEntity["fields"]) =>
+      fields.map(f => `  ${JSON.stringify({ name: f.name, label: label(f.name), type: f.type, required: f.required })}`).join(",\n");
+    const editable = formFields(e).filter(f => !f.pk);
+    return `export interface ${e.type} {
+${props.join("\n")}
+}
+
+export const ${camelCase(e.id)}Columns: FieldMeta[] = [
+${meta(visible(e))}
+];
+
+// Form inputs on create; keys cannot change afterwards
+export const ${camelCase(e.id)}CreateFields: FieldMeta[] = [
+${meta(formFields(e))}
+];
 
-  fs.writeFileSync(
-    `${dir}/src/App.tsx`,
-`export default ()=>(
-  <div>
-    <h1>${spec.spec.app.name}</h1>
-  </div>
-);`
+export const ${camelCase(e.id)}EditFields: FieldMeta[] = [
+${meta(editable)}
+];`;
+  });
+  return `import type { FieldMeta } from "./form";
+
+${blocks.join("\n\n")}
+`;
+}
+
+function listTsx(e: RuntimeEntity) {
+  const name = text(e.name);
+  const columns = `${camelCase(e.id)}Columns`;
+  return `import { useEffect, useState } from "react";
+import { api } from "../../api";
+import type { Page } from "../../api";
+import { display } from "../../form";
+import { ${columns} } from "../../models";
+import type { ${e.type} } from "../../models";
+
+export default function ${e.type}List() {
+  const [page, setPage] = useState<Page<${e.type}> | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    api<Page<${e.type}>>("/${e.id}?limit=100").then(
+      data => { if (!cancelled) setPage(data); },
+      err => { if (!cancelled) setError(err.message); }
+    );
+    return () => { cancelled = true; };
+  }, []);
+
+  return (
+    <section>
+      <div className="actions">
+        <h2>${name}</h2>
+        <a href="#/${e.id}/new">New ${name.toLowerCase()}</a>
+      </div>
+      {error && <p className="error">{error}</p>}
+      {page && (
+        <table>
+          <thead>
+            <tr>{${columns}.map(c => <th key={c.name}>{c.label}</th>)}</tr>
+          </thead>
+          <tbody>
+            {page.items.map(row => (
+              <tr key={String(row.${e.pk.name})}>
+                {${columns}.map((c, i) => (
+                  <td key={c.name}>
+                    {i === 0
+                      ? <a href={"#/${e.id}/" + encodeURIComponent(String(row.${e.pk.name}))}>{display(row[c.name as keyof ${e.type}]) || "(open)"}</a>
+                      : display(row[c.name as keyof ${e.type}])}
+                  </td>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+      {page && <p>{page.total} total</p>}
+    </section>
+  );
+}
+`;
+}
+
+function detailTsx(e: RuntimeEntity) {
+  const name = text(e.name);
+  const columns = `${camelCase(e.id)}Columns`;
+  return `import { useEffect, useState } from "react";
+import { api } from "../../api";
+import { display } from "../../form";
+import { ${columns} } from "../../models";
+import type { ${e.type} } from "../../models";
+
+export default function ${e.type}Detail({ id }: { id: string }) {
+  const [row, setRow] = useState<${e.type} | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    api<${e.type}>("/${e.id}/" + encodeURIComponent(id)).then(
+      data => { if (!cancelled) setRow(data); },
+      err => { if (!cancelled) setError(err.message); }
+    );
+    return () => { cancelled = true; };
+  }, [id]);
+
+  const remove = async () => {
+    if (!confirm("Delete this ${name.toLowerCase()}?")) return;
+    try {
+      await api("/${e.id}/" + encodeURIComponent(id), "DELETE");
+      window.location.hash = "#/${e.id}";
+    } catch (err) {
+      setError((err as Error).message);
+    }
+  };
+
+  return (
+    <section>
+      <h2>${name} {id}</h2>
+      {error && <p className="error">{error}</p>}
+      {row && (
+        <dl>
+          {${columns}.map(c => (
+            <div key={c.name}>
+              <dt><strong>{c.label}</strong></dt>
+              <dd>{display(row[c.name as keyof ${e.type}])}</dd>
+            </div>
+          ))}
+        </dl>
+      )}
+      <div className="actions">
+        <a href="#/${e.id}">Back</a>
+        {row && <a href={"#/${e.id}/" + encodeURIComponent(id) + "/edit"}>Edit</a>}
+        {row && <button onClick={remove}>Delete</button>}
+      </div>
+    </section>
+  );
+}
+`;
+}
+
+function formTsx(e: RuntimeEntity) {
+  const name = text(e.name);
+  const create = `${camelCase(e.id)}CreateFields`;
+  const edit = `${camelCase(e.id)}EditFields`;
+  return `import { useEffect, useState } from "react";
+import type { FormEvent } from "react";
+import { api, ApiError } from "../../api";
+import FieldInput from "../../components/FieldInput";
+import { fromForm, toForm } from "../../form";
+import type { FormValues } from "../../form";
+import { ${create}, ${edit} } from "../../models";
+import type { ${e.type} } from "../../models";
+
+// Without an id the form creates a ${name.toLowerCase()}; with one it edits it
+export default function ${e.type}Form({ id }: { id?: string }) {
+  const fields = id ? ${edit} : ${create};
+  const [values, setValues] = useState<FormValues>(() => toForm(fields));
+  const [errors, setErrors] = useState<string[]>([]);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (!id) return;
+    let cancelled = false;
+    api<${e.type}>("/${e.id}/" + encodeURIComponent(id)).then(
+      row => { if (!cancelled) setValues(toForm(${edit}, { ...row })); },
+      err => { if (!cancelled) setErrors([err.message]); }
+    );
+    return () => { cancelled = true; };
+  }, [id]);
+
+  const submit = async (ev: FormEvent) => {
+    ev.preventDefault();
+    const { body, errors: invalid } = fromForm(fields, values, id ? "update" : "create");
+    setErrors(invalid);
+    if (invalid.length) return;
+    setSaving(true);
+    try {
+      const saved = id
+        ? await api<${e.type}>("/${e.id}/" + encodeURIComponent(id), "PUT", body)
+        : await api<${e.type}>("/${e.id}", "POST", body);
+      window.location.hash = "#/${e.id}/" + encodeURIComponent(String(saved.${e.pk.name}));
+    } catch (err) {
+      setErrors(err instanceof ApiError && err.details.length ? err.details : [(err as Error).message]);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <form onSubmit={submit}>
+      <h2>{id ? "Edit ${name.toLowerCase()} " + id : "New ${name.toLowerCase()}"}</h2>
+      {errors.map(err => <p key={err} className="error">{err}</p>)}
+      {fields.map(f => <FieldInput key={f.name} field={f} values={values} onChange={setValues} />)}
+      <div className="actions">
+        <button type="submit" disabled={saving}>{saving ? "Saving..." : "Save"}</button>
+        <a href={id ? "#/${e.id}/" + encodeURIComponent(id) : "#/${e.id}"}>Cancel</a>
+      </div>
+    </form>
   );
+}
+`;
+}
+
+function appTsx(model: RuntimeModel) {
+  const imports = model.entities.flatMap(e => ["List", "Detail", "Form"].map(p => `import ${e.type}${p} from "./pages/${e.id}/${p}";`));
+  const cases = model.entities.map(e =>
+    `    case "${e.id}":
+      return !id ? <${e.type}List /> : id === "new" ? <${e.type}Form /> : action === "edit" ? <${e.type}Form id={id} /> : <${e.type}Detail id={id} />;`);
+  return `import { useEffect, useState } from "react";
+import { getTenant, setTenant } from "./api";
+${imports.join("\n")}
+
+const entities = ${JSON.stringify(model.entities.map(e => ({ id: e.id, name: e.name })))};
+
+// Routes: #/<entity>, #/<entity>/new, #/<entity>/<id>, #/<entity>/<id>/edit
+function page(hash: string) {
+  const [entity, id, action] = hash.replace(/^#\\/?/, "").split("/").map(decodeURIComponent);
+  switch (entity) {
+${cases.join("\n")}
+    default:
+      return <p>Choose an entity above.</p>;
+  }
+}
+
+export default function App() {
+  const [hash, setHash] = useState(window.location.hash);
+  const [tenant, setTenantState] = useState(getTenant());
+
+  useEffect(() => {
+    const onChange = () => setHash(window.location.hash);
+    window.addEventListener("hashchange", onChange);
+    return () => window.removeEventListener("hashchange", onChange);
+  }, []);
 
-  fs.writeFileSync(
-    `${dir}/package.json`,
-    JSON.stringify({ scripts:{dev:"vite"} },null,2)
+  const changeTenant = (value: string) => {
+    setTenant(value);
+    setTenantState(value);
+  };
+
+  return (
+    <>
+      <header className="app">
+        <strong>${text(model.appName)}</strong>
+        {entities.map(e => <a key={e.id} href={"#/" + e.id}>{e.name}</a>)}
+        <label style={{ marginLeft: "auto", marginBottom: 0 }}>
+          Tenant <input value={tenant} onChange={e => changeTenant(e.target.value)} style={{ display: "inline", minWidth: 0 }} />
+        </label>
+      </header>
+      <main key={hash + "|" + tenant}>{page(hash)}</main>
+    </>
   );
 }
+`;
+}
+
+export function generateFrontend(model: RuntimeModel, dir: string) {
+  write(dir, "package.json", JSON.stringify({
+    name: `${slug(model.appName)}-web`,
+    private: true,
+    type: "module",
+    scripts: {
+      dev: "vite",
+      build: "tsc && vite build",
+      preview: "vite preview",
+      test: "npm run build"
+    },
+    dependencies: { react: "^19.2.0", "react-dom": "^19.2.0" },
+    devDependencies: {
+      "@types/react": "^19.2.5",
+      "@types/react-dom": "^19.2.3",
+      "@vitejs/plugin-react": "^5.1.1",
+      typescript: "~5.9.3",
+      vite: "^7.2.4"
+    }
+  }, null, 2));
+
+  write(dir, "tsconfig.json", JSON.stringify({
+    compilerOptions: {
+      target: "ES2022",
+      lib: ["ES2022", "DOM", "DOM.Iterable"],
+      module: "ESNext",
+      moduleResolution: "bundler",
+      jsx: "react-jsx",
+      strict: true,
+      noEmit: true,
+      skipLibCheck: true
+    },
+    include: ["src"]
+  }, null, 2));
+
+  write(dir, "index.html", indexHtml(model));
+  write(dir, "vite.config.ts", viteConfig);
+  write(dir, "src/main.tsx", mainTsx);
+  write(dir, "src/api.ts", apiTs);
+  write(dir, "src/form.ts", formTs);
+  write(dir, "src/components/FieldInput.tsx", fieldInputTsx);
+  write(dir, "src/models.ts", modelsTs(model));
+  for (const e of model.entities) {
+    write(dir, `src/pages/${e.id}/List.tsx`, listTsx(e));
+    write(dir, `src/pages/${e.id}/Detail.tsx`, detailTsx(e));
+    write(dir, `src/pages/${e.id}/Form.tsx`, formTsx(e));
+  }
+  write(dir, "src/App.tsx", appTsx(model));
+}
@@ -3,17 +3,19 @@ import path from "path";
 import os from "os";
 import { generateBackend } from "./backend/express.js";
 import { generateFrontend } from "./frontend/react.js";
+import { runtimeModel } from "./spec.js";
 import { zipFolder } from "./zip.js";
 
 export async function generateRuntime(spec: any) {
+  const model = runtimeModel(spec);
   const base = fs.mkdtempSync(path.join(os.tmpdir(), "ipl-"));
   const out = path.join(base, "generated");
 
-  generateBackend(spec, path.join(out, "backend"));
-  generateFrontend(spec, path.join(out, "frontend"));
+  generateBackend(model, path.join(out, "backend"));
+  generateFrontend(model, path.join(out, "frontend"));
 
   const zip = `${out}.zip`;
   await zipFolder(out, zip);
 
-  return { ok: true, zip };
+  return { ok: true, dir: out, zip, entities: model.entities.map(e => e.id) };
 }
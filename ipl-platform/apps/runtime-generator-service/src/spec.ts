@@ -0,0 +1,77 @@
+export type FieldType = "uuid" | "text" | "number" | "date" | "datetime" | "boolean" | "json" | "reference";
+
+export interface RuntimeField {
+  name: string;
+  type: FieldType;
+  required: boolean;
+  pk: boolean;
+  unique: boolean;
+  references?: string;
+  // Filled in by the server (generated pk, tenant_id), never required from clients
+  generated: boolean;
+}
+
+export interface RuntimeEntity {
+  id: string;
+  name: string;
+  // PascalCase TypeScript name, e.g. meter_reading -> MeterReading
+  type: string;
+  fields: RuntimeField[];
+  pk: RuntimeField;
+  tenantField: boolean;
+}
+
+export interface RuntimeModel {
+  appName: string;
+  tenancyModel: "shared-db" | "schema-per-tenant" | "db-per-tenant";
+  entities: RuntimeEntity[];
+}
+
+const FIELD_TYPES: FieldType[] = ["uuid", "text", "number", "date", "datetime", "boolean", "json", "reference"];
+
+export const pascalCase = (id: string) => id.split(/[^A-Za-z0-9]+/).filter(Boolean).map(p => p[0].toUpperCase() + p.slice(1)).join("");
+export const slug = (name: string) => name.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-|-$/g, "") || "app";
+export const camelCase = (id: string) => { const p = pascalCase(id); return p[0].toLowerCase() + p.slice(1); };
+
+export const tsType: Record<FieldType, string> = {
+  uuid: "string",
+  text: "string",
+  number: "number",
+  date: "string",
+  datetime: "string",
+  boolean: "boolean",
+  json: "unknown",
+  reference: "string | number"
+};
+
+// Accepts a canonical spec (validated by ai-generator-service) or the `{ spec }` envelope its endpoints return
+export function runtimeModel(input: any): RuntimeModel {
+  const spec = input?.spec?.dataModel ? input.spec : input;
+  if (!spec?.app?.name) throw new Error("spec.app.name is required");
+
+  const entities = (spec.dataModel?.entities || []).map((e: any): RuntimeEntity => {
+    if (!e?.id || !Array.isArray(e.fields) || !e.fields.length) {
+      throw new Error(`Entity ${e?.id ?? JSON.stringify(e)} needs an id and fields; upgrade the spec to the current specVersion`);
+    }
+    const fields: RuntimeField[] = e.fields.map((f: any) => {
+      if (!FIELD_TYPES.includes(f.type)) throw new Error(`${e.id}.${f.name} has unsupported type ${f.type}`);
+      return { name: f.name, type: f.type, required: !!f.required, pk: !!f.pk, unique: !!f.unique, references: f.references, generated: false };
+    });
+
+    let pk = fields.find(f => f.pk);
+    if (!pk) {
+      pk = { name: "id", type: "uuid", required: true, pk: true, unique: true, generated: true };
+      fields.unshift(pk);
+    }
+    // uuid and number keys are assigned on insert; text keys come from the client
+    pk.generated = pk.type === "uuid" || pk.type === "number";
+    pk.required = true;
+    const tenant = fields.find(f => f.name === "tenant_id");
+    if (tenant) tenant.generated = true;
+
+    return { id: e.id, name: e.name || e.id, type: pascalCase(e.id), fields, pk, tenantField: !!tenant };
+  });
+  if (!entities.length) throw new Error("spec.dataModel.entities is empty");
+
+  return { appName: spec.app.name, tenancyModel: spec.app.tenancyModel || "shared-db", entities };
+}
@@ -1,10 +1,16 @@
 import archiver from "archiver";
 import fs from "fs";
 
-export function zipFolder(src:string,out:string){
-  const a=archiver("zip");
-  const s=fs.createWriteStream(out);
-  a.pipe(s);
-  a.directory(src,false);
-  a.finalize();
+// Resolves once the archive is fully written to `out`
+export function zipFolder(src: string, out: string): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const archive = archiver("zip");
+    const stream = fs.createWriteStream(out);
+    stream.on("close", () => resolve());
+    stream.on("error", reject);
+    archive.on("error", reject);
+    archive.pipe(stream);
+    archive.directory(src, false);
+    archive.finalize().catch(reject);
+  });
 }
@@ -1,11 +1,15 @@
-import { useState } from 'react';
+import { useCallback, useEffect, useState } from 'react';
+
+const API_BASE = window.location.hostname === 'localhost' ? 'http://localhost:8080' : '';
 
 interface IntegrationPanelProps {
   domain: string;
   tables?: any[];
+  projectId?: string;
 }
 
 interface WebhookConfig {
+  id: number;
   name: string;
   url: string;
   events: string[];
@@ -13,367 +17,223 @@ interface WebhookConfig {
   enabled: boolean;
 }
 
-export default function IntegrationPanel({ domain, tables }: IntegrationPanelProps) {
-  const [activeTab, setActiveTab] = useState<'webhooks' | 'graphql' | 'messagequeue'>('webhooks');
-  
-  const [webhooks, setWebhooks] = useState<WebhookConfig[]>([]);
-  const [newWebhook, setNewWebhook] = useState({ name: '', url: '', events: [] as string[], secret: '' });
-  
-  const [graphqlSchema, setGraphqlSchema] = useState('');
-  const [generatingGraphQL, setGeneratingGraphQL] = useState(false);
-  
-  const [mqProvider, setMqProvider] = useState<'rabbitmq' | 'kafka' | 'redis' | 'sqs'>('rabbitmq');
-  const [mqConfig, setMqConfig] = useState('');
-  const [generatingMQ, setGeneratingMQ] = useState(false);
-
-  const availableEvents = [
-    'user.created', 'user.updated', 'user.deleted',
-    'order.created', 'order.updated', 'order.completed', 'order.cancelled',
-    'payment.success', 'payment.failed', 'payment.refunded',
-    'item.created', 'item.updated', 'item.deleted',
-    'notification.sent', 'alert.triggered'
-  ];
-
-  const addWebhook = () => {
-    if (!newWebhook.name || !newWebhook.url) return;
-    setWebhooks([...webhooks, { 
-      ...newWebhook, 
-      secret: 'whsec_' + Math.random().toString(36).substring(2, 15),
-      enabled: true 
-    }]);
-    setNewWebhook({ name: '', url: '', events: [], secret: '' });
-  };
-
-  const toggleWebhook = (index: number) => {
-    const updated = [...webhooks];
-    updated[index].enabled = !updated[index].enabled;
-    setWebhooks(updated);
-  };
-
-  const removeWebhook = (index: number) => {
-    setWebhooks(webhooks.filter((_, i) => i !== index));
-  };
-
-  const generateGraphQLSchema = async () => {
-    setGeneratingGraphQL(true);
-    await new Promise(r => setTimeout(r, 1000));
-    
-    const tableSchemas = (tables || []).map(table => {
-      const fields = table.columns.map((col: any) => {
-        let gqlType = 'String';
-        if (col.type.includes('int') || col.type.includes('serial')) gqlType = 'Int';
-        if (col.type.includes('float') || col.type.includes('decimal')) gqlType = 'Float';
-        if (col.type.includes('bool')) gqlType = 'Boolean';
-        if (col.type.includes('timestamp') || col.type.includes('date')) gqlType = 'DateTime';
-        
-        const required = col.primary || col.name === 'id' ? '!' : '';
-        return `  ${col.name}: ${gqlType}${required}`;
-      }).join('\n');
-      
-      return `type ${table.name.charAt(0).toUpperCase() + table.name.slice(1)} {
-${fields}
-}`;
-    }).join('\n\n');
-
-    const queries = (tables || []).map(table => {
-      const typeName = table.name.charAt(0).toUpperCase() + table.name.slice(1);
-      return `  ${table.name}(id: ID!): ${typeName}
-  ${table.name}s(limit: Int, offset: Int): [${typeName}!]!`;
-    }).join('\n');
-
-    const inputTypes = (tables || []).map(table => {
-      const typeName = table.name.charAt(0).toUpperCase() + table.name.slice(1);
-      const fields = table.columns
-        .filter((col: any) => !col.primary && col.name !== 'id' && !col.name.includes('created') && !col.name.includes('updated'))
-        .map((col: any) => {
-          let gqlType = 'String';
-          if (col.type.includes('int') || col.type.includes('serial')) gqlType = 'Int';
-          if (col.type.includes('float') || col.type.includes('decimal')) gqlType = 'Float';
-          if (col.type.includes('bool')) gqlType = 'Boolean';
-          if (col.type.includes('timestamp') || col.type.includes('date')) gqlType = 'DateTime';
-          return `  ${col.name}: ${gqlType}`;
-        }).join('\n');
-      
-      return `input ${typeName}Input {
-${fields || '  _placeholder: String'}
-}`;
-    }).join('\n\n');
-
-    const mutations = (tables || []).map(table => {
-      const typeName = table.name.charAt(0).toUpperCase() + table.name.slice(1);
-      return `  create${typeName}(input: ${typeName}Input!): ${typeName}!
-  update${typeName}(id: ID!, input: ${typeName}Input!): ${typeName}!
-  delete${typeName}(id: ID!): Boolean!`;
-    }).join('\n');
-
-    const schema = `# GraphQL Schema for ${domain} Application
-# Generated automatically from database schema
-
-scalar DateTime
-
-${tableSchemas}
-
-${inputTypes}
-
-type Query {
-${queries || '  ping: String!'}
+interface WebhookDelivery {
+  id: number;
+  subscriptionId: number;
+  event: string;
+  status: 'pending' | 'succeeded' | 'failed';
+  attempts: number;
+  responseStatus: number | null;
+  error: string | null;
+  durationMs: number | null;
+  nextAttemptAt: string | null;
+  createdAt: string;
 }
 
-type Mutation {
-${mutations || '  noop: Boolean'}
-}
+type MessageBroker = 'rabbitmq' | 'kafka' | 'redis' | 'sqs';
 
-type Subscription {
-  onDataChange(type: String!): ChangeEvent!
+interface GeneratedGraphQLApi {
+  files: Array<{ path: string; content: string; description: string }>;
+  sdl: string;
+  dependencies: Record<string, string>;
 }
 
-type ChangeEvent {
-  type: String!
-  operation: String!
-  data: String!
-  timestamp: DateTime!
-}`;
-
-    setGraphqlSchema(schema);
-    setGeneratingGraphQL(false);
-  };
-
-  const generateMQConfig = async () => {
-    setGeneratingMQ(true);
-    await new Promise(r => setTimeout(r, 800));
-    
-    const configs: Record<string, string> = {
-      rabbitmq: `# RabbitMQ Configuration for ${domain}
-# docker-compose.yml
-
-version: '3.8'
-services:
-  rabbitmq:
-    image: rabbitmq:3-management
-    container_name: ${domain}-rabbitmq
-    ports:
-      - "5672:5672"
-      - "15672:15672"
-    environment:
-      RABBITMQ_DEFAULT_USER: admin
-      RABBITMQ_DEFAULT_PASS: \${RABBITMQ_PASSWORD}
-    volumes:
-      - rabbitmq_data:/var/lib/rabbitmq
-
-volumes:
-  rabbitmq_data:
-
----
-# TypeScript Client Example
-
-import amqp from 'amqplib';
-
-const QUEUE_NAME = '${domain}-events';
-
-async function setupRabbitMQ() {
-  const connection = await amqp.connect(process.env.RABBITMQ_URL!);
-  const channel = await connection.createChannel();
-  
-  await channel.assertQueue(QUEUE_NAME, { durable: true });
-  
-  return { connection, channel };
+interface GeneratedMessageQueue {
+  files: Array<{ path: string; content: string; description: string }>;
+  topics: Array<{ type: string; topic: string }>;
+  dependencies: Record<string, string>;
 }
 
-async function publishEvent(channel: amqp.Channel, event: object) {
-  channel.sendToQueue(
-    QUEUE_NAME,
-    Buffer.from(JSON.stringify(event)),
-    { persistent: true }
-  );
-}
+const deliveryColors: Record<WebhookDelivery['status'], string> = {
+  succeeded: '#10b981',
+  pending: '#f59e0b',
+  failed: '#ef4444',
+};
 
-async function consumeEvents(channel: amqp.Channel, handler: (msg: any) => void) {
-  channel.consume(QUEUE_NAME, (msg) => {
-    if (msg) {
-      const event = JSON.parse(msg.content.toString());
-      handler(event);
-      channel.ack(msg);
-    }
-  });
-}`,
-
-      kafka: `# Apache Kafka Configuration for ${domain}
-# docker-compose.yml
-
-version: '3.8'
-services:
-  zookeeper:
-    image: confluentinc/cp-zookeeper:latest
-    environment:
-      ZOOKEEPER_CLIENT_PORT: 2181
-      
-  kafka:
-    image: confluentinc/cp-kafka:latest
-    depends_on:
-      - zookeeper
-    ports:
-      - "9092:9092"
-    environment:
-      KAFKA_BROKER_ID: 1
-      KAFKA_ZOOKEEPER_CONNECT: zookeeper:2181
-      KAFKA_ADVERTISED_LISTENERS: PLAINTEXT://localhost:9092
-      KAFKA_OFFSETS_TOPIC_REPLICATION_FACTOR: 1
-
----
-# TypeScript Client Example
-
-import { Kafka, Producer, Consumer } from 'kafkajs';
-
-const kafka = new Kafka({
-  clientId: '${domain}-app',
-  brokers: [process.env.KAFKA_BROKER!]
-});
-
-const producer: Producer = kafka.producer();
-const consumer: Consumer = kafka.consumer({ groupId: '${domain}-group' });
-
-async function publishEvent(topic: string, event: object) {
-  await producer.connect();
-  await producer.send({
-    topic,
-    messages: [{ value: JSON.stringify(event) }]
+async function api(path: string, init?: RequestInit) {
+  const res = await fetch(`${API_BASE}${path}`, {
+    ...init,
+    headers: init?.body ? { 'Content-Type': 'application/json' } : undefined,
   });
+  const body = await res.json();
+  if (!res.ok) throw new Error(body.details ? `${body.error}: ${body.details}` : body.error || res.statusText);
+  return body;
 }
 
-async function consumeEvents(topic: string, handler: (event: any) => void) {
-  await consumer.connect();
-  await consumer.subscribe({ topic, fromBeginning: false });
+export default function IntegrationPanel({ domain, tables, projectId }: IntegrationPanelProps) {
+  const [activeTab, setActiveTab] = useState<'webhooks' | 'graphql' | 'messagequeue'>('webhooks');
   
-  await consumer.run({
-    eachMessage: async ({ message }) => {
-      const event = JSON.parse(message.value!.toString());
-      handler(event);
-    }
-  });
-}`,
-
-      redis: `# Redis Pub/Sub Configuration for ${domain}
-# docker-compose.yml
+  const [webhooks, setWebhooks] = useState<WebhookConfig[]>([]);
+  const [availableEvents, setAvailableEvents] = useState<string[]>([]);
+  const [newWebhook, setNewWebhook] = useState({ name: '', url: '', events: [] as string[] });
+  const [revealedSecret, setRevealedSecret] = useState<{ id: number; secret: string } | null>(null);
+  const [deliveries, setDeliveries] = useState<WebhookDelivery[]>([]);
+  const [webhookError, setWebhookError] = useState<string | null>(null);
+  
+  const [graphqlResult, setGraphqlResult] = useState<GeneratedGraphQLApi | null>(null);
+  // -1 shows the SDL, otherwise an index into graphqlResult.files
+  const [graphqlFileIndex, setGraphqlFileIndex] = useState(-1);
+  const [graphqlError, setGraphqlError] = useState<string | null>(null);
+  const [generatingGraphQL, setGeneratingGraphQL] = useState(false);
+  
+  const [mqProvider, setMqProvider] = useState<MessageBroker>('rabbitmq');
+  const [mqResult, setMqResult] = useState<GeneratedMessageQueue | null>(null);
+  const [mqFileIndex, setMqFileIndex] = useState(0);
+  const [projectBroker, setProjectBroker] = useState<MessageBroker | null>(null);
+  const [mqError, setMqError] = useState<string | null>(null);
+  const [generatingMQ, setGeneratingMQ] = useState(false);
 
-version: '3.8'
-services:
-  redis:
-    image: redis:alpine
-    container_name: ${domain}-redis
-    ports:
-      - "6379:6379"
-    command: redis-server --appendonly yes
-    volumes:
-      - redis_data:/data
+  const applyWebhookState = ({ subs, log }: { subs: { webhooks: WebhookConfig[]; events: string[] }; log: { deliveries: WebhookDelivery[] } }) => {
+    setWebhooks(subs.webhooks);
+    setAvailableEvents(subs.events);
+    setDeliveries(log.deliveries);
+    setWebhookError(null);
+  };
 
-volumes:
-  redis_data:
+  const fetchWebhookState = useCallback(async () => {
+    const [subs, log] = await Promise.all([
+      api(`/api/projects/${projectId}/webhooks`),
+      api(`/api/projects/${projectId}/webhook-deliveries?limit=50`),
+    ]);
+    return { subs, log };
+  }, [projectId]);
+
+  const loadWebhooks = async () => {
+    try {
+      applyWebhookState(await fetchWebhookState());
+    } catch (e) {
+      setWebhookError(e instanceof Error ? e.message : String(e));
+    }
+  };
 
----
-# TypeScript Client Example
+  useEffect(() => {
+    if (!projectId) return;
+    let cancelled = false;
+    (async () => {
+      try {
+        const state = await fetchWebhookState();
+        if (!cancelled) applyWebhookState(state);
+      } catch (e) {
+        if (!cancelled) setWebhookError(e instanceof Error ? e.message : String(e));
+      }
+    })();
+    return () => { cancelled = true; };
+  }, [projectId, fetchWebhookState]);
+
+  const runWebhookAction = async (action: () => Promise<void>) => {
+    try {
+      await action();
+      await loadWebhooks();
+    } catch (e) {
+      setWebhookError(e instanceof Error ? e.message : String(e));
+    }
+  };
 
-import Redis from 'ioredis';
+  const addWebhook = () => runWebhookAction(async () => {
+    if (!newWebhook.name || !newWebhook.url) return;
+    const { webhook } = await api(`/api/projects/${projectId}/webhooks`, {
+      method: 'POST',
+      body: JSON.stringify(newWebhook),
+    });
+    setRevealedSecret({ id: webhook.id, secret: webhook.secret });
+    setNewWebhook({ name: '', url: '', events: [] });
+  });
 
-const publisher = new Redis(process.env.REDIS_URL!);
-const subscriber = new Redis(process.env.REDIS_URL!);
+  const toggleWebhook = (webhook: WebhookConfig) => runWebhookAction(async () => {
+    await api(`/api/projects/${projectId}/webhooks/${webhook.id}`, {
+      method: 'PUT',
+      body: JSON.stringify({ enabled: !webhook.enabled }),
+    });
+  });
 
-async function publishEvent(channel: string, event: object) {
-  await publisher.publish(channel, JSON.stringify(event));
-}
+  const removeWebhook = (webhook: WebhookConfig) => runWebhookAction(async () => {
+    await api(`/api/projects/${projectId}/webhooks/${webhook.id}`, { method: 'DELETE' });
+  });
 
-async function subscribeToEvents(channel: string, handler: (event: any) => void) {
-  await subscriber.subscribe(channel);
-  
-  subscriber.on('message', (ch, message) => {
-    if (ch === channel) {
-      const event = JSON.parse(message);
-      handler(event);
-    }
+  const testWebhook = (webhook: WebhookConfig) => runWebhookAction(async () => {
+    await api(`/api/projects/${projectId}/webhooks/${webhook.id}/test`, { method: 'POST' });
   });
-}
 
-// Stream-based (for persistence)
-async function addToStream(stream: string, event: object) {
-  await publisher.xadd(stream, '*', 'data', JSON.stringify(event));
-}
+  const redeliverDelivery = (delivery: WebhookDelivery) => runWebhookAction(async () => {
+    await api(`/api/projects/${projectId}/webhook-deliveries/${delivery.id}/redeliver`, { method: 'POST' });
+  });
 
-async function readFromStream(stream: string, handler: (event: any) => void) {
-  let lastId = '0';
-  while (true) {
-    const results = await subscriber.xread('BLOCK', 0, 'STREAMS', stream, lastId);
-    if (results) {
-      for (const [, messages] of results) {
-        for (const [id, fields] of messages) {
-          const event = JSON.parse(fields[1]);
-          handler(event);
-          lastId = id;
-        }
-      }
+  const generateGraphQLSchema = async () => {
+    setGeneratingGraphQL(true);
+    setGraphqlError(null);
+    try {
+      const result = await api('/api/generate-graphql', {
+        method: 'POST',
+        body: JSON.stringify({
+          projectId,
+          ...(tables?.length && { tables }),
+        }),
+      });
+      setGraphqlResult(result);
+      setGraphqlFileIndex(-1);
+    } catch (e) {
+      setGraphqlError(e instanceof Error ? e.message : String(e));
+    } finally {
+      setGeneratingGraphQL(false);
     }
-  }
-}`,
-
-      sqs: `# AWS SQS Configuration for ${domain}
-# Terraform configuration
-
-resource "aws_sqs_queue" "${domain}_events" {
-  name                      = "${domain}-events"
-  delay_seconds             = 0
-  max_message_size          = 262144
-  message_retention_seconds = 1209600  # 14 days
-  visibility_timeout_seconds = 30
-  
-  redrive_policy = jsonencode({
-    deadLetterTargetArn = aws_sqs_queue.${domain}_dlq.arn
-    maxReceiveCount     = 3
-  })
-}
-
-resource "aws_sqs_queue" "${domain}_dlq" {
-  name = "${domain}-events-dlq"
-}
-
----
-# TypeScript Client Example
-
-import { SQSClient, SendMessageCommand, ReceiveMessageCommand, DeleteMessageCommand } from '@aws-sdk/client-sqs';
+  };
 
-const sqs = new SQSClient({ region: process.env.AWS_REGION });
-const QUEUE_URL = process.env.SQS_QUEUE_URL!;
+  useEffect(() => {
+    if (!projectId) return;
+    let cancelled = false;
+    (async () => {
+      try {
+        const { messaging } = await api(`/api/projects/${projectId}/messaging`);
+        if (cancelled) return;
+        setProjectBroker(messaging?.broker ?? null);
+        if (messaging?.broker) setMqProvider(messaging.broker);
+      } catch (e) {
+        if (!cancelled) setMqError(e instanceof Error ? e.message : String(e));
+      }
+    })();
+    return () => { cancelled = true; };
+  }, [projectId]);
 
-async function publishEvent(event: object) {
-  await sqs.send(new SendMessageCommand({
-    QueueUrl: QUEUE_URL,
-    MessageBody: JSON.stringify(event),
-    MessageGroupId: '${domain}-events'
-  }));
-}
+  const generateMQConfig = async () => {
+    setGeneratingMQ(true);
+    setMqError(null);
+    try {
+      const result = await api('/api/generate-message-queue', {
+        method: 'POST',
+        body: JSON.stringify({
+          broker: mqProvider,
+          projectId,
+          domain,
+          ...(tables?.length && { tables }),
+        }),
+      });
+      setMqResult(result);
+      setMqFileIndex(0);
+    } catch (e) {
+      setMqError(e instanceof Error ? e.message : String(e));
+    } finally {
+      setGeneratingMQ(false);
+    }
+  };
 
-async function consumeEvents(handler: (event: any) => void) {
-  while (true) {
-    const response = await sqs.send(new ReceiveMessageCommand({
-      QueueUrl: QUEUE_URL,
-      MaxNumberOfMessages: 10,
-      WaitTimeSeconds: 20
-    }));
-    
-    for (const message of response.Messages || []) {
-      const event = JSON.parse(message.Body!);
-      await handler(event);
-      
-      await sqs.send(new DeleteMessageCommand({
-        QueueUrl: QUEUE_URL,
-        ReceiptHandle: message.ReceiptHandle!
-      }));
+  // The materialized backend records entity events in an outbox and publishes them to this broker
+  const setProjectMessaging = async (broker: MessageBroker | null) => {
+    try {
+      const { messaging } = await api(`/api/projects/${projectId}/messaging`, {
+        method: 'PUT',
+        body: JSON.stringify({ broker }),
+      });
+      setProjectBroker(messaging?.broker ?? null);
+      setMqError(null);
+    } catch (e) {
+      setMqError(e instanceof Error ? e.message : String(e));
     }
-  }
-}`
-    };
-    
-    setMqConfig(configs[mqProvider]);
-    setGeneratingMQ(false);
   };
 
+  const graphqlFile = graphqlResult?.files[graphqlFileIndex];
+  const graphqlContent = graphqlFile ? graphqlFile.content : graphqlResult?.sdl;
+  const mqFile = mqResult?.files[mqFileIndex];
+
   return (
     <div style={{ background: '#1e293b', borderRadius: 8, overflow: 'hidden' }}>
       <div style={{ display: 'flex', borderBottom: '1px solid #334155' }}>
@@ -403,11 +263,24 @@ async function consumeEvents(handler: (event: any) => void) {
       </div>
 
       <div style={{ padding: 16 }}>
-        {activeTab === 'webhooks' && (
+        {activeTab === 'webhooks' && !projectId && (
+          <p style={{ color: '#94a3b8', fontSize: 13 }}>
+            Save the project first; webhooks are configured per project.
+          </p>
+        )}
+
+        {activeTab === 'webhooks' && projectId && (
           <div>
             <p style={{ color: '#94a3b8', fontSize: 13, marginBottom: 16 }}>
-              Configure webhooks to receive real-time notifications when events occur in your application.
+              Receive signed notifications when modules are saved, the project is materialized or run, and issues are detected or fixed.
+              Each request carries an <code>X-IPL-Signature</code> header: HMAC-SHA256 of <code>{'{X-IPL-Timestamp}.{body}'}</code> with the webhook secret.
             </p>
+
+            {webhookError && (
+              <div style={{ background: '#450a0a', border: '1px solid #ef4444', borderRadius: 6, padding: '8px 12px', color: '#fca5a5', fontSize: 12, marginBottom: 12 }}>
+                {webhookError}
+              </div>
+            )}
             
             <div style={{ 
               background: '#0f172a', 
@@ -502,9 +375,9 @@ async function consumeEvents(handler: (event: any) => void) {
                 <h4 style={{ color: '#e2e8f0', marginBottom: 12, fontSize: 14 }}>
                   Configured Webhooks ({webhooks.length})
                 </h4>
-                {webhooks.map((webhook, idx) => (
+                {webhooks.map(webhook => (
                   <div
-                    key={idx}
+                    key={webhook.id}
                     style={{
                       background: '#0f172a',
                       border: '1px solid #334155',
@@ -525,7 +398,21 @@ async function consumeEvents(handler: (event: any) => void) {
                       </div>
                       <div style={{ display: 'flex', gap: 8 }}>
                         <button
-                          onClick={() => toggleWebhook(idx)}
+                          onClick={() => testWebhook(webhook)}
+                          style={{
+                            background: 'transparent',
+                            border: '1px solid #475569',
+                            borderRadius: 4,
+                            padding: '4px 8px',
+                            color: '#94a3b8',
+                            cursor: 'pointer',
+                            fontSize: 11,
+                          }}
+                        >
+                          Send test
+                        </button>
+                        <button
+                          onClick={() => toggleWebhook(webhook)}
                           style={{
                             background: 'transparent',
                             border: '1px solid #475569',
@@ -539,7 +426,7 @@ async function consumeEvents(handler: (event: any) => void) {
                           {webhook.enabled ? 'Disable' : 'Enable'}
                         </button>
                         <button
-                          onClick={() => removeWebhook(idx)}
+                          onClick={() => removeWebhook(webhook)}
                           style={{
                             background: 'transparent',
                             border: '1px solid #ef4444',
@@ -558,7 +445,12 @@ async function consumeEvents(handler: (event: any) => void) {
                       <strong>URL:</strong> {webhook.url}
                     </div>
                     <div style={{ color: '#94a3b8', fontSize: 12, marginBottom: 4 }}>
-                      <strong>Secret:</strong> <code style={{ background: '#1e293b', padding: '2px 6px', borderRadius: 4 }}>{webhook.secret}</code>
+                      <strong>Secret:</strong> <code style={{ background: '#1e293b', padding: '2px 6px', borderRadius: 4 }}>
+                        {revealedSecret?.id === webhook.id ? revealedSecret.secret : webhook.secret}
+                      </code>
+                      {revealedSecret?.id === webhook.id && (
+                        <span style={{ color: '#f59e0b', marginLeft: 8 }}>Copy it now; it won't be shown again.</span>
+                      )}
                     </div>
                     <div style={{ display: 'flex', flexWrap: 'wrap', gap: 4 }}>
                       {webhook.events.map(event => (
@@ -580,18 +472,92 @@ async function consumeEvents(handler: (event: any) => void) {
                 ))}
               </div>
             )}
+
+            {webhooks.length > 0 && (
+              <div style={{ marginTop: 16 }}>
+                <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: 12 }}>
+                  <h4 style={{ color: '#e2e8f0', fontSize: 14 }}>Recent Deliveries</h4>
+                  <button
+                    onClick={loadWebhooks}
+                    style={{
+                      background: 'transparent',
+                      border: '1px solid #475569',
+                      borderRadius: 4,
+                      padding: '4px 8px',
+                      color: '#94a3b8',
+                      cursor: 'pointer',
+                      fontSize: 11,
+                    }}
+                  >
+                    Refresh
+                  </button>
+                </div>
+                {deliveries.length === 0 && (
+                  <p style={{ color: '#64748b', fontSize: 12 }}>No deliveries yet.</p>
+                )}
+                {deliveries.map(delivery => (
+                  <div
+                    key={delivery.id}
+                    style={{
+                      display: 'flex',
+                      alignItems: 'center',
+                      gap: 8,
+                      background: '#0f172a',
+                      border: '1px solid #334155',
+                      borderRadius: 6,
+                      padding: '6px 10px',
+                      marginBottom: 4,
+                      fontSize: 12,
+                    }}
+                  >
+                    <span style={{ color: deliveryColors[delivery.status], fontWeight: 600, width: 72 }}>{delivery.status}</span>
+                    <span style={{ color: '#a5b4fc', width: 150 }}>{delivery.event}</span>
+                    <span style={{ color: '#94a3b8', flex: 1 }}>
+                      {webhooks.find(w => w.id === delivery.subscriptionId)?.name || `#${delivery.subscriptionId}`}
+                      {' · '}{delivery.responseStatus ?? '—'}
+                      {' · '}{delivery.attempts} attempt{delivery.attempts === 1 ? '' : 's'}
+                      {delivery.error && <span style={{ color: '#fca5a5' }}>{' · '}{delivery.error}</span>}
+                      {delivery.status === 'pending' && delivery.nextAttemptAt && (
+                        <span>{' · '}retry at {new Date(delivery.nextAttemptAt).toLocaleTimeString()}</span>
+                      )}
+                    </span>
+                    <span style={{ color: '#64748b' }}>{new Date(delivery.createdAt).toLocaleString()}</span>
+                    {delivery.status !== 'pending' && (
+                      <button
+                        onClick={() => redeliverDelivery(delivery)}
+                        style={{
+                          background: 'transparent',
+                          border: '1px solid #475569',
+                          borderRadius: 4,
+                          padding: '2px 6px',
+                          color: '#94a3b8',
+                          cursor: 'pointer',
+                          fontSize: 11,
+                        }}
+                      >
+                        Redeliver
+                      </button>
+                    )}
+                  </div>
+                ))}
+              </div>
+            )}
           </div>
         )}
 
         {activeTab === 'graphql' && (
           <div>
             <p style={{ color: '#94a3b8', fontSize: 13, marginBottom: 16 }}>
-              Generate a GraphQL schema from your database tables with queries, mutations, and subscriptions.
+              Generate a GraphQL schema, resolvers and server from your database tables: cursor-paginated connections with filters, mutations, and foreign keys as nested fields batched with DataLoader. Materialized projects serve it at /graphql.
             </p>
+
+            {graphqlError && (
+              <p style={{ color: '#ef4444', fontSize: 12, marginBottom: 12 }}>{graphqlError}</p>
+            )}
             
             <button
               onClick={generateGraphQLSchema}
-              disabled={generatingGraphQL || !tables?.length}
+              disabled={generatingGraphQL || (!tables?.length && !projectId)}
               style={{
                 background: generatingGraphQL ? '#475569' : 'linear-gradient(135deg, #e535ab, #c026d3)',
                 border: 'none',
@@ -607,18 +573,41 @@ async function consumeEvents(handler: (event: any) => void) {
               {generatingGraphQL ? '⏳ Generating...' : '◈ Generate GraphQL Schema'}
             </button>
             
-            {!tables?.length && (
+            {!tables?.length && !projectId && (
               <p style={{ color: '#f59e0b', fontSize: 12 }}>
                 Generate code specifications first to create a GraphQL schema.
               </p>
             )}
 
-            {graphqlSchema && (
+            {graphqlResult && graphqlContent !== undefined && (
               <div>
+                <div style={{ color: '#94a3b8', fontSize: 12, marginBottom: 8 }}>
+                  dependencies: {Object.keys(graphqlResult.dependencies).join(', ')}
+                </div>
+                <div style={{ display: 'flex', flexWrap: 'wrap', gap: 6, marginBottom: 8 }}>
+                  {[{ path: 'schema.graphql', description: 'Generated Schema' }, ...graphqlResult.files].map((file, i) => (
+                    <button
+                      key={file.path}
+                      onClick={() => setGraphqlFileIndex(i - 1)}
+                      title={file.description}
+                      style={{
+                        padding: '4px 10px',
+                        background: i - 1 === graphqlFileIndex ? '#c026d3' : '#0f172a',
+                        border: '1px solid #334155',
+                        borderRadius: 4,
+                        color: '#e2e8f0',
+                        cursor: 'pointer',
+                        fontSize: 11,
+                      }}
+                    >
+                      {file.path}
+                    </button>
+                  ))}
+                </div>
                 <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: 8 }}>
-                  <span style={{ color: '#e2e8f0', fontWeight: 600 }}>Generated Schema</span>
+                  <span style={{ color: '#e2e8f0', fontWeight: 600 }}>{graphqlFile ? graphqlFile.description : 'Generated Schema'}</span>
                   <button
-                    onClick={() => navigator.clipboard.writeText(graphqlSchema)}
+                    onClick={() => navigator.clipboard.writeText(graphqlContent)}
                     style={{
                       background: 'transparent',
                       border: '1px solid #475569',
@@ -642,7 +631,7 @@ async function consumeEvents(handler: (event: any) => void) {
                   overflow: 'auto',
                   maxHeight: 400,
                 }}>
-                  {graphqlSchema}
+                  {graphqlContent}
                 </pre>
               </div>
             )}
@@ -652,8 +641,12 @@ async function consumeEvents(handler: (event: any) => void) {
         {activeTab === 'messagequeue' && (
           <div>
             <p style={{ color: '#94a3b8', fontSize: 13, marginBottom: 16 }}>
-              Generate message queue configuration and client code for asynchronous communication.
+              Generate producer/consumer modules, entity event topics, a transactional outbox and docker-compose services for a broker.
             </p>
+
+            {mqError && (
+              <p style={{ color: '#ef4444', fontSize: 12, marginBottom: 12 }}>{mqError}</p>
+            )}
             
             <div style={{ marginBottom: 16 }}>
               <label style={{ color: '#94a3b8', fontSize: 12, marginBottom: 8, display: 'block' }}>
@@ -663,12 +656,12 @@ async function consumeEvents(handler: (event: any) => void) {
                 {[
                   { id: 'rabbitmq', name: 'RabbitMQ', icon: '🐰' },
                   { id: 'kafka', name: 'Apache Kafka', icon: '📊' },
-                  { id: 'redis', name: 'Redis Pub/Sub', icon: '🔴' },
+                  { id: 'redis', name: 'Redis Streams', icon: '🔴' },
                   { id: 'sqs', name: 'AWS SQS', icon: '☁️' }
                 ].map(provider => (
                   <button
                     key={provider.id}
-                    onClick={() => setMqProvider(provider.id as any)}
+                    onClick={() => setMqProvider(provider.id as MessageBroker)}
                     style={{
                       padding: '8px 16px',
                       background: mqProvider === provider.id ? '#10b981' : '#0f172a',
@@ -685,9 +678,35 @@ async function consumeEvents(handler: (event: any) => void) {
               </div>
             </div>
 
+            {projectId && (
+              <div style={{ display: 'flex', alignItems: 'center', gap: 12, marginBottom: 16 }}>
+                <span style={{ color: '#94a3b8', fontSize: 12 }}>
+                  {projectBroker
+                    ? `Materialized backend publishes entity events to ${projectBroker}`
+                    : 'Materialized backend does not publish entity events'}
+                </span>
+                {projectBroker !== mqProvider && (
+                  <button
+                    onClick={() => setProjectMessaging(mqProvider)}
+                    style={{ padding: '4px 12px', background: '#10b981', border: 'none', borderRadius: 4, color: 'white', cursor: 'pointer', fontSize: 11 }}
+                  >
+                    Use {mqProvider} for this project
+                  </button>
+                )}
+                {projectBroker && (
+                  <button
+                    onClick={() => setProjectMessaging(null)}
+                    style={{ padding: '4px 12px', background: 'transparent', border: '1px solid #475569', borderRadius: 4, color: '#94a3b8', cursor: 'pointer', fontSize: 11 }}
+                  >
+                    Turn off
+                  </button>
+                )}
+              </div>
+            )}
+
             <button
               onClick={generateMQConfig}
-              disabled={generatingMQ}
+              disabled={generatingMQ || (!tables?.length && !projectId)}
               style={{
                 background: generatingMQ ? '#475569' : 'linear-gradient(135deg, #3b82f6, #2563eb)',
                 border: 'none',
@@ -703,14 +722,41 @@ async function consumeEvents(handler: (event: any) => void) {
               {generatingMQ ? '⏳ Generating...' : '📨 Generate Configuration'}
             </button>
 
-            {mqConfig && (
+            {!tables?.length && !projectId && (
+              <p style={{ color: '#f59e0b', fontSize: 12 }}>
+                Generate code specifications first to create entity event topics.
+              </p>
+            )}
+
+            {mqResult && mqFile && (
               <div>
+                <div style={{ color: '#94a3b8', fontSize: 12, marginBottom: 8 }}>
+                  {mqResult.topics.length} topics · dependencies: {Object.keys(mqResult.dependencies).join(', ')}
+                </div>
+                <div style={{ display: 'flex', flexWrap: 'wrap', gap: 6, marginBottom: 8 }}>
+                  {mqResult.files.map((file, i) => (
+                    <button
+                      key={file.path}
+                      onClick={() => setMqFileIndex(i)}
+                      title={file.description}
+                      style={{
+                        padding: '4px 10px',
+                        background: i === mqFileIndex ? '#3b82f6' : '#0f172a',
+                        border: '1px solid #334155',
+                        borderRadius: 4,
+                        color: '#e2e8f0',
+                        cursor: 'pointer',
+                        fontSize: 11,
+                      }}
+                    >
+                      {file.path}
+                    </button>
+                  ))}
+                </div>
                 <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: 8 }}>
-                  <span style={{ color: '#e2e8f0', fontWeight: 600 }}>
-                    {mqProvider.charAt(0).toUpperCase() + mqProvider.slice(1)} Configuration
-                  </span>
+                  <span style={{ color: '#e2e8f0', fontWeight: 600 }}>{mqFile.description}</span>
                   <button
-                    onClick={() => navigator.clipboard.writeText(mqConfig)}
+                    onClick={() => navigator.clipboard.writeText(mqFile.content)}
                     style={{
                       background: 'transparent',
                       border: '1px solid #475569',
@@ -734,7 +780,7 @@ async function consumeEvents(handler: (event: any) => void) {
                   overflow: 'auto',
                   maxHeight: 400,
                 }}>
-                  {mqConfig}
+                  {mqFile.content}
                 </pre>
               </div>
             )}
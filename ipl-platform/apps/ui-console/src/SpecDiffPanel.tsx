@@ -0,0 +1,279 @@
+import { useEffect, useState } from 'react';
+import type { ReactNode } from 'react';
+
+const API_BASE = window.location.hostname === 'localhost' ? 'http://localhost:8080' : '';
+
+interface SpecDiffPanelProps {
+  projectId: string;
+  // Canonical spec proposed by the agent (any supported specVersion)
+  proposedSpec: unknown;
+  onApplied?: (spec: Record<string, unknown>) => void;
+  onDiscard?: () => void;
+}
+
+// Mirrors canonicalSpec/diff.ts and canonicalSpec/semanticRules.ts in ai-generator-service
+interface DiffEntry {
+  path: string;
+  op: 'added' | 'removed' | 'changed';
+  from?: unknown;
+  to?: unknown;
+}
+
+interface KeyedDiff<C> {
+  added: string[];
+  removed: string[];
+  changed: C[];
+}
+
+interface SpecDiff {
+  entities: KeyedDiff<{ id: string; changes: DiffEntry[]; fields: KeyedDiff<{ name: string; changes: DiffEntry[] }> }>;
+  rules: KeyedDiff<{ key: string; changes: DiffEntry[] }>;
+  workflows: KeyedDiff<{ key: string; changes: DiffEntry[]; steps: KeyedDiff<{ id: string; changes: DiffEntry[] }> }>;
+  other: DiffEntry[];
+  summary: { added: number; removed: number; changed: number; other: number };
+}
+
+interface SpecIssue {
+  code: string;
+  severity: 'error' | 'warning';
+  path: string;
+  message: string;
+}
+
+interface SpecPreview {
+  valid: boolean;
+  issues: SpecIssue[];
+  migrations: string[];
+  diff: SpecDiff;
+}
+
+const opColors: Record<DiffEntry['op'], string> = {
+  added: '#10b981',
+  removed: '#ef4444',
+  changed: '#f59e0b',
+};
+
+const opMarks: Record<DiffEntry['op'], string> = { added: '+', removed: '−', changed: '~' };
+
+function formatValue(value: unknown): string {
+  const text = JSON.stringify(value);
+  return text === undefined ? '' : text.length > 80 ? `${text.slice(0, 77)}...` : text;
+}
+
+async function api(path: string, init?: RequestInit) {
+  const res = await fetch(`${API_BASE}${path}`, {
+    ...init,
+    headers: init?.body ? { 'Content-Type': 'application/json' } : undefined,
+  });
+  const body = await res.json();
+  if (!res.ok) {
+    const issues = Array.isArray(body.issues) ? `: ${body.issues.map((i: SpecIssue) => `${i.path} ${i.message}`).join('; ')}` : '';
+    throw new Error(`${body.error || res.statusText}${issues}`);
+  }
+  return body;
+}
+
+function Line({ op, label, indent = 0 }: { op: DiffEntry['op']; label: string; indent?: number }) {
+  return (
+    <div style={{ color: opColors[op], fontSize: 12, fontFamily: 'monospace', paddingLeft: indent * 16, lineHeight: 1.7 }}>
+      {opMarks[op]} {label}
+    </div>
+  );
+}
+
+function Changes({ changes, indent }: { changes: DiffEntry[]; indent: number }) {
+  return (
+    <>
+      {changes.map(c => (
+        <Line
+          key={c.path}
+          op={c.op}
+          indent={indent}
+          label={c.op === 'changed' ? `${c.path}: ${formatValue(c.from)} → ${formatValue(c.to)}` : `${c.path} ${formatValue(c.op === 'added' ? c.to : c.from)}`}
+        />
+      ))}
+    </>
+  );
+}
+
+function Section({ title, diff, children }: { title: string; diff: KeyedDiff<unknown>; children: ReactNode }) {
+  if (!diff.added.length && !diff.removed.length && !diff.changed.length) return null;
+  return (
+    <div style={{ marginBottom: 16 }}>
+      <div style={{ color: '#e2e8f0', fontWeight: 600, fontSize: 13, marginBottom: 6 }}>{title}</div>
+      {diff.added.map(key => <Line key={`+${key}`} op="added" label={key} />)}
+      {diff.removed.map(key => <Line key={`-${key}`} op="removed" label={key} />)}
+      {children}
+    </div>
+  );
+}
+
+export default function SpecDiffPanel({ projectId, proposedSpec, onApplied, onDiscard }: SpecDiffPanelProps) {
+  const [preview, setPreview] = useState<SpecPreview | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [applying, setApplying] = useState(false);
+  const [applied, setApplied] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    (async () => {
+      try {
+        const body = await api(`/api/projects/${projectId}/spec/diff`, {
+          method: 'POST',
+          body: JSON.stringify({ spec: proposedSpec }),
+        });
+        if (cancelled) return;
+        setPreview(body);
+        setError(null);
+        setApplied(false);
+      } catch (e) {
+        if (!cancelled) setError(e instanceof Error ? e.message : String(e));
+      }
+    })();
+    return () => { cancelled = true; };
+  }, [projectId, proposedSpec]);
+
+  const apply = async () => {
+    setApplying(true);
+    setError(null);
+    try {
+      const body = await api(`/api/projects/${projectId}/spec`, {
+        method: 'PUT',
+        body: JSON.stringify({ spec: proposedSpec }),
+      });
+      setApplied(true);
+      onApplied?.(body.spec);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : String(e));
+    } finally {
+      setApplying(false);
+    }
+  };
+
+  const diff = preview?.diff;
+  const empty = !!diff && !diff.summary.added && !diff.summary.removed && !diff.summary.changed && !diff.summary.other;
+  const errors = preview?.issues.filter(i => i.severity === 'error') || [];
+
+  return (
+    <div style={{ background: '#1e293b', borderRadius: 8, padding: 16 }}>
+      <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: 12 }}>
+        <span style={{ color: '#e2e8f0', fontWeight: 600 }}>Proposed spec changes</span>
+        {diff && (
+          <span style={{ fontSize: 12, display: 'flex', gap: 10 }}>
+            <span style={{ color: opColors.added }}>+{diff.summary.added}</span>
+            <span style={{ color: opColors.removed }}>−{diff.summary.removed}</span>
+            <span style={{ color: opColors.changed }}>~{diff.summary.changed + (diff.summary.other ? 1 : 0)}</span>
+          </span>
+        )}
+      </div>
+
+      {error && <p style={{ color: '#ef4444', fontSize: 12, marginBottom: 12 }}>{error}</p>}
+      {!preview && !error && <p style={{ color: '#94a3b8', fontSize: 13 }}>Comparing with the project's spec…</p>}
+
+      {preview && preview.migrations.length > 0 && (
+        <p style={{ color: '#94a3b8', fontSize: 12, marginBottom: 12 }}>
+          Upgraded from an older specVersion ({preview.migrations.join(', ')})
+        </p>
+      )}
+
+      {preview && preview.issues.length > 0 && (
+        <div style={{ marginBottom: 16 }}>
+          {preview.issues.map(issue => (
+            <div key={`${issue.code}${issue.path}`} style={{ fontSize: 12, color: issue.severity === 'error' ? '#ef4444' : '#f59e0b', marginBottom: 4 }}>
+              <code>{issue.code}</code> <span style={{ color: '#94a3b8' }}>{issue.path}</span> {issue.message}
+            </div>
+          ))}
+        </div>
+      )}
+
+      {diff && empty && <p style={{ color: '#94a3b8', fontSize: 13 }}>No changes to the project's spec.</p>}
+
+      {diff && (
+        <div style={{ background: '#0f172a', border: '1px solid #334155', borderRadius: 6, padding: 12, maxHeight: 420, overflow: 'auto', display: empty ? 'none' : 'block' }}>
+          <Section title="Entities" diff={diff.entities}>
+            {diff.entities.changed.map(e => (
+              <div key={e.id}>
+                <Line op="changed" label={e.id} />
+                <Changes changes={e.changes} indent={1} />
+                {e.fields.added.map(name => <Line key={`+${name}`} op="added" label={`field ${name}`} indent={1} />)}
+                {e.fields.removed.map(name => <Line key={`-${name}`} op="removed" label={`field ${name}`} indent={1} />)}
+                {e.fields.changed.map(f => (
+                  <div key={f.name}>
+                    <Line op="changed" label={`field ${f.name}`} indent={1} />
+                    <Changes changes={f.changes} indent={2} />
+                  </div>
+                ))}
+              </div>
+            ))}
+          </Section>
+          <Section title="Rules" diff={diff.rules}>
+            {diff.rules.changed.map(r => (
+              <div key={r.key}>
+                <Line op="changed" label={r.key} />
+                <Changes changes={r.changes} indent={1} />
+              </div>
+            ))}
+          </Section>
+          <Section title="Workflows" diff={diff.workflows}>
+            {diff.workflows.changed.map(w => (
+              <div key={w.key}>
+                <Line op="changed" label={w.key} />
+                <Changes changes={w.changes} indent={1} />
+                {w.steps.added.map(id => <Line key={`+${id}`} op="added" label={`step ${id}`} indent={1} />)}
+                {w.steps.removed.map(id => <Line key={`-${id}`} op="removed" label={`step ${id}`} indent={1} />)}
+                {w.steps.changed.map(s => (
+                  <div key={s.id}>
+                    <Line op="changed" label={`step ${s.id}`} indent={1} />
+                    <Changes changes={s.changes} indent={2} />
+                  </div>
+                ))}
+              </div>
+            ))}
+          </Section>
+          {diff.other.length > 0 && (
+            <div>
+              <div style={{ color: '#e2e8f0', fontWeight: 600, fontSize: 13, marginBottom: 6 }}>App, settings and integrations</div>
+              <Changes changes={diff.other} indent={0} />
+            </div>
+          )}
+        </div>
+      )}
+
+      <div style={{ display: 'flex', justifyContent: 'flex-end', gap: 8, marginTop: 16 }}>
+        {onDiscard && (
+          <button
+            onClick={onDiscard}
+            style={{
+              background: 'transparent',
+              border: '1px solid #475569',
+              borderRadius: 6,
+              padding: '8px 16px',
+              color: '#94a3b8',
+              cursor: 'pointer',
+              fontSize: 13,
+            }}
+          >
+            Discard
+          </button>
+        )}
+        <button
+          onClick={apply}
+          disabled={!preview || errors.length > 0 || applying || applied || empty}
+          title={errors.length ? 'Fix the errors above before applying' : undefined}
+          style={{
+            background: !preview || errors.length > 0 || applying || applied || empty ? '#475569' : '#3b82f6',
+            border: 'none',
+            borderRadius: 6,
+            padding: '8px 16px',
+            color: 'white',
+            cursor: !preview || errors.length > 0 || applying || applied || empty ? 'not-allowed' : 'pointer',
+            fontSize: 13,
+            fontWeight: 600,
+          }}
+        >
+          {applied ? '✓ Applied' : applying ? 'Applying…' : 'Apply to project'}
+        </button>
+      </div>
+    </div>
+  );
+}
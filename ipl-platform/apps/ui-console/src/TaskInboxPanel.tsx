@@ -0,0 +1,401 @@
+import { useState, useEffect, useCallback } from 'react';
+
+const WORKFLOW_SERVICE_URL = 'http://localhost:7300';
+
+// Matches the supervisor roles configured on workflow-engine-service (WORKFLOW_SUPERVISOR_ROLES)
+const SUPERVISOR_ROLES = ['admin', 'supervisor'];
+
+interface TaskInboxPanelProps {
+  workflowId?: string;
+}
+
+interface FormField {
+  name: string;
+  type: 'text' | 'number' | 'boolean' | 'date' | 'select';
+  label?: string;
+  required?: boolean;
+  options?: string[];
+}
+
+interface HumanTask {
+  id: string;
+  instanceId: string;
+  workflowId: string;
+  stepId: string;
+  title: string;
+  status: 'open' | 'claimed' | 'completed' | 'cancelled';
+  candidateRoles: string[] | null;
+  assignedUser: string | null;
+  claimedBy: string | null;
+  form: FormField[] | null;
+  data: Record<string, unknown> | null;
+  escalationLevel: number;
+  dueAt: string | null;
+  completedBy: string | null;
+  createdAt: string;
+  completedAt: string | null;
+}
+
+interface TokenUser {
+  userId: string;
+  email?: string;
+  role: string;
+}
+
+type TabType = 'inbox' | 'mine' | 'completed';
+type FormValue = string | boolean;
+
+// Reads the claims of the JWT issued by the generated auth module; the service verifies the signature
+function decodeToken(token: string): TokenUser | null {
+  try {
+    const payload = JSON.parse(atob(token.split('.')[1].replace(/-/g, '+').replace(/_/g, '/')));
+    return payload?.userId && payload?.role ? payload : null;
+  } catch {
+    return null;
+  }
+}
+
+function formatDue(dueAt: string | null): { label: string; overdue: boolean } {
+  if (!dueAt) return { label: 'No SLA', overdue: false };
+  const ms = new Date(dueAt).getTime() - Date.now();
+  const hours = Math.round(Math.abs(ms) / 3600000);
+  const span = hours >= 48 ? `${Math.round(hours / 24)}d` : `${hours}h`;
+  return ms < 0 ? { label: `Overdue ${span}`, overdue: true } : { label: `Due in ${span}`, overdue: false };
+}
+
+export default function TaskInboxPanel({ workflowId }: TaskInboxPanelProps) {
+  const [activeTab, setActiveTab] = useState<TabType>('inbox');
+  const [token, setToken] = useState('');
+  const [tasks, setTasks] = useState<HumanTask[]>([]);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [formValues, setFormValues] = useState<Record<string, FormValue>>({});
+  const [escalateRole, setEscalateRole] = useState('');
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+
+  const user = decodeToken(token.trim());
+  const isSupervisor = !!user && SUPERVISOR_ROLES.includes(user.role);
+  const selected = tasks.find(t => t.id === selectedId) || null;
+
+  const request = useCallback(async (path: string, init?: RequestInit) => {
+    const res = await fetch(`${WORKFLOW_SERVICE_URL}${path}`, {
+      ...init,
+      headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${token.trim()}` },
+    });
+    const body = await res.json().catch(() => ({}));
+    if (!res.ok || body.ok === false) {
+      const details = Array.isArray(body.details) ? `: ${body.details.join('; ')}` : '';
+      throw new Error(`${body.error || res.statusText}${details}`);
+    }
+    return body;
+  }, [token]);
+
+  const loadTasks = useCallback(async () => {
+    const params = new URLSearchParams();
+    if (activeTab === 'mine') params.set('mine', 'true');
+    if (activeTab === 'completed') params.set('status', 'completed');
+    if (workflowId) params.set('workflowId', workflowId);
+    try {
+      const body = await request(`/tasks?${params.toString()}`);
+      setTasks(body.tasks || []);
+      setError(null);
+    } catch (e) {
+      setTasks([]);
+      setError(e instanceof Error ? e.message : String(e));
+    }
+  }, [activeTab, workflowId, request]);
+
+  const signedIn = !!user;
+  useEffect(() => {
+    if (!signedIn) return;
+    loadTasks();
+    const handle = setInterval(loadTasks, 15000);
+    return () => clearInterval(handle);
+  }, [signedIn, loadTasks]);
+
+  const selectTask = (task: HumanTask) => {
+    setSelectedId(task.id);
+    setNotice(null);
+    const initial: Record<string, FormValue> = {};
+    for (const field of task.form || []) {
+      const existing = task.data?.[field.name];
+      if (field.type === 'boolean') initial[field.name] = existing === true;
+      else initial[field.name] = existing === undefined || existing === null ? '' : String(existing);
+    }
+    setFormValues(initial);
+  };
+
+  const runAction = async (label: string, action: () => Promise<void>) => {
+    setLoading(true);
+    setError(null);
+    setNotice(null);
+    try {
+      await action();
+      setNotice(label);
+      await loadTasks();
+    } catch (e) {
+      setError(e instanceof Error ? e.message : String(e));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const claim = (task: HumanTask) => runAction('Task claimed', async () => {
+    await request(`/tasks/${task.id}/claim`, { method: 'POST' });
+  });
+
+  const complete = (task: HumanTask) => runAction('Task completed', async () => {
+    const data: Record<string, unknown> = {};
+    for (const field of task.form || []) {
+      const value = formValues[field.name];
+      if (value === '' || value === undefined) continue;
+      data[field.name] = field.type === 'number' ? Number(value) : value;
+    }
+    await request(`/tasks/${task.id}/complete`, { method: 'POST', body: JSON.stringify({ data }) });
+    setSelectedId(null);
+  });
+
+  const escalate = (task: HumanTask) => runAction('Task escalated', async () => {
+    const body = escalateRole.trim() ? { roles: [escalateRole.trim()] } : {};
+    await request(`/tasks/${task.id}/escalate`, { method: 'POST', body: JSON.stringify(body) });
+    setEscalateRole('');
+  });
+
+  const renderField = (field: FormField) => {
+    const value = formValues[field.name];
+    const inputStyle = {
+      width: '100%',
+      padding: '8px 12px',
+      background: '#0f172a',
+      border: '1px solid #334155',
+      borderRadius: 6,
+      color: '#e2e8f0',
+      fontSize: 13,
+    };
+    const set = (v: FormValue) => setFormValues({ ...formValues, [field.name]: v });
+
+    if (field.type === 'boolean') {
+      return (
+        <label style={{ display: 'flex', alignItems: 'center', gap: 8, color: '#e2e8f0', fontSize: 13 }}>
+          <input type="checkbox" checked={value === true} onChange={(e) => set(e.target.checked)} />
+          {field.label || field.name}
+        </label>
+      );
+    }
+    if (field.type === 'select') {
+      return (
+        <select value={String(value ?? '')} onChange={(e) => set(e.target.value)} style={inputStyle}>
+          <option value="">Select…</option>
+          {(field.options || []).map(opt => <option key={opt} value={opt}>{opt}</option>)}
+        </select>
+      );
+    }
+    return (
+      <input
+        type={field.type === 'number' ? 'number' : field.type === 'date' ? 'date' : 'text'}
+        value={String(value ?? '')}
+        onChange={(e) => set(e.target.value)}
+        style={inputStyle}
+      />
+    );
+  };
+
+  const canAct = (task: HumanTask) => task.status === 'open' || task.status === 'claimed';
+  const claimedByOther = (task: HumanTask) => task.status === 'claimed' && task.claimedBy !== user?.userId;
+
+  return (
+    <div style={{ background: '#1e293b', borderRadius: 8, overflow: 'hidden' }}>
+      <div style={{ padding: 16, borderBottom: '1px solid #334155' }}>
+        <label style={{ color: '#94a3b8', fontSize: 12, display: 'block', marginBottom: 6 }}>
+          Access token (from the generated auth module's /login)
+        </label>
+        <input
+          type="password"
+          value={token}
+          onChange={(e) => setToken(e.target.value)}
+          placeholder="eyJhbGciOi..."
+          style={{
+            width: '100%',
+            padding: '8px 12px',
+            background: '#0f172a',
+            border: '1px solid #334155',
+            borderRadius: 6,
+            color: '#e2e8f0',
+            fontSize: 13,
+          }}
+        />
+        {token.trim() && (
+          <div style={{ marginTop: 6, fontSize: 12, color: user ? '#10b981' : '#ef4444' }}>
+            {user ? `Signed in as ${user.email || user.userId} (${user.role})${isSupervisor ? ' · supervisor' : ''}` : 'Not a valid access token'}
+          </div>
+        )}
+      </div>
+
+      <div style={{ display: 'flex', borderBottom: '1px solid #334155' }}>
+        {[
+          { id: 'inbox', label: 'Inbox', icon: '📥' },
+          { id: 'mine', label: 'Claimed by me', icon: '✋' },
+          { id: 'completed', label: 'Completed', icon: '✅' },
+        ].map(tab => (
+          <button
+            key={tab.id}
+            onClick={() => { setActiveTab(tab.id as TabType); setSelectedId(null); }}
+            style={{
+              flex: 1,
+              padding: '12px 16px',
+              background: activeTab === tab.id ? '#334155' : 'transparent',
+              border: 'none',
+              borderBottom: activeTab === tab.id ? '2px solid #3b82f6' : '2px solid transparent',
+              color: activeTab === tab.id ? '#e2e8f0' : '#94a3b8',
+              cursor: 'pointer',
+              fontSize: 13,
+              fontWeight: activeTab === tab.id ? 600 : 400,
+            }}
+          >
+            {tab.icon} {tab.label}
+          </button>
+        ))}
+      </div>
+
+      <div style={{ padding: 16 }}>
+        {error && (
+          <div style={{ background: '#7f1d1d', color: '#fecaca', padding: '8px 12px', borderRadius: 6, fontSize: 13, marginBottom: 12 }}>
+            {error}
+          </div>
+        )}
+        {notice && (
+          <div style={{ background: '#064e3b', color: '#a7f3d0', padding: '8px 12px', borderRadius: 6, fontSize: 13, marginBottom: 12 }}>
+            {notice}
+          </div>
+        )}
+
+        {!user ? (
+          <p style={{ color: '#94a3b8', fontSize: 13, margin: 0 }}>
+            Paste an access token to see the approval tasks offered to your role.
+          </p>
+        ) : (
+          <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: 16 }}>
+            <div>
+              <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: 8 }}>
+                <span style={{ color: '#94a3b8', fontSize: 12 }}>{tasks.length} task(s)</span>
+                <button
+                  onClick={() => loadTasks()}
+                  style={{ padding: '4px 10px', background: 'transparent', border: '1px solid #334155', borderRadius: 4, color: '#e2e8f0', cursor: 'pointer', fontSize: 11 }}
+                >
+                  Refresh
+                </button>
+              </div>
+              {tasks.length === 0 && (
+                <p style={{ color: '#64748b', fontSize: 13 }}>Nothing here.</p>
+              )}
+              {tasks.map(task => {
+                const due = formatDue(task.dueAt);
+                return (
+                  <div
+                    key={task.id}
+                    onClick={() => selectTask(task)}
+                    style={{
+                      background: selectedId === task.id ? '#334155' : '#0f172a',
+                      borderRadius: 8,
+                      padding: 12,
+                      marginBottom: 8,
+                      cursor: 'pointer',
+                      border: due.overdue && canAct(task) ? '1px solid #ef4444' : '1px solid transparent',
+                    }}
+                  >
+                    <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center' }}>
+                      <span style={{ color: '#e2e8f0', fontWeight: 600, fontSize: 13 }}>{task.title}</span>
+                      <span style={{ color: task.status === 'claimed' ? '#f59e0b' : task.status === 'completed' ? '#10b981' : '#3b82f6', fontSize: 11 }}>
+                        {task.status}{task.claimedBy ? ` · ${task.claimedBy}` : ''}
+                      </span>
+                    </div>
+                    <div style={{ color: '#64748b', fontSize: 11, marginTop: 4 }}>
+                      {task.workflowId} · {task.stepId}
+                      {task.escalationLevel > 0 && <span style={{ color: '#f59e0b' }}> · escalated ×{task.escalationLevel}</span>}
+                    </div>
+                    {canAct(task) && (
+                      <div style={{ color: due.overdue ? '#ef4444' : '#94a3b8', fontSize: 11, marginTop: 4 }}>{due.label}</div>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+
+            <div style={{ background: '#0f172a', borderRadius: 8, padding: 16 }}>
+              {!selected ? (
+                <p style={{ color: '#64748b', fontSize: 13, margin: 0 }}>Select a task to review it.</p>
+              ) : (
+                <div>
+                  <h4 style={{ color: '#e2e8f0', margin: '0 0 4px', fontSize: 14 }}>{selected.title}</h4>
+                  <div style={{ color: '#64748b', fontSize: 11, marginBottom: 12 }}>
+                    Instance {selected.instanceId.slice(0, 8)} · offered to{' '}
+                    {[...(selected.candidateRoles || []), selected.assignedUser].filter(Boolean).join(', ')}
+                  </div>
+
+                  {(selected.form || []).map(field => (
+                    <div key={field.name} style={{ marginBottom: 12 }}>
+                      {field.type !== 'boolean' && (
+                        <label style={{ color: '#94a3b8', fontSize: 12, display: 'block', marginBottom: 4 }}>
+                          {field.label || field.name}{field.required ? ' *' : ''}
+                        </label>
+                      )}
+                      {selected.status === 'completed' ? (
+                        <div style={{ color: '#e2e8f0', fontSize: 13 }}>{String(selected.data?.[field.name] ?? '—')}</div>
+                      ) : renderField(field)}
+                    </div>
+                  ))}
+
+                  {selected.status === 'completed' && (
+                    <div style={{ color: '#94a3b8', fontSize: 12 }}>
+                      Completed by {selected.completedBy} {selected.completedAt ? new Date(selected.completedAt).toLocaleString() : ''}
+                    </div>
+                  )}
+
+                  {canAct(selected) && (
+                    <div style={{ display: 'flex', gap: 8, marginTop: 8, flexWrap: 'wrap' }}>
+                      {selected.status === 'open' && (
+                        <button
+                          disabled={loading}
+                          onClick={() => claim(selected)}
+                          style={{ padding: '8px 16px', background: '#334155', border: 'none', borderRadius: 6, color: '#e2e8f0', cursor: 'pointer', fontSize: 13 }}
+                        >
+                          Claim
+                        </button>
+                      )}
+                      <button
+                        disabled={loading || (claimedByOther(selected) && !isSupervisor)}
+                        onClick={() => complete(selected)}
+                        style={{ padding: '8px 16px', background: '#10b981', border: 'none', borderRadius: 6, color: 'white', cursor: 'pointer', fontSize: 13 }}
+                      >
+                        Complete
+                      </button>
+                    </div>
+                  )}
+
+                  {canAct(selected) && isSupervisor && (
+                    <div style={{ display: 'flex', gap: 8, marginTop: 16 }}>
+                      <input
+                        value={escalateRole}
+                        onChange={(e) => setEscalateRole(e.target.value)}
+                        placeholder="Escalate to role (default: SLA target)"
+                        style={{ flex: 1, padding: '8px 12px', background: '#1e293b', border: '1px solid #334155', borderRadius: 6, color: '#e2e8f0', fontSize: 12 }}
+                      />
+                      <button
+                        disabled={loading}
+                        onClick={() => escalate(selected)}
+                        style={{ padding: '8px 16px', background: '#f59e0b', border: 'none', borderRadius: 6, color: '#0f172a', cursor: 'pointer', fontSize: 13 }}
+                      >
+                        Escalate
+                      </button>
+                    </div>
+                  )}
+                </div>
+              )}
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
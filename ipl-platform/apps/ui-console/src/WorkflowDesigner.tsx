@@ -0,0 +1,870 @@
+import { useState, useEffect, useMemo, useCallback } from 'react';
+import {
+  ReactFlow,
+  Background,
+  Controls,
+  MarkerType,
+  Position,
+} from '@xyflow/react';
+import type { Node, Edge, NodeChange, EdgeChange, Connection } from '@xyflow/react';
+import '@xyflow/react/dist/style.css';
+
+const API_BASE = window.location.hostname === 'localhost' ? 'http://localhost:8080' : '';
+
+interface WorkflowDesignerProps {
+  projectId: string;
+}
+
+// Mirrors the step types of workflow-engine-service (src/engine/types.ts)
+type StepType = 'task' | 'decision' | 'wait' | 'timer' | 'human' | 'parallel' | 'join' | 'fail' | 'end';
+
+interface BranchCondition {
+  path: string;
+  equals?: unknown;
+  notEquals?: unknown;
+  in?: unknown[];
+  exists?: boolean;
+  gt?: number;
+  gte?: number;
+  lt?: number;
+  lte?: number;
+}
+
+interface FormField {
+  name: string;
+  type: 'text' | 'number' | 'boolean' | 'date' | 'select';
+  label?: string;
+  required?: boolean;
+  options?: string[];
+}
+
+interface WorkflowStep {
+  id: string;
+  type: StepType;
+  name?: string;
+  next?: string;
+  // task
+  action?: string;
+  input?: Record<string, unknown>;
+  // decision
+  ruleId?: string;
+  branches?: Array<{ when: BranchCondition; next: string }> | string[];
+  default?: string;
+  // wait
+  event?: string;
+  correlation?: string;
+  timeout?: { after: string | number; next: string };
+  // timer
+  duration?: string | number;
+  until?: string;
+  // human
+  title?: string;
+  assignee?: { roles?: string[]; user?: string };
+  form?: FormField[];
+  sla?: { after: string | number; escalateTo: { roles?: string[]; user?: string } };
+  // parallel
+  join?: string;
+  // fail
+  error?: string;
+  message?: string;
+  [key: string]: unknown;
+}
+
+interface Workflow {
+  workflowId: string;
+  version?: number;
+  name?: string;
+  start: string;
+  steps: WorkflowStep[];
+}
+
+interface Problem {
+  stepId?: string;
+  message: string;
+}
+
+// `kind` says which field of the source step an edge comes from, so deleting the edge can clear it
+interface Transition {
+  source: string;
+  target: string;
+  kind: 'next' | 'branch' | 'default' | 'timeout' | 'fork';
+  index?: number;
+  label?: string;
+}
+
+const NODE_TYPES: Array<{ type: StepType; label: string; icon: string; color: string }> = [
+  { type: 'task', label: 'Task', icon: '⚙️', color: '#3b82f6' },
+  { type: 'decision', label: 'Decision', icon: '🔀', color: '#f59e0b' },
+  { type: 'timer', label: 'Timer', icon: '⏱️', color: '#06b6d4' },
+  { type: 'human', label: 'Human task', icon: '👤', color: '#8b5cf6' },
+  { type: 'wait', label: 'Wait for event', icon: '📨', color: '#14b8a6' },
+  { type: 'parallel', label: 'Parallel', icon: '⑃', color: '#64748b' },
+  { type: 'join', label: 'Join', icon: '⑂', color: '#64748b' },
+  { type: 'fail', label: 'Fail', icon: '⛔', color: '#ef4444' },
+  { type: 'end', label: 'End', icon: '🏁', color: '#10b981' },
+];
+
+const OPERATORS = ['equals', 'notEquals', 'gt', 'gte', 'lt', 'lte', 'exists'] as const;
+type Operator = typeof OPERATORS[number];
+
+const inputStyle = {
+  width: '100%',
+  padding: '6px 10px',
+  background: '#1e293b',
+  border: '1px solid #334155',
+  borderRadius: 6,
+  color: '#e2e8f0',
+  fontSize: 12,
+  boxSizing: 'border-box' as const,
+};
+
+const labelStyle = { color: '#94a3b8', fontSize: 11, display: 'block', margin: '10px 0 4px' };
+
+function typeInfo(type: StepType) {
+  return NODE_TYPES.find(t => t.type === type) || NODE_TYPES[0];
+}
+
+function newStep(type: StepType, id: string): WorkflowStep {
+  switch (type) {
+    case 'task': return { id, type, action: 'log', input: { message: id } };
+    case 'decision': return { id, type, branches: [] };
+    case 'timer': return { id, type, duration: 'PT1H' };
+    case 'human': return { id, type, title: 'Review', assignee: { roles: [] }, form: [] };
+    case 'wait': return { id, type, event: '' };
+    case 'parallel': return { id, type, branches: [], join: '' };
+    case 'fail': return { id, type, error: 'WORKFLOW_FAILED' };
+    default: return { id, type };
+  }
+}
+
+function decisionBranches(step: WorkflowStep) {
+  return step.type === 'decision' ? (step.branches || []) as Array<{ when: BranchCondition; next: string }> : [];
+}
+
+function forkBranches(step: WorkflowStep) {
+  return step.type === 'parallel' ? (step.branches || []) as string[] : [];
+}
+
+function transitions(step: WorkflowStep): Transition[] {
+  const out: Transition[] = [];
+  decisionBranches(step).forEach((b, index) => {
+    out.push({ source: step.id, target: b.next, kind: 'branch', index, label: conditionLabel(b.when) });
+  });
+  forkBranches(step).forEach((target, index) => out.push({ source: step.id, target, kind: 'fork', index }));
+  if (step.type === 'decision' && step.default) out.push({ source: step.id, target: step.default, kind: 'default', label: 'default' });
+  if (step.next && step.type !== 'parallel') out.push({ source: step.id, target: step.next, kind: 'next' });
+  if (step.type === 'wait' && step.timeout?.next) {
+    out.push({ source: step.id, target: step.timeout.next, kind: 'timeout', label: `timeout ${step.timeout.after}` });
+  }
+  return out;
+}
+
+function conditionLabel(when: BranchCondition): string {
+  const op = OPERATORS.find(o => o in when);
+  if (!op) return when.path || '?';
+  const symbols: Record<Operator, string> = { equals: '=', notEquals: '≠', gt: '>', gte: '≥', lt: '<', lte: '≤', exists: 'exists' };
+  return op === 'exists' ? `${when.path} ${when.exists ? 'exists' : 'missing'}` : `${when.path} ${symbols[op]} ${JSON.stringify(when[op])}`;
+}
+
+function validateWorkflow(wf: Workflow): Problem[] {
+  const problems: Problem[] = [];
+  const ids = new Set<string>();
+  for (const step of wf.steps) {
+    if (!step.id) problems.push({ message: 'A step has no id' });
+    else if (ids.has(step.id)) problems.push({ stepId: step.id, message: `Duplicate step id ${step.id}` });
+    ids.add(step.id);
+  }
+  if (!wf.steps.length) return [{ message: 'Add at least one step' }];
+  if (!ids.has(wf.start)) problems.push({ message: 'Choose a start step' });
+
+  const edges = wf.steps.flatMap(transitions);
+  for (const e of edges) {
+    if (!ids.has(e.target)) problems.push({ stepId: e.source, message: `${e.source} points to missing step "${e.target}"` });
+  }
+
+  for (const step of wf.steps) {
+    const hasNext = !!step.next;
+    switch (step.type) {
+      case 'task':
+        if (!step.action) problems.push({ stepId: step.id, message: `${step.id} needs an action` });
+        if (!hasNext) problems.push({ stepId: step.id, message: `${step.id} has no next step; connect it to an end state` });
+        break;
+      case 'timer':
+      case 'join':
+        if (!hasNext) problems.push({ stepId: step.id, message: `${step.id} has no next step; connect it to an end state` });
+        if (step.type === 'timer' && (step.duration === undefined || step.duration === '') === !step.until) {
+          problems.push({ stepId: step.id, message: `${step.id} needs either a duration or an until variable` });
+        }
+        break;
+      case 'human':
+        if (!step.assignee?.roles?.length && !step.assignee?.user) problems.push({ stepId: step.id, message: `${step.id} needs assignee roles or a user` });
+        if (!hasNext) problems.push({ stepId: step.id, message: `${step.id} has no next step; connect it to an end state` });
+        break;
+      case 'wait':
+        if (!step.event) problems.push({ stepId: step.id, message: `${step.id} needs an event name` });
+        if (!hasNext) problems.push({ stepId: step.id, message: `${step.id} has no next step; connect it to an end state` });
+        break;
+      case 'decision':
+        if (!decisionBranches(step).length && !step.default && !hasNext) problems.push({ stepId: step.id, message: `${step.id} has no outgoing branch` });
+        decisionBranches(step).forEach((b, i) => {
+          if (!b.when.path) problems.push({ stepId: step.id, message: `${step.id} branch ${i + 1} needs a variable path` });
+        });
+        break;
+      case 'parallel': {
+        const join = wf.steps.find(s => s.id === step.join);
+        if (forkBranches(step).length < 2) problems.push({ stepId: step.id, message: `${step.id} needs at least two branches` });
+        if (!join || join.type !== 'join') problems.push({ stepId: step.id, message: `${step.id} must name a join step` });
+        break;
+      }
+    }
+  }
+
+  // Unreachable: not visited walking forward from the start
+  const reachable = new Set<string>();
+  const queue = ids.has(wf.start) ? [wf.start] : [];
+  while (queue.length) {
+    const id = queue.shift()!;
+    if (reachable.has(id)) continue;
+    reachable.add(id);
+    for (const e of edges) if (e.source === id && ids.has(e.target)) queue.push(e.target);
+  }
+  for (const step of wf.steps) {
+    if (step.id && !reachable.has(step.id)) problems.push({ stepId: step.id, message: `${step.id} is unreachable from the start` });
+  }
+
+  // Missing end states: no end step at all, or steps that can never get to one
+  const terminals = wf.steps.filter(s => s.type === 'end' || s.type === 'fail');
+  if (!wf.steps.some(s => s.type === 'end' && reachable.has(s.id))) problems.push({ message: 'No reachable end step' });
+  const canFinish = new Set(terminals.map(s => s.id));
+  let grew = true;
+  while (grew) {
+    grew = false;
+    for (const step of wf.steps) {
+      if (canFinish.has(step.id)) continue;
+      const forkDone = step.type === 'parallel' && !!step.join && canFinish.has(step.join);
+      if (forkDone || edges.some(e => e.source === step.id && canFinish.has(e.target))) {
+        canFinish.add(step.id);
+        grew = true;
+      }
+    }
+  }
+  for (const step of wf.steps) {
+    if (reachable.has(step.id) && !canFinish.has(step.id) && edges.some(e => e.source === step.id)) {
+      problems.push({ stepId: step.id, message: `${step.id} never reaches an end state` });
+    }
+  }
+  return problems;
+}
+
+// Left-to-right layers by distance from the start; unreachable steps go in a trailing column
+function autoLayout(wf: Workflow): Record<string, { x: number; y: number }> {
+  const depth = new Map<string, number>();
+  const queue: string[] = [];
+  if (wf.steps.some(s => s.id === wf.start)) {
+    depth.set(wf.start, 0);
+    queue.push(wf.start);
+  }
+  while (queue.length) {
+    const id = queue.shift()!;
+    const step = wf.steps.find(s => s.id === id);
+    if (!step) continue;
+    for (const e of transitions(step)) {
+      if (depth.has(e.target)) continue;
+      depth.set(e.target, depth.get(id)! + 1);
+      queue.push(e.target);
+    }
+  }
+  const last = Math.max(0, ...depth.values()) + 1;
+  const rows = new Map<number, number>();
+  const positions: Record<string, { x: number; y: number }> = {};
+  for (const step of wf.steps) {
+    const col = depth.get(step.id) ?? last;
+    const row = rows.get(col) ?? 0;
+    rows.set(col, row + 1);
+    positions[step.id] = { x: 50 + col * 240, y: 50 + row * 130 };
+  }
+  return positions;
+}
+
+function renameReferences(step: WorkflowStep, from: string, to: string | undefined): WorkflowStep {
+  const swap = (v?: string) => (v === from ? to : v);
+  const copy: WorkflowStep = { ...step, next: swap(step.next) };
+  if (step.type === 'decision') {
+    copy.branches = decisionBranches(step).filter(b => to || b.next !== from).map(b => ({ ...b, next: swap(b.next)! }));
+    copy.default = swap(step.default);
+  }
+  if (step.type === 'parallel') {
+    copy.branches = forkBranches(step).filter(b => to || b !== from).map(b => swap(b)!);
+    copy.join = swap(step.join) || '';
+  }
+  if (step.type === 'wait' && step.timeout) {
+    copy.timeout = step.timeout.next === from && !to ? undefined : { ...step.timeout, next: swap(step.timeout.next)! };
+  }
+  if (copy.next === undefined) delete copy.next;
+  if (copy.default === undefined) delete copy.default;
+  if (copy.timeout === undefined) delete copy.timeout;
+  return copy;
+}
+
+function removeTransition(step: WorkflowStep, t: Transition): WorkflowStep {
+  const copy: WorkflowStep = { ...step };
+  if (t.kind === 'next') delete copy.next;
+  if (t.kind === 'default') delete copy.default;
+  if (t.kind === 'timeout') delete copy.timeout;
+  if (t.kind === 'branch') copy.branches = decisionBranches(step).filter((_, i) => i !== t.index);
+  if (t.kind === 'fork') copy.branches = forkBranches(step).filter((_, i) => i !== t.index);
+  return copy;
+}
+
+function addTransition(step: WorkflowStep, target: string): WorkflowStep {
+  if (step.type === 'decision') {
+    return { ...step, branches: [...decisionBranches(step), { when: { path: '', equals: '' }, next: target }] };
+  }
+  if (step.type === 'parallel') {
+    return forkBranches(step).includes(target) ? step : { ...step, branches: [...forkBranches(step), target] };
+  }
+  if (step.type === 'end' || step.type === 'fail') return step;
+  return { ...step, next: target };
+}
+
+function parseValue(text: string): unknown {
+  try {
+    return JSON.parse(text);
+  } catch {
+    return text;
+  }
+}
+
+export default function WorkflowDesigner({ projectId }: WorkflowDesignerProps) {
+  const [workflows, setWorkflows] = useState<Workflow[]>([]);
+  const [activeIndex, setActiveIndex] = useState(0);
+  const [positions, setPositions] = useState<Record<string, { x: number; y: number }>>({});
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [newWorkflowId, setNewWorkflowId] = useState('');
+  const [jsonDrafts, setJsonDrafts] = useState<Record<string, string>>({});
+  const [dirty, setDirty] = useState(false);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+
+  const workflow = workflows[activeIndex] as Workflow | undefined;
+  const selected = workflow?.steps.find(s => s.id === selectedId) || null;
+  const problems = useMemo(() => (workflow ? validateWorkflow(workflow) : []), [workflow]);
+  const problemSteps = useMemo(() => new Set(problems.map(p => p.stepId).filter(Boolean)), [problems]);
+
+  useEffect(() => {
+    let cancelled = false;
+    (async () => {
+      setLoading(true);
+      try {
+        const res = await fetch(`${API_BASE}/api/projects/${projectId}/workflows`);
+        const body = await res.json();
+        if (!res.ok) throw new Error(body.error || res.statusText);
+        if (cancelled) return;
+        setWorkflows(body.workflows || []);
+        setActiveIndex(0);
+        setPositions(body.workflows?.length ? autoLayout(body.workflows[0]) : {});
+        setDirty(false);
+        setError(null);
+      } catch (e) {
+        if (!cancelled) setError(e instanceof Error ? e.message : String(e));
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    })();
+    return () => { cancelled = true; };
+  }, [projectId]);
+
+  const updateWorkflow = useCallback((change: (wf: Workflow) => Workflow) => {
+    setWorkflows(prev => prev.map((wf, i) => (i === activeIndex ? change(wf) : wf)));
+    setDirty(true);
+    setNotice(null);
+  }, [activeIndex]);
+
+  const updateStep = (id: string, change: (step: WorkflowStep) => WorkflowStep) => {
+    updateWorkflow(wf => ({ ...wf, steps: wf.steps.map(s => (s.id === id ? change(s) : s)) }));
+  };
+
+  const selectWorkflow = (index: number) => {
+    setActiveIndex(index);
+    setSelectedId(null);
+    setJsonDrafts({});
+    setPositions(autoLayout(workflows[index]));
+  };
+
+  const addWorkflow = () => {
+    const id = newWorkflowId.trim();
+    if (!id || workflows.some(w => w.workflowId === id)) return;
+    setWorkflows(prev => [...prev, { workflowId: id, version: 1, start: '', steps: [] }]);
+    setActiveIndex(workflows.length);
+    setPositions({});
+    setSelectedId(null);
+    setNewWorkflowId('');
+    setDirty(true);
+  };
+
+  const addStep = (type: StepType) => {
+    if (!workflow) return;
+    let n = workflow.steps.filter(s => s.type === type).length + 1;
+    while (workflow.steps.some(s => s.id === `${type}_${n}`)) n++;
+    const id = `${type}_${n}`;
+    updateWorkflow(wf => ({ ...wf, start: wf.start || id, steps: [...wf.steps, newStep(type, id)] }));
+    const xs = Object.values(positions).map(p => p.x);
+    setPositions(prev => ({ ...prev, [id]: { x: xs.length ? Math.max(...xs) + 240 : 50, y: 50 } }));
+    setSelectedId(id);
+  };
+
+  const deleteStep = useCallback((id: string) => {
+    updateWorkflow(wf => ({
+      ...wf,
+      start: wf.start === id ? '' : wf.start,
+      steps: wf.steps.filter(s => s.id !== id).map(s => renameReferences(s, id, undefined)),
+    }));
+    setSelectedId(prev => (prev === id ? null : prev));
+  }, [updateWorkflow]);
+
+  const renameStep = (from: string, to: string) => {
+    if (!to || to === from || workflow?.steps.some(s => s.id === to)) return;
+    updateWorkflow(wf => ({
+      ...wf,
+      start: wf.start === from ? to : wf.start,
+      steps: wf.steps.map(s => renameReferences(s.id === from ? { ...s, id: to } : s, from, to)),
+    }));
+    setPositions(prev => {
+      const { [from]: pos, ...rest } = prev;
+      return { ...rest, [to]: pos };
+    });
+    setSelectedId(to);
+  };
+
+  const nodes: Node[] = useMemo(() => (workflow?.steps || []).map(step => {
+    const info = typeInfo(step.type);
+    const flagged = problemSteps.has(step.id);
+    return {
+      id: step.id,
+      position: positions[step.id] || { x: 50, y: 50 },
+      selected: step.id === selectedId,
+      data: {
+        label: (
+          <div style={{ textAlign: 'left' }}>
+            <div style={{ fontSize: 10, color: info.color, textTransform: 'uppercase', letterSpacing: 0.5 }}>
+              {info.icon} {info.label}{step.id === workflow?.start ? ' · start' : ''}
+            </div>
+            <div style={{ fontWeight: 'bold', fontSize: 12, color: '#e2e8f0', marginTop: 2 }}>{step.name || step.id}</div>
+            {step.name && <div style={{ fontSize: 10, color: '#64748b' }}>{step.id}</div>}
+          </div>
+        ),
+      },
+      style: {
+        padding: '8px 12px',
+        borderRadius: step.type === 'end' || step.type === 'fail' ? 20 : 8,
+        border: `2px solid ${flagged ? '#ef4444' : info.color}`,
+        boxShadow: step.id === workflow?.start ? `0 0 0 3px ${info.color}55` : undefined,
+        background: '#0f172a',
+        fontFamily: 'monospace',
+        minWidth: 150,
+      },
+      sourcePosition: Position.Right,
+      targetPosition: Position.Left,
+    };
+  }), [workflow, positions, selectedId, problemSteps]);
+
+  const edges: Edge[] = useMemo(() => (workflow?.steps || []).flatMap(step => transitions(step).map(t => {
+    const color = t.kind === 'timeout' ? '#f59e0b' : t.kind === 'default' ? '#94a3b8' : '#60a5fa';
+    return {
+      id: `${t.source}:${t.kind}:${t.index ?? 0}:${t.target}`,
+      source: t.source,
+      target: t.target,
+      data: { transition: t },
+      label: t.label,
+      animated: t.kind === 'fork',
+      labelStyle: { fontSize: 9, fill: '#cbd5e1' },
+      labelBgStyle: { fill: '#1e293b', fillOpacity: 0.9 },
+      style: { stroke: color, strokeDasharray: t.kind === 'default' || t.kind === 'timeout' ? '4 3' : undefined },
+      markerEnd: { type: MarkerType.ArrowClosed, color },
+    };
+  })), [workflow]);
+
+  const onNodesChange = useCallback((changes: NodeChange[]) => {
+    setPositions(prev => {
+      let next = prev;
+      for (const c of changes) {
+        if (c.type === 'position' && c.position) next = { ...next, [c.id]: c.position };
+      }
+      return next;
+    });
+    for (const c of changes) {
+      if (c.type === 'select' && c.selected) setSelectedId(c.id);
+      if (c.type === 'remove') deleteStep(c.id);
+    }
+  }, [deleteStep]);
+
+  const onEdgesChange = useCallback((changes: EdgeChange[]) => {
+    for (const c of changes) {
+      if (c.type !== 'remove') continue;
+      const edge = edges.find(e => e.id === c.id);
+      const t = edge?.data?.transition as Transition | undefined;
+      if (!t) continue;
+      updateWorkflow(wf => ({ ...wf, steps: wf.steps.map(s => (s.id === t.source ? removeTransition(s, t) : s)) }));
+    }
+  }, [edges, updateWorkflow]);
+
+  const onConnect = useCallback((conn: Connection) => {
+    if (!conn.source || !conn.target || conn.source === conn.target) return;
+    updateWorkflow(wf => ({ ...wf, steps: wf.steps.map(s => (s.id === conn.source ? addTransition(s, conn.target) : s)) }));
+  }, [updateWorkflow]);
+
+  const save = async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const res = await fetch(`${API_BASE}/api/projects/${projectId}/workflows`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ workflows }),
+      });
+      const body = await res.json();
+      if (!res.ok) {
+        const details = Array.isArray(body.details) ? `: ${body.details.join('; ')}` : '';
+        throw new Error(`${body.error || res.statusText}${details}`);
+      }
+      setDirty(false);
+      setNotice(`Saved ${workflows.length} workflow(s) to the project`);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : String(e));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Free-form JSON fields (task input, human form) are kept as drafts until they parse
+  const jsonField = (step: WorkflowStep, field: 'input' | 'form', fallback: unknown) => {
+    const key = `${step.id}.${field}`;
+    const text = jsonDrafts[key] ?? JSON.stringify(step[field] ?? fallback, null, 2);
+    let invalid = false;
+    try { JSON.parse(text); } catch { invalid = true; }
+    return (
+      <textarea
+        value={text}
+        rows={5}
+        onChange={(e) => {
+          const value = e.target.value;
+          setJsonDrafts(prev => ({ ...prev, [key]: value }));
+          try {
+            const parsed = JSON.parse(value);
+            updateStep(step.id, s => ({ ...s, [field]: parsed }));
+          } catch {
+            // keep the draft until it is valid JSON
+          }
+        }}
+        style={{ ...inputStyle, fontFamily: 'monospace', border: `1px solid ${invalid ? '#ef4444' : '#334155'}` }}
+      />
+    );
+  };
+
+  const targetSelect = (value: string | undefined, onChange: (v: string | undefined) => void, exclude?: string) => (
+    <select value={value || ''} onChange={(e) => onChange(e.target.value || undefined)} style={inputStyle}>
+      <option value="">— none —</option>
+      {workflow?.steps.filter(s => s.id !== exclude).map(s => (
+        <option key={s.id} value={s.id}>{s.id} ({s.type})</option>
+      ))}
+    </select>
+  );
+
+  const renderProperties = (step: WorkflowStep) => {
+    const set = (patch: Partial<WorkflowStep>) => updateStep(step.id, s => ({ ...s, ...patch }));
+    const hasNext = !['decision', 'parallel', 'end', 'fail'].includes(step.type);
+    return (
+      <div>
+        <label style={labelStyle}>Step id</label>
+        <input
+          key={step.id}
+          defaultValue={step.id}
+          onBlur={(e) => renameStep(step.id, e.target.value.trim())}
+          style={inputStyle}
+        />
+        <label style={labelStyle}>Name</label>
+        <input value={step.name || ''} onChange={(e) => set({ name: e.target.value || undefined })} style={inputStyle} />
+
+        {step.type === 'task' && (
+          <>
+            <label style={labelStyle}>Action</label>
+            <input value={step.action || ''} onChange={(e) => set({ action: e.target.value })} placeholder="set | log | http" style={inputStyle} />
+            <label style={labelStyle}>Input (JSON, "$.path" reads a variable)</label>
+            {jsonField(step, 'input', {})}
+            <label style={labelStyle}>Result variable</label>
+            <input value={(step.resultVar as string) || ''} onChange={(e) => set({ resultVar: e.target.value || undefined })} style={inputStyle} />
+          </>
+        )}
+
+        {step.type === 'decision' && (
+          <>
+            <label style={labelStyle}>Rule id (optional)</label>
+            <input value={step.ruleId || ''} onChange={(e) => set({ ruleId: e.target.value || undefined })} style={inputStyle} />
+            <label style={labelStyle}>Branches (first match wins)</label>
+            {decisionBranches(step).map((b, i) => {
+              const op: Operator = OPERATORS.find(o => o in b.when) || 'equals';
+              const setBranch = (when: BranchCondition, next = b.next) =>
+                set({ branches: decisionBranches(step).map((x, j) => (j === i ? { when, next } : x)) });
+              return (
+                <div key={i} style={{ background: '#1e293b', borderRadius: 6, padding: 8, marginBottom: 6 }}>
+                  <div style={{ display: 'flex', gap: 4 }}>
+                    <input
+                      value={b.when.path}
+                      onChange={(e) => setBranch({ ...b.when, path: e.target.value })}
+                      placeholder="variable.path"
+                      style={{ ...inputStyle, flex: 2 }}
+                    />
+                    <select
+                      value={op}
+                      onChange={(e) => setBranch({ path: b.when.path, [e.target.value]: e.target.value === 'exists' ? true : b.when[op] })}
+                      style={{ ...inputStyle, flex: 1 }}
+                    >
+                      {OPERATORS.map(o => <option key={o} value={o}>{o}</option>)}
+                    </select>
+                    <input
+                      value={op === 'exists' ? String(b.when.exists) : typeof b.when[op] === 'string' ? String(b.when[op]) : JSON.stringify(b.when[op] ?? '')}
+                      onChange={(e) => setBranch({ path: b.when.path, [op]: op === 'exists' ? e.target.value === 'true' : parseValue(e.target.value) })}
+                      style={{ ...inputStyle, flex: 2 }}
+                    />
+                  </div>
+                  <div style={{ display: 'flex', gap: 4, marginTop: 4 }}>
+                    {targetSelect(b.next, (v) => setBranch(b.when, v || ''), step.id)}
+                    <button
+                      onClick={() => set({ branches: decisionBranches(step).filter((_, j) => j !== i) })}
+                      style={{ padding: '4px 8px', background: 'transparent', border: '1px solid #7f1d1d', borderRadius: 4, color: '#fca5a5', cursor: 'pointer', fontSize: 11 }}
+                    >
+                      ✕
+                    </button>
+                  </div>
+                </div>
+              );
+            })}
+            <p style={{ color: '#64748b', fontSize: 11, margin: '4px 0' }}>Drag from this node to another to add a branch.</p>
+            <label style={labelStyle}>Default</label>
+            {targetSelect(step.default, (v) => set({ default: v }), step.id)}
+          </>
+        )}
+
+        {step.type === 'timer' && (
+          <>
+            <label style={labelStyle}>Duration (PT15M, 30s, 2h)</label>
+            <input value={step.duration === undefined ? '' : String(step.duration)} onChange={(e) => set({ duration: e.target.value || undefined })} style={inputStyle} />
+            <label style={labelStyle}>…or until datetime variable</label>
+            <input value={step.until || ''} onChange={(e) => set({ until: e.target.value || undefined })} placeholder="$.due_date" style={inputStyle} />
+          </>
+        )}
+
+        {step.type === 'human' && (
+          <>
+            <label style={labelStyle}>Task title</label>
+            <input value={step.title || ''} onChange={(e) => set({ title: e.target.value || undefined })} style={inputStyle} />
+            <label style={labelStyle}>Candidate roles (comma separated)</label>
+            <input
+              value={(step.assignee?.roles || []).join(', ')}
+              onChange={(e) => set({ assignee: { ...step.assignee, roles: e.target.value.split(',').map(r => r.trim()).filter(Boolean) } })}
+              style={inputStyle}
+            />
+            <label style={labelStyle}>Assigned user (id or $.path)</label>
+            <input
+              value={step.assignee?.user || ''}
+              onChange={(e) => set({ assignee: { ...step.assignee, user: e.target.value || undefined } })}
+              style={inputStyle}
+            />
+            <label style={labelStyle}>SLA (escalate after)</label>
+            <div style={{ display: 'flex', gap: 4 }}>
+              <input
+                value={step.sla ? String(step.sla.after) : ''}
+                onChange={(e) => set({ sla: e.target.value ? { after: e.target.value, escalateTo: step.sla?.escalateTo || { roles: [] } } : undefined })}
+                placeholder="P2D"
+                style={{ ...inputStyle, flex: 1 }}
+              />
+              <input
+                value={(step.sla?.escalateTo.roles || []).join(', ')}
+                disabled={!step.sla}
+                onChange={(e) => step.sla && set({ sla: { ...step.sla, escalateTo: { roles: e.target.value.split(',').map(r => r.trim()).filter(Boolean) } } })}
+                placeholder="escalate to roles"
+                style={{ ...inputStyle, flex: 2 }}
+              />
+            </div>
+            <label style={labelStyle}>Form fields (JSON)</label>
+            {jsonField(step, 'form', [])}
+          </>
+        )}
+
+        {step.type === 'wait' && (
+          <>
+            <label style={labelStyle}>Event</label>
+            <input value={step.event || ''} onChange={(e) => set({ event: e.target.value })} style={inputStyle} />
+            <label style={labelStyle}>Correlation variable</label>
+            <input value={step.correlation || ''} onChange={(e) => set({ correlation: e.target.value || undefined })} placeholder="$.order_id" style={inputStyle} />
+            <label style={labelStyle}>Timeout after / go to</label>
+            <div style={{ display: 'flex', gap: 4 }}>
+              <input
+                value={step.timeout ? String(step.timeout.after) : ''}
+                onChange={(e) => set({ timeout: e.target.value ? { after: e.target.value, next: step.timeout?.next || '' } : undefined })}
+                placeholder="PT15M"
+                style={{ ...inputStyle, flex: 1 }}
+              />
+              <div style={{ flex: 2 }}>
+                {targetSelect(step.timeout?.next, (v) => step.timeout && set({ timeout: { ...step.timeout, next: v || '' } }), step.id)}
+              </div>
+            </div>
+          </>
+        )}
+
+        {step.type === 'parallel' && (
+          <>
+            <label style={labelStyle}>Branches</label>
+            <div style={{ color: '#e2e8f0', fontSize: 12 }}>{forkBranches(step).join(', ') || 'Drag from this node to add branches'}</div>
+            <label style={labelStyle}>Join step</label>
+            {targetSelect(step.join, (v) => set({ join: v || '' }), step.id)}
+          </>
+        )}
+
+        {step.type === 'fail' && (
+          <>
+            <label style={labelStyle}>Error code</label>
+            <input value={step.error || ''} onChange={(e) => set({ error: e.target.value || undefined })} style={inputStyle} />
+            <label style={labelStyle}>Message</label>
+            <input value={step.message || ''} onChange={(e) => set({ message: e.target.value || undefined })} style={inputStyle} />
+          </>
+        )}
+
+        {hasNext && (
+          <>
+            <label style={labelStyle}>Next step</label>
+            {targetSelect(step.next, (v) => set({ next: v }), step.id)}
+          </>
+        )}
+
+        <div style={{ display: 'flex', gap: 8, marginTop: 16 }}>
+          {workflow?.start !== step.id && (
+            <button
+              onClick={() => updateWorkflow(wf => ({ ...wf, start: step.id }))}
+              style={{ padding: '6px 12px', background: '#334155', border: 'none', borderRadius: 6, color: '#e2e8f0', cursor: 'pointer', fontSize: 12 }}
+            >
+              Set as start
+            </button>
+          )}
+          <button
+            onClick={() => deleteStep(step.id)}
+            style={{ padding: '6px 12px', background: '#7f1d1d', border: 'none', borderRadius: 6, color: '#fecaca', cursor: 'pointer', fontSize: 12 }}
+          >
+            Delete step
+          </button>
+        </div>
+      </div>
+    );
+  };
+
+  return (
+    <div style={{ background: '#1e293b', borderRadius: 8, overflow: 'hidden' }}>
+      <div style={{ padding: 12, borderBottom: '1px solid #334155', display: 'flex', gap: 8, alignItems: 'center', flexWrap: 'wrap' }}>
+        <select
+          value={workflow ? activeIndex : ''}
+          onChange={(e) => selectWorkflow(Number(e.target.value))}
+          style={{ ...inputStyle, width: 220 }}
+        >
+          {workflows.length === 0 && <option value="">No workflows yet</option>}
+          {workflows.map((wf, i) => (
+            <option key={`${wf.workflowId}@${wf.version ?? 1}`} value={i}>{wf.name || wf.workflowId} v{wf.version ?? 1}</option>
+          ))}
+        </select>
+        <input
+          value={newWorkflowId}
+          onChange={(e) => setNewWorkflowId(e.target.value)}
+          placeholder="new_workflow_id"
+          style={{ ...inputStyle, width: 160 }}
+        />
+        <button
+          onClick={addWorkflow}
+          style={{ padding: '6px 12px', background: '#334155', border: 'none', borderRadius: 6, color: '#e2e8f0', cursor: 'pointer', fontSize: 12 }}
+        >
+          + Workflow
+        </button>
+        <div style={{ marginLeft: 'auto', display: 'flex', gap: 8, alignItems: 'center' }}>
+          {dirty && <span style={{ color: '#f59e0b', fontSize: 12 }}>Unsaved changes</span>}
+          <button
+            disabled={loading || !dirty || workflows.some(wf => validateWorkflow(wf).length > 0)}
+            onClick={save}
+            title={problems.length ? 'Fix the problems below before saving' : undefined}
+            style={{ padding: '6px 16px', background: '#10b981', border: 'none', borderRadius: 6, color: 'white', cursor: 'pointer', fontSize: 12, opacity: loading || !dirty ? 0.6 : 1 }}
+          >
+            {loading ? 'Saving…' : 'Save to project'}
+          </button>
+        </div>
+      </div>
+
+      {workflow && (
+        <div style={{ padding: '8px 12px', borderBottom: '1px solid #334155', display: 'flex', gap: 6, flexWrap: 'wrap' }}>
+          {NODE_TYPES.map(t => (
+            <button
+              key={t.type}
+              onClick={() => addStep(t.type)}
+              style={{ padding: '4px 10px', background: 'transparent', border: `1px solid ${t.color}`, borderRadius: 4, color: '#e2e8f0', cursor: 'pointer', fontSize: 11 }}
+            >
+              {t.icon} {t.label}
+            </button>
+          ))}
+        </div>
+      )}
+
+      {error && (
+        <div style={{ background: '#7f1d1d', color: '#fecaca', padding: '8px 12px', fontSize: 13 }}>{error}</div>
+      )}
+      {notice && (
+        <div style={{ background: '#064e3b', color: '#a7f3d0', padding: '8px 12px', fontSize: 13 }}>{notice}</div>
+      )}
+
+      {!workflow ? (
+        <div style={{ height: 300, display: 'flex', alignItems: 'center', justifyContent: 'center', color: '#64748b', fontSize: 13 }}>
+          {loading ? 'Loading workflows…' : 'This project has no workflows yet. Name one above to start designing.'}
+        </div>
+      ) : (
+        <div style={{ display: 'grid', gridTemplateColumns: '1fr 300px' }}>
+          <div style={{ height: 520, background: '#0f172a' }}>
+            <ReactFlow
+              nodes={nodes}
+              edges={edges}
+              onNodesChange={onNodesChange}
+              onEdgesChange={onEdgesChange}
+              onConnect={onConnect}
+              onPaneClick={() => setSelectedId(null)}
+              fitView
+              proOptions={{ hideAttribution: true }}
+            >
+              <Background color="#334155" gap={20} />
+              <Controls style={{ background: '#1e293b', borderRadius: 4 }} />
+            </ReactFlow>
+          </div>
+          <div style={{ padding: 12, borderLeft: '1px solid #334155', maxHeight: 520, overflowY: 'auto' }}>
+            {selected ? renderProperties(selected) : (
+              <p style={{ color: '#64748b', fontSize: 12, margin: 0 }}>
+                Select a step to edit it. Drag between nodes to connect them; select an edge or node and press Backspace to remove it.
+              </p>
+            )}
+          </div>
+        </div>
+      )}
+
+      {workflow && (
+        <div style={{ padding: '8px 12px', borderTop: '1px solid #334155', fontSize: 12 }}>
+          {problems.length === 0 ? (
+            <span style={{ color: '#10b981' }}>✓ Graph is valid — every step is reachable and leads to an end state</span>
+          ) : (
+            problems.map((p, i) => (
+              <div
+                key={i}
+                onClick={() => p.stepId && setSelectedId(p.stepId)}
+                style={{ color: '#fca5a5', cursor: p.stepId ? 'pointer' : 'default', padding: '2px 0' }}
+              >
+                ⚠ {p.message}
+              </div>
+            ))
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
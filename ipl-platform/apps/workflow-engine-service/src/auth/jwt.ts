@@ -0,0 +1,56 @@
+import jwt from "jsonwebtoken";
+import type { NextFunction, Request, Response } from "express";
+
+// Same payload and secret as the auth module emitted by ai-generator-service's generateJWTAuth
+export interface TokenPayload {
+  userId: string;
+  email: string;
+  role: string;
+}
+
+if (!process.env.JWT_SECRET) {
+  throw new Error("JWT_SECRET must be set to the secret the generated auth module signs tokens with.");
+}
+
+const JWT_SECRET = process.env.JWT_SECRET;
+
+// Roles allowed to see every task and to escalate or reassign
+export const SUPERVISOR_ROLES = (process.env.WORKFLOW_SUPERVISOR_ROLES || "admin,supervisor")
+  .split(",")
+  .map(r => r.trim())
+  .filter(Boolean);
+
+export function currentUser(req: Request): TokenPayload {
+  return (req as any).user;
+}
+
+export function authMiddleware(req: Request, res: Response, next: NextFunction) {
+  const authHeader = req.headers.authorization;
+  if (!authHeader || !authHeader.startsWith("Bearer ")) {
+    return res.status(401).json({ ok: false, error: "No token provided" });
+  }
+  try {
+    const payload = jwt.verify(authHeader.substring(7), JWT_SECRET) as TokenPayload;
+    if (!payload?.userId || !payload.role) return res.status(401).json({ ok: false, error: "Invalid token" });
+    (req as any).user = payload;
+    next();
+  } catch (error: any) {
+    if (error.name === "TokenExpiredError") {
+      return res.status(401).json({ ok: false, error: "Token expired" });
+    }
+    return res.status(401).json({ ok: false, error: "Invalid token" });
+  }
+}
+
+export function requireRole(...roles: string[]) {
+  return (req: Request, res: Response, next: NextFunction) => {
+    const user = currentUser(req);
+    if (!user) {
+      return res.status(401).json({ ok: false, error: "Authentication required" });
+    }
+    if (!roles.includes(user.role)) {
+      return res.status(403).json({ ok: false, error: "Insufficient permissions" });
+    }
+    next();
+  };
+}
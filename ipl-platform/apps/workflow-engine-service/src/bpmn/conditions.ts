@@ -0,0 +1,49 @@
+import type { BranchCondition } from "../engine/types.js";
+
+const OPERATORS: Array<[string, keyof BranchCondition]> = [
+  ["==", "equals"],
+  ["!=", "notEquals"],
+  [">=", "gte"],
+  ["<=", "lte"],
+  [">", "gt"],
+  ["<", "lt"],
+];
+
+const SIMPLE = /^\s*(?:\$\{\s*)?([A-Za-z_][\w.]*)\s*(==|!=|>=|<=|>|<)\s*(.+?)\s*\}?\s*$/;
+
+function parseLiteral(text: string): any {
+  const t = text.trim();
+  if (/^'.*'$/.test(t)) return t.slice(1, -1);
+  return JSON.parse(t);
+}
+
+// `${path op literal}` for single comparisons, JSON for anything richer (in, exists, ranges)
+export function formatCondition(cond: BranchCondition): string {
+  const ops = OPERATORS.filter(([, key]) => key in cond);
+  const extra = Object.keys(cond).filter(k => k !== "path" && !OPERATORS.some(([, key]) => key === k));
+  if (ops.length === 1 && !extra.length) {
+    const [symbol, key] = ops[0];
+    return `\${${cond.path.replace(/^\$\./, "")} ${symbol} ${JSON.stringify(cond[key])}}`;
+  }
+  return JSON.stringify(cond);
+}
+
+export function parseCondition(text: string): BranchCondition {
+  const trimmed = text.trim();
+  if (trimmed.startsWith("{") && !trimmed.startsWith("{{")) {
+    const cond = JSON.parse(trimmed);
+    if (!cond?.path) throw new Error("JSON condition needs a path");
+    return cond;
+  }
+  const m = SIMPLE.exec(trimmed);
+  if (!m) throw new Error(`unsupported condition "${text}" (expected \${variable op literal} or a JSON condition)`);
+  const [, path, symbol, literal] = m;
+  let value: any;
+  try {
+    value = parseLiteral(literal);
+  } catch {
+    throw new Error(`condition "${text}": ${literal} is not a literal`);
+  }
+  const key = OPERATORS.find(([s]) => s === symbol)![1];
+  return { path, [key]: value } as BranchCondition;
+}
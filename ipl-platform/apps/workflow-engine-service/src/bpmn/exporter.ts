@@ -0,0 +1,288 @@
+import { XMLBuilder } from "fast-xml-parser";
+import { WorkflowError } from "../engine/errors.js";
+import { validateDefinition } from "../engine/definition.js";
+import { toIsoDuration } from "../engine/timers.js";
+import { formatCondition } from "./conditions.js";
+import type { DecisionStep, Duration, WorkflowDefinition, WorkflowStep } from "../engine/types.js";
+
+const NAMESPACES = {
+  "@_xmlns:bpmn": "http://www.omg.org/spec/BPMN/20100524/MODEL",
+  "@_xmlns:bpmndi": "http://www.omg.org/spec/BPMN/20100524/DI",
+  "@_xmlns:dc": "http://www.omg.org/spec/DD/20100524/DC",
+  "@_xmlns:di": "http://www.omg.org/spec/DD/20100524/DI",
+  "@_xmlns:xsi": "http://www.w3.org/2001/XMLSchema-instance",
+  "@_xmlns:ipl": "https://ipl-platform.dev/schema/bpmn",
+};
+
+const SIZES: Record<string, [number, number]> = {
+  event: [36, 36],
+  gateway: [50, 50],
+  activity: [100, 80],
+};
+
+interface ExportNode {
+  id: string;
+  tag: string;
+  shape: keyof typeof SIZES;
+  attrs: Record<string, any>;
+  children?: Record<string, any>;
+  // Boundary events are drawn on their host instead of in a column
+  attachedTo?: string;
+}
+
+interface ExportFlow {
+  id: string;
+  source: string;
+  target: string;
+  condition?: string;
+}
+
+const builder = new XMLBuilder({
+  ignoreAttributes: false,
+  attributeNamePrefix: "@_",
+  format: true,
+  suppressEmptyNode: true,
+  suppressBooleanAttributes: false,
+});
+
+function ipl(config: Record<string, any>): Record<string, string> {
+  const defined = Object.fromEntries(Object.entries(config).filter(([, v]) => v !== undefined));
+  return Object.keys(defined).length ? { "@_ipl:config": JSON.stringify(defined) } : {};
+}
+
+function timer(duration: Duration) {
+  return { "bpmn:timerEventDefinition": { "bpmn:timeDuration": { "@_xsi:type": "bpmn:tFormalExpression", "#text": toIsoDuration(duration) } } };
+}
+
+function safeId(prefix: string, value: string) {
+  return `${prefix}_${value.replace(/[^\w.-]/g, "_")}`;
+}
+
+// Inverse of importBpmn: one process with a generated left-to-right diagram so modelers can open it
+export function exportBpmn(def: WorkflowDefinition): string {
+  const problems = validateDefinition(def);
+  if (problems.length) throw new WorkflowError("INVALID_WORKFLOW", "Workflow definition is invalid", 422, { problems });
+
+  const nodes: ExportNode[] = [];
+  const flows: ExportFlow[] = [];
+  const messages = new Map<string, string>();
+  const errors = new Map<string, string>();
+  const flow = (source: string, target: string, condition?: string) =>
+    flows.push({ id: `Flow_${flows.length + 1}`, source, target, condition });
+  // Steps that just stop the token get an explicit end event, as BPMN requires
+  const follow = (step: WorkflowStep) => {
+    if (step.next) return flow(step.id, step.next);
+    const end = `${step.id}_end`;
+    nodes.push({ id: end, tag: "bpmn:endEvent", shape: "event", attrs: {} });
+    flow(step.id, end);
+  };
+  const route = (gatewayId: string, step: DecisionStep) => {
+    for (const branch of step.branches || []) flow(gatewayId, branch.next, formatCondition(branch.when));
+    const fallback = step.default ?? step.next;
+    if (!fallback) return undefined;
+    flow(gatewayId, fallback);
+    return step.branches?.length ? flows[flows.length - 1].id : undefined;
+  };
+
+  const startId = safeId("StartEvent", def.workflowId);
+  nodes.push({ id: startId, tag: "bpmn:startEvent", shape: "event", attrs: {} });
+  flow(startId, def.start);
+
+  for (const step of def.steps) {
+    const base = { "@_id": step.id, ...(step.name ? { "@_name": step.name } : {}) };
+    switch (step.type) {
+      case "task":
+        nodes.push({
+          id: step.id, tag: "bpmn:serviceTask", shape: "activity",
+          attrs: { ...base, ...ipl({ action: step.action, input: step.input, resultVar: step.resultVar, retry: step.retry, compensate: step.compensate }) },
+        });
+        follow(step);
+        break;
+      case "decision": {
+        if (step.ruleId) {
+          nodes.push({
+            id: step.id, tag: "bpmn:businessRuleTask", shape: "activity",
+            attrs: { ...base, ...ipl({ ruleId: step.ruleId, version: step.version, input: step.input, resultVar: step.resultVar, retry: step.retry }) },
+          });
+          if (!step.branches?.length) {
+            follow({ ...step, next: step.default ?? step.next });
+            break;
+          }
+          const gatewayId = `${step.id}_gateway`;
+          flow(step.id, gatewayId);
+          const gateway: ExportNode = { id: gatewayId, tag: "bpmn:exclusiveGateway", shape: "gateway", attrs: { "@_id": gatewayId } };
+          nodes.push(gateway);
+          const fallback = route(gatewayId, step);
+          if (fallback) gateway.attrs["@_default"] = fallback;
+        } else {
+          const gateway: ExportNode = { id: step.id, tag: "bpmn:exclusiveGateway", shape: "gateway", attrs: { ...base } };
+          nodes.push(gateway);
+          const fallback = route(step.id, step);
+          if (fallback) gateway.attrs["@_default"] = fallback;
+        }
+        break;
+      }
+      case "wait": {
+        const messageId = safeId("Message", step.event);
+        messages.set(messageId, step.event);
+        nodes.push({
+          id: step.id, tag: "bpmn:receiveTask", shape: "activity",
+          attrs: { ...base, "@_messageRef": messageId, ...ipl({ correlation: step.correlation, resultVar: step.resultVar }) },
+        });
+        follow(step);
+        if (step.timeout) {
+          const boundary = `${step.id}_timeout`;
+          nodes.push({
+            id: boundary, tag: "bpmn:boundaryEvent", shape: "event", attachedTo: step.id,
+            attrs: { "@_id": boundary, "@_attachedToRef": step.id, "@_cancelActivity": "true" },
+            children: timer(step.timeout.after),
+          });
+          flow(boundary, step.timeout.next);
+        }
+        break;
+      }
+      case "timer":
+        nodes.push({
+          id: step.id, tag: "bpmn:intermediateCatchEvent", shape: "event", attrs: base,
+          children: step.duration !== undefined
+            ? timer(step.duration)
+            : { "bpmn:timerEventDefinition": { "bpmn:timeDate": { "@_xsi:type": "bpmn:tFormalExpression", "#text": `\${${step.until!.replace(/^\$\./, "")}}` } } },
+        });
+        follow(step);
+        break;
+      case "human": {
+        const roles = step.assignee.roles?.length ? step.assignee.roles.join(",") : undefined;
+        nodes.push({
+          id: step.id, tag: "bpmn:userTask", shape: "activity",
+          attrs: { ...base, ...ipl({ title: step.title, assignee: step.assignee, form: step.form, resultVar: step.resultVar }) },
+          children: roles
+            ? { "bpmn:potentialOwner": { "bpmn:resourceAssignmentExpression": { "bpmn:formalExpression": roles } } }
+            : undefined,
+        });
+        follow(step);
+        if (step.sla) {
+          const boundary = `${step.id}_sla`;
+          nodes.push({
+            id: boundary, tag: "bpmn:boundaryEvent", shape: "event", attachedTo: step.id,
+            attrs: { "@_id": boundary, "@_attachedToRef": step.id, "@_cancelActivity": "false", ...ipl({ escalateTo: step.sla.escalateTo }) },
+            children: timer(step.sla.after),
+          });
+        }
+        break;
+      }
+      case "parallel":
+        nodes.push({ id: step.id, tag: "bpmn:parallelGateway", shape: "gateway", attrs: base });
+        for (const branch of step.branches) flow(step.id, branch);
+        break;
+      case "join":
+        nodes.push({ id: step.id, tag: "bpmn:parallelGateway", shape: "gateway", attrs: base });
+        follow(step);
+        break;
+      case "fail": {
+        const errorId = step.error ? safeId("Error", step.error) : undefined;
+        if (errorId) errors.set(errorId, step.error!);
+        nodes.push({
+          id: step.id, tag: "bpmn:endEvent", shape: "event",
+          attrs: { ...base, ...ipl({ message: step.message }) },
+          children: { "bpmn:errorEventDefinition": errorId ? { "@_errorRef": errorId } : "" },
+        });
+        break;
+      }
+      case "end":
+        nodes.push({ id: step.id, tag: "bpmn:endEvent", shape: "event", attrs: base });
+        break;
+    }
+  }
+
+  // A BPMN parallel gateway waits for every incoming flow, so forks reached from several places get an exclusive merge first
+  for (const step of def.steps) {
+    if (step.type !== "parallel") continue;
+    const into = flows.filter(f => f.target === step.id);
+    if (into.length < 2) continue;
+    const merge = `${step.id}_merge`;
+    nodes.push({ id: merge, tag: "bpmn:exclusiveGateway", shape: "gateway", attrs: {} });
+    for (const f of into) f.target = merge;
+    flow(merge, step.id);
+  }
+
+  const process: Record<string, any> = { "@_id": def.workflowId, "@_isExecutable": "true" };
+  if (def.name) process["@_name"] = def.name;
+  for (const node of nodes) {
+    const el = { "@_id": node.id, ...node.attrs, ...(node.children || {}) };
+    (process[node.tag] ||= []).push(el);
+  }
+  process["bpmn:sequenceFlow"] = flows.map(f => ({
+    "@_id": f.id,
+    "@_sourceRef": f.source,
+    "@_targetRef": f.target,
+    ...(f.condition ? { "bpmn:conditionExpression": { "@_xsi:type": "bpmn:tFormalExpression", "#text": f.condition } } : {}),
+  }));
+
+  const document = {
+    "bpmn:definitions": {
+      ...NAMESPACES,
+      "@_id": safeId("Definitions", def.workflowId),
+      "@_targetNamespace": "https://ipl-platform.dev/workflows",
+      "@_exporter": "ipl-workflow-engine",
+      "bpmn:message": [...messages].map(([id, name]) => ({ "@_id": id, "@_name": name })),
+      "bpmn:error": [...errors].map(([id, code]) => ({ "@_id": id, "@_name": code, "@_errorCode": code })),
+      "bpmn:process": process,
+      "bpmndi:BPMNDiagram": diagram(def.workflowId, nodes, flows, startId),
+    },
+  };
+  return `<?xml version="1.0" encoding="UTF-8"?>\n${builder.build(document)}`;
+}
+
+// Columns by breadth-first distance from the start event, rows in discovery order
+function diagram(processId: string, nodes: ExportNode[], flows: ExportFlow[], startId: string) {
+  const column = new Map<string, number>([[startId, 0]]);
+  const queue = [startId];
+  while (queue.length) {
+    const id = queue.shift()!;
+    for (const f of flows.filter(x => x.source === id || nodes.find(n => n.id === x.source)?.attachedTo === id)) {
+      if (column.has(f.target)) continue;
+      column.set(f.target, column.get(id)! + 1);
+      queue.push(f.target);
+    }
+  }
+
+  const bounds = new Map<string, { x: number; y: number; width: number; height: number }>();
+  const rows = new Map<number, number>();
+  for (const node of nodes) {
+    if (node.attachedTo) continue;
+    const col = column.get(node.id) ?? Math.max(0, ...column.values()) + 1;
+    const row = rows.get(col) ?? 0;
+    rows.set(col, row + 1);
+    const [width, height] = SIZES[node.shape];
+    bounds.set(node.id, { x: 100 + col * 180 + (100 - width) / 2, y: 80 + row * 140 + (80 - height) / 2, width, height });
+  }
+  for (const node of nodes) {
+    if (!node.attachedTo) continue;
+    const host = bounds.get(node.attachedTo)!;
+    bounds.set(node.id, { x: host.x + host.width - 28, y: host.y + host.height - 18, width: 36, height: 36 });
+  }
+
+  const box = (b: { x: number; y: number; width: number; height: number }) =>
+    ({ "@_x": b.x, "@_y": b.y, "@_width": b.width, "@_height": b.height });
+
+  return {
+    "@_id": "BPMNDiagram_1",
+    "bpmndi:BPMNPlane": {
+      "@_id": "BPMNPlane_1",
+      "@_bpmnElement": processId,
+      "bpmndi:BPMNShape": nodes.map(n => ({ "@_id": `${n.id}_di`, "@_bpmnElement": n.id, "dc:Bounds": box(bounds.get(n.id)!) })),
+      "bpmndi:BPMNEdge": flows.map(f => {
+        const s = bounds.get(f.source)!;
+        const t = bounds.get(f.target)!;
+        return {
+          "@_id": `${f.id}_di`,
+          "@_bpmnElement": f.id,
+          "di:waypoint": [
+            { "@_x": s.x + s.width, "@_y": s.y + s.height / 2 },
+            { "@_x": t.x, "@_y": t.y + t.height / 2 },
+          ],
+        };
+      }),
+    },
+  };
+}
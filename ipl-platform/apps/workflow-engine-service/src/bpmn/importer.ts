@@ -0,0 +1,405 @@
+import { XMLParser, XMLValidator } from "fast-xml-parser";
+import { WorkflowError } from "../engine/errors.js";
+import { validateDefinition } from "../engine/definition.js";
+import { parseCondition } from "./conditions.js";
+import type { DecisionBranch, FormField, TaskAssignee, WorkflowDefinition, WorkflowStep } from "../engine/types.js";
+
+export interface BpmnImportOptions {
+  // Defaults to the process id and 1
+  workflowId?: string;
+  version?: number;
+  // Picks a process when the file holds several
+  processId?: string;
+}
+
+export interface BpmnImportResult {
+  workflow: WorkflowDefinition;
+  warnings: string[];
+}
+
+const REPEATED = new Set([
+  "process", "message", "error",
+  "startEvent", "endEvent", "intermediateCatchEvent", "intermediateThrowEvent", "boundaryEvent",
+  "task", "serviceTask", "sendTask", "scriptTask", "userTask", "manualTask", "businessRuleTask", "receiveTask",
+  "exclusiveGateway", "parallelGateway", "inclusiveGateway", "eventBasedGateway", "complexGateway",
+  "subProcess", "callActivity", "transaction", "adHocSubProcess",
+  "sequenceFlow", "incoming", "outgoing", "formField", "value", "constraint", "potentialOwner",
+]);
+
+// Process children that carry no control flow
+const IGNORED = new Set([
+  "id", "name", "isExecutable", "processType", "isClosed",
+  "documentation", "extensionElements", "laneSet", "ioSpecification", "property",
+  "dataObject", "dataObjectReference", "dataStoreReference", "textAnnotation", "association", "group", "category",
+]);
+
+const TASK_ELEMENTS = new Set(["task", "serviceTask", "sendTask", "scriptTask", "manualTask"]);
+const EVENT_DEFINITIONS = [
+  "timerEventDefinition", "messageEventDefinition", "errorEventDefinition", "terminateEventDefinition",
+  "signalEventDefinition", "escalationEventDefinition", "conditionalEventDefinition", "compensateEventDefinition",
+  "cancelEventDefinition", "linkEventDefinition",
+];
+
+interface FlowNode {
+  id: string;
+  kind: string;
+  el: any;
+}
+
+interface Flow {
+  id: string;
+  source: string;
+  target: string;
+  condition?: string;
+}
+
+const parser = new XMLParser({
+  ignoreAttributes: false,
+  attributeNamePrefix: "",
+  removeNSPrefix: true,
+  parseAttributeValue: false,
+  parseTagValue: false,
+  trimValues: true,
+  isArray: name => REPEATED.has(name),
+});
+
+function text(node: any): string | undefined {
+  if (node === undefined || node === null) return undefined;
+  if (typeof node === "string") return node;
+  if (typeof node === "object" && "#text" in node) return String(node["#text"]);
+  return undefined;
+}
+
+function invalid(message: string): never {
+  throw new WorkflowError("BPMN_INVALID", message, 422);
+}
+
+function eventKind(el: any): string | undefined {
+  const found = EVENT_DEFINITIONS.filter(d => el[d] !== undefined);
+  if (found.length > 1) invalid(`${el.id} has several event definitions`);
+  return found[0];
+}
+
+// `ipl:config` carries the engine-only fields (action, input, forms, retry, ...) for a lossless round-trip
+function config(node: FlowNode): Record<string, any> {
+  const raw = node.el.config;
+  if (raw === undefined) return {};
+  try {
+    const parsed = JSON.parse(raw);
+    if (!parsed || typeof parsed !== "object" || Array.isArray(parsed)) throw new Error("not an object");
+    return parsed;
+  } catch (e: any) {
+    return invalid(`${node.id}: ipl:config is not a JSON object (${e.message})`);
+  }
+}
+
+function timerDuration(def: any, owner: string): { duration?: string; until?: string } {
+  const duration = text(def.timeDuration);
+  if (duration) return { duration };
+  const date = text(def.timeDate);
+  const variable = date && /^\$\{\s*([A-Za-z_][\w.]*)\s*\}$/.exec(date.trim());
+  if (variable) return { until: `$.${variable[1]}` };
+  if (date) invalid(`${owner}: timeDate must reference a variable, e.g. \${due_date}`);
+  if (def.timeCycle !== undefined) invalid(`${owner}: timer cycles are not supported`);
+  return invalid(`${owner}: timer needs a timeDuration or timeDate`);
+}
+
+function camundaForm(el: any): FormField[] | undefined {
+  const fields: any[] = el.extensionElements?.formData?.formField;
+  if (!fields?.length) return undefined;
+  return fields.map(f => {
+    const type = f.type === "long" ? "number" : f.type === "enum" ? "select" : f.type === "string" || !f.type ? "text" : f.type;
+    const constraints: any[] = f.validation?.constraint || [];
+    return {
+      name: f.id,
+      type,
+      label: f.label,
+      required: constraints.some(c => c.name === "required") || undefined,
+      options: f.value?.length ? f.value.map((v: any) => v.id) : undefined,
+    };
+  });
+}
+
+function assigneeOf(el: any): TaskAssignee | undefined {
+  const roles = new Set<string>();
+  for (const group of String(el.candidateGroups || "").split(",")) if (group.trim()) roles.add(group.trim());
+  for (const owner of el.potentialOwner || []) {
+    const expr = text(owner.resourceAssignmentExpression?.formalExpression);
+    for (const role of String(expr || "").split(",")) if (role.trim()) roles.add(role.trim());
+  }
+  const user = typeof el.assignee === "string" ? el.assignee.replace(/^\$\{\s*([\w.]+)\s*\}$/, "$.$1") : undefined;
+  if (!roles.size && !user) return undefined;
+  return { roles: roles.size ? [...roles] : undefined, user };
+}
+
+function withoutUndefined<T extends Record<string, any>>(obj: T): T {
+  for (const key of Object.keys(obj)) if (obj[key] === undefined) delete obj[key];
+  return obj;
+}
+
+// Converts one BPMN 2.0 process into the canonical `workflows` entry; unsupported constructs are collected and reported together
+export function importBpmn(xml: string, opts: BpmnImportOptions = {}): BpmnImportResult {
+  if (typeof xml !== "string" || !xml.trim()) invalid("BPMN XML required");
+  const valid = XMLValidator.validate(xml);
+  if (valid !== true) invalid(`Malformed XML at line ${valid.err.line}: ${valid.err.msg}`);
+
+  const doc = parser.parse(xml);
+  const definitions = doc.definitions;
+  if (!definitions) invalid("Root element must be bpmn:definitions");
+  const processes: any[] = definitions.process || [];
+  if (!processes.length) invalid("No bpmn:process found");
+  if (definitions.collaboration && processes.length > 1 && !opts.processId) {
+    invalid(`File has ${processes.length} pools; pass processId to pick one`);
+  }
+  const process = opts.processId
+    ? processes.find(p => p.id === opts.processId) || invalid(`Process ${opts.processId} not found`)
+    : processes.find(p => p.isExecutable !== "false") || processes[0];
+
+  const messages = new Map<string, string>((definitions.message || []).map((m: any) => [m.id, m.name || m.id]));
+  const errors = new Map<string, any>((definitions.error || []).map((e: any) => [e.id, e]));
+
+  const warnings: string[] = [];
+  const unsupported: string[] = [];
+  const nodes = new Map<string, FlowNode>();
+  const flows: Flow[] = [];
+
+  for (const [kind, value] of Object.entries<any>(process)) {
+    if (IGNORED.has(kind)) continue;
+    if (kind === "sequenceFlow") {
+      for (const f of value) {
+        flows.push({ id: f.id, source: f.sourceRef, target: f.targetRef, condition: text(f.conditionExpression)?.trim() || undefined });
+      }
+      continue;
+    }
+    if (!Array.isArray(value)) {
+      unsupported.push(`${kind}`);
+      continue;
+    }
+    for (const el of value) {
+      if (!el?.id) invalid(`${kind} without an id`);
+      if (nodes.has(el.id)) invalid(`Duplicate element id ${el.id}`);
+      nodes.set(el.id, { id: el.id, kind, el });
+    }
+  }
+
+  const outgoing = (id: string) => flows.filter(f => f.source === id);
+  const incoming = (id: string) => flows.filter(f => f.target === id);
+  for (const f of flows) {
+    if (!nodes.has(f.source) || !nodes.has(f.target)) invalid(`sequenceFlow ${f.id} references an unknown element`);
+  }
+
+  const boundaries = new Map<string, FlowNode[]>();
+  for (const node of nodes.values()) {
+    if (node.kind !== "boundaryEvent") continue;
+    const host = node.el.attachedToRef;
+    if (!nodes.has(host)) invalid(`boundaryEvent ${node.id} is attached to unknown element ${host}`);
+    boundaries.set(host, [...(boundaries.get(host) || []), node]);
+  }
+
+  // Pure exclusive merges have no step of their own; references skip through to what follows them
+  const isMerge = (id: string) => {
+    const node = nodes.get(id)!;
+    const out = outgoing(id);
+    return node.kind === "exclusiveGateway" && incoming(id).length > 1 && out.length === 1 && !out[0].condition;
+  };
+  const resolve = (id: string): string => {
+    const seen = new Set<string>();
+    while (isMerge(id) && !seen.has(id)) {
+      seen.add(id);
+      id = outgoing(id)[0].target;
+    }
+    return id;
+  };
+
+  // Single successor of a non-gateway element; several outgoing flows need an explicit gateway
+  const nextOf = (node: FlowNode): string | undefined => {
+    const out = outgoing(node.id);
+    if (out.length > 1) {
+      unsupported.push(`${node.id} (implicit split: ${out.length} outgoing flows; use a gateway)`);
+      return undefined;
+    }
+    if (out[0]?.condition) unsupported.push(`${out[0].id} (conditional flow outside an exclusive gateway)`);
+    return out[0] && resolve(out[0].target);
+  };
+
+  const gatewayBranches = (gateway: FlowNode): { branches?: DecisionBranch[]; default?: string; next?: string } => {
+    const out = outgoing(gateway.id);
+    const defaultFlow = gateway.el.default ? out.find(f => f.id === gateway.el.default) : undefined;
+    if (gateway.el.default && !defaultFlow) invalid(`${gateway.id}: default flow ${gateway.el.default} is not an outgoing flow`);
+    if (out.length === 1 && !out[0].condition) return { next: resolve(out[0].target) };
+
+    const branches: DecisionBranch[] = [];
+    for (const f of out) {
+      if (f === defaultFlow) continue;
+      if (!f.condition) {
+        unsupported.push(`${f.id} (flow out of exclusive gateway ${gateway.id} needs a condition or must be the default)`);
+        continue;
+      }
+      try {
+        branches.push({ when: parseCondition(f.condition), next: resolve(f.target) });
+      } catch (e: any) {
+        unsupported.push(`${f.id} (${e.message})`);
+      }
+    }
+    return { branches, default: defaultFlow && resolve(defaultFlow.target) };
+  };
+
+  // Nearest converging parallel gateway that every branch reaches
+  const findJoin = (fork: FlowNode): string | undefined => {
+    const distances = outgoing(fork.id).map(f => {
+      const seen = new Map<string, number>([[f.target, 0]]);
+      const queue = [f.target];
+      while (queue.length) {
+        const id = queue.shift()!;
+        const node = nodes.get(id)!;
+        if (node.kind === "parallelGateway" && incoming(id).length > 1) continue;
+        for (const next of outgoing(id)) {
+          if (!seen.has(next.target)) {
+            seen.set(next.target, seen.get(id)! + 1);
+            queue.push(next.target);
+          }
+        }
+      }
+      return seen;
+    });
+    let best: { id: string; cost: number } | undefined;
+    for (const [id] of distances[0]) {
+      const node = nodes.get(id)!;
+      if (node.kind !== "parallelGateway" || incoming(id).length < 2) continue;
+      if (!distances.every(d => d.has(id))) continue;
+      const cost = Math.max(...distances.map(d => d.get(id)!));
+      if (!best || cost < best.cost) best = { id, cost };
+    }
+    return best?.id;
+  };
+
+  const starts = [...nodes.values()].filter(n => n.kind === "startEvent");
+  if (starts.length !== 1) invalid(`Process must have exactly one start event (found ${starts.length})`);
+  const start = starts[0];
+  if (eventKind(start.el)) unsupported.push(`${start.id} (only plain start events are supported)`);
+  const startNext = outgoing(start.id);
+  if (startNext.length !== 1) invalid(`Start event ${start.id} must have exactly one outgoing flow`);
+
+  // businessRuleTask followed by an exclusive gateway becomes one decision step
+  const merged = new Set<string>();
+  const steps: WorkflowStep[] = [];
+
+  for (const node of nodes.values()) {
+    const { id, kind, el } = node;
+    const name: string | undefined = el.name || undefined;
+    const cfg = config(node);
+    if (kind === "startEvent" || kind === "boundaryEvent") continue;
+
+    if (TASK_ELEMENTS.has(kind)) {
+      if (!cfg.action) warnings.push(`${id}: no ipl:config action; imported as a "log" task`);
+      steps.push(withoutUndefined({
+        id, type: "task", name, next: nextOf(node),
+        action: cfg.action || "log",
+        input: cfg.input || (cfg.action ? undefined : { message: name || id }),
+        resultVar: cfg.resultVar, retry: cfg.retry, compensate: cfg.compensate,
+      }));
+    } else if (kind === "businessRuleTask") {
+      const ruleId = cfg.ruleId || el.decisionRef;
+      if (!ruleId) unsupported.push(`${id} (businessRuleTask needs camunda:decisionRef or an ipl:config ruleId)`);
+      const out = outgoing(id);
+      const gateway = out.length === 1 ? nodes.get(out[0].target) : undefined;
+      const route = gateway?.kind === "exclusiveGateway" && incoming(gateway.id).length === 1 && !out[0].condition
+        ? (merged.add(gateway.id), gatewayBranches(gateway))
+        : { next: nextOf(node) };
+      steps.push(withoutUndefined({
+        id, type: "decision", name, ruleId, version: cfg.version, input: cfg.input, resultVar: cfg.resultVar, retry: cfg.retry,
+        ...route,
+      }));
+    } else if (kind === "exclusiveGateway") {
+      if (isMerge(id)) continue;
+      if (incoming(id).length > 1 && outgoing(id).length > 1) {
+        warnings.push(`${id}: merging and splitting gateway imported as a single decision`);
+      }
+      steps.push(withoutUndefined({ id, type: "decision", name, ...gatewayBranches(node) }));
+    } else if (kind === "parallelGateway") {
+      const ins = incoming(id).length;
+      const outs = outgoing(id).length;
+      if (outs > 1 && ins <= 1) {
+        const join = findJoin(node);
+        if (!join) unsupported.push(`${id} (parallel split without a matching parallel join)`);
+        steps.push(withoutUndefined({ id, type: "parallel", name, branches: outgoing(id).map(f => resolve(f.target)), join: join || "" }));
+      } else if (ins > 1 && outs <= 1) {
+        steps.push(withoutUndefined({ id, type: "join", name, next: outgoing(id)[0] && resolve(outgoing(id)[0].target) }));
+      } else {
+        unsupported.push(`${id} (parallel gateway must either split or join)`);
+      }
+    } else if (kind === "userTask") {
+      const assignee = cfg.assignee || assigneeOf(el);
+      if (!assignee) unsupported.push(`${id} (userTask needs candidate groups, a potential owner or an assignee)`);
+      let sla: any;
+      for (const b of boundaries.get(id) || []) {
+        if (eventKind(b.el) !== "timerEventDefinition" || b.el.cancelActivity !== "false") {
+          unsupported.push(`${b.id} (only non-interrupting timer boundaries are supported on user tasks)`);
+          continue;
+        }
+        if (outgoing(b.id).length) unsupported.push(`${b.id} (escalation boundary cannot have outgoing flows)`);
+        const escalateTo = config(b).escalateTo;
+        if (!escalateTo) unsupported.push(`${b.id} (SLA boundary needs an ipl:config escalateTo)`);
+        sla = { after: timerDuration(b.el.timerEventDefinition, b.id).duration, escalateTo };
+      }
+      steps.push(withoutUndefined({
+        id, type: "human", name, next: nextOf(node),
+        title: cfg.title, assignee, form: cfg.form || camundaForm(el), sla, resultVar: cfg.resultVar,
+      }));
+    } else if (kind === "receiveTask" || (kind === "intermediateCatchEvent" && eventKind(el) === "messageEventDefinition")) {
+      const messageRef = kind === "receiveTask" ? el.messageRef : el.messageEventDefinition?.messageRef;
+      const event = cfg.event || (messageRef && messages.get(messageRef)) || messageRef;
+      if (!event) unsupported.push(`${id} (message catch needs a messageRef)`);
+      let timeout: any;
+      for (const b of boundaries.get(id) || []) {
+        if (kind !== "receiveTask" || eventKind(b.el) !== "timerEventDefinition" || b.el.cancelActivity === "false") {
+          unsupported.push(`${b.id} (only interrupting timer boundaries are supported on receive tasks)`);
+          continue;
+        }
+        const target = outgoing(b.id);
+        if (target.length !== 1) unsupported.push(`${b.id} (timeout boundary needs exactly one outgoing flow)`);
+        timeout = { after: timerDuration(b.el.timerEventDefinition, b.id).duration, next: target[0] && resolve(target[0].target) };
+      }
+      steps.push(withoutUndefined({
+        id, type: "wait", name, next: nextOf(node), event, correlation: cfg.correlation, resultVar: cfg.resultVar, timeout,
+      }));
+    } else if (kind === "intermediateCatchEvent" && eventKind(el) === "timerEventDefinition") {
+      steps.push(withoutUndefined({ id, type: "timer", name, next: nextOf(node), ...timerDuration(el.timerEventDefinition, id) }));
+    } else if (kind === "endEvent") {
+      const definition = eventKind(el);
+      if (definition === "errorEventDefinition") {
+        const error = errors.get(el.errorEventDefinition?.errorRef);
+        steps.push(withoutUndefined({ id, type: "fail", name, error: error?.errorCode || error?.name, message: cfg.message }));
+      } else if (definition) {
+        unsupported.push(`${id} (${definition.replace("EventDefinition", "")} end event)`);
+      } else {
+        steps.push(withoutUndefined({ id, type: "end", name }));
+      }
+    } else {
+      const detail = eventKind(el);
+      unsupported.push(`${id} (${kind}${detail ? ` with ${detail}` : ""})`);
+    }
+
+    if (boundaries.has(id) && !["userTask", "receiveTask"].includes(kind)) {
+      for (const b of boundaries.get(id)!) unsupported.push(`${b.id} (boundary event on ${kind})`);
+    }
+  }
+
+  if (unsupported.length) {
+    const elements = [...new Set(unsupported)];
+    throw new WorkflowError("BPMN_UNSUPPORTED", `Unsupported BPMN constructs: ${elements.join("; ")}`, 422, { elements });
+  }
+
+  const workflow: WorkflowDefinition = {
+    workflowId: opts.workflowId || process.id,
+    version: opts.version ?? 1,
+    name: process.name || undefined,
+    start: resolve(startNext[0].target),
+    steps: steps.filter(s => !merged.has(s.id)),
+  };
+  if (!workflow.name) delete workflow.name;
+
+  const problems = validateDefinition(workflow);
+  if (problems.length) throw new WorkflowError("INVALID_WORKFLOW", "Imported workflow is invalid", 422, { problems });
+  return { workflow, warnings };
+}
@@ -0,0 +1,68 @@
+import { pgTable, serial, integer, text, timestamp, jsonb, varchar, uuid, index } from "drizzle-orm/pg-core";
+import type { FormField, HumanTaskStatus, InstanceState, InstanceStatus, WorkflowDefinition } from "../engine/types.js";
+
+// The definition is snapshotted at start so running instances are unaffected by later spec edits
+export const workflowInstances = pgTable("workflow_instances", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  workflowId: varchar("workflow_id", { length: 100 }).notNull(),
+  workflowVersion: integer("workflow_version"),
+  businessKey: varchar("business_key", { length: 255 }),
+  definition: jsonb("definition").$type<WorkflowDefinition>().notNull(),
+  status: varchar("status", { length: 20 }).$type<InstanceStatus>().notNull(),
+  state: jsonb("state").$type<InstanceState>().notNull(),
+  error: jsonb("error"),
+  // Bumped on every checkpoint; writers must hold the revision they loaded
+  revision: integer("revision").notNull().default(0),
+  // Earliest pending timer (sleep, wait timeout or retry backoff) for the timer scheduler
+  nextTimerAt: timestamp("next_timer_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+  completedAt: timestamp("completed_at"),
+}, (t) => [
+  index("workflow_instances_status_idx").on(t.status),
+  index("workflow_instances_workflow_idx").on(t.workflowId),
+  index("workflow_instances_next_timer_idx").on(t.nextTimerAt),
+]);
+
+export type WorkflowInstance = typeof workflowInstances.$inferSelect;
+
+// Append-only execution log
+export const workflowHistory = pgTable("workflow_history", {
+  id: serial("id").primaryKey(),
+  instanceId: uuid("instance_id").notNull(),
+  event: varchar("event", { length: 50 }).notNull(),
+  stepId: varchar("step_id", { length: 100 }),
+  tokenId: varchar("token_id", { length: 50 }),
+  data: jsonb("data"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (t) => [
+  index("workflow_history_instance_idx").on(t.instanceId),
+]);
+
+export type WorkflowHistoryEntry = typeof workflowHistory.$inferSelect;
+
+// Inbox projection of InstanceState.humanTasks, rewritten on every checkpoint
+export const humanTasks = pgTable("human_tasks", {
+  id: uuid("id").primaryKey(),
+  instanceId: uuid("instance_id").notNull(),
+  workflowId: varchar("workflow_id", { length: 100 }).notNull(),
+  stepId: varchar("step_id", { length: 100 }).notNull(),
+  title: text("title").notNull(),
+  status: varchar("status", { length: 20 }).$type<HumanTaskStatus>().notNull(),
+  candidateRoles: jsonb("candidate_roles").$type<string[]>().default([]),
+  assignedUser: varchar("assigned_user", { length: 100 }),
+  claimedBy: varchar("claimed_by", { length: 100 }),
+  form: jsonb("form").$type<FormField[]>().default([]),
+  data: jsonb("data"),
+  escalationLevel: integer("escalation_level").notNull().default(0),
+  dueAt: timestamp("due_at"),
+  completedBy: varchar("completed_by", { length: 100 }),
+  createdAt: timestamp("created_at").notNull(),
+  completedAt: timestamp("completed_at"),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+}, (t) => [
+  index("human_tasks_status_idx").on(t.status),
+  index("human_tasks_instance_idx").on(t.instanceId),
+]);
+
+export type HumanTaskRow = typeof humanTasks.$inferSelect;
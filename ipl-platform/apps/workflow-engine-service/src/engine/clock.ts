@@ -0,0 +1,28 @@
+export interface Clock {
+  now(): Date;
+}
+
+export const systemClock: Clock = { now: () => new Date() };
+
+// Deterministic clock for tests and simulations: time only moves when advanced
+export class ManualClock implements Clock {
+  private current: number;
+
+  constructor(start: Date | string | number = Date.now()) {
+    this.current = new Date(start).getTime();
+  }
+
+  now(): Date {
+    return new Date(this.current);
+  }
+
+  advance(ms: number): Date {
+    this.current += ms;
+    return this.now();
+  }
+
+  set(at: Date | string | number): Date {
+    this.current = new Date(at).getTime();
+    return this.now();
+  }
+}
@@ -0,0 +1,104 @@
+import { hasTaskHandler } from "./taskHandlers.js";
+import { isValidDuration } from "./timers.js";
+import type { RetryPolicy, WorkflowDefinition, WorkflowStep } from "./types.js";
+
+const STEP_TYPES = new Set(["task", "decision", "wait", "timer", "human", "parallel", "join", "fail", "end"]);
+const FORM_FIELD_TYPES = new Set(["text", "number", "boolean", "date", "select"]);
+
+function validateRetry(label: string, retry: RetryPolicy | undefined, problems: string[]) {
+  if (!retry) return;
+  if (!Number.isInteger(retry.maxAttempts) || retry.maxAttempts < 1) problems.push(`${label} retry: maxAttempts must be a positive integer`);
+  const b = retry.backoff;
+  if (!b) return;
+  if (!isValidDuration(b.initial)) problems.push(`${label} retry: invalid backoff.initial ${JSON.stringify(b.initial)}`);
+  if (b.max !== undefined && !isValidDuration(b.max)) problems.push(`${label} retry: invalid backoff.max ${JSON.stringify(b.max)}`);
+  if (b.multiplier !== undefined && !(typeof b.multiplier === "number" && b.multiplier >= 1)) {
+    problems.push(`${label} retry: backoff.multiplier must be a number >= 1`);
+  }
+}
+
+export function findStep(def: WorkflowDefinition, stepId: string): WorkflowStep | undefined {
+  return def.steps.find(s => s.id === stepId);
+}
+
+export function validateDefinition(def: any): string[] {
+  const problems: string[] = [];
+  if (!def || typeof def !== "object") return ["definition must be an object"];
+  if (!def.workflowId) problems.push("workflowId required");
+  if (!Array.isArray(def.steps) || !def.steps.length) return [...problems, "steps must be a non-empty array"];
+
+  const ids = new Set<string>();
+  for (const s of def.steps) {
+    if (!s?.id) { problems.push("every step needs an id"); continue; }
+    if (ids.has(s.id)) problems.push(`step ${s.id}: duplicate id`);
+    ids.add(s.id);
+  }
+  if (!ids.has(def.start)) problems.push(`start step "${def.start}" not found`);
+
+  const target = (label: string, id: any) => {
+    if (id !== undefined && !ids.has(id)) problems.push(`${label}: unknown step "${id}"`);
+  };
+
+  for (const s of def.steps as WorkflowStep[]) {
+    if (!s?.id) continue;
+    const label = `step ${s.id}`;
+    if (!STEP_TYPES.has(s.type)) { problems.push(`${label}: unknown type "${(s as any).type}"`); continue; }
+    target(`${label} next`, s.next);
+
+    switch (s.type) {
+      case "task":
+        if (!s.action) problems.push(`${label}: action required`);
+        else if (!hasTaskHandler(s.action)) problems.push(`${label}: no task handler for "${s.action}"`);
+        if (s.compensate && !hasTaskHandler(s.compensate.action)) {
+          problems.push(`${label} compensate: no task handler for "${s.compensate.action}"`);
+        }
+        validateRetry(label, s.retry, problems);
+        break;
+      case "decision":
+        for (const [i, b] of (s.branches || []).entries()) {
+          if (!b?.when?.path) problems.push(`${label} branch ${i}: when.path required`);
+          target(`${label} branch ${i}`, b?.next);
+        }
+        target(`${label} default`, s.default);
+        if (!s.branches?.length && !s.default && !s.next) problems.push(`${label}: needs branches, default or next`);
+        validateRetry(label, s.retry, problems);
+        break;
+      case "wait":
+        if (!s.event) problems.push(`${label}: event required`);
+        if (s.timeout) {
+          if (!isValidDuration(s.timeout.after)) problems.push(`${label} timeout: invalid duration ${JSON.stringify(s.timeout.after)}`);
+          if (!s.timeout.next) problems.push(`${label} timeout: next required`);
+          target(`${label} timeout`, s.timeout.next);
+        }
+        break;
+      case "timer":
+        if ((s.duration === undefined) === (s.until === undefined)) problems.push(`${label}: exactly one of duration or until required`);
+        if (s.duration !== undefined && !isValidDuration(s.duration)) problems.push(`${label}: invalid duration ${JSON.stringify(s.duration)}`);
+        break;
+      case "human":
+        if (!s.assignee || (!s.assignee.roles?.length && !s.assignee.user)) problems.push(`${label}: assignee needs roles or user`);
+        for (const f of s.form || []) {
+          if (!f?.name || !FORM_FIELD_TYPES.has(f.type)) problems.push(`${label} form: field ${f?.name ?? "?"} has unknown type "${f?.type}"`);
+          else if (f.type === "select" && !f.options?.length) problems.push(`${label} form: select ${f.name} needs options`);
+        }
+        if (s.sla) {
+          if (!isValidDuration(s.sla.after)) problems.push(`${label} sla: invalid duration ${JSON.stringify(s.sla.after)}`);
+          if (!s.sla.escalateTo?.roles?.length && !s.sla.escalateTo?.user) problems.push(`${label} sla: escalateTo needs roles or user`);
+        }
+        break;
+      case "parallel": {
+        if (!Array.isArray(s.branches) || s.branches.length < 1) problems.push(`${label}: branches must be a non-empty array`);
+        for (const b of s.branches || []) target(`${label} branch`, b);
+        const join = findStep(def, s.join);
+        if (!join) problems.push(`${label}: join step "${s.join}" not found`);
+        else if (join.type !== "join") problems.push(`${label}: join "${s.join}" must be a join step`);
+        break;
+      }
+      case "join":
+      case "fail":
+      case "end":
+        break;
+    }
+  }
+  return problems;
+}
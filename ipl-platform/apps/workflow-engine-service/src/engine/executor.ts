@@ -0,0 +1,352 @@
+import { WorkflowError } from "./errors.js";
+import type { Clock } from "./clock.js";
+import { findStep } from "./definition.js";
+import {
+  assertOpen,
+  canWork,
+  escalateHumanTask,
+  findTask,
+  openHumanTask,
+  validateFormData,
+  type Actor,
+} from "./humanTasks.js";
+import { evaluateRemoteRule, type RuleOutcome } from "./ruleClient.js";
+import { runTask } from "./taskHandlers.js";
+import { addDuration, retryDelay } from "./timers.js";
+import { getPath, matchesCondition, resolveMapping } from "./variables.js";
+import type {
+  DecisionStep,
+  FailStep,
+  HistoryEntry,
+  HumanStep,
+  InstanceState,
+  InstanceStatus,
+  JoinStep,
+  ParallelStep,
+  TaskStep,
+  TimerStep,
+  Token,
+  WaitStep,
+  WorkflowDefinition,
+  WorkflowStep,
+} from "./types.js";
+
+// Guards against definitions that loop forever without reaching a wait step
+const MAX_STEPS_PER_RUN = 1000;
+
+export interface RunContext {
+  instanceId: string;
+  definition: WorkflowDefinition;
+  state: InstanceState;
+  clock: Clock;
+  // Persists state after every step so a crashed run resumes from the last completed step
+  checkpoint: (status: InstanceStatus, history: HistoryEntry[]) => Promise<void>;
+  // Step being executed, for failure reporting
+  current?: { stepId: string; tokenId: string };
+}
+
+export function initialState(def: WorkflowDefinition, variables: Record<string, any> = {}): InstanceState {
+  return {
+    variables: { ...variables },
+    tokens: [{ id: "t1", stepId: def.start, status: "active", forks: [] }],
+    forks: {},
+    seq: 1,
+  };
+}
+
+export function statusOf(state: InstanceState): InstanceStatus {
+  if (state.tokens.some(t => t.status === "active")) return "running";
+  if (state.tokens.some(t => t.status === "waiting" || t.status === "arrived")) return "waiting";
+  return "completed";
+}
+
+function moveOn(token: Token, next: string | undefined) {
+  if (next) token.stepId = next;
+  else token.status = "done";
+}
+
+async function runTaskStep(run: RunContext, token: Token, step: TaskStep): Promise<HistoryEntry[]> {
+  const input = resolveMapping(step.input, run.state.variables);
+  const output = await runTask(step.action, input, {
+    instanceId: run.instanceId,
+    stepId: step.id,
+    variables: run.state.variables,
+  });
+  if (step.resultVar) run.state.variables[step.resultVar] = output;
+  if (step.compensate) (run.state.compensations ||= []).push({ stepId: step.id, tokenId: token.id });
+  moveOn(token, step.next);
+  return [{ event: "step_completed", stepId: step.id, tokenId: token.id, data: { action: step.action, output } }];
+}
+
+// Without a ruleId the step only routes on existing variables (an exclusive gateway)
+async function runDecisionStep(run: RunContext, token: Token, step: DecisionStep): Promise<HistoryEntry[]> {
+  const vars = run.state.variables;
+  let outcome: RuleOutcome | undefined;
+  if (step.ruleId) {
+    outcome = await evaluateRemoteRule(step.ruleId, resolveMapping(step.input, vars), step.version);
+    vars[step.resultVar || step.id] = outcome.output;
+  }
+
+  const branch = (step.branches || []).find(b => matchesCondition(b.when, vars));
+  const next = branch?.next ?? step.default ?? step.next;
+  if (!next) {
+    throw new WorkflowError("NO_BRANCH", `Decision ${step.id}: no branch matched`, 422, outcome?.output);
+  }
+  token.stepId = next;
+  return [{
+    event: "step_completed",
+    stepId: step.id,
+    tokenId: token.id,
+    data: outcome ? { ruleId: outcome.ruleId, version: outcome.version, output: outcome.output, next } : { next },
+  }];
+}
+
+function runWaitStep(run: RunContext, token: Token, step: WaitStep): HistoryEntry[] {
+  const key = step.correlation ? getPath(run.state.variables, step.correlation) : undefined;
+  token.status = "waiting";
+  token.waitingFor = { event: step.event, correlationKey: key === undefined || key === null ? undefined : String(key) };
+  if (step.timeout) token.timer = { kind: "timeout", dueAt: addDuration(run.clock.now(), step.timeout.after).toISOString() };
+  return [{ event: "waiting", stepId: step.id, tokenId: token.id, data: { ...token.waitingFor, timeoutAt: token.timer?.dueAt } }];
+}
+
+function runTimerStep(run: RunContext, token: Token, step: TimerStep): HistoryEntry[] {
+  const now = run.clock.now();
+  let dueAt: Date;
+  if (step.until) {
+    const raw = getPath(run.state.variables, step.until);
+    dueAt = new Date(raw);
+    if (raw === undefined || raw === null || Number.isNaN(dueAt.getTime())) {
+      throw new WorkflowError("INVALID_TIMER", `Timer ${step.id}: ${step.until} is not a datetime`, 422, { value: raw });
+    }
+  } else {
+    dueAt = addDuration(now, step.duration ?? 0);
+  }
+  if (dueAt <= now) {
+    moveOn(token, step.next);
+    return [{ event: "timer_fired", stepId: step.id, tokenId: token.id, data: { dueAt: dueAt.toISOString() } }];
+  }
+  token.status = "waiting";
+  token.timer = { kind: "timer", dueAt: dueAt.toISOString() };
+  return [{ event: "timer_started", stepId: step.id, tokenId: token.id, data: { dueAt: token.timer.dueAt } }];
+}
+
+function runFailStep(step: FailStep): never {
+  throw new WorkflowError(step.error || "WORKFLOW_FAILED", step.message || `Workflow failed at ${step.id}`, 422);
+}
+
+function runParallelStep(run: RunContext, token: Token, step: ParallelStep): HistoryEntry[] {
+  const state = run.state;
+  const forkId = `f${++state.seq}`;
+  state.forks[forkId] = { stepId: step.id, join: step.join, branches: step.branches.length };
+  state.tokens = state.tokens.filter(t => t !== token);
+
+  const children: Token[] = step.branches.map(stepId => ({
+    id: `t${++state.seq}`,
+    stepId,
+    status: "active",
+    forks: [...token.forks, forkId],
+  }));
+  state.tokens.push(...children);
+  return [{ event: "forked", stepId: step.id, tokenId: token.id, data: { forkId, tokens: children.map(c => c.id) } }];
+}
+
+// Merges a fork once every branch token has arrived at the join or ended
+function tryJoin(run: RunContext, forkId: string): HistoryEntry[] {
+  const state = run.state;
+  const fork = state.forks[forkId];
+  const siblings = state.tokens.filter(t => t.forks[t.forks.length - 1] === forkId);
+  if (siblings.length < fork.branches || siblings.some(t => t.status !== "arrived" && t.status !== "done")) return [];
+
+  const join = findStep(run.definition, fork.join) as JoinStep;
+  const merged: Token = {
+    id: `t${++state.seq}`,
+    stepId: join.id,
+    status: join.next ? "active" : "done",
+    forks: siblings[0].forks.slice(0, -1),
+  };
+  if (join.next) merged.stepId = join.next;
+  state.tokens = [...state.tokens.filter(t => !siblings.includes(t)), merged];
+  delete state.forks[forkId];
+  const joined: HistoryEntry = { event: "joined", stepId: join.id, tokenId: merged.id, data: { forkId, tokens: siblings.map(t => t.id) } };
+  // A nested join without a next ends its branch of the enclosing fork, which may now join too
+  return join.next ? [joined] : [joined, ...completeToken(run, merged, join)];
+}
+
+function runJoinStep(run: RunContext, token: Token, step: JoinStep): HistoryEntry[] {
+  const forkId = token.forks[token.forks.length - 1];
+  if (!forkId || run.state.forks[forkId]?.join !== step.id) {
+    throw new WorkflowError("INVALID_JOIN", `Join ${step.id} reached outside of its parallel step`, 422);
+  }
+  token.status = "arrived";
+  return [{ event: "arrived", stepId: step.id, tokenId: token.id }, ...tryJoin(run, forkId)];
+}
+
+function completeToken(run: RunContext, token: Token, step?: WorkflowStep): HistoryEntry[] {
+  token.status = "done";
+  const entries: HistoryEntry[] = [{ event: "token_completed", stepId: step?.id, tokenId: token.id }];
+  const forkId = token.forks[token.forks.length - 1];
+  return forkId ? [...entries, ...tryJoin(run, forkId)] : entries;
+}
+
+async function executeStep(run: RunContext, token: Token): Promise<HistoryEntry[]> {
+  const step = findStep(run.definition, token.stepId);
+  if (!step) throw new WorkflowError("STEP_NOT_FOUND", `Step ${token.stepId} not found`, 422);
+
+  let entries: HistoryEntry[];
+  switch (step.type) {
+    case "task": entries = await runTaskStep(run, token, step); break;
+    case "decision": entries = await runDecisionStep(run, token, step); break;
+    case "wait": return runWaitStep(run, token, step);
+    case "timer": entries = runTimerStep(run, token, step); break;
+    case "human": return openHumanTask(run, token, step);
+    case "fail": return runFailStep(step);
+    case "parallel": return runParallelStep(run, token, step);
+    case "join": return runJoinStep(run, token, step);
+    case "end": return completeToken(run, token, step);
+  }
+  // A step without a next finished its token; inside a fork that may release the join
+  return token.status === "done" ? [...entries, ...completeToken(run, token)] : entries;
+}
+
+// Parks the token on a retry timer when the step's policy has attempts left; null means give up
+function scheduleRetry(run: RunContext, token: Token, error: any): HistoryEntry[] | null {
+  const step = findStep(run.definition, token.stepId);
+  const policy = step && (step.type === "task" || step.type === "decision") ? step.retry : undefined;
+  const attempt = (token.attempt || 0) + 1;
+  if (!policy || attempt >= policy.maxAttempts) return null;
+
+  token.attempt = attempt;
+  token.status = "waiting";
+  token.timer = { kind: "retry", dueAt: new Date(run.clock.now().getTime() + retryDelay(policy, attempt)).toISOString() };
+  return [{
+    event: "retry_scheduled",
+    stepId: token.stepId,
+    tokenId: token.id,
+    data: { attempt, maxAttempts: policy.maxAttempts, dueAt: token.timer.dueAt, error: error?.message || String(error) },
+  }];
+}
+
+// Runs active tokens one step at a time until every token is waiting or done
+export async function advance(run: RunContext): Promise<InstanceStatus> {
+  let executed = 0;
+  for (;;) {
+    const token = run.state.tokens.find(t => t.status === "active");
+    if (!token) break;
+    if (++executed > MAX_STEPS_PER_RUN) {
+      throw new WorkflowError("STEP_LIMIT_EXCEEDED", `Instance ran more than ${MAX_STEPS_PER_RUN} steps without waiting`, 422);
+    }
+    run.current = { stepId: token.stepId, tokenId: token.id };
+    let history: HistoryEntry[];
+    try {
+      history = await executeStep(run, token);
+      delete token.attempt;
+    } catch (e: any) {
+      const retry = scheduleRetry(run, token, e);
+      if (!retry) throw e;
+      history = retry;
+    }
+    await run.checkpoint(statusOf(run.state), history);
+  }
+  run.current = undefined;
+  return statusOf(run.state);
+}
+
+// Resumes waiting tokens that match the event; returns the ids of the tokens it released
+export function deliverEvent(run: RunContext, event: string, payload: any, correlationKey?: string): { released: string[]; history: HistoryEntry[] } {
+  const released: string[] = [];
+  const history: HistoryEntry[] = [];
+  for (const token of run.state.tokens) {
+    if (token.status !== "waiting" || token.waitingFor?.event !== event) continue;
+    if (token.waitingFor.correlationKey !== undefined && token.waitingFor.correlationKey !== correlationKey) continue;
+
+    const step = findStep(run.definition, token.stepId) as WaitStep;
+    run.state.variables[step.resultVar || step.id] = payload ?? null;
+    token.status = "active";
+    delete token.waitingFor;
+    delete token.timer;
+    moveOn(token, step.next);
+    released.push(token.id);
+    history.push({ event: "event_received", stepId: step.id, tokenId: token.id, data: { event, correlationKey, payload } });
+    if (!step.next) history.push(...completeToken(run, token));
+  }
+  return { released, history };
+}
+
+// Releases tokens whose timer is due: retries re-run their step, timers move on, timeouts take the timeout route
+export function fireTimers(run: RunContext, now: Date = run.clock.now()): HistoryEntry[] {
+  const history: HistoryEntry[] = [];
+  for (const token of run.state.tokens) {
+    if (token.status !== "waiting" || !token.timer || Date.parse(token.timer.dueAt) > now.getTime()) continue;
+    const { kind, dueAt } = token.timer;
+    if (kind === "escalation" && token.humanTaskId) {
+      // The task is reassigned but the token keeps waiting for someone to complete it
+      history.push(...escalateHumanTask(run, token.humanTaskId));
+      continue;
+    }
+    const step = findStep(run.definition, token.stepId);
+    token.status = "active";
+    delete token.timer;
+
+    if (kind === "retry") {
+      history.push({ event: "retry_started", stepId: token.stepId, tokenId: token.id, data: { attempt: (token.attempt || 0) + 1, dueAt } });
+    } else if (kind === "timeout" && step?.type === "wait" && step.timeout) {
+      delete token.waitingFor;
+      token.stepId = step.timeout.next;
+      history.push({ event: "timed_out", stepId: step.id, tokenId: token.id, data: { dueAt, next: step.timeout.next } });
+    } else {
+      moveOn(token, step?.next);
+      history.push({ event: "timer_fired", stepId: step?.id, tokenId: token.id, data: { dueAt } });
+      if (!step?.next) history.push(...completeToken(run, token));
+    }
+  }
+  return history;
+}
+
+// Runs the most recent outstanding compensation handler; null once every completed step is compensated
+export async function compensateNext(run: RunContext): Promise<HistoryEntry[] | null> {
+  const record = run.state.compensations?.pop();
+  if (!record) return null;
+  const step = findStep(run.definition, record.stepId) as TaskStep;
+  const handler = step.compensate!;
+  try {
+    const output = await runTask(handler.action, resolveMapping(handler.input, run.state.variables), {
+      instanceId: run.instanceId,
+      stepId: step.id,
+      variables: run.state.variables,
+    });
+    return [{ event: "compensated", stepId: step.id, tokenId: record.tokenId, data: { action: handler.action, output } }];
+  } catch (e: any) {
+    // Best effort: keep unwinding the remaining steps and leave the failure in the history
+    return [{ event: "compensation_failed", stepId: step.id, tokenId: record.tokenId, data: { action: handler.action, error: e?.message || String(e) } }];
+  }
+}
+
+// Records the submitted form on the instance and moves the task's token on
+export function completeHumanTask(run: RunContext, taskId: string, actor: Actor, data: Record<string, any>): HistoryEntry[] {
+  const task = findTask(run, taskId);
+  assertOpen(task);
+  if (!canWork(task, actor)) throw new WorkflowError("NOT_ASSIGNED", `Task ${taskId} is not assigned to you`, 403);
+  if (task.status === "claimed" && task.claimedBy !== actor.userId && !actor.supervisor) {
+    throw new WorkflowError("TASK_CLAIMED", `Task ${taskId} is claimed by ${task.claimedBy}`, 409);
+  }
+  const { values, problems } = validateFormData(task.form, data || {});
+  if (problems.length) throw new WorkflowError("INVALID_FORM_DATA", `Task ${taskId}: form data is invalid`, 422, problems);
+
+  const token = run.state.tokens.find(t => t.id === task.tokenId && t.humanTaskId === taskId);
+  const step = findStep(run.definition, task.stepId) as HumanStep;
+  if (!token || !step) throw new WorkflowError("TASK_NOT_ACTIVE", `Task ${taskId} no longer has a waiting token`, 409);
+
+  task.status = "completed";
+  task.data = values;
+  task.completedBy = actor.userId;
+  task.completedAt = run.clock.now().toISOString();
+  run.state.variables[step.resultVar || step.id] = values;
+
+  token.status = "active";
+  delete token.humanTaskId;
+  delete token.timer;
+  moveOn(token, step.next);
+  const history: HistoryEntry[] = [{ event: "task_completed", stepId: step.id, tokenId: token.id, data: { taskId, userId: actor.userId, data: values } }];
+  if (!step.next) history.push(...completeToken(run, token));
+  return history;
+}
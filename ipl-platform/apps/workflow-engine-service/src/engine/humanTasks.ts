@@ -0,0 +1,139 @@
+import { randomUUID } from "crypto";
+import { WorkflowError } from "./errors.js";
+import { addDuration } from "./timers.js";
+import { getPath } from "./variables.js";
+import type { RunContext } from "./executor.js";
+import type { FormField, HistoryEntry, HumanStep, HumanTask, TaskAssignee, Token } from "./types.js";
+
+export interface Actor {
+  userId: string;
+  role: string;
+  // Supervisors may work, complete and escalate any task
+  supervisor?: boolean;
+}
+
+function resolveAssignee(assignee: TaskAssignee, variables: Record<string, any>): TaskAssignee {
+  const user = assignee.user?.startsWith("$.") ? getPath(variables, assignee.user) : assignee.user;
+  return {
+    roles: assignee.roles?.length ? [...assignee.roles] : undefined,
+    user: user === undefined || user === null || user === "" ? undefined : String(user),
+  };
+}
+
+export function canWork(task: HumanTask, actor: Actor): boolean {
+  if (actor.supervisor) return true;
+  if (task.assignee.user && task.assignee.user === actor.userId) return true;
+  return !!task.assignee.roles?.includes(actor.role);
+}
+
+export function findTask(run: RunContext, taskId: string): HumanTask {
+  const task = run.state.humanTasks?.[taskId];
+  if (!task) throw new WorkflowError("TASK_NOT_FOUND", `Task ${taskId} not found`, 404);
+  return task;
+}
+
+export function assertOpen(task: HumanTask) {
+  if (task.status === "completed" || task.status === "cancelled") {
+    throw new WorkflowError("TASK_CLOSED", `Task ${task.id} is ${task.status}`, 409);
+  }
+}
+
+// Checks submitted values against the step's form; numeric strings are accepted for number fields
+export function validateFormData(form: FormField[], data: Record<string, any>): { values: Record<string, any>; problems: string[] } {
+  if (!form.length) return { values: { ...data }, problems: [] };
+  const values: Record<string, any> = {};
+  const problems: string[] = [];
+  for (const field of form) {
+    const raw = data?.[field.name];
+    if (raw === undefined || raw === null || raw === "") {
+      if (field.required) problems.push(`${field.name} is required`);
+      continue;
+    }
+    switch (field.type) {
+      case "number": {
+        const n = typeof raw === "number" ? raw : Number(raw);
+        if (typeof raw === "boolean" || !Number.isFinite(n)) problems.push(`${field.name} must be a number`);
+        else values[field.name] = n;
+        break;
+      }
+      case "boolean":
+        if (typeof raw !== "boolean") problems.push(`${field.name} must be true or false`);
+        else values[field.name] = raw;
+        break;
+      case "date":
+        if (typeof raw !== "string" || Number.isNaN(Date.parse(raw))) problems.push(`${field.name} must be a date`);
+        else values[field.name] = raw;
+        break;
+      case "select":
+        if (!field.options?.includes(raw)) problems.push(`${field.name} must be one of ${(field.options || []).join(", ")}`);
+        else values[field.name] = raw;
+        break;
+      default:
+        if (typeof raw !== "string") problems.push(`${field.name} must be text`);
+        else values[field.name] = raw;
+    }
+  }
+  return { values, problems };
+}
+
+export function openHumanTask(run: RunContext, token: Token, step: HumanStep): HistoryEntry[] {
+  const now = run.clock.now();
+  const task: HumanTask = {
+    id: randomUUID(),
+    stepId: step.id,
+    tokenId: token.id,
+    title: step.title || step.name || step.id,
+    status: "open",
+    assignee: resolveAssignee(step.assignee, run.state.variables),
+    form: step.form || [],
+    dueAt: step.sla ? addDuration(now, step.sla.after).toISOString() : undefined,
+    escalationLevel: 0,
+    createdAt: now.toISOString(),
+  };
+  (run.state.humanTasks ||= {})[task.id] = task;
+  token.status = "waiting";
+  token.humanTaskId = task.id;
+  if (task.dueAt) token.timer = { kind: "escalation", dueAt: task.dueAt };
+  return [{ event: "task_created", stepId: step.id, tokenId: token.id, data: { taskId: task.id, assignee: task.assignee, dueAt: task.dueAt } }];
+}
+
+export function claimHumanTask(run: RunContext, taskId: string, actor: Actor): HistoryEntry[] {
+  const task = findTask(run, taskId);
+  assertOpen(task);
+  if (!canWork(task, actor)) throw new WorkflowError("NOT_ASSIGNED", `Task ${taskId} is not assigned to you`, 403);
+  if (task.status === "claimed" && task.claimedBy !== actor.userId) {
+    throw new WorkflowError("TASK_CLAIMED", `Task ${taskId} is already claimed by ${task.claimedBy}`, 409);
+  }
+  task.status = "claimed";
+  task.claimedBy = actor.userId;
+  return [{ event: "task_claimed", stepId: task.stepId, tokenId: task.tokenId, data: { taskId, userId: actor.userId } }];
+}
+
+// Reassigns to `target` (default: the step's SLA escalation target) and returns the task to the pool
+export function escalateHumanTask(
+  run: RunContext,
+  taskId: string,
+  opts: { target?: TaskAssignee; actor?: string; reason?: string } = {},
+): HistoryEntry[] {
+  const task = findTask(run, taskId);
+  assertOpen(task);
+  const step = run.definition.steps.find(s => s.id === task.stepId) as HumanStep | undefined;
+  const target = opts.target || step?.sla?.escalateTo;
+  if (!target || (!target.roles?.length && !target.user)) {
+    throw new WorkflowError("NO_ESCALATION_TARGET", `Task ${taskId} has no escalation target`, 422);
+  }
+  const from = task.assignee;
+  task.assignee = resolveAssignee(target, run.state.variables);
+  task.status = "open";
+  task.claimedBy = undefined;
+  task.escalationLevel++;
+
+  const token = run.state.tokens.find(t => t.id === task.tokenId);
+  if (token?.timer?.kind === "escalation") delete token.timer;
+  return [{
+    event: "task_escalated",
+    stepId: task.stepId,
+    tokenId: task.tokenId,
+    data: { taskId, from, to: task.assignee, level: task.escalationLevel, actor: opts.actor, reason: opts.reason || (opts.actor ? undefined : "SLA elapsed") },
+  }];
+}
@@ -0,0 +1,29 @@
+import { WorkflowError } from "./errors.js";
+
+const RULE_ENGINE_URL = process.env.RULE_ENGINE_URL || "http://localhost:7200";
+
+export interface RuleOutcome {
+  ruleId: string;
+  version: number;
+  output: any;
+}
+
+// Decision steps evaluate through rule-engine-service so registry aliases and versions apply
+export async function evaluateRemoteRule(ruleId: string, input: Record<string, any>, version?: number): Promise<RuleOutcome> {
+  let res: Response;
+  try {
+    res = await fetch(`${RULE_ENGINE_URL}/rules/${encodeURIComponent(ruleId)}/evaluate`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ input, version }),
+    });
+  } catch (e: any) {
+    throw new WorkflowError("RULE_ENGINE_UNAVAILABLE", `Rule engine unreachable at ${RULE_ENGINE_URL}: ${e?.message || e}`, 502);
+  }
+
+  const body: any = await res.json().catch(() => ({}));
+  if (!res.ok || body.ok === false) {
+    throw new WorkflowError("RULE_EVALUATION_FAILED", `Rule ${ruleId}: ${body.error || res.statusText}`, 502, body);
+  }
+  return { ruleId: body.ruleId ?? ruleId, version: body.version, output: body.output };
+}
@@ -0,0 +1,52 @@
+import { WorkflowError } from "./errors.js";
+
+export interface TaskContext {
+  instanceId: string;
+  stepId: string;
+  // Live variable bag of the instance; handlers may write to it
+  variables: Record<string, any>;
+}
+
+export type TaskHandler = (input: Record<string, any>, ctx: TaskContext) => Promise<any>;
+
+const handlers = new Map<string, TaskHandler>();
+
+export function registerTaskHandler(action: string, handler: TaskHandler) {
+  handlers.set(action, handler);
+}
+
+export function hasTaskHandler(action: string): boolean {
+  return handlers.has(action);
+}
+
+export async function runTask(action: string, input: Record<string, any>, ctx: TaskContext): Promise<any> {
+  const handler = handlers.get(action);
+  if (!handler) throw new WorkflowError("UNKNOWN_TASK_ACTION", `No task handler registered for "${action}"`, 422);
+  return handler(input, ctx);
+}
+
+// Assigns the resolved input onto the instance variables
+registerTaskHandler("set", async (input, ctx) => {
+  Object.assign(ctx.variables, input);
+  return input;
+});
+
+registerTaskHandler("log", async (input, ctx) => {
+  console.log(`[workflow ${ctx.instanceId}] ${ctx.stepId}:`, JSON.stringify(input));
+  return null;
+});
+
+// input: { url, method?, headers?, body? }
+registerTaskHandler("http", async (input) => {
+  if (!input.url) throw new WorkflowError("TASK_FAILED", "http task requires a url");
+  const res = await fetch(input.url, {
+    method: input.method || "POST",
+    headers: { "Content-Type": "application/json", ...(input.headers || {}) },
+    body: input.body === undefined ? undefined : JSON.stringify(input.body),
+  });
+  const text = await res.text();
+  let body: any = text;
+  try { body = text ? JSON.parse(text) : null; } catch { /* keep raw text */ }
+  if (!res.ok) throw new WorkflowError("TASK_FAILED", `http task got ${res.status} from ${input.url}`, 502, body);
+  return body;
+});
@@ -0,0 +1,68 @@
+import { WorkflowError } from "./errors.js";
+import type { Duration, InstanceState, RetryPolicy } from "./types.js";
+
+const ISO_DURATION = /^P(?:(\d+(?:\.\d+)?)D)?(?:T(?:(\d+(?:\.\d+)?)H)?(?:(\d+(?:\.\d+)?)M)?(?:(\d+(?:\.\d+)?)S)?)?$/;
+const SHORTHAND = /^(\d+(?:\.\d+)?)(ms|s|m|h|d)$/;
+const UNIT_MS: Record<string, number> = { ms: 1, s: 1000, m: 60_000, h: 3_600_000, d: 86_400_000 };
+
+export function parseDuration(value: Duration): number {
+  if (typeof value === "number" && Number.isFinite(value) && value >= 0) return value;
+  if (typeof value === "string") {
+    const short = SHORTHAND.exec(value.trim());
+    if (short) return Number(short[1]) * UNIT_MS[short[2]];
+    const iso = ISO_DURATION.exec(value.trim());
+    if (iso && value.trim() !== "P" && !value.trim().endsWith("T")) {
+      const [, d, h, m, s] = iso.map(x => Number(x || 0));
+      return d * UNIT_MS.d + h * UNIT_MS.h + m * UNIT_MS.m + s * UNIT_MS.s;
+    }
+  }
+  throw new WorkflowError("INVALID_DURATION", `Invalid duration ${JSON.stringify(value)}`, 422);
+}
+
+// Canonical ISO-8601 form, e.g. 90_000 -> "PT1M30S", used where durations leave the engine (BPMN export)
+export function toIsoDuration(value: Duration): string {
+  let ms = parseDuration(value);
+  const days = Math.floor(ms / UNIT_MS.d);
+  ms -= days * UNIT_MS.d;
+  const hours = Math.floor(ms / UNIT_MS.h);
+  ms -= hours * UNIT_MS.h;
+  const minutes = Math.floor(ms / UNIT_MS.m);
+  ms -= minutes * UNIT_MS.m;
+  const seconds = ms / 1000;
+
+  const time = `${hours ? `${hours}H` : ""}${minutes ? `${minutes}M` : ""}${seconds ? `${seconds}S` : ""}`;
+  if (!days && !time) return "PT0S";
+  return `P${days ? `${days}D` : ""}${time ? `T${time}` : ""}`;
+}
+
+export function isValidDuration(value: any): boolean {
+  try {
+    parseDuration(value);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+export function addDuration(from: Date, duration: Duration): Date {
+  return new Date(from.getTime() + parseDuration(duration));
+}
+
+// Exponential backoff before the next attempt; `attempt` counts failures so far (1-based)
+export function retryDelay(policy: RetryPolicy, attempt: number): number {
+  if (!policy.backoff) return 0;
+  const initial = parseDuration(policy.backoff.initial);
+  const delay = initial * Math.pow(policy.backoff.multiplier ?? 2, attempt - 1);
+  return policy.backoff.max !== undefined ? Math.min(delay, parseDuration(policy.backoff.max)) : delay;
+}
+
+// Earliest pending timer, stored on the instance row so the scheduler can find due instances
+export function nextDueAt(state: InstanceState): Date | null {
+  let next: number | null = null;
+  for (const t of state.tokens) {
+    if (t.status !== "waiting" || !t.timer) continue;
+    const due = Date.parse(t.timer.dueAt);
+    if (next === null || due < next) next = due;
+  }
+  return next === null ? null : new Date(next);
+}
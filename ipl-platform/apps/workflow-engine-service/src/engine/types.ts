@@ -0,0 +1,219 @@
+export type StepType = "task" | "decision" | "wait" | "timer" | "human" | "parallel" | "join" | "fail" | "end";
+
+// Milliseconds, an ISO-8601 duration ("PT30S", "P1D") or shorthand ("30s", "5m", "2h", "1d")
+export type Duration = number | string;
+
+// Input mappings: strings starting with "$." read a variable path, "$" is the whole variable bag, anything else is a literal
+export type InputMapping = Record<string, any>;
+
+// Every operator present must hold for the branch to be taken
+export interface BranchCondition {
+  path: string;
+  equals?: any;
+  notEquals?: any;
+  in?: any[];
+  exists?: boolean;
+  gt?: number;
+  gte?: number;
+  lt?: number;
+  lte?: number;
+}
+
+export interface DecisionBranch {
+  when: BranchCondition;
+  next: string;
+}
+
+export interface RetryPolicy {
+  // Total attempts including the first one
+  maxAttempts: number;
+  backoff?: { initial: Duration; multiplier?: number; max?: Duration };
+}
+
+// Saga compensation: runs in reverse completion order when the instance later fails
+export interface CompensationHandler {
+  action: string;
+  input?: InputMapping;
+}
+
+interface BaseStep {
+  id: string;
+  type: StepType;
+  name?: string;
+  // Steps without a next (other than decision and parallel) complete their token
+  next?: string;
+}
+
+export interface TaskStep extends BaseStep {
+  type: "task";
+  action: string;
+  input?: InputMapping;
+  resultVar?: string;
+  retry?: RetryPolicy;
+  compensate?: CompensationHandler;
+}
+
+export interface DecisionStep extends BaseStep {
+  type: "decision";
+  // Optional: without a rule the branches test existing variables
+  ruleId?: string;
+  version?: number;
+  input?: InputMapping;
+  // Rule output is stored under this variable (defaults to the step id)
+  resultVar?: string;
+  branches?: DecisionBranch[];
+  default?: string;
+  retry?: RetryPolicy;
+}
+
+export interface WaitStep extends BaseStep {
+  type: "wait";
+  event: string;
+  // Variable path whose value an incoming event's correlationKey must match
+  correlation?: string;
+  resultVar?: string;
+  // Routes the token to `next` when no event arrives in time
+  timeout?: { after: Duration; next: string };
+}
+
+// Sleeps for a duration, or until the datetime found at the `until` variable path
+export interface TimerStep extends BaseStep {
+  type: "timer";
+  duration?: Duration;
+  until?: string;
+}
+
+// Who may claim a human task: any holder of one of the roles, or one named user (literal or "$." path)
+export interface TaskAssignee {
+  roles?: string[];
+  user?: string;
+}
+
+export interface FormField {
+  name: string;
+  type: "text" | "number" | "boolean" | "date" | "select";
+  label?: string;
+  required?: boolean;
+  options?: string[];
+}
+
+// Parks the token until a person completes the task; submitted form data lands in resultVar
+export interface HumanStep extends BaseStep {
+  type: "human";
+  title?: string;
+  assignee: TaskAssignee;
+  form?: FormField[];
+  // Reassigns the task once when it is still open or claimed after `after`
+  sla?: { after: Duration; escalateTo: TaskAssignee };
+  resultVar?: string;
+}
+
+export interface ParallelStep extends BaseStep {
+  type: "parallel";
+  branches: string[];
+  join: string;
+}
+
+export interface JoinStep extends BaseStep {
+  type: "join";
+}
+
+// Fails the instance on purpose, which triggers compensation
+export interface FailStep extends BaseStep {
+  type: "fail";
+  error?: string;
+  message?: string;
+}
+
+export interface EndStep extends BaseStep {
+  type: "end";
+}
+
+export type WorkflowStep =
+  | TaskStep
+  | DecisionStep
+  | WaitStep
+  | TimerStep
+  | HumanStep
+  | ParallelStep
+  | JoinStep
+  | FailStep
+  | EndStep;
+
+export interface WorkflowDefinition {
+  workflowId: string;
+  version?: number;
+  name?: string;
+  start: string;
+  steps: WorkflowStep[];
+}
+
+export type TokenStatus = "active" | "waiting" | "arrived" | "done";
+
+export interface Token {
+  id: string;
+  stepId: string;
+  status: TokenStatus;
+  // Fork ids of the enclosing parallel steps, outermost first
+  forks: string[];
+  waitingFor?: { event: string; correlationKey?: string };
+  timer?: TokenTimer;
+  humanTaskId?: string;
+  // Failed attempts of the current step
+  attempt?: number;
+}
+
+export interface TokenTimer {
+  kind: "timer" | "timeout" | "retry" | "escalation";
+  dueAt: string;
+}
+
+export type HumanTaskStatus = "open" | "claimed" | "completed" | "cancelled";
+
+export interface HumanTask {
+  id: string;
+  stepId: string;
+  tokenId: string;
+  title: string;
+  status: HumanTaskStatus;
+  assignee: TaskAssignee;
+  form: FormField[];
+  claimedBy?: string;
+  dueAt?: string;
+  escalationLevel: number;
+  data?: Record<string, any>;
+  completedBy?: string;
+  createdAt: string;
+  completedAt?: string;
+}
+
+export interface CompensationRecord {
+  stepId: string;
+  tokenId: string;
+}
+
+export interface ForkState {
+  stepId: string;
+  join: string;
+  branches: number;
+}
+
+export interface InstanceState {
+  variables: Record<string, any>;
+  tokens: Token[];
+  forks: Record<string, ForkState>;
+  // Completed steps with a compensation handler, in completion order
+  compensations?: CompensationRecord[];
+  humanTasks?: Record<string, HumanTask>;
+  // Counter for token and fork ids, so ids stay stable across replays
+  seq: number;
+}
+
+export type InstanceStatus = "running" | "waiting" | "compensating" | "completed" | "failed";
+
+export interface HistoryEntry {
+  event: string;
+  stepId?: string;
+  tokenId?: string;
+  data?: any;
+}
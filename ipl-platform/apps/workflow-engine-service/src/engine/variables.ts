@@ -0,0 +1,39 @@
+import type { BranchCondition, InputMapping } from "./types.js";
+
+export function getPath(obj: any, path: string): any {
+  const clean = path.startsWith("$.") ? path.slice(2) : path === "$" ? "" : path;
+  if (!clean) return obj;
+  let cur = obj;
+  for (const part of clean.split(".")) {
+    if (cur === null || cur === undefined) return undefined;
+    cur = cur[part];
+  }
+  return cur;
+}
+
+function resolveValue(value: any, variables: Record<string, any>): any {
+  if (typeof value === "string" && (value === "$" || value.startsWith("$."))) return getPath(variables, value);
+  if (Array.isArray(value)) return value.map(v => resolveValue(v, variables));
+  if (value && typeof value === "object") {
+    return Object.fromEntries(Object.entries(value).map(([k, v]) => [k, resolveValue(v, variables)]));
+  }
+  return value;
+}
+
+export function resolveMapping(mapping: InputMapping | undefined, variables: Record<string, any>): Record<string, any> {
+  if (!mapping) return {};
+  return resolveValue(mapping, variables);
+}
+
+export function matchesCondition(cond: BranchCondition, variables: Record<string, any>): boolean {
+  const v = getPath(variables, cond.path);
+  if (cond.exists !== undefined && (v !== undefined && v !== null) !== cond.exists) return false;
+  if ("equals" in cond && JSON.stringify(v) !== JSON.stringify(cond.equals)) return false;
+  if ("notEquals" in cond && JSON.stringify(v) === JSON.stringify(cond.notEquals)) return false;
+  if (cond.in && !cond.in.some(x => JSON.stringify(x) === JSON.stringify(v))) return false;
+  if (cond.gt !== undefined && !(typeof v === "number" && v > cond.gt)) return false;
+  if (cond.gte !== undefined && !(typeof v === "number" && v >= cond.gte)) return false;
+  if (cond.lt !== undefined && !(typeof v === "number" && v < cond.lt)) return false;
+  if (cond.lte !== undefined && !(typeof v === "number" && v <= cond.lte)) return false;
+  return true;
+}
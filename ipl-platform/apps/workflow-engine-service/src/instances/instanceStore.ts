@@ -0,0 +1,183 @@
+import { and, asc, desc, eq, inArray, lte, or, sql, type SQL } from "drizzle-orm";
+import { db } from "../db/index.js";
+import { humanTasks, workflowHistory, workflowInstances, type HumanTaskRow, type WorkflowInstance } from "../db/schema.js";
+import { WorkflowError } from "../engine/errors.js";
+import { nextDueAt } from "../engine/timers.js";
+import type { Actor } from "../engine/humanTasks.js";
+import type { HistoryEntry, HumanTask, HumanTaskStatus, InstanceState, InstanceStatus, WorkflowDefinition } from "../engine/types.js";
+
+type Tx = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+export async function createInstance(
+  definition: WorkflowDefinition,
+  state: InstanceState,
+  businessKey?: string,
+): Promise<WorkflowInstance> {
+  return db.transaction(async (tx) => {
+    const [row] = await tx.insert(workflowInstances).values({
+      workflowId: definition.workflowId,
+      workflowVersion: definition.version ?? null,
+      businessKey: businessKey || null,
+      definition,
+      status: "running",
+      state,
+      nextTimerAt: nextDueAt(state),
+    }).returning();
+    await tx.insert(workflowHistory).values({
+      instanceId: row.id,
+      event: "instance_started",
+      data: { workflowId: definition.workflowId, version: definition.version, variables: state.variables },
+    });
+    return row;
+  });
+}
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+export async function getInstance(id: string): Promise<WorkflowInstance> {
+  if (!UUID_PATTERN.test(id)) throw new WorkflowError("INSTANCE_NOT_FOUND", `Workflow instance ${id} not found`, 404);
+  const [row] = await db.select().from(workflowInstances).where(eq(workflowInstances.id, id)).limit(1);
+  if (!row) throw new WorkflowError("INSTANCE_NOT_FOUND", `Workflow instance ${id} not found`, 404);
+  return row;
+}
+
+async function syncHumanTasks(tx: Tx, instanceId: string, workflowId: string, tasks: Record<string, HumanTask> = {}) {
+  for (const task of Object.values(tasks)) {
+    const row = {
+      instanceId,
+      workflowId,
+      stepId: task.stepId,
+      title: task.title,
+      status: task.status,
+      candidateRoles: task.assignee.roles || [],
+      assignedUser: task.assignee.user || null,
+      claimedBy: task.claimedBy || null,
+      form: task.form,
+      data: task.data ?? null,
+      escalationLevel: task.escalationLevel,
+      dueAt: task.dueAt ? new Date(task.dueAt) : null,
+      completedBy: task.completedBy || null,
+      createdAt: new Date(task.createdAt),
+      completedAt: task.completedAt ? new Date(task.completedAt) : null,
+      updatedAt: new Date(),
+    };
+    await tx.insert(humanTasks).values({ id: task.id, ...row })
+      .onConflictDoUpdate({ target: humanTasks.id, set: row });
+  }
+}
+
+// Optimistic write: fails if another writer checkpointed since `revision` was loaded
+export async function saveInstance(
+  id: string,
+  revision: number,
+  update: { status: InstanceStatus; state: InstanceState; error?: any },
+  history: HistoryEntry[],
+): Promise<number> {
+  const open = update.status === "running" || update.status === "waiting";
+  return db.transaction(async (tx) => {
+    const now = new Date();
+    const updated = await tx.update(workflowInstances)
+      .set({
+        status: update.status,
+        state: update.state,
+        error: update.error ?? null,
+        revision: revision + 1,
+        nextTimerAt: open ? nextDueAt(update.state) : null,
+        updatedAt: now,
+        completedAt: update.status === "completed" ? now : null,
+      })
+      .where(and(eq(workflowInstances.id, id), eq(workflowInstances.revision, revision)))
+      .returning({ id: workflowInstances.id, workflowId: workflowInstances.workflowId });
+    if (!updated.length) {
+      throw new WorkflowError("CONCURRENT_MODIFICATION", `Workflow instance ${id} was modified concurrently`, 409);
+    }
+    if (history.length) {
+      await tx.insert(workflowHistory).values(history.map(h => ({
+        instanceId: id,
+        event: h.event,
+        stepId: h.stepId || null,
+        tokenId: h.tokenId || null,
+        data: h.data ?? null,
+      })));
+    }
+    await syncHumanTasks(tx, id, updated[0].workflowId, update.state.humanTasks);
+    return revision + 1;
+  });
+}
+
+export async function listInstances(filter: { status?: string; workflowId?: string; limit?: number } = {}) {
+  const conditions: SQL[] = [];
+  if (filter.status) conditions.push(eq(workflowInstances.status, filter.status as InstanceStatus));
+  if (filter.workflowId) conditions.push(eq(workflowInstances.workflowId, filter.workflowId));
+  return db.select({
+    id: workflowInstances.id,
+    workflowId: workflowInstances.workflowId,
+    workflowVersion: workflowInstances.workflowVersion,
+    businessKey: workflowInstances.businessKey,
+    status: workflowInstances.status,
+    createdAt: workflowInstances.createdAt,
+    updatedAt: workflowInstances.updatedAt,
+    completedAt: workflowInstances.completedAt,
+  }).from(workflowInstances)
+    .where(conditions.length ? and(...conditions) : undefined)
+    .orderBy(desc(workflowInstances.createdAt))
+    .limit(Math.min(filter.limit ?? 100, 500));
+}
+
+export async function getHistory(instanceId: string) {
+  return db.select().from(workflowHistory)
+    .where(eq(workflowHistory.instanceId, instanceId))
+    .orderBy(asc(workflowHistory.id));
+}
+
+export async function listInstanceIdsByStatus(status: InstanceStatus): Promise<string[]> {
+  const rows = await db.select({ id: workflowInstances.id }).from(workflowInstances)
+    .where(eq(workflowInstances.status, status));
+  return rows.map(r => r.id);
+}
+
+// Candidate instances with a token parked on this event; correlation keys are matched on delivery
+export async function findWaitingInstances(event: string): Promise<string[]> {
+  const rows = await db.select({ id: workflowInstances.id }).from(workflowInstances)
+    .where(and(
+      inArray(workflowInstances.status, ["running", "waiting"]),
+      sql`${workflowInstances.state}->'tokens' @> ${JSON.stringify([{ status: "waiting", waitingFor: { event } }])}::jsonb`,
+    ));
+  return rows.map(r => r.id);
+}
+
+export async function listDueInstances(now: Date): Promise<string[]> {
+  const rows = await db.select({ id: workflowInstances.id }).from(workflowInstances)
+    .where(and(
+      inArray(workflowInstances.status, ["running", "waiting"]),
+      lte(workflowInstances.nextTimerAt, now),
+    ))
+    .orderBy(asc(workflowInstances.nextTimerAt));
+  return rows.map(r => r.id);
+}
+
+export async function getTaskRow(taskId: string): Promise<HumanTaskRow> {
+  if (!UUID_PATTERN.test(taskId)) throw new WorkflowError("TASK_NOT_FOUND", `Task ${taskId} not found`, 404);
+  const [row] = await db.select().from(humanTasks).where(eq(humanTasks.id, taskId)).limit(1);
+  if (!row) throw new WorkflowError("TASK_NOT_FOUND", `Task ${taskId} not found`, 404);
+  return row;
+}
+
+// Tasks the actor may work: assigned to them, claimed by them, or offered to their role; supervisors see all
+export async function listInbox(actor: Actor, filter: { status?: HumanTaskStatus[]; workflowId?: string; mine?: boolean } = {}) {
+  const conditions: SQL[] = [inArray(humanTasks.status, filter.status?.length ? filter.status : ["open", "claimed"])];
+  if (filter.workflowId) conditions.push(eq(humanTasks.workflowId, filter.workflowId));
+  if (filter.mine) {
+    conditions.push(eq(humanTasks.claimedBy, actor.userId));
+  } else if (!actor.supervisor) {
+    conditions.push(or(
+      eq(humanTasks.assignedUser, actor.userId),
+      eq(humanTasks.claimedBy, actor.userId),
+      sql`${humanTasks.candidateRoles} @> ${JSON.stringify([actor.role])}::jsonb`,
+    )!);
+  }
+  return db.select().from(humanTasks)
+    .where(and(...conditions))
+    .orderBy(asc(humanTasks.dueAt), asc(humanTasks.createdAt))
+    .limit(200);
+}
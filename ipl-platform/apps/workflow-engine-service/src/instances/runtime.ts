@@ -0,0 +1,209 @@
+import { WorkflowError } from "../engine/errors.js";
+import { systemClock, type Clock } from "../engine/clock.js";
+import { validateDefinition } from "../engine/definition.js";
+import {
+  advance,
+  compensateNext,
+  completeHumanTask,
+  deliverEvent,
+  fireTimers,
+  initialState,
+  statusOf,
+  type RunContext,
+} from "../engine/executor.js";
+import { claimHumanTask, escalateHumanTask, type Actor } from "../engine/humanTasks.js";
+import type { HistoryEntry, InstanceStatus, TaskAssignee, WorkflowDefinition } from "../engine/types.js";
+import type { WorkflowInstance } from "../db/schema.js";
+import {
+  createInstance,
+  findWaitingInstances,
+  getInstance,
+  getTaskRow,
+  listDueInstances,
+  listInstanceIdsByStatus,
+  saveInstance,
+} from "./instanceStore.js";
+
+let clock: Clock = systemClock;
+
+// Tests and simulations swap in a ManualClock to drive timers deterministically
+export function setClock(next: Clock) {
+  clock = next;
+}
+
+// Serializes work per instance within this process; the revision check covers other processes
+const locks = new Map<string, Promise<unknown>>();
+
+function withInstanceLock<T>(id: string, fn: () => Promise<T>): Promise<T> {
+  const prev = locks.get(id) || Promise.resolve();
+  const next = prev.catch(() => undefined).then(fn);
+  locks.set(id, next);
+  next.finally(() => { if (locks.get(id) === next) locks.delete(id); }).catch(() => undefined);
+  return next;
+}
+
+type InstanceRun = RunContext & { revision: number };
+
+function runContext(row: WorkflowInstance): InstanceRun {
+  const run: InstanceRun = {
+    instanceId: row.id,
+    definition: row.definition,
+    state: structuredClone(row.state),
+    clock,
+    revision: row.revision,
+    checkpoint: async (status: InstanceStatus, history: HistoryEntry[]) => {
+      run.revision = await saveInstance(row.id, run.revision, { status, state: run.state }, history);
+    },
+  };
+  return run;
+}
+
+// Undoes completed steps newest first, checkpointing after each handler so a restart picks up where it stopped
+async function unwind(run: InstanceRun, error: any): Promise<void> {
+  for (;;) {
+    const history = await compensateNext(run);
+    if (!history) break;
+    run.revision = await saveInstance(run.instanceId, run.revision, { status: "compensating", state: run.state, error }, history);
+  }
+  run.revision = await saveInstance(run.instanceId, run.revision, { status: "failed", state: run.state, error }, [
+    { event: "instance_failed", data: { code: error?.code } },
+  ]);
+}
+
+// Runs until every token waits or completes; failures are recorded on the instance, not thrown
+async function drive(run: InstanceRun): Promise<void> {
+  try {
+    await advance(run);
+  } catch (e: any) {
+    const error = {
+      stepId: run.current?.stepId,
+      code: e instanceof WorkflowError ? e.code : "STEP_FAILED",
+      message: e?.message || String(e),
+      details: e instanceof WorkflowError ? e.details : undefined,
+    };
+    const status = run.state.compensations?.length ? "compensating" : "failed";
+    run.revision = await saveInstance(run.instanceId, run.revision, { status, state: run.state, error }, [
+      { event: "failed", stepId: run.current?.stepId, tokenId: run.current?.tokenId, data: error },
+    ]);
+    if (status === "compensating") await unwind(run, error);
+  }
+}
+
+export async function startInstance(definition: WorkflowDefinition, variables: Record<string, any> = {}, businessKey?: string) {
+  const problems = validateDefinition(definition);
+  if (problems.length) {
+    throw new WorkflowError("INVALID_WORKFLOW", `Workflow ${definition?.workflowId} failed validation`, 422, problems);
+  }
+  const row = await createInstance(definition, initialState(definition, variables), businessKey);
+  return withInstanceLock(row.id, async () => {
+    await drive(runContext(row));
+    return getInstance(row.id);
+  });
+}
+
+export async function signalInstance(instanceId: string, event: string, payload?: any, correlationKey?: any) {
+  const key = correlationKey === undefined || correlationKey === null ? undefined : String(correlationKey);
+  return withInstanceLock(instanceId, async () => {
+    const row = await getInstance(instanceId);
+    if (row.status === "completed" || row.status === "failed" || row.status === "compensating") {
+      throw new WorkflowError("INSTANCE_CLOSED", `Workflow instance ${instanceId} is ${row.status}`, 409);
+    }
+    const run = runContext(row);
+    const { released, history } = deliverEvent(run, event, payload, key);
+    if (!released.length) {
+      throw new WorkflowError("NO_WAITING_TOKEN", `Workflow instance ${instanceId} is not waiting for "${event}"`, 409);
+    }
+    await run.checkpoint(statusOf(run.state), history);
+    await drive(run);
+    return { instance: await getInstance(instanceId), released };
+  });
+}
+
+// Applies a human-task transition under the owning instance's lock, then lets the instance run on
+async function withTask(taskId: string, apply: (run: InstanceRun) => HistoryEntry[]) {
+  const { instanceId } = await getTaskRow(taskId);
+  return withInstanceLock(instanceId, async () => {
+    const row = await getInstance(instanceId);
+    if (row.status !== "running" && row.status !== "waiting") {
+      throw new WorkflowError("INSTANCE_CLOSED", `Workflow instance ${instanceId} is ${row.status}`, 409);
+    }
+    const run = runContext(row);
+    const history = apply(run);
+    await run.checkpoint(statusOf(run.state), history);
+    await drive(run);
+    return { instance: await getInstance(instanceId), task: await getTaskRow(taskId) };
+  });
+}
+
+export function claimTask(taskId: string, actor: Actor) {
+  return withTask(taskId, (run) => claimHumanTask(run, taskId, actor));
+}
+
+export function completeTask(taskId: string, actor: Actor, data: Record<string, any>) {
+  return withTask(taskId, (run) => completeHumanTask(run, taskId, actor, data));
+}
+
+export function escalateTask(taskId: string, actor: Actor, target?: TaskAssignee, reason?: string) {
+  return withTask(taskId, (run) => escalateHumanTask(run, taskId, { target, actor: actor.userId, reason }));
+}
+
+// Delivers an event to every instance waiting on it, filtered by correlation key when given
+export async function publishEvent(event: string, payload?: any, correlationKey?: any) {
+  const delivered: Array<{ instanceId: string; released: string[]; status: string }> = [];
+  for (const id of await findWaitingInstances(event)) {
+    try {
+      const { instance, released } = await signalInstance(id, event, payload, correlationKey);
+      delivered.push({ instanceId: id, released, status: instance.status });
+    } catch (e: any) {
+      if (!(e instanceof WorkflowError && e.code === "NO_WAITING_TOKEN")) throw e;
+    }
+  }
+  return delivered;
+}
+
+// Instances left "running" by a crash continue from their last checkpoint; the interrupted step runs again
+export async function resumeRunningInstances(): Promise<number> {
+  const running = await listInstanceIdsByStatus("running");
+  for (const id of running) {
+    await withInstanceLock(id, async () => drive(runContext(await getInstance(id))));
+  }
+  const compensating = await listInstanceIdsByStatus("compensating");
+  for (const id of compensating) {
+    await withInstanceLock(id, async () => {
+      const row = await getInstance(id);
+      await unwind(runContext(row), row.error);
+    });
+  }
+  return running.length + compensating.length;
+}
+
+// Fires every timer due by the clock's current time; timers live in Postgres so they survive restarts
+export async function fireDueTimers(): Promise<number> {
+  const now = clock.now();
+  let fired = 0;
+  for (const id of await listDueInstances(now)) {
+    await withInstanceLock(id, async () => {
+      const row = await getInstance(id);
+      if (row.status !== "running" && row.status !== "waiting") return;
+      const run = runContext(row);
+      const history = fireTimers(run, now);
+      if (!history.length) return;
+      fired++;
+      await run.checkpoint(statusOf(run.state), history);
+      await drive(run);
+    });
+  }
+  return fired;
+}
+
+export function startTimerLoop(intervalMs = 1000): () => void {
+  let busy = false;
+  const handle = setInterval(() => {
+    if (busy) return;
+    busy = true;
+    fireDueTimers()
+      .catch(e => console.error("Workflow timer sweep failed:", e))
+      .finally(() => { busy = false; });
+  }, intervalMs);
+  return () => clearInterval(handle);
+}
@@ -1,4 +1,246 @@
+import "dotenv/config";
 import express from "express";
-const app = express(); app.use(express.json());
-app.get("/health",(_,res)=>res.json({ok:true,service:"workflow-engine-service"}));
-app.listen(7300,()=>console.log("Workflow Engine on :7300"));
+import cors from "cors";
+import { WorkflowError } from "./engine/errors.js";
+import { validateDefinition } from "./engine/definition.js";
+import type { Actor } from "./engine/humanTasks.js";
+import type { HumanTaskStatus } from "./engine/types.js";
+import type { HumanTaskRow, WorkflowInstance } from "./db/schema.js";
+import { authMiddleware, currentUser, requireRole, SUPERVISOR_ROLES } from "./auth/jwt.js";
+import { importBpmn } from "./bpmn/importer.js";
+import { exportBpmn } from "./bpmn/exporter.js";
+import { mergedSpecWorkflows, resolveWorkflow } from "./spec/workflowSource.js";
+import { getHistory, getInstance, getTaskRow, listInbox, listInstances } from "./instances/instanceStore.js";
+import {
+  claimTask,
+  completeTask,
+  escalateTask,
+  publishEvent,
+  resumeRunningInstances,
+  signalInstance,
+  startInstance,
+  startTimerLoop,
+} from "./instances/runtime.js";
+
+const app = express();
+app.use(cors());
+app.use(express.json({ limit: "2mb" }));
+app.use(express.text({ type: ["application/xml", "text/xml", "application/bpmn+xml"], limit: "2mb" }));
+
+function sendError(res: express.Response, e: any) {
+  if (e instanceof WorkflowError) {
+    return res.status(e.statusCode).json({ ok: false, code: e.code, error: e.message, details: e.details });
+  }
+  console.error("Workflow engine error:", e);
+  return res.status(500).json({ ok: false, error: e?.message || String(e) });
+}
+
+function instanceView(row: WorkflowInstance) {
+  return {
+    id: row.id,
+    workflowId: row.workflowId,
+    workflowVersion: row.workflowVersion,
+    businessKey: row.businessKey,
+    status: row.status,
+    variables: row.state.variables,
+    tokens: row.state.tokens.filter(t => t.status !== "done"),
+    waitingFor: row.state.tokens.filter(t => t.waitingFor).map(t => ({ tokenId: t.id, stepId: t.stepId, ...t.waitingFor })),
+    timers: row.state.tokens.filter(t => t.timer).map(t => ({ tokenId: t.id, stepId: t.stepId, ...t.timer })),
+    tasks: Object.values(row.state.humanTasks || {}).filter(t => t.status === "open" || t.status === "claimed"),
+    error: row.error,
+    createdAt: row.createdAt,
+    updatedAt: row.updatedAt,
+    completedAt: row.completedAt,
+  };
+}
+
+function actorOf(req: express.Request): Actor {
+  const user = currentUser(req);
+  return { userId: user.userId, role: user.role, supervisor: SUPERVISOR_ROLES.includes(user.role) };
+}
+
+function visibleTo(task: HumanTaskRow, actor: Actor): boolean {
+  return !!actor.supervisor
+    || task.assignedUser === actor.userId
+    || task.claimedBy === actor.userId
+    || task.completedBy === actor.userId
+    || !!task.candidateRoles?.includes(actor.role);
+}
+
+app.get("/health", (_, res) => res.json({ ok: true, service: "workflow-engine-service" }));
+
+// Check a definition without starting it
+app.post("/workflows/validate", (req, res) => {
+  const problems = validateDefinition(req.body?.definition);
+  res.status(problems.length ? 422 : 200).json({ ok: problems.length === 0, problems });
+});
+
+// BPMN 2.0 XML, either as the raw body or as { xml, workflowId?, version?, processId? }; returns a spec `workflows` entry
+app.post("/workflows/import/bpmn", (req, res) => {
+  try {
+    const body = typeof req.body === "string" ? { xml: req.body } : req.body || {};
+    const options = { ...req.query, ...body };
+    const result = importBpmn(body.xml, {
+      workflowId: options.workflowId,
+      version: options.version === undefined ? undefined : Number(options.version),
+      processId: options.processId,
+    });
+    res.json({ ok: true, ...result });
+  } catch (e: any) {
+    sendError(res, e);
+  }
+});
+
+app.post("/workflows/export/bpmn", (req, res) => {
+  try {
+    const { workflowId, version, definition, spec } = req.body || {};
+    if (!definition && !workflowId) {
+      return res.status(400).json({ ok: false, error: "workflowId or definition required" });
+    }
+    const def = definition || resolveWorkflow(mergedSpecWorkflows(spec), workflowId, version === undefined ? undefined : Number(version));
+    res.type("application/xml").send(exportBpmn(def));
+  } catch (e: any) {
+    sendError(res, e);
+  }
+});
+
+// Start an instance from an inline definition, the spec's workflows, or the domain packs
+app.post("/instances", async (req, res) => {
+  try {
+    const { workflowId, version, definition, spec, variables, businessKey } = req.body || {};
+    if (!definition && !workflowId) {
+      return res.status(400).json({ ok: false, error: "workflowId or definition required" });
+    }
+    if (variables !== undefined && (typeof variables !== "object" || Array.isArray(variables))) {
+      return res.status(400).json({ ok: false, error: "variables must be an object" });
+    }
+    const def = definition || resolveWorkflow(mergedSpecWorkflows(spec), workflowId, version === undefined ? undefined : Number(version));
+    const instance = await startInstance(def, variables || {}, businessKey);
+    res.status(201).json({ ok: true, instance: instanceView(instance) });
+  } catch (e: any) {
+    sendError(res, e);
+  }
+});
+
+app.get("/instances", async (req, res) => {
+  try {
+    const instances = await listInstances({
+      status: req.query.status as string | undefined,
+      workflowId: req.query.workflowId as string | undefined,
+      limit: req.query.limit ? Number(req.query.limit) : undefined,
+    });
+    res.json({ ok: true, instances });
+  } catch (e: any) {
+    sendError(res, e);
+  }
+});
+
+app.get("/instances/:id", async (req, res) => {
+  try {
+    res.json({ ok: true, instance: instanceView(await getInstance(req.params.id)) });
+  } catch (e: any) {
+    sendError(res, e);
+  }
+});
+
+app.get("/instances/:id/history", async (req, res) => {
+  try {
+    await getInstance(req.params.id);
+    res.json({ ok: true, history: await getHistory(req.params.id) });
+  } catch (e: any) {
+    sendError(res, e);
+  }
+});
+
+// Resume tokens of one instance that wait on this event
+app.post("/instances/:id/events", async (req, res) => {
+  try {
+    const { event, payload, correlationKey } = req.body || {};
+    if (!event) return res.status(400).json({ ok: false, error: "event required" });
+    const { instance, released } = await signalInstance(req.params.id, event, payload, correlationKey);
+    res.json({ ok: true, released, instance: instanceView(instance) });
+  } catch (e: any) {
+    sendError(res, e);
+  }
+});
+
+// Broadcast an event to all waiting instances, matched by correlationKey when given
+app.post("/events", async (req, res) => {
+  try {
+    const { event, payload, correlationKey } = req.body || {};
+    if (!event) return res.status(400).json({ ok: false, error: "event required" });
+    const delivered = await publishEvent(event, payload, correlationKey);
+    res.json({ ok: true, delivered });
+  } catch (e: any) {
+    sendError(res, e);
+  }
+});
+
+// Human task inbox; callers authenticate with the JWT issued by the generated auth module
+app.get("/tasks", authMiddleware, async (req, res) => {
+  try {
+    const status = typeof req.query.status === "string"
+      ? req.query.status.split(",").filter(Boolean) as HumanTaskStatus[]
+      : undefined;
+    const tasks = await listInbox(actorOf(req), {
+      status,
+      workflowId: req.query.workflowId as string | undefined,
+      mine: req.query.mine === "true",
+    });
+    res.json({ ok: true, tasks });
+  } catch (e: any) {
+    sendError(res, e);
+  }
+});
+
+app.get("/tasks/:id", authMiddleware, async (req, res) => {
+  try {
+    const task = await getTaskRow(req.params.id);
+    if (!visibleTo(task, actorOf(req))) throw new WorkflowError("TASK_NOT_FOUND", `Task ${req.params.id} not found`, 404);
+    res.json({ ok: true, task });
+  } catch (e: any) {
+    sendError(res, e);
+  }
+});
+
+app.post("/tasks/:id/claim", authMiddleware, async (req, res) => {
+  try {
+    const { task } = await claimTask(req.params.id, actorOf(req));
+    res.json({ ok: true, task });
+  } catch (e: any) {
+    sendError(res, e);
+  }
+});
+
+app.post("/tasks/:id/complete", authMiddleware, async (req, res) => {
+  try {
+    const data = req.body?.data;
+    if (data !== undefined && (typeof data !== "object" || Array.isArray(data))) {
+      return res.status(400).json({ ok: false, error: "data must be an object" });
+    }
+    const { task, instance } = await completeTask(req.params.id, actorOf(req), data || {});
+    res.json({ ok: true, task, instance: instanceView(instance) });
+  } catch (e: any) {
+    sendError(res, e);
+  }
+});
+
+// Manual escalation; without roles/user the step's sla.escalateTo is used
+app.post("/tasks/:id/escalate", authMiddleware, requireRole(...SUPERVISOR_ROLES), async (req, res) => {
+  try {
+    const { roles, user, reason } = req.body || {};
+    const target = roles || user ? { roles: Array.isArray(roles) ? roles : roles ? [roles] : undefined, user } : undefined;
+    const { task } = await escalateTask(req.params.id, actorOf(req), target, reason);
+    res.json({ ok: true, task });
+  } catch (e: any) {
+    sendError(res, e);
+  }
+});
+
+app.listen(7300, () => {
+  console.log("Workflow Engine on :7300");
+  resumeRunningInstances()
+    .then(n => { if (n) console.log(`Resumed ${n} running workflow instance(s)`); })
+    .catch(e => console.error("Failed to resume workflow instances:", e))
+    .finally(() => startTimerLoop(Number(process.env.WORKFLOW_TIMER_POLL_MS) || 1000));
+});
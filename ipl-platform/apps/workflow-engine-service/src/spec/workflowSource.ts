@@ -0,0 +1,34 @@
+import { DomainPackError, installedDomainPacks, mergeDomainPacksIntoSpec } from "@ipl/ai-generator-service/domain-packs";
+import { WorkflowError } from "../engine/errors.js";
+import type { WorkflowDefinition } from "../engine/types.js";
+
+// A spec listing domains gets its packs merged exactly as the AI generator merges them; otherwise spec workflows
+// come first and every installed pack adds its own, deduped on workflowId
+export function mergedSpecWorkflows(spec?: any): WorkflowDefinition[] {
+  if (spec?.app?.domain?.length) {
+    try {
+      return mergeDomainPacksIntoSpec(spec).workflows;
+    } catch (e) {
+      if (e instanceof DomainPackError) throw new WorkflowError("DOMAIN_PACK_INVALID", e.message, 422, e.issues);
+      throw e;
+    }
+  }
+  const workflows: WorkflowDefinition[] = [...(spec?.workflows || [])];
+  for (const pack of installedDomainPacks()) {
+    for (const pw of pack.workflows as WorkflowDefinition[]) {
+      if (!workflows.find(w => w.workflowId === pw.workflowId)) workflows.push(pw);
+    }
+  }
+  return workflows;
+}
+
+export function resolveWorkflow(workflows: WorkflowDefinition[], workflowId: string, version?: number): WorkflowDefinition {
+  const candidates = workflows.filter(w => w.workflowId === workflowId);
+  if (!candidates.length) throw new WorkflowError("WORKFLOW_NOT_FOUND", `Workflow ${workflowId} not found`, 404);
+  if (version !== undefined) {
+    const exact = candidates.find(w => Number(w.version ?? 1) === version);
+    if (!exact) throw new WorkflowError("WORKFLOW_NOT_FOUND", `Workflow ${workflowId} has no version ${version}`, 404);
+    return exact;
+  }
+  return [...candidates].sort((a, b) => Number(b.version ?? 1) - Number(a.version ?? 1))[0];
+}
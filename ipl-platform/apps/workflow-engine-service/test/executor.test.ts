@@ -0,0 +1,66 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { ManualClock } from "../src/engine/clock.js";
+import { validateDefinition } from "../src/engine/definition.js";
+import { advance, deliverEvent, initialState, statusOf, type RunContext } from "../src/engine/executor.js";
+import type { HistoryEntry, WorkflowDefinition, WorkflowStep } from "../src/engine/types.js";
+
+function runOf(definition: WorkflowDefinition): RunContext & { history: HistoryEntry[] } {
+  const history: HistoryEntry[] = [];
+  return {
+    instanceId: "i1",
+    definition,
+    state: initialState(definition),
+    clock: new ManualClock("2025-01-01T00:00:00Z"),
+    history,
+    checkpoint: async (_status, entries) => { history.push(...entries); },
+  };
+}
+
+// The inner parallel's join has no next, so its merged token ends the inner branch of the outer fork
+const nested: WorkflowDefinition = {
+  workflowId: "nested",
+  start: "outer",
+  steps: [
+    { id: "outer", type: "parallel", branches: ["a", "inner"], join: "outer_join" },
+    { id: "a", type: "task", action: "set", input: { a: true }, next: "outer_join" },
+    { id: "inner", type: "parallel", branches: ["b", "c"], join: "inner_join" },
+    { id: "b", type: "task", action: "set", input: { b: true }, next: "inner_join" },
+    { id: "c", type: "wait", event: "approved", next: "inner_join" },
+    { id: "inner_join", type: "join" },
+    { id: "outer_join", type: "join", next: "finish" },
+    { id: "finish", type: "task", action: "set", input: { finished: true } },
+  ],
+};
+
+test("a nested join without a next releases the enclosing join", async () => {
+  assert.deepEqual(validateDefinition(nested), []);
+  const run = runOf(nested);
+  assert.equal(await advance(run), "waiting");
+  assert.equal(run.history.filter(h => h.event === "joined").length, 0);
+
+  const { released, history } = deliverEvent(run, "approved", { by: "ana" });
+  assert.equal(released.length, 1);
+  await run.checkpoint(statusOf(run.state), history);
+  assert.equal(await advance(run), "completed");
+
+  assert.deepEqual(run.history.filter(h => h.event === "joined").map(h => h.stepId), ["inner_join", "outer_join"]);
+  assert.deepEqual(run.state.forks, {});
+  assert.deepEqual(run.state.tokens.map(t => [t.status, t.forks]), [["done", []]]);
+  assert.equal(run.state.variables.finished, true);
+});
+
+test("nested joins that both lack a next complete the instance", async () => {
+  const def: WorkflowDefinition = {
+    ...nested,
+    steps: nested.steps.map((s): WorkflowStep => {
+      if (s.id === "c") return { id: "c", type: "task", action: "set", input: { c: true }, next: "inner_join" };
+      if (s.id === "outer_join") return { id: "outer_join", type: "join" };
+      return s;
+    }),
+  };
+  const run = runOf(def);
+  assert.equal(await advance(run), "completed");
+  assert.deepEqual(run.history.filter(h => h.event === "joined").map(h => h.stepId), ["inner_join", "outer_join"]);
+  assert.deepEqual(run.state.variables, { a: true, b: true, c: true });
+});
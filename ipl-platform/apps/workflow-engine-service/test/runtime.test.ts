@@ -0,0 +1,143 @@
+import assert from "node:assert/strict";
+import { after, beforeEach, test } from "node:test";
+import { ManualClock } from "../src/engine/clock.js";
+import { registerTaskHandler } from "../src/engine/taskHandlers.js";
+import type { WorkflowDefinition } from "../src/engine/types.js";
+import { startTestDatabase } from "./testDb.js";
+
+const database = await startTestDatabase();
+const runtime = await import("../src/instances/runtime.js");
+const store = await import("../src/instances/instanceStore.js");
+const { pool } = await import("../src/db/index.js");
+
+const clock = new ManualClock("2025-03-01T09:00:00Z");
+runtime.setClock(clock);
+
+const SECOND = 1000;
+const events = async (instanceId: string, ...names: string[]) =>
+  (await store.getHistory(instanceId)).filter(h => names.includes(h.event));
+
+let failuresLeft = 0;
+const calls: string[] = [];
+registerTaskHandler("flaky", async () => {
+  if (failuresLeft-- > 0) throw new Error("downstream unavailable");
+  return { ok: true };
+});
+registerTaskHandler("record", async (input) => {
+  calls.push(input.name);
+  return null;
+});
+
+beforeEach(() => {
+  calls.length = 0;
+});
+
+after(async () => {
+  await pool.end();
+  await database.stop();
+});
+
+test("a timer step waits until the clock reaches its due time", async () => {
+  const def: WorkflowDefinition = {
+    workflowId: "reminder",
+    start: "pause",
+    steps: [
+      { id: "pause", type: "timer", duration: "PT1H", next: "remind" },
+      { id: "remind", type: "task", action: "record", input: { name: "remind" } },
+    ],
+  };
+  const started = await runtime.startInstance(def);
+  assert.equal(started.status, "waiting");
+  assert.equal(started.nextTimerAt?.toISOString(), "2025-03-01T10:00:00.000Z");
+
+  clock.advance(59 * 60 * SECOND);
+  assert.equal(await runtime.fireDueTimers(), 0);
+  assert.deepEqual(calls, []);
+
+  clock.advance(60 * SECOND);
+  assert.equal(await runtime.fireDueTimers(), 1);
+  const done = await store.getInstance(started.id);
+  assert.equal(done.status, "completed");
+  assert.equal(done.nextTimerAt, null);
+  assert.deepEqual(calls, ["remind"]);
+  assert.deepEqual((await events(started.id, "timer_started", "timer_fired")).map(h => h.event), ["timer_started", "timer_fired"]);
+});
+
+test("failed steps retry with exponential backoff until they succeed", async () => {
+  failuresLeft = 2;
+  const def: WorkflowDefinition = {
+    workflowId: "sync",
+    start: "push",
+    steps: [{
+      id: "push",
+      type: "task",
+      action: "flaky",
+      resultVar: "pushed",
+      retry: { maxAttempts: 3, backoff: { initial: "10s", multiplier: 3 } },
+    }],
+  };
+  const started = await runtime.startInstance(def);
+  const t0 = clock.now().getTime();
+  assert.equal(started.status, "waiting");
+  assert.equal(started.nextTimerAt?.getTime(), t0 + 10 * SECOND);
+
+  clock.advance(9 * SECOND);
+  assert.equal(await runtime.fireDueTimers(), 0);
+  clock.advance(SECOND);
+  assert.equal(await runtime.fireDueTimers(), 1);
+  const second = await store.getInstance(started.id);
+  assert.equal(second.status, "waiting");
+  assert.equal(second.nextTimerAt?.getTime(), t0 + 40 * SECOND);
+
+  clock.set(t0 + 40 * SECOND);
+  assert.equal(await runtime.fireDueTimers(), 1);
+  const done = await store.getInstance(started.id);
+  assert.equal(done.status, "completed");
+  assert.deepEqual(done.state.variables.pushed, { ok: true });
+
+  const scheduled = await events(started.id, "retry_scheduled");
+  assert.deepEqual(scheduled.map(h => h.data as { attempt: number; dueAt: string }).map(d => [d.attempt, Date.parse(d.dueAt) - t0]), [[1, 10 * SECOND], [2, 40 * SECOND]]);
+});
+
+test("a step that exhausts its attempts fails the instance", async () => {
+  failuresLeft = 5;
+  const def: WorkflowDefinition = {
+    workflowId: "sync_once",
+    start: "push",
+    steps: [{ id: "push", type: "task", action: "flaky", retry: { maxAttempts: 2, backoff: { initial: "5s" } } }],
+  };
+  const started = await runtime.startInstance(def);
+  clock.advance(5 * SECOND);
+  assert.equal(await runtime.fireDueTimers(), 1);
+  const failed = await store.getInstance(started.id);
+  assert.equal(failed.status, "failed");
+  assert.equal((failed.error as any).message, "downstream unavailable");
+});
+
+test("a failure unwinds completed steps newest first", async () => {
+  const def: WorkflowDefinition = {
+    workflowId: "booking",
+    start: "reserve_room",
+    steps: [
+      { id: "reserve_room", type: "task", action: "record", input: { name: "reserve_room" }, next: "charge_card", compensate: { action: "record", input: { name: "release_room" } } },
+      { id: "charge_card", type: "task", action: "record", input: { name: "charge_card" }, next: "wait", compensate: { action: "record", input: { name: "refund_card" } } },
+      { id: "wait", type: "timer", duration: "1d", next: "confirm" },
+      { id: "confirm", type: "fail", error: "NO_CONFIRMATION" },
+    ],
+  };
+  const started = await runtime.startInstance(def);
+  assert.deepEqual(calls, ["reserve_room", "charge_card"]);
+
+  clock.advance(24 * 60 * 60 * SECOND);
+  assert.equal(await runtime.fireDueTimers(), 1);
+  assert.deepEqual(calls, ["reserve_room", "charge_card", "refund_card", "release_room"]);
+
+  const failed = await store.getInstance(started.id);
+  assert.equal(failed.status, "failed");
+  assert.equal((failed.error as any).code, "NO_CONFIRMATION");
+  assert.deepEqual(failed.state.compensations, []);
+  assert.deepEqual(
+    (await events(started.id, "failed", "compensated", "instance_failed")).map(h => [h.event, h.stepId]),
+    [["failed", "confirm"], ["compensated", "charge_card"], ["compensated", "reserve_room"], ["instance_failed", null]]
+  );
+});
@@ -0,0 +1,22 @@
+import { PGlite } from "@electric-sql/pglite";
+import { PGLiteSocketServer } from "@electric-sql/pglite-socket";
+import { generateDrizzleJson, generateMigration } from "drizzle-kit/api";
+import * as schema from "../src/db/schema.js";
+
+// An in-memory Postgres (PGlite) served over the wire protocol, so src/db talks to it through pg as it would in production.
+// Call before importing anything that imports src/db: the pool reads DATABASE_URL when first imported.
+export async function startTestDatabase(): Promise<{ db: PGlite; stop: () => Promise<void> }> {
+  const db = await PGlite.create();
+  const empty = generateDrizzleJson({});
+  for (const statement of await generateMigration(empty, generateDrizzleJson(schema))) await db.exec(statement);
+  const server = new PGLiteSocketServer({ db, port: 0, maxConnections: 20 });
+  await server.start();
+  process.env.DATABASE_URL = `postgres://postgres@${server.getServerConn()}/postgres`;
+  return {
+    db,
+    stop: async () => {
+      await server.stop();
+      await db.close();
+    },
+  };
+}